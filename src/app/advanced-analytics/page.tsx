@@ -3,7 +3,9 @@
 import React, { useState, useEffect } from 'react';
 import { usePortfolioStore } from '@/store/portfolio';
 import PerformanceMetricsPanel from '@/components/PerformanceMetricsPanel';
-import { analyticsEngine, PortfolioAttribution, AIPerformanceMetrics } from '@/services/analyticsEngine';
+import AICalibrationReport from '@/components/AICalibrationReport';
+import { analyticsEngine, PortfolioAttribution, AIPerformanceMetrics, BenchmarkComparison } from '@/services/analyticsEngine';
+import { usePortfolioSnapshots } from '@/hooks/usePortfolioSnapshots';
 import MobileNav from '@/components/MobileNav';
 
 interface TabProps {
@@ -270,18 +272,29 @@ const AIPerformanceTab: React.FC = () => {
 
   if (!aiMetrics || aiMetrics.totalRecommendations === 0) {
     return (
-      <div className="text-center py-12">
-        <div className="text-6xl mb-4">🤖</div>
-        <h3 className="text-lg font-semibold mb-2">No AI Recommendations Yet</h3>
-        <p className="text-gray-500">
-          Start trading with AI recommendations to see performance analytics
-        </p>
+      <div className="space-y-6">
+        <AICalibrationReport />
+        <div className="text-center py-12">
+          <div className="text-6xl mb-4">🤖</div>
+          <h3 className="text-lg font-semibold mb-2">No AI Trades Yet</h3>
+          <p className="text-gray-500">
+            Start trading with AI recommendations to see trade performance analytics
+          </p>
+        </div>
       </div>
     );
   }
 
   return (
     <div className="space-y-6">
+      <AICalibrationReport />
+
+      {/* Trade-based metrics only see recommendations that were acted on */}
+      <div>
+        <h3 className="text-lg font-semibold">Trades Taken on AI Recommendations</h3>
+        <p className="text-sm text-gray-500">Based only on the recommendations you traded</p>
+      </div>
+
       {/* Overview Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <QuickStatsCard
@@ -417,22 +430,202 @@ const AIPerformanceTab: React.FC = () => {
   );
 };
 
-const BenchmarkTab: React.FC = () => (
-  <div className="space-y-6">
-    <div className="bg-white rounded-lg p-6 border border-gray-200">
-      <div className="text-center py-12">
-        <div className="text-6xl mb-4">📊</div>
-        <h3 className="text-lg font-semibold mb-2">Benchmark Comparison</h3>
-        <p className="text-gray-500 mb-4">
-          Compare your portfolio performance against market indices
-        </p>
-        <div className="text-sm text-blue-600 bg-blue-50 p-3 rounded-lg">
-          🚧 Coming Soon: Real-time benchmark comparison with S&P 500, NASDAQ, and sector indices
+const BENCHMARK_PRESETS = [
+  { symbol: 'SPY', label: 'S&P 500' },
+  { symbol: 'QQQ', label: 'NASDAQ 100' },
+  { symbol: 'DIA', label: 'Dow Jones' }
+];
+
+const BenchmarkTab: React.FC = () => {
+  const portfolioStore = usePortfolioStore();
+  const { snapshots, isLoading: snapshotsLoading } = usePortfolioSnapshots(undefined, portfolioStore.transactions.length);
+  const [benchmarkSymbol, setBenchmarkSymbol] = useState('SPY');
+  const [symbolInput, setSymbolInput] = useState('');
+  const [comparison, setComparison] = useState<BenchmarkComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (snapshotsLoading) return;
+
+    const compare = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await analyticsEngine.generateBenchmarkComparison(portfolioStore, benchmarkSymbol, snapshots);
+        setComparison(result);
+      } catch (err) {
+        console.error('Error calculating benchmark comparison:', err);
+        setComparison(null);
+        setError(err instanceof Error ? err.message : 'Failed to load benchmark data');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    compare();
+  }, [benchmarkSymbol, snapshots, snapshotsLoading]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const submitSymbol = (e: React.FormEvent) => {
+    e.preventDefault();
+    const symbol = symbolInput.trim().toUpperCase();
+    if (symbol) {
+      setBenchmarkSymbol(symbol);
+      setSymbolInput('');
+    }
+  };
+
+  const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+  const renderChart = (data: BenchmarkComparison) => {
+    const values = data.series.flatMap(point => [point.portfolio, point.benchmark]);
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min || 1;
+    const toPoints = (key: 'portfolio' | 'benchmark') => data.series
+      .map((point, index) => `${(index / (data.series.length - 1)) * 100},${40 - ((point[key] - min) / range) * 40}`)
+      .join(' ');
+
+    return (
+      <div>
+        <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-48">
+          <polyline points={toPoints('benchmark')} fill="none" stroke="#9ca3af" strokeWidth="0.5" vectorEffect="non-scaling-stroke" />
+          <polyline points={toPoints('portfolio')} fill="none" stroke="#2563eb" strokeWidth="0.8" vectorEffect="non-scaling-stroke" />
+        </svg>
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{data.series[0].date}</span>
+          <span>
+            <span className="text-blue-600">━ Portfolio</span>
+            <span className="ml-3 text-gray-400">━ {data.benchmarkName}</span>
+          </span>
+          <span>{data.series[data.series.length - 1].date}</span>
         </div>
       </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg p-6 border border-gray-200">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">Benchmark Comparison</h3>
+            <p className="text-sm text-gray-500">Daily portfolio snapshots against {benchmarkSymbol} closes</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {BENCHMARK_PRESETS.map(preset => (
+              <button
+                key={preset.symbol}
+                onClick={() => setBenchmarkSymbol(preset.symbol)}
+                title={preset.label}
+                className={`px-3 py-1 rounded-lg text-sm font-medium ${
+                  benchmarkSymbol === preset.symbol
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {preset.symbol}
+              </button>
+            ))}
+            <form onSubmit={submitSymbol} className="flex">
+              <input
+                type="text"
+                value={symbolInput}
+                onChange={(e) => setSymbolInput(e.target.value)}
+                placeholder="Any symbol"
+                className="w-28 px-2 py-1 border border-gray-300 rounded-l-lg text-sm uppercase"
+              />
+              <button type="submit" className="px-3 py-1 bg-gray-800 text-white rounded-r-lg text-sm">
+                Compare
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-500 border-t-transparent mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading {benchmarkSymbol} history...</p>
+          </div>
+        </div>
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4">{error}</div>
+      ) : !comparison || comparison.series.length < 3 ? (
+        <div className="bg-white rounded-lg p-6 border border-gray-200 text-center text-gray-500">
+          📸 Benchmark metrics need a few daily portfolio snapshots. They are recorded after each market close.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <QuickStatsCard
+              title="Portfolio Return"
+              value={formatPercent(comparison.portfolioReturn)}
+              trend={comparison.portfolioReturn > 0 ? 'up' : comparison.portfolioReturn < 0 ? 'down' : 'neutral'}
+              icon="💼"
+            />
+            <QuickStatsCard
+              title={`${comparison.benchmarkName} Return`}
+              value={formatPercent(comparison.benchmarkReturn)}
+              trend={comparison.benchmarkReturn > 0 ? 'up' : comparison.benchmarkReturn < 0 ? 'down' : 'neutral'}
+              icon="📈"
+            />
+            <QuickStatsCard
+              title="Relative Performance"
+              value={formatPercent(comparison.relativePerformance)}
+              trend={comparison.relativePerformance > 0 ? 'up' : comparison.relativePerformance < 0 ? 'down' : 'neutral'}
+              icon="⚖️"
+            />
+            <QuickStatsCard
+              title="Alpha (annualized)"
+              value={formatPercent(comparison.alpha)}
+              trend={comparison.alpha > 0 ? 'up' : comparison.alpha < 0 ? 'down' : 'neutral'}
+              icon="🎯"
+            />
+          </div>
+
+          <div className="bg-white rounded-lg p-6 border border-gray-200">
+            <h3 className="text-lg font-semibold mb-4">Growth of 100</h3>
+            {renderChart(comparison)}
+          </div>
+
+          <div className="bg-white rounded-lg p-6 border border-gray-200">
+            <h3 className="text-lg font-semibold mb-4">Risk vs. {comparison.benchmarkName}</h3>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <div className="text-center p-3 bg-gray-50 rounded-lg">
+                <div className="text-xl font-bold">{comparison.beta.toFixed(2)}</div>
+                <div className="text-sm text-gray-500">Beta</div>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-lg">
+                <div className="text-xl font-bold">{comparison.correlation.toFixed(2)}</div>
+                <div className="text-sm text-gray-500">Correlation</div>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-lg">
+                <div className="text-xl font-bold">{comparison.trackingError.toFixed(2)}%</div>
+                <div className="text-sm text-gray-500">Tracking Error</div>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-lg">
+                <div className="text-xl font-bold">{comparison.informationRatio.toFixed(2)}</div>
+                <div className="text-sm text-gray-500">Information Ratio</div>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-lg">
+                <div className="text-xl font-bold text-green-600">{comparison.upCapture.toFixed(0)}%</div>
+                <div className="text-sm text-gray-500">Up Capture</div>
+              </div>
+              <div className="text-center p-3 bg-gray-50 rounded-lg">
+                <div className="text-xl font-bold text-red-600">{comparison.downCapture.toFixed(0)}%</div>
+                <div className="text-sm text-gray-500">Down Capture</div>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-4">
+              Based on {comparison.series.length - 1} aligned daily returns since {comparison.series[0].date}.
+            </p>
+          </div>
+        </>
+      )}
     </div>
-  </div>
-);
+  );
+};
 
 const AdvancedAnalyticsPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState('performance');
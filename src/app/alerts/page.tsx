@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { alertService, TradingAlert, AlertSummary } from '@/services/alertService';
+import AlertRules from '@/components/AlertRules';
 import AppHeader from '@/components/AppHeader';
 import MobileNav from '@/components/MobileNav';
 
@@ -58,7 +59,8 @@ export default function AlertsPage() {
 
   const handleAlertClick = (alert: TradingAlert) => {
     alertService.markAsRead(alert.id);
-    router.push(`/trade?symbol=${alert.symbol}`);
+    // Drift alerts open the rebalance preview; the rest open the symbol's trade page
+    router.push(alert.type === 'PORTFOLIO_REBALANCE' && alert.symbol !== 'SYSTEM' ? '/#rebalance' : `/trade?symbol=${alert.symbol}`);
   };
 
   const handleDismissAlert = (alertId: string) => {
@@ -83,6 +85,7 @@ export default function AlertsPage() {
       case 'PRICE_TARGET_HIT': return '🎯';
       case 'VOLATILITY_SPIKE': return '⚡';
       case 'PORTFOLIO_REBALANCE': return '⚖️';
+      case 'TECHNICAL_SIGNAL': return '📡';
       default: return '🔔';
     }
   };
@@ -266,6 +269,9 @@ export default function AlertsPage() {
             </div>
           )}
         </div>
+
+        {/* Server-side alert rules and their history */}
+        <AlertRules />
       </div>
 
       <MobileNav />
@@ -0,0 +1,89 @@
+// Alert history API routes - alerts triggered by the user's rules
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { alertRuleEngine } from '@/services/alertRules';
+import { validateInput, markAlertsReadSchema } from '@/utils/validation';
+
+const MAX_LIMIT = 200;
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// GET /api/alerts/history?unread=true&limit=50 - Triggered alerts, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const unreadOnly = searchParams.get('unread') === 'true';
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > MAX_LIMIT)) {
+      return NextResponse.json({ error: `Limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const alerts = await alertRuleEngine.getHistory(userId, unreadOnly, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: alerts
+    });
+
+  } catch (error) {
+    console.error('Alert history fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alert history' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/alerts/history - Mark the given alert ids, or every alert when none are sent, as read
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(markAlertsReadSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const updated = await alertRuleEngine.markRead(userId, validation.data.ids);
+
+    return NextResponse.json({
+      success: true,
+      data: { updated }
+    });
+
+  } catch (error) {
+    console.error('Alert history update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update alerts' },
+      { status: 500 }
+    );
+  }
+}
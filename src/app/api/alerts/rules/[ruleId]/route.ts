@@ -0,0 +1,105 @@
+// Single alert rule API routes - edit, pause/resume or delete a rule
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { alertRuleEngine } from '@/services/alertRules';
+import { validateInput, updateAlertRuleSchema } from '@/utils/validation';
+import type { AlertConfigInput } from '@/types/recommendations';
+
+interface RouteContext {
+  params: Promise<{ ruleId: string }>;
+}
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// PATCH /api/alerts/rules/[ruleId] - Update a rule; fields not sent are kept
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const ruleId = parseInt((await params).ruleId);
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: 'Invalid alert rule id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(updateAlertRuleSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const rule = await alertRuleEngine.updateRule(userId, ruleId, validation.data as Partial<AlertConfigInput>);
+
+    return NextResponse.json({
+      success: true,
+      data: rule
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Alert rule not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message.startsWith('Invalid alert rule')) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Alert rule update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update alert rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/alerts/rules/[ruleId] - Delete a rule; its triggered alerts stay in the history
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const ruleId = parseInt((await params).ruleId);
+    if (isNaN(ruleId)) {
+      return NextResponse.json({ error: 'Invalid alert rule id' }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await alertRuleEngine.deleteRule(userId, ruleId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Alert rule deleted'
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Alert rule not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error('Alert rule deletion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete alert rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+// Alert rule API routes - list the user's alert rules and create new ones
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { alertRuleEngine } from '@/services/alertRules';
+import { validateInput, alertRuleSchema } from '@/utils/validation';
+import type { AlertConfigInput } from '@/types/recommendations';
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// GET /api/alerts/rules - The user's alert rules, newest first
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const rules = await alertRuleEngine.listRules(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: rules
+    });
+
+  } catch (error) {
+    console.error('Alert rules fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alert rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/alerts/rules - Create an alert rule
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(alertRuleSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const rule = await alertRuleEngine.createRule(userId, validation.data as AlertConfigInput);
+
+    return NextResponse.json({
+      success: true,
+      data: rule
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Alert rule creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create alert rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+// Backtest API routes - replay a strategy over historical candles with the bot's risk settings
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { backtestService, DEFAULT_BACKTEST_RISK_SETTINGS } from '@/services/backtester';
+import { DEFAULT_EXECUTION_COST_SETTINGS, executionCostService } from '@/services/executionCosts';
+import { strategyRegistry } from '@/services/strategies';
+import { validateInput, backtestRequestSchema } from '@/utils/validation';
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/backtest - Available strategies and default risk settings
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        strategies: strategyRegistry.list('backtest'),
+        defaultRisk: DEFAULT_BACKTEST_RISK_SETTINGS
+      }
+    });
+
+  } catch (error) {
+    console.error('Backtest options fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch backtest options' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/backtest - Run a backtest; execution costs default to the active portfolio's settings
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(backtestRequestSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const {
+      strategy,
+      strategyConfig,
+      symbols,
+      startDate,
+      endDate,
+      initialCash = 10000,
+      benchmarkSymbol = 'SPY',
+      dataSource = 'finnhub',
+      risk,
+      executionCosts
+    } = validation.data;
+
+    const selectedStrategy = strategyRegistry.get(strategy);
+
+    if (!selectedStrategy) {
+      return NextResponse.json({ error: `Unknown strategy: ${strategy}` }, { status: 400 });
+    }
+
+    if (!selectedStrategy.modes.includes('backtest')) {
+      return NextResponse.json({ error: `${selectedStrategy.name} cannot be backtested` }, { status: 400 });
+    }
+
+    const resolvedConfig = strategyRegistry.resolveConfig(strategy, strategyConfig);
+
+    if (!resolvedConfig.success) {
+      return NextResponse.json({ error: resolvedConfig.error }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    const costSettings = portfolioId
+      ? await executionCostService.getSettings(portfolioId)
+      : { ...DEFAULT_EXECUTION_COST_SETTINGS };
+
+    const report = await backtestService.run({
+      strategyId: strategy,
+      strategyConfig: resolvedConfig.data,
+      symbols: Array.from(new Set(symbols)),
+      startDate,
+      endDate,
+      initialCash,
+      benchmarkSymbol,
+      dataSource,
+      risk: { ...DEFAULT_BACKTEST_RISK_SETTINGS, ...risk },
+      executionCosts: { ...costSettings, ...executionCosts }
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Backtest error:', error);
+    const message = error instanceof Error ? error.message : '';
+
+    if (message.startsWith('No price history') || message.startsWith('Not enough price history')) {
+      return NextResponse.json({ error: message }, { status: 422 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to run backtest' },
+      { status: 500 }
+    );
+  }
+}
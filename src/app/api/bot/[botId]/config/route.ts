@@ -0,0 +1,120 @@
+// Trading bot API routes - read and update one bot's configuration
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { tradingBotWorker } from '@/services/tradingBotWorker';
+import { validateInput, tradingBotConfigSchema } from '@/utils/validation';
+
+interface RouteContext {
+  params: Promise<{ botId: string }>;
+}
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/bot/[botId]/config - Current bot configuration
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const botId = parseInt((await params).botId);
+    if (isNaN(botId)) {
+      return NextResponse.json({ error: 'Invalid bot id' }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const config = await tradingBotWorker.getConfig(portfolioId, botId);
+
+    return NextResponse.json({
+      success: true,
+      data: config
+    });
+
+  } catch (error) {
+    console.error('Trading bot config fetch error:', error);
+
+    if (error instanceof Error && error.message === 'Bot not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch trading bot configuration' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/bot/[botId]/config - Update bot configuration; disabling the bot also stops it
+// Strategy parameters are validated against the selected strategy's schema and stored with defaults filled in
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const botId = parseInt((await params).botId);
+    if (isNaN(botId)) {
+      return NextResponse.json({ error: 'Invalid bot id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(tradingBotConfigSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const updates = validation.data;
+
+    if (updates.strategy) {
+      const strategy = tradingBotWorker.resolveStrategy(updates.strategy);
+
+      if (!strategy.success) {
+        return NextResponse.json({ error: strategy.error }, { status: 400 });
+      }
+
+      updates.strategy = strategy.data;
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const config = await tradingBotWorker.updateConfig(portfolioId, botId, updates);
+
+    return NextResponse.json({
+      success: true,
+      data: config
+    });
+
+  } catch (error) {
+    console.error('Trading bot config update error:', error);
+
+    if (error instanceof Error && error.message === 'Bot not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update trading bot configuration' },
+      { status: 500 }
+    );
+  }
+}
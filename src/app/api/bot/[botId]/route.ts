@@ -0,0 +1,151 @@
+// Single trading bot API routes - dashboard, rename/re-budget and delete
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { tradingBotWorker } from '@/services/tradingBotWorker';
+import { validateInput, updateTradingBotSchema } from '@/utils/validation';
+
+interface RouteContext {
+  params: Promise<{ botId: string }>;
+}
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/bot/[botId] - Status, performance, allocation, queue and decision log (?limit caps the lists)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const botId = parseInt((await params).botId);
+    if (isNaN(botId)) {
+      return NextResponse.json({ error: 'Invalid bot id' }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '10') || 10, 1), 100);
+
+    const dashboard = await tradingBotWorker.getDashboard(portfolioId, botId, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: dashboard
+    });
+
+  } catch (error) {
+    console.error('Trading bot fetch error:', error);
+
+    if (error instanceof Error && error.message === 'Bot not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch trading bot' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/bot/[botId] - Rename and/or change the budget (null trades the whole portfolio)
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const botId = parseInt((await params).botId);
+    if (isNaN(botId)) {
+      return NextResponse.json({ error: 'Invalid bot id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(updateTradingBotSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const bot = await tradingBotWorker.updateBot(portfolioId, botId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: bot
+    });
+
+  } catch (error) {
+    console.error('Trading bot update error:', error);
+
+    if (error instanceof Error && error.message === 'Bot not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update trading bot' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/bot/[botId] - Delete the bot and its logs; positions it bought stay in the portfolio
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const botId = parseInt((await params).botId);
+    if (isNaN(botId)) {
+      return NextResponse.json({ error: 'Invalid bot id' }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    await tradingBotWorker.deleteBot(portfolioId, botId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Trading bot deleted'
+    });
+
+  } catch (error) {
+    console.error('Trading bot deletion error:', error);
+
+    if (error instanceof Error && error.message === 'Bot not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete trading bot' },
+      { status: 500 }
+    );
+  }
+}
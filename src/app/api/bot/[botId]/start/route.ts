@@ -0,0 +1,68 @@
+// Trading bot API routes - start (or resume) one bot
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { tradingBotWorker } from '@/services/tradingBotWorker';
+
+interface RouteContext {
+  params: Promise<{ botId: string }>;
+}
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// POST /api/bot/[botId]/start - Mark the bot as running; the server worker picks it up on its next tick
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!tradingBotWorker.isRunning()) {
+      return NextResponse.json(
+        { error: 'Trading bot worker is not running on this server (TRADING_BOT_ENABLED=false)' },
+        { status: 503 }
+      );
+    }
+
+    const botId = parseInt((await params).botId);
+    if (isNaN(botId)) {
+      return NextResponse.json({ error: 'Invalid bot id' }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    await tradingBotWorker.startBot(portfolioId, botId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Trading bot started'
+    });
+
+  } catch (error) {
+    console.error('Trading bot start error:', error);
+
+    if (error instanceof Error && error.message === 'Bot not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === 'Bot is disabled in configuration') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to start trading bot' },
+      { status: 500 }
+    );
+  }
+}
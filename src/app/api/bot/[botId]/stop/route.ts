@@ -0,0 +1,58 @@
+// Trading bot API routes - stop one bot
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { tradingBotWorker } from '@/services/tradingBotWorker';
+
+interface RouteContext {
+  params: Promise<{ botId: string }>;
+}
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// POST /api/bot/[botId]/stop - Stop the bot and cancel its pending trades
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const botId = parseInt((await params).botId);
+    if (isNaN(botId)) {
+      return NextResponse.json({ error: 'Invalid bot id' }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    await tradingBotWorker.stopBot(portfolioId, botId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Trading bot stopped'
+    });
+
+  } catch (error) {
+    console.error('Trading bot stop error:', error);
+
+    if (error instanceof Error && error.message === 'Bot not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to stop trading bot' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+// Trading bot API routes - halt all automated trading for the active portfolio
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { tradingBotWorker } from '@/services/tradingBotWorker';
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// POST /api/bot/emergency-stop - Stop every bot immediately and cancel all of their pending trades
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    await tradingBotWorker.emergencyStop(portfolioId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'All trading bots stopped'
+    });
+
+  } catch (error) {
+    console.error('Trading bot emergency stop error:', error);
+    return NextResponse.json(
+      { error: 'Failed to activate emergency stop' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+// Trading bot API routes - list the active portfolio's bots with a combined view, and create new ones
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { tradingBotWorker } from '@/services/tradingBotWorker';
+import { validateInput, createTradingBotSchema } from '@/utils/validation';
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/bot - Every bot with its status, performance and allocation, plus combined totals
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const overview = await tradingBotWorker.getOverview(portfolioId);
+
+    return NextResponse.json({
+      success: true,
+      data: overview
+    });
+
+  } catch (error) {
+    console.error('Trading bots fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trading bots' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/bot - Create a bot; budget caps the capital it may deploy (omit it to trade the whole portfolio)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(createTradingBotSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { name, budget, config = {} } = validation.data;
+
+    if (config.strategy) {
+      const strategy = tradingBotWorker.resolveStrategy(config.strategy);
+
+      if (!strategy.success) {
+        return NextResponse.json({ error: strategy.error }, { status: 400 });
+      }
+
+      config.strategy = strategy.data;
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const bot = await tradingBotWorker.createBot(portfolioId, { name, budget, config });
+
+    return NextResponse.json({
+      success: true,
+      data: bot
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Trading bot creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create trading bot' },
+      { status: 500 }
+    );
+  }
+}
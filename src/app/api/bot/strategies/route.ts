@@ -0,0 +1,28 @@
+// Trading bot API routes - strategies the live bot can run
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { strategyRegistry } from '@/services/strategies';
+
+// GET /api/bot/strategies - Live strategies with their default parameters
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: strategyRegistry.list('live')
+    });
+
+  } catch (error) {
+    console.error('Trading bot strategies fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trading bot strategies' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+// Single digest API route - the archived report and its rendered HTML
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { digestService } from '@/services/digests';
+
+interface RouteContext {
+  params: Promise<{ digestId: string }>;
+}
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// GET /api/digests/[digestId] - One archived digest with its report, HTML and delivery results
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const digestId = parseInt((await params).digestId);
+    if (isNaN(digestId)) {
+      return NextResponse.json({ error: 'Invalid digest id' }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const digest = await digestService.getDigest(userId, digestId);
+
+    return NextResponse.json({
+      success: true,
+      data: digest
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Digest not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Digest fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch digest' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+// Digest preference API routes - which scheduled reports the user receives
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { digestService } from '@/services/digests';
+import { validateInput, digestPreferencesSchema } from '@/utils/validation';
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// GET /api/digests/preferences - Current notification settings, with defaults for users who never saved any
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const preferences = await digestService.getPreferences(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: preferences
+    });
+
+  } catch (error) {
+    console.error('Digest preferences fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch digest preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/digests/preferences - Update any of the notification settings
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(digestPreferencesSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const preferences = await digestService.updatePreferences(userId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: preferences
+    });
+
+  } catch (error) {
+    console.error('Digest preferences update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update digest preferences' },
+      { status: 500 }
+    );
+  }
+}
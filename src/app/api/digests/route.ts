@@ -0,0 +1,88 @@
+// Digest API routes - browse the digest archive or generate one now
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { digestService } from '@/services/digests';
+import { validateInput, generateDigestSchema } from '@/utils/validation';
+
+const MAX_LIMIT = 100;
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// GET /api/digests?limit=30 - Archived digests, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam) : undefined;
+    if (limit !== undefined && (isNaN(limit) || limit < 1 || limit > MAX_LIMIT)) {
+      return NextResponse.json({ error: `Limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const digests = await digestService.listDigests(userId, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: digests
+    });
+
+  } catch (error) {
+    console.error('Digests fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch digests' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/digests - Generate (and by default deliver) the digest for the current trading date
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(generateDigestSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const digest = await digestService.generateDigest(userId, validation.data.period, validation.data.deliver ?? true);
+
+    return NextResponse.json({
+      success: true,
+      data: digest
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Digest generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate digest' },
+      { status: 500 }
+    );
+  }
+}
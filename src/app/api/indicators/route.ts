@@ -0,0 +1,62 @@
+// Technical indicators API routes - RSI, MACD, moving averages and support/resistance for a symbol
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { indicatorService } from '@/services/indicators';
+import { stockDataRateLimiter, withRateLimit } from '@/middleware/rateLimiter';
+import { validateInput, stockSymbolSchema, createApiResponse } from '@/utils/validation';
+
+// GET /api/indicators?symbol= - Current technical indicators from daily candles
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, stockDataRateLimiter, async () => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session) {
+        return NextResponse.json(
+          createApiResponse(false, null, 'Unauthorized'),
+          { status: 401 }
+        );
+      }
+
+      const { searchParams } = new URL(request.url);
+      const symbol = searchParams.get('symbol');
+
+      if (!symbol) {
+        return NextResponse.json(
+          createApiResponse(false, null, 'Stock symbol is required'),
+          { status: 400 }
+        );
+      }
+
+      const validation = validateInput(stockSymbolSchema, symbol);
+      if (!validation.success) {
+        return NextResponse.json(
+          createApiResponse(false, null, `Invalid stock symbol: ${validation.error}`),
+          { status: 400 }
+        );
+      }
+
+      const indicators = await indicatorService.getIndicators(validation.data);
+
+      return NextResponse.json(
+        createApiResponse(true, indicators),
+        { status: 200 }
+      );
+
+    } catch (error) {
+      console.error('Indicators API error:', error);
+
+      if (error instanceof Error && /price history/.test(error.message)) {
+        return NextResponse.json(
+          createApiResponse(false, null, error.message),
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        createApiResponse(false, null, 'Failed to calculate indicators'),
+        { status: 500 }
+      );
+    }
+  });
+}
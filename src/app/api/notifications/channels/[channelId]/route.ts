@@ -0,0 +1,105 @@
+// Single notification channel API routes - edit, pause/resume or delete a channel
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { notificationService } from '@/services/notifications';
+import { validateInput, updateNotificationChannelSchema } from '@/utils/validation';
+import type { NotificationChannelInput } from '@/types/notifications';
+
+interface RouteContext {
+  params: Promise<{ channelId: string }>;
+}
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// PATCH /api/notifications/channels/[channelId] - Update a channel; masked secrets keep their stored value
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const channelId = parseInt((await params).channelId);
+    if (isNaN(channelId)) {
+      return NextResponse.json({ error: 'Invalid channel id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(updateNotificationChannelSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const channel = await notificationService.updateChannel(userId, channelId, validation.data as Partial<NotificationChannelInput>);
+
+    return NextResponse.json({
+      success: true,
+      data: channel
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Notification channel not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message.startsWith('Invalid channel')) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Notification channel update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notification channel' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/notifications/channels/[channelId] - Remove a channel
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const channelId = parseInt((await params).channelId);
+    if (isNaN(channelId)) {
+      return NextResponse.json({ error: 'Invalid channel id' }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await notificationService.deleteChannel(userId, channelId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Notification channel deleted'
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Notification channel not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error('Notification channel deletion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete notification channel' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+// Notification channel test API route - send a sample message through one channel
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { notificationService } from '@/services/notifications';
+
+interface RouteContext {
+  params: Promise<{ channelId: string }>;
+}
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// POST /api/notifications/channels/[channelId]/test - Send a test, ignoring priority filters and quiet hours
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const channelId = parseInt((await params).channelId);
+    if (isNaN(channelId)) {
+      return NextResponse.json({ error: 'Invalid channel id' }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const result = await notificationService.sendTest(userId, channelId);
+
+    // A delivery failure is a normal outcome of a test; the reason is in the result
+    return NextResponse.json({
+      success: result.status === 'SENT',
+      data: result
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Notification channel not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error('Notification test error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test notification' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+// Notification channel API routes - list the user's outbound channels and add new ones
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { notificationService } from '@/services/notifications';
+import { validateInput, notificationChannelSchema } from '@/utils/validation';
+import type { NotificationChannelInput } from '@/types/notifications';
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// GET /api/notifications/channels - The user's channels, secrets masked
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const channels = await notificationService.listChannels(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: channels
+    });
+
+  } catch (error) {
+    console.error('Notification channels fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notification channels' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/notifications/channels - Add an email, webhook, Telegram, ntfy or Gotify channel
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(notificationChannelSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const channel = await notificationService.createChannel(userId, validation.data as NotificationChannelInput);
+
+    return NextResponse.json({
+      success: true,
+      data: channel
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Notification channel creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create notification channel' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+// Notification dispatch API route - forwards alerts raised in the browser to the user's outbound channels
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getAppUrl, notificationService } from '@/services/notifications';
+import { validateInput, outboundNotificationSchema } from '@/utils/validation';
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// POST /api/notifications/dispatch - Send to every active channel whose filters and quiet hours allow it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(outboundNotificationSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { symbol } = validation.data;
+    const results = await notificationService.dispatch(userId, {
+      ...validation.data,
+      url: getAppUrl(symbol && symbol !== 'SYSTEM' ? `/stock/${symbol}` : '/alerts')
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: results
+    });
+
+  } catch (error) {
+    console.error('Notification dispatch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to dispatch notification' },
+      { status: 500 }
+    );
+  }
+}
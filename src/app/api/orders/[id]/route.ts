@@ -0,0 +1,149 @@
+// Single order API routes - fetch, amend and cancel a persisted order
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { orderEngine } from '@/services/orderEngine';
+import { validateInput } from '@/utils/validation';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const updateOrderSchema = z.object({
+  quantity: z.number().positive().max(10000).optional(),
+  stopPrice: z.number().positive().max(100000).optional(),
+  limitPrice: z.number().positive().max(100000).optional(),
+  targetPrice: z.number().positive().max(100000).optional(),
+  trailAmount: z.number().positive().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: {
+      user: { email },
+      isActive: true
+    }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/orders/[id] - Get an order with its event log
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const result = await orderEngine.getOrder(portfolioId, id);
+
+    if (!result) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Order fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch order' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/orders/[id] - Amend an active order
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const validation = validateInput(updateOrderSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: `Invalid order update: ${validation.error}` },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const order = await orderEngine.updateOrder(portfolioId, id, validation.data);
+
+    if (!order) {
+      return NextResponse.json({ error: 'Active order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: order
+    });
+
+  } catch (error) {
+    console.error('Order update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update order' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/orders/[id] - Cancel an active order
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const cancelled = await orderEngine.cancelOrder(portfolioId, id);
+
+    if (!cancelled) {
+      return NextResponse.json({ error: 'Active order not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Order cancelled successfully'
+    });
+
+  } catch (error) {
+    console.error('Order cancel error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel order' },
+      { status: 500 }
+    );
+  }
+}
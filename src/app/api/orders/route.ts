@@ -0,0 +1,98 @@
+// Orders API routes - persisted advanced orders (stop-loss, take-profit, trailing stop, OCO)
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { orderEngine } from '@/services/orderEngine';
+import { validateInput, createOrdersSchema } from '@/utils/validation';
+
+// GET /api/orders?status=active|history - List orders for the user's portfolio
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const scope = status === 'active' || status === 'history' ? status : 'all';
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      include: {
+        portfolios: {
+          where: { isActive: true }
+        }
+      }
+    });
+
+    if (!user || !user.portfolios[0]) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const orders = await orderEngine.getOrders(user.portfolios[0].id, scope);
+
+    return NextResponse.json({
+      success: true,
+      data: orders
+    });
+
+  } catch (error) {
+    console.error('Orders fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch orders' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/orders - Create one or more orders for the user's portfolio
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(createOrdersSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: `Invalid order data: ${validation.error}` },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      include: {
+        portfolios: {
+          where: { isActive: true }
+        }
+      }
+    });
+
+    if (!user || !user.portfolios[0]) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const orders = await orderEngine.createOrders(user.portfolios[0].id, validation.data.orders);
+
+    return NextResponse.json({
+      success: true,
+      message: `${orders.length} order${orders.length !== 1 ? 's' : ''} created`,
+      data: orders
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Order creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create orders' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { Decimal } from '@prisma/client/runtime/library';
-import { v4 as uuidv4 } from 'uuid';
+import { tradeExecutionService } from '@/services/tradeExecution';
+import { validateInput, lotSelectionsSchema } from '@/utils/validation';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,7 +14,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { symbol, type, quantity, price, aiRecommendation } = body;
+    const { symbol, type, quantity, price, aiRecommendation, lots } = body;
 
     // Validation
     if (!symbol || !type || typeof quantity !== 'number' || typeof price !== 'number') {
@@ -38,15 +38,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Optional specific-lot selection for sells
+    let lotSelections;
+    if (lots !== undefined) {
+      const lotValidation = validateInput(lotSelectionsSchema, lots);
+      if (!lotValidation.success) {
+        return NextResponse.json({ error: lotValidation.error }, { status: 400 });
+      }
+      lotSelections = lotValidation.data;
+    }
+
     // Find user and portfolio
     const user = await prisma.user.findUnique({
       where: { email: session.user.email },
       include: {
         portfolios: {
-          where: { isActive: true },
-          include: {
-            holdings: true
-          }
+          where: { isActive: true }
         }
       }
     });
@@ -56,147 +63,39 @@ export async function POST(request: NextRequest) {
     }
 
     const portfolio = user.portfolios[0];
-    const totalCost = quantity * price;
-
-    // Execute trade in transaction to ensure atomicity
-    const result = await prisma.$transaction(async (prisma) => {
-      if (type === 'BUY') {
-        // Check sufficient funds
-        if (totalCost > Number(portfolio.cashBalance)) {
-          throw new Error(`Insufficient funds. Need $${totalCost.toFixed(2)}, have $${Number(portfolio.cashBalance).toFixed(2)}`);
-        }
-
-        // Update portfolio cash balance
-        await prisma.portfolio.update({
-          where: { id: portfolio.id },
-          data: {
-            cashBalance: new Decimal(Number(portfolio.cashBalance) - totalCost),
-            updatedAt: new Date()
-          }
-        });
-
-        // Find existing holding
-        const existingHolding = await prisma.holding.findUnique({
-          where: {
-            unique_portfolio_symbol: {
-              portfolioId: portfolio.id,
-              symbol: symbol.toUpperCase()
-            }
-          }
-        });
-
-        if (existingHolding) {
-          // Update existing holding with weighted average price
-          const oldQuantity = Number(existingHolding.quantity);
-          const oldPrice = Number(existingHolding.averagePrice);
-          const newQuantity = oldQuantity + quantity;
-          const newAveragePrice = ((oldQuantity * oldPrice) + (quantity * price)) / newQuantity;
-
-          await prisma.holding.update({
-            where: { id: existingHolding.id },
-            data: {
-              quantity: new Decimal(newQuantity),
-              averagePrice: new Decimal(newAveragePrice),
-              currentPrice: new Decimal(price),
-              totalValue: new Decimal(newQuantity * price),
-              profitLoss: new Decimal(newQuantity * (price - newAveragePrice)),
-              profitLossPercent: new Decimal(newAveragePrice > 0 ? ((price - newAveragePrice) / newAveragePrice) * 100 : 0),
-              lastUpdated: new Date()
-            }
-          });
-        } else {
-          // Create new holding
-          await prisma.holding.create({
-            data: {
-              portfolioId: portfolio.id,
-              symbol: symbol.toUpperCase(),
-              quantity: new Decimal(quantity),
-              averagePrice: new Decimal(price),
-              currentPrice: new Decimal(price),
-              totalValue: new Decimal(totalCost),
-              profitLoss: new Decimal(0),
-              profitLossPercent: new Decimal(0),
-              lastUpdated: new Date()
-            }
-          });
-        }
-
-      } else { // SELL
-        // Find existing holding
-        const existingHolding = await prisma.holding.findUnique({
-          where: {
-            unique_portfolio_symbol: {
-              portfolioId: portfolio.id,
-              symbol: symbol.toUpperCase()
-            }
-          }
-        });
-
-        if (!existingHolding || Number(existingHolding.quantity) < quantity) {
-          throw new Error(`Insufficient shares. Need ${quantity}, have ${Number(existingHolding?.quantity) || 0}`);
-        }
-
-        // Update portfolio cash balance
-        await prisma.portfolio.update({
-          where: { id: portfolio.id },
-          data: {
-            cashBalance: new Decimal(Number(portfolio.cashBalance) + totalCost),
-            updatedAt: new Date()
-          }
-        });
-
-        const newQuantity = Number(existingHolding.quantity) - quantity;
-        
-        if (newQuantity === 0) {
-          // Remove holding if quantity becomes zero
-          await prisma.holding.delete({
-            where: { id: existingHolding.id }
-          });
-        } else {
-          // Update holding
-          const averagePrice = Number(existingHolding.averagePrice);
-          await prisma.holding.update({
-            where: { id: existingHolding.id },
-            data: {
-              quantity: new Decimal(newQuantity),
-              currentPrice: new Decimal(price),
-              totalValue: new Decimal(newQuantity * price),
-              profitLoss: new Decimal(newQuantity * (price - averagePrice)),
-              profitLossPercent: new Decimal(averagePrice > 0 ? ((price - averagePrice) / averagePrice) * 100 : 0),
-              lastUpdated: new Date()
-            }
-          });
-        }
-      }
 
-      // Create transaction record
-      const transaction = await prisma.transaction.create({
-        data: {
-          id: uuidv4(),
-          portfolioId: portfolio.id,
-          symbol: symbol.toUpperCase(),
-          type: type as 'BUY' | 'SELL',
-          quantity: new Decimal(quantity),
-          price: new Decimal(price),
-          totalAmount: new Decimal(totalCost),
-          aiRecommendation: aiRecommendation || null,
-          transactionDate: new Date()
-        }
-      });
+    // Never trust the client price: check it against the live quote first
+    const verification = await tradeExecutionService.verifyPrice(symbol, price);
 
-      return transaction;
+    // Execute trade in transaction to ensure atomicity
+    const result = await tradeExecutionService.executeTrade(portfolio.id, {
+      symbol,
+      type,
+      quantity,
+      price: verification.price,
+      requestedPrice: price,
+      lotSelections: type === 'SELL' ? lotSelections : undefined,
+      aiRecommendation
     });
 
     return NextResponse.json({
       success: true,
-      message: `${type} order executed successfully`,
+      message: verification.repriced
+        ? `${type} order executed at market price $${verification.quotePrice.toFixed(2)}`
+        : `${type} order executed successfully`,
       data: {
         transactionId: result.id,
         symbol: result.symbol,
         type: result.type,
         quantity: Number(result.quantity),
         price: Number(result.price),
-        totalAmount: Number(result.totalAmount)
+        requestedPrice: price,
+        quotePrice: verification.quotePrice,
+        repriced: verification.repriced,
+        totalAmount: Number(result.totalAmount),
+        fees: Number(result.fees),
+        slippage: Number(result.slippage),
+        realizedPnl: result.realizedPnl !== null ? Number(result.realizedPnl) : null
       }
     });
 
@@ -205,12 +104,35 @@ export async function POST(request: NextRequest) {
     
     // Return specific error messages for known issues
     if (error instanceof Error) {
-      if (error.message.includes('Insufficient funds') || error.message.includes('Insufficient shares')) {
+      if (
+        error.message.includes('Insufficient funds') ||
+        error.message.includes('Insufficient shares') ||
+        error.message.includes('Invalid lot selection') ||
+        error.message.startsWith('Sale proceeds')
+      ) {
         return NextResponse.json(
           { error: error.message },
           { status: 400 }
         );
       }
+      if (error.message.startsWith('Unknown symbol')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+      if (error.message.includes('Price deviation')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 409 }
+        );
+      }
+      if (error.message.includes('Quote unavailable')) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 503 }
+        );
+      }
     }
     
     return NextResponse.json(
@@ -0,0 +1,82 @@
+// Execution cost API routes - commission, spread and slippage settings for the active portfolio
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { executionCostService } from '@/services/executionCosts';
+import { validateInput, executionCostSettingsSchema } from '@/utils/validation';
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/portfolio/execution-costs - Current execution cost settings
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const settings = await executionCostService.getSettings(portfolioId);
+
+    return NextResponse.json({
+      success: true,
+      data: settings
+    });
+
+  } catch (error) {
+    console.error('Execution cost settings fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch execution cost settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/portfolio/execution-costs - Update execution cost settings
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(executionCostSettingsSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const settings = await executionCostService.updateSettings(portfolioId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Execution cost settings updated',
+      data: settings
+    });
+
+  } catch (error) {
+    console.error('Execution cost settings update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update execution cost settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+// Tax-lot API routes - open lots, realized gains and the portfolio's lot-relief method
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { taxLotService } from '@/services/taxLots';
+import { validateInput, lotReliefMethodSchema } from '@/utils/validation';
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/portfolio/lots?symbol=AAPL&includeClosed=true - Lots, relief method and realized gains
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get('symbol') || undefined;
+    const includeClosed = searchParams.get('includeClosed') === 'true';
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const [lots, method, realized] = await Promise.all([
+      taxLotService.getLots(portfolioId, symbol, includeClosed),
+      taxLotService.getReliefMethod(portfolioId),
+      taxLotService.getRealizedGains(portfolioId)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        method,
+        realized,
+        lots: lots.map(lot => ({
+          id: lot.id,
+          symbol: lot.symbol,
+          buyTransactionId: lot.buyTransactionId,
+          quantity: Number(lot.quantity),
+          remainingQuantity: Number(lot.remainingQuantity),
+          costBasis: Number(lot.costBasis),
+          acquiredAt: lot.acquiredAt,
+          closedAt: lot.closedAt,
+          realizedPnl: lot.disposals.reduce((sum, disposal) => sum + Number(disposal.realizedPnl), 0)
+        }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Tax lots fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tax lots' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/portfolio/lots - Change the lot-relief method (FIFO, LIFO, HIFO)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(lotReliefMethodSchema, body.method);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    await taxLotService.setReliefMethod(portfolioId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      message: `Lot-relief method set to ${validation.data}`,
+      data: { method: validation.data }
+    });
+
+  } catch (error) {
+    console.error('Tax lot method update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update lot-relief method' },
+      { status: 500 }
+    );
+  }
+}
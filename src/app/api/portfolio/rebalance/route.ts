@@ -0,0 +1,85 @@
+// Rebalance API routes - preview drift and the trades that fix it, then execute them
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { rebalanceService } from '@/services/rebalancer';
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/portfolio/rebalance - Drift per bucket and the proposed trades, without executing
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const preview = await rebalanceService.preview(portfolioId);
+
+    return NextResponse.json({
+      success: true,
+      data: preview
+    });
+
+  } catch (error) {
+    console.error('Rebalance preview error:', error);
+
+    if (error instanceof Error && error.message === 'No target allocation set') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to preview rebalance' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/portfolio/rebalance - Execute the rebalance at current prices
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const result = await rebalanceService.execute(portfolioId, 'manual');
+    const filled = result.fills.filter(fill => !fill.error).length;
+
+    return NextResponse.json({
+      success: true,
+      message: `Rebalance executed: ${filled} of ${result.fills.length} trades filled`,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Rebalance execution error:', error);
+
+    if (error instanceof Error && error.message === 'No target allocation set') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to execute rebalance' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { Decimal } from '@prisma/client/runtime/library';
+import { cashFlowService } from '@/services/cashFlows';
 
 export async function POST() {
   try {
@@ -33,7 +33,19 @@ export async function POST() {
       return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
     }
 
-    // Delete all holdings and transactions
+    // Delete all holdings, transactions, orders, tax lots and valuation history
+    await prisma.order.deleteMany({
+      where: { portfolioId: portfolio.id }
+    });
+
+    await prisma.portfolioSnapshot.deleteMany({
+      where: { portfolioId: portfolio.id }
+    });
+
+    await prisma.taxLot.deleteMany({
+      where: { portfolioId: portfolio.id }
+    });
+
     await prisma.holding.deleteMany({
       where: { portfolioId: portfolio.id }
     });
@@ -42,16 +54,19 @@ export async function POST() {
       where: { portfolioId: portfolio.id }
     });
 
-    // Reset portfolio to initial values
+    // Reset portfolio to its starting cash
     await prisma.portfolio.update({
       where: { id: portfolio.id },
       data: {
-        cashBalance: new Decimal(10000),
-        totalValue: new Decimal(10000),
+        cashBalance: portfolio.initialValue,
+        totalValue: portfolio.initialValue,
         updatedAt: new Date()
       }
     });
 
+    // Returns restart from the reset, funded by a fresh opening deposit
+    await prisma.$transaction(tx => cashFlowService.resetLedger(tx, portfolio.id, Number(portfolio.initialValue)));
+
     return NextResponse.json({
       success: true,
       message: 'Portfolio reset successfully'
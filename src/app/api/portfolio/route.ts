@@ -4,6 +4,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { Decimal } from '@prisma/client/runtime/library';
+import { cashFlowService } from '@/services/cashFlows';
 
 // GET /api/portfolio - Get user's portfolio data
 export async function GET(request: NextRequest) {
@@ -62,6 +63,8 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    const cashFlows = await cashFlowService.getCashFlows(portfolio.id);
+
     // Convert Decimal to number for JSON serialization
     const portfolioData = {
       id: portfolio.id,
@@ -91,11 +94,16 @@ export async function GET(request: NextRequest) {
         type: transaction.type,
         quantity: Number(transaction.quantity),
         price: Number(transaction.price),
+        requestedPrice: transaction.requestedPrice !== null ? Number(transaction.requestedPrice) : null,
         totalAmount: Number(transaction.totalAmount),
+        fees: Number(transaction.fees),
+        slippage: Number(transaction.slippage),
+        realizedPnl: transaction.realizedPnl !== null ? Number(transaction.realizedPnl) : null,
         aiRecommendation: transaction.aiRecommendation,
         transactionDate: transaction.transactionDate,
         createdAt: transaction.createdAt
-      }))
+      })),
+      cashFlows
     };
 
     return NextResponse.json({
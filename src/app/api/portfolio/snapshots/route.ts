@@ -0,0 +1,78 @@
+// Portfolio snapshot API routes - daily valuation history and on-demand snapshots
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { portfolioSnapshotService } from '@/services/portfolioSnapshots';
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/portfolio/snapshots?days=90 - Daily snapshots, oldest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = parseInt(searchParams.get('days') || '0');
+    const from = days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const snapshots = await portfolioSnapshotService.getSnapshots(portfolioId, from);
+
+    return NextResponse.json({
+      success: true,
+      data: snapshots
+    });
+
+  } catch (error) {
+    console.error('Portfolio snapshots fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch portfolio snapshots' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/portfolio/snapshots - Take (or refresh) today's snapshot now
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const snapshot = await portfolioSnapshotService.takeSnapshot(portfolioId, 'MANUAL');
+
+    return NextResponse.json({
+      success: true,
+      message: 'Portfolio snapshot saved',
+      data: snapshot
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Portfolio snapshot error:', error);
+    return NextResponse.json(
+      { error: 'Failed to take portfolio snapshot' },
+      { status: 500 }
+    );
+  }
+}
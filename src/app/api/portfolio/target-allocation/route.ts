@@ -0,0 +1,112 @@
+// Target allocation API routes - target weights, drift bands and rebalance schedule for the active portfolio
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { rebalanceService } from '@/services/rebalancer';
+import { validateInput, targetAllocationSchema } from '@/utils/validation';
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/portfolio/target-allocation - Current target allocation (null when none is set)
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const allocation = await rebalanceService.getTargetAllocation(portfolioId);
+
+    return NextResponse.json({
+      success: true,
+      data: allocation
+    });
+
+  } catch (error) {
+    console.error('Target allocation fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch target allocation' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/portfolio/target-allocation - Set or update the target allocation
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(targetAllocationSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const allocation = await rebalanceService.updateTargetAllocation(portfolioId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Target allocation updated',
+      data: allocation
+    });
+
+  } catch (error) {
+    console.error('Target allocation update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update target allocation' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/portfolio/target-allocation - Remove the target allocation and stop rebalancing
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    await rebalanceService.clearTargetAllocation(portfolioId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Target allocation removed'
+    });
+
+  } catch (error) {
+    console.error('Target allocation removal error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove target allocation' },
+      { status: 500 }
+    );
+  }
+}
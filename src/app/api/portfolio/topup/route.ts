@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { Decimal } from '@prisma/client/runtime/library';
+import { cashFlowService } from '@/services/cashFlows';
 
 export async function POST(request: NextRequest) {
   try {
@@ -43,37 +43,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
     }
 
-    // Calculate new balances
-    const newCashBalance = Number(portfolio.cashBalance) + amount;
-    const newTotalValue = Number(portfolio.totalValue) + amount;
-
-    // Update portfolio
-    await prisma.portfolio.update({
-      where: { id: portfolio.id },
-      data: {
-        cashBalance: new Decimal(newCashBalance),
-        totalValue: new Decimal(newTotalValue),
-        updatedAt: new Date()
-      }
-    });
-
-    // Create a transaction record for the top-up
-    await prisma.transaction.create({
-      data: {
-        id: `topup-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        portfolioId: portfolio.id,
-        symbol: 'CASH',
-        type: 'BUY', // Using BUY to represent adding cash
-        quantity: new Decimal(1),
-        price: new Decimal(amount),
-        totalAmount: new Decimal(amount),
-        aiRecommendation: {
-          action: 'TOP_UP',
-          confidence: 100,
-          reasoning: `Added $${amount.toFixed(2)} to portfolio cash balance`
-        }
-      }
-    });
+    // Credit the cash and record the deposit in the cash-flow ledger
+    const { cashBalance: newCashBalance, totalValue: newTotalValue } = await cashFlowService.recordCashFlow(
+      portfolio.id,
+      'DEPOSIT',
+      amount,
+      'Top-up'
+    );
 
     return NextResponse.json({
       success: true,
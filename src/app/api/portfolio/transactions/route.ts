@@ -60,7 +60,11 @@ export async function GET(request: NextRequest) {
       type: transaction.type,
       quantity: Number(transaction.quantity),
       price: Number(transaction.price),
+      requestedPrice: transaction.requestedPrice !== null ? Number(transaction.requestedPrice) : null,
       totalAmount: Number(transaction.totalAmount),
+      fees: Number(transaction.fees),
+      slippage: Number(transaction.slippage),
+      realizedPnl: transaction.realizedPnl !== null ? Number(transaction.realizedPnl) : null,
       aiRecommendation: transaction.aiRecommendation,
       transactionDate: transaction.transactionDate,
       createdAt: transaction.createdAt
@@ -175,7 +179,11 @@ export async function POST(request: NextRequest) {
         type: transaction.type,
         quantity: Number(transaction.quantity),
         price: Number(transaction.price),
+        requestedPrice: transaction.requestedPrice !== null ? Number(transaction.requestedPrice) : null,
         totalAmount: Number(transaction.totalAmount),
+        fees: Number(transaction.fees),
+        slippage: Number(transaction.slippage),
+        realizedPnl: transaction.realizedPnl !== null ? Number(transaction.realizedPnl) : null,
         aiRecommendation: transaction.aiRecommendation,
         transactionDate: transaction.transactionDate,
         createdAt: transaction.createdAt
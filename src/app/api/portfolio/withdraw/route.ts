@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { cashFlowService } from '@/services/cashFlows';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { amount } = body;
+
+    if (typeof amount !== 'number' || amount <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid amount: must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    // Find user
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Find user's portfolio
+    const portfolio = await prisma.portfolio.findFirst({
+      where: { 
+        userId: user.id,
+        isActive: true
+      }
+    });
+
+    if (!portfolio) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    // Debit the cash and record the withdrawal in the cash-flow ledger
+    const { cashBalance: newCashBalance, totalValue: newTotalValue } = await cashFlowService.recordCashFlow(
+      portfolio.id,
+      'WITHDRAWAL',
+      amount,
+      'Withdrawal'
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Cash withdrawn successfully',
+      newCashBalance,
+      newTotalValue
+    });
+
+  } catch (error) {
+    console.error('Withdrawal error:', error);
+
+    if (error instanceof Error && error.message.includes('Insufficient cash')) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to withdraw cash' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+// Portfolio switch API route - select the portfolio that trading and analytics routes act on
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { portfolioService } from '@/services/portfolios';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/portfolios/[id]/activate - Switch to this portfolio
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const portfolioId = parseInt(id);
+    if (isNaN(portfolioId)) {
+      return NextResponse.json({ error: 'Invalid portfolio id' }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await portfolioService.switchPortfolio(user.id, portfolioId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Portfolio switched',
+      data: { portfolioId }
+    });
+
+  } catch (error) {
+    console.error('Portfolio switch error:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Portfolio not found') {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes('archived')) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to switch portfolio' },
+      { status: 500 }
+    );
+  }
+}
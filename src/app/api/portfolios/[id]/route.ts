@@ -0,0 +1,73 @@
+// Single portfolio API routes - rename, archive and restore
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { portfolioService } from '@/services/portfolios';
+import { validateInput, updatePortfolioSchema } from '@/utils/validation';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/portfolios/[id] - Rename and/or archive (isArchived: true) or restore (isArchived: false)
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const portfolioId = parseInt(id);
+    if (isNaN(portfolioId)) {
+      return NextResponse.json({ error: 'Invalid portfolio id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(updatePortfolioSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { name, isArchived } = validation.data;
+
+    if (name !== undefined) {
+      await portfolioService.renamePortfolio(user.id, portfolioId, name);
+    }
+    if (isArchived === true) {
+      await portfolioService.archivePortfolio(user.id, portfolioId);
+    } else if (isArchived === false) {
+      await portfolioService.restorePortfolio(user.id, portfolioId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Portfolio updated'
+    });
+
+  } catch (error) {
+    console.error('Portfolio update error:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Portfolio not found') {
+        return NextResponse.json({ error: error.message }, { status: 404 });
+      }
+      if (error.message.includes('only portfolio')) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update portfolio' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+// Household API route - holdings and performance consolidated across all of the user's portfolios
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { portfolioService } from '@/services/portfolios';
+
+// GET /api/portfolios/household - Consolidated view of every non-archived portfolio
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const household = await portfolioService.getHouseholdView(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: household
+    });
+
+  } catch (error) {
+    console.error('Household view error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load household view' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+// Portfolios API routes - list and create the user's portfolios
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { portfolioService } from '@/services/portfolios';
+import { validateInput, createPortfolioSchema } from '@/utils/validation';
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// GET /api/portfolios?includeArchived=true - The user's portfolios, oldest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeArchived = searchParams.get('includeArchived') === 'true';
+    const portfolios = await portfolioService.listPortfolios(userId, includeArchived);
+
+    return NextResponse.json({
+      success: true,
+      data: portfolios
+    });
+
+  } catch (error) {
+    console.error('Portfolios fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch portfolios' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/portfolios - Create a portfolio (switches to it unless activate is false)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(createPortfolioSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { name, initialCash = 10000, activate = true } = validation.data;
+    const portfolio = await portfolioService.createPortfolio(userId, name, initialCash, activate);
+
+    return NextResponse.json({
+      success: true,
+      message: `Portfolio "${portfolio.name}" created`,
+      data: portfolio
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Portfolio create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create portfolio' },
+      { status: 500 }
+    );
+  }
+}
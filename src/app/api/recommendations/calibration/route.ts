@@ -0,0 +1,57 @@
+// Recommendation calibration API routes - reliability diagram, Brier scores and provider/sector leaderboards
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { recommendationCalibrationService } from '@/services/recommendationCalibration';
+import type { OutcomeHorizon, RecommendationSource } from '@/types/recommendationTracking';
+
+const MAX_DAYS = 365;
+const HORIZONS: OutcomeHorizon[] = [1, 5, 20];
+const SOURCES: RecommendationSource[] = ['ANALYZER', 'UNIFIED', 'TRADING_INTERFACE'];
+
+// GET /api/recommendations/calibration?days=180&horizon=5&source=ANALYZER - Stated confidence vs realized hit rate
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const daysParam = searchParams.get('days');
+    const days = daysParam ? parseInt(daysParam) : undefined;
+    if (days !== undefined && (isNaN(days) || days < 1 || days > MAX_DAYS)) {
+      return NextResponse.json({ error: `Days must be between 1 and ${MAX_DAYS}` }, { status: 400 });
+    }
+
+    const horizonParam = searchParams.get('horizon');
+    const horizonDays = horizonParam ? parseInt(horizonParam) as OutcomeHorizon : undefined;
+    if (horizonDays !== undefined && !HORIZONS.includes(horizonDays)) {
+      return NextResponse.json({ error: `Horizon must be one of ${HORIZONS.join(', ')}` }, { status: 400 });
+    }
+
+    const source = searchParams.get('source') ?? undefined;
+    if (source && !SOURCES.includes(source as RecommendationSource)) {
+      return NextResponse.json({ error: `Source must be one of ${SOURCES.join(', ')}` }, { status: 400 });
+    }
+
+    const report = await recommendationCalibrationService.getReport({
+      days,
+      horizonDays,
+      source: source as RecommendationSource | undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Recommendation calibration fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recommendation calibration' },
+      { status: 500 }
+    );
+  }
+}
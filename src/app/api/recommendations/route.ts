@@ -0,0 +1,96 @@
+// Recommendation tracking API routes - record AI recommendations made in the browser and report how they played out
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { recommendationTracker } from '@/services/recommendationTracker';
+import { validateInput, trackRecommendationsSchema } from '@/utils/validation';
+import type { RecommendationSource, TrackedRecommendationInput } from '@/types/recommendationTracking';
+
+const MAX_DAYS = 365;
+const SOURCES: RecommendationSource[] = ['ANALYZER', 'UNIFIED', 'TRADING_INTERFACE'];
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// GET /api/recommendations?days=90&source=ANALYZER&provider=gemini - Accuracy per horizon and confidence band
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const daysParam = searchParams.get('days');
+    const days = daysParam ? parseInt(daysParam) : undefined;
+    if (days !== undefined && (isNaN(days) || days < 1 || days > MAX_DAYS)) {
+      return NextResponse.json({ error: `Days must be between 1 and ${MAX_DAYS}` }, { status: 400 });
+    }
+
+    const source = searchParams.get('source') ?? undefined;
+    if (source && !SOURCES.includes(source as RecommendationSource)) {
+      return NextResponse.json({ error: `Source must be one of ${SOURCES.join(', ')}` }, { status: 400 });
+    }
+
+    const performance = await recommendationTracker.getPerformance(days, {
+      source: source as RecommendationSource | undefined,
+      provider: searchParams.get('provider') ?? undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: performance
+    });
+
+  } catch (error) {
+    console.error('Recommendation performance fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recommendation performance' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/recommendations - Record recommendations generated in the user's browser
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(trackRecommendationsSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const recorded = await recommendationTracker.record(
+      validation.data.recommendations as TrackedRecommendationInput[],
+      userId
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: { recorded }
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Recommendation tracking error:', error);
+    return NextResponse.json(
+      { error: 'Failed to record recommendations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,157 @@
+// Single recurring plan API routes - run history, edit/pause and delete
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { recurringPlanService } from '@/services/recurringPlans';
+import { validateInput, updateRecurringPlanSchema } from '@/utils/validation';
+
+interface RouteContext {
+  params: Promise<{ planId: string }>;
+}
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/recurring-plans/[planId] - The plan and its runs with fills (?limit caps the runs)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const planId = parseInt((await params).planId);
+    if (isNaN(planId)) {
+      return NextResponse.json({ error: 'Invalid plan id' }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+    const [plan, runs] = await Promise.all([
+      recurringPlanService.getPlan(portfolioId, planId),
+      recurringPlanService.getRuns(portfolioId, planId, limit)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { plan, runs }
+    });
+
+  } catch (error) {
+    console.error('Recurring plan fetch error:', error);
+
+    if (error instanceof Error && error.message === 'Plan not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch recurring plan' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/recurring-plans/[planId] - Edit the plan, or pause/resume it with isActive
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const planId = parseInt((await params).planId);
+    if (isNaN(planId)) {
+      return NextResponse.json({ error: 'Invalid plan id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(updateRecurringPlanSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const plan = await recurringPlanService.updatePlan(portfolioId, planId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: plan
+    });
+
+  } catch (error) {
+    console.error('Recurring plan update error:', error);
+
+    if (error instanceof Error && error.message === 'Plan not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message.startsWith('Invalid plan')) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update recurring plan' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/recurring-plans/[planId] - Delete the plan and its history; past fills stay in the portfolio
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const planId = parseInt((await params).planId);
+    if (isNaN(planId)) {
+      return NextResponse.json({ error: 'Invalid plan id' }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    await recurringPlanService.deletePlan(portfolioId, planId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Recurring plan deleted'
+    });
+
+  } catch (error) {
+    console.error('Recurring plan deletion error:', error);
+
+    if (error instanceof Error && error.message === 'Plan not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete recurring plan' },
+      { status: 500 }
+    );
+  }
+}
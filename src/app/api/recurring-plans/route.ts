@@ -0,0 +1,89 @@
+// Recurring plans API routes - scheduled buys for the active portfolio and their run history
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { recurringPlanService } from '@/services/recurringPlans';
+import { validateInput, recurringPlanSchema } from '@/utils/validation';
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/recurring-plans - Plans plus the latest runs across all of them (?limit caps the runs)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+    const [plans, runs] = await Promise.all([
+      recurringPlanService.listPlans(portfolioId),
+      recurringPlanService.getRuns(portfolioId, undefined, limit)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { plans, runs }
+    });
+
+  } catch (error) {
+    console.error('Recurring plans fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recurring plans' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/recurring-plans - Create a plan; its first run is the next scheduled market open
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(recurringPlanSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const portfolioId = await getActivePortfolioId(session.user.email);
+
+    if (!portfolioId) {
+      return NextResponse.json({ error: 'Portfolio not found' }, { status: 404 });
+    }
+
+    const plan = await recurringPlanService.createPlan(portfolioId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: plan
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Recurring plan creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create recurring plan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+// Screener analysis API route - send screened symbols to the AI analyzer
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { aiAnalyzerService } from '@/services/aiAnalyzer';
+import { IndexStock } from '@/services/indices';
+import { screenerService } from '@/services/screener';
+import { aiRateLimiter, withRateLimit } from '@/middleware/rateLimiter';
+import { validateInput, screenerAnalysisSchema } from '@/utils/validation';
+
+// POST /api/screener/analyze - AI recommendations for up to 10 symbols from the latest screener snapshot
+export async function POST(request: NextRequest) {
+  return withRateLimit(request, aiRateLimiter, async () => {
+    try {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.email) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      const body = await request.json();
+      const validation = validateInput(screenerAnalysisSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json({ error: validation.error }, { status: 400 });
+      }
+
+      const stocks: IndexStock[] = [];
+      for (const symbol of validation.data.symbols) {
+        const row = screenerService.getRow(symbol);
+        if (!row) continue;
+
+        stocks.push({
+          symbol: row.symbol,
+          name: row.name,
+          price: row.price,
+          change: row.change,
+          changePercent: row.changePercent,
+          volume: row.volume ?? 0,
+          marketCap: row.marketCap ?? undefined,
+          sector: row.sector,
+          lastUpdated: new Date().toISOString()
+        });
+      }
+
+      if (stocks.length === 0) {
+        return NextResponse.json({ error: 'None of the symbols are in the screener results' }, { status: 404 });
+      }
+
+      const recommendations = await aiAnalyzerService.analyzeBulkStocks(stocks);
+
+      return NextResponse.json({
+        success: true,
+        data: recommendations
+      });
+
+    } catch (error) {
+      console.error('Screener analysis error:', error);
+      return NextResponse.json(
+        { error: 'Failed to analyze symbols' },
+        { status: 500 }
+      );
+    }
+  });
+}
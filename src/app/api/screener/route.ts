@@ -0,0 +1,46 @@
+// Screener API routes - filter the index universe on fundamentals, price/volume and indicators
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { screenerService } from '@/services/screener';
+import { validateInput, screenCriteriaSchema } from '@/utils/validation';
+
+// POST /api/screener - Run a screen; 202 while the first universe snapshot is still loading
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(screenCriteriaSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const result = screenerService.screen(validation.data);
+
+    if (!result) {
+      return NextResponse.json({
+        success: true,
+        message: 'Loading market data for the screener, try again shortly',
+        data: null
+      }, { status: 202 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Screener error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run screen' },
+      { status: 500 }
+    );
+  }
+}
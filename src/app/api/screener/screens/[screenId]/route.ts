@@ -0,0 +1,104 @@
+// Single saved screen API routes - rename/update criteria and delete
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { screenerService } from '@/services/screener';
+import { validateInput, updateSavedScreenSchema } from '@/utils/validation';
+
+interface RouteContext {
+  params: Promise<{ screenId: string }>;
+}
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// PATCH /api/screener/screens/[screenId] - Update the name or any part of the criteria
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const screenId = parseInt((await params).screenId);
+    if (isNaN(screenId)) {
+      return NextResponse.json({ error: 'Invalid screen id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(updateSavedScreenSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const screen = await screenerService.updateScreen(userId, screenId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: screen
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Screen not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === 'A screen with this name already exists') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Saved screen update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update screen' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/screener/screens/[screenId] - Delete a saved screen
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const screenId = parseInt((await params).screenId);
+    if (isNaN(screenId)) {
+      return NextResponse.json({ error: 'Invalid screen id' }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await screenerService.deleteScreen(userId, screenId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Screen deleted'
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Screen not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error('Saved screen deletion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete screen' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+// Saved screen API routes - list and save the user's screener criteria
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { screenerService } from '@/services/screener';
+import { validateInput, savedScreenSchema } from '@/utils/validation';
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// GET /api/screener/screens - The user's saved screens by name
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const screens = await screenerService.listScreens(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: screens
+    });
+
+  } catch (error) {
+    console.error('Saved screens fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved screens' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/screener/screens - Save a screen under a new name
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(savedScreenSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { name, ...criteria } = validation.data;
+    const screen = await screenerService.createScreen(userId, name, criteria);
+
+    return NextResponse.json({
+      success: true,
+      data: screen
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'A screen with this name already exists') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Saved screen creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save screen' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+// Trading signal API routes - breakouts, reversals, momentum and volume spikes from the signal scanner
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { signalScanner } from '@/services/signalScanner';
+import { stockDataRateLimiter, withRateLimit } from '@/middleware/rateLimiter';
+import { validateInput, stockSymbolSchema, createApiResponse } from '@/utils/validation';
+
+// GET /api/signals - Latest scan of the index universe, or ?symbol= for one symbol; ?minStrength= filters
+export async function GET(request: NextRequest) {
+  return withRateLimit(request, stockDataRateLimiter, async () => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session) {
+        return NextResponse.json(
+          createApiResponse(false, null, 'Unauthorized'),
+          { status: 401 }
+        );
+      }
+
+      const { searchParams } = new URL(request.url);
+      const symbol = searchParams.get('symbol');
+      const minStrength = Number(searchParams.get('minStrength')) || 0;
+
+      if (symbol) {
+        const validation = validateInput(stockSymbolSchema, symbol);
+        if (!validation.success) {
+          return NextResponse.json(
+            createApiResponse(false, null, `Invalid stock symbol: ${validation.error}`),
+            { status: 400 }
+          );
+        }
+
+        const signals = await signalScanner.scanSymbol(validation.data);
+        return NextResponse.json(
+          createApiResponse(true, {
+            signals: signals.filter(signal => signal.strength >= minStrength),
+            scannedAt: new Date(),
+            symbolsScanned: 1,
+            symbolsFailed: 0
+          }),
+          { status: 200 }
+        );
+      }
+
+      const scan = signalScanner.getLatestScan();
+      if (!scan) {
+        // First request after a restart: scan in the background and let the client poll
+        signalScanner.scanUniverse().catch(error => console.error('Signal scan failed:', error));
+        return NextResponse.json(
+          createApiResponse(true, null),
+          { status: 202 }
+        );
+      }
+
+      return NextResponse.json(
+        createApiResponse(true, {
+          ...scan,
+          signals: scan.signals.filter(signal => signal.strength >= minStrength)
+        }),
+        { status: 200 }
+      );
+
+    } catch (error) {
+      console.error('Signals API error:', error);
+
+      if (error instanceof Error && /price history/.test(error.message)) {
+        return NextResponse.json(
+          createApiResponse(false, null, error.message),
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        createApiResponse(false, null, 'Failed to scan for signals'),
+        { status: 500 }
+      );
+    }
+  });
+}
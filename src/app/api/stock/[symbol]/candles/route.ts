@@ -0,0 +1,66 @@
+// Stock candles API route - OHLCV bars for the stock page chart
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { CHART_LOOKBACK_DAYS, stockDetailService } from '@/services/stockDetail';
+import { stockDataRateLimiter, withRateLimit } from '@/middleware/rateLimiter';
+import { validateInput, stockSymbolSchema, createApiResponse } from '@/utils/validation';
+import type { ChartResolution } from '@/types/stockDetail';
+
+interface RouteContext {
+  params: Promise<{ symbol: string }>;
+}
+
+// GET /api/stock/[symbol]/candles?resolution=5|15|60|D|W|M - Candles over the resolution's default range
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return withRateLimit(request, stockDataRateLimiter, async () => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session) {
+        return NextResponse.json(
+          createApiResponse(false, null, 'Unauthorized'),
+          { status: 401 }
+        );
+      }
+
+      const validation = validateInput(stockSymbolSchema, (await params).symbol.toUpperCase());
+      if (!validation.success) {
+        return NextResponse.json(
+          createApiResponse(false, null, `Invalid stock symbol: ${validation.error}`),
+          { status: 400 }
+        );
+      }
+
+      const { searchParams } = new URL(request.url);
+      const resolution = searchParams.get('resolution') ?? 'D';
+      if (!(resolution in CHART_LOOKBACK_DAYS)) {
+        return NextResponse.json(
+          createApiResponse(false, null, `Resolution must be one of ${Object.keys(CHART_LOOKBACK_DAYS).join(', ')}`),
+          { status: 400 }
+        );
+      }
+
+      const candles = await stockDetailService.getCandles(validation.data, resolution as ChartResolution);
+
+      return NextResponse.json(
+        createApiResponse(true, candles),
+        { status: 200 }
+      );
+
+    } catch (error) {
+      console.error('Stock candles API error:', error);
+
+      if (error instanceof Error && /price history/.test(error.message)) {
+        return NextResponse.json(
+          createApiResponse(false, null, error.message),
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        createApiResponse(false, null, 'Failed to fetch candles'),
+        { status: 500 }
+      );
+    }
+  });
+}
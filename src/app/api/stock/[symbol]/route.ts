@@ -0,0 +1,65 @@
+// Stock detail API route - company data, latest AI recommendation and the user's executions and open orders
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { stockDetailService } from '@/services/stockDetail';
+import { stockDataRateLimiter, withRateLimit } from '@/middleware/rateLimiter';
+import { validateInput, stockSymbolSchema, createApiResponse } from '@/utils/validation';
+
+interface RouteContext {
+  params: Promise<{ symbol: string }>;
+}
+
+async function getActivePortfolioId(email: string): Promise<number | null> {
+  const portfolio = await prisma.portfolio.findFirst({
+    where: { user: { email }, isActive: true }
+  });
+  return portfolio?.id ?? null;
+}
+
+// GET /api/stock/[symbol] - Everything the stock page shows around the chart
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  return withRateLimit(request, stockDataRateLimiter, async () => {
+    try {
+      const session = await getServerSession(authOptions);
+      if (!session?.user?.email) {
+        return NextResponse.json(
+          createApiResponse(false, null, 'Unauthorized'),
+          { status: 401 }
+        );
+      }
+
+      const validation = validateInput(stockSymbolSchema, (await params).symbol.toUpperCase());
+      if (!validation.success) {
+        return NextResponse.json(
+          createApiResponse(false, null, `Invalid stock symbol: ${validation.error}`),
+          { status: 400 }
+        );
+      }
+
+      const portfolioId = await getActivePortfolioId(session.user.email);
+      const detail = await stockDetailService.getDetail(validation.data, portfolioId);
+
+      return NextResponse.json(
+        createApiResponse(true, detail),
+        { status: 200 }
+      );
+
+    } catch (error) {
+      console.error('Stock detail API error:', error);
+
+      if (error instanceof Error && error.message.startsWith('Unknown symbol')) {
+        return NextResponse.json(
+          createApiResponse(false, null, error.message),
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(
+        createApiResponse(false, null, 'Failed to fetch stock details'),
+        { status: 500 }
+      );
+    }
+  });
+}
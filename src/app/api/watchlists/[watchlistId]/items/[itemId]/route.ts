@@ -0,0 +1,108 @@
+// Single watchlist item API routes - edit notes, tags and alert levels, or remove the symbol
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { watchlistService } from '@/services/watchlists';
+import { validateInput, updateWatchlistItemSchema } from '@/utils/validation';
+
+interface RouteContext {
+  params: Promise<{ watchlistId: string; itemId: string }>;
+}
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// PATCH /api/watchlists/[watchlistId]/items/[itemId] - Update notes, tags or alert levels (null clears)
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { watchlistId: watchlistParam, itemId: itemParam } = await params;
+    const watchlistId = parseInt(watchlistParam);
+    const itemId = parseInt(itemParam);
+    if (isNaN(watchlistId) || isNaN(itemId)) {
+      return NextResponse.json({ error: 'Invalid watchlist item id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(updateWatchlistItemSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const item = await watchlistService.updateItem(userId, watchlistId, itemId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: item
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Watchlist item not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === 'The lower alert price must be below the upper one') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Watchlist item update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update watchlist item' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/watchlists/[watchlistId]/items/[itemId] - Remove a symbol from the watchlist
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { watchlistId: watchlistParam, itemId: itemParam } = await params;
+    const watchlistId = parseInt(watchlistParam);
+    const itemId = parseInt(itemParam);
+    if (isNaN(watchlistId) || isNaN(itemId)) {
+      return NextResponse.json({ error: 'Invalid watchlist item id' }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await watchlistService.removeItem(userId, watchlistId, itemId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Symbol removed'
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Watchlist item not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error('Watchlist item deletion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove symbol' },
+      { status: 500 }
+    );
+  }
+}
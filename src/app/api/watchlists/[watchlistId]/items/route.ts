@@ -0,0 +1,65 @@
+// Watchlist item API route - add a symbol to a watchlist
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { watchlistService } from '@/services/watchlists';
+import { validateInput, watchlistItemSchema } from '@/utils/validation';
+
+interface RouteContext {
+  params: Promise<{ watchlistId: string }>;
+}
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// POST /api/watchlists/[watchlistId]/items - Add a symbol with optional notes, tags and alert levels
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const watchlistId = parseInt((await params).watchlistId);
+    if (isNaN(watchlistId)) {
+      return NextResponse.json({ error: 'Invalid watchlist id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(watchlistItemSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const item = await watchlistService.addItem(userId, watchlistId, validation.data);
+
+    return NextResponse.json({
+      success: true,
+      data: item
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Watchlist not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === 'Symbol is already on this watchlist') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Watchlist item creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add symbol' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+// Single watchlist API routes - items with 52-week ranges, rename and delete
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { watchlistService } from '@/services/watchlists';
+import { validateInput, watchlistSchema } from '@/utils/validation';
+
+interface RouteContext {
+  params: Promise<{ watchlistId: string }>;
+}
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// GET /api/watchlists/[watchlistId] - The watchlist plus name and 52-week range per symbol
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const watchlistId = parseInt((await params).watchlistId);
+    if (isNaN(watchlistId)) {
+      return NextResponse.json({ error: 'Invalid watchlist id' }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const watchlist = await watchlistService.getWatchlist(userId, watchlistId);
+    const symbols = await watchlistService.getSymbolInfo(watchlist.items.map(item => item.symbol));
+
+    return NextResponse.json({
+      success: true,
+      data: { watchlist, symbols }
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Watchlist not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error('Watchlist fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/watchlists/[watchlistId] - Rename a watchlist
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const watchlistId = parseInt((await params).watchlistId);
+    if (isNaN(watchlistId)) {
+      return NextResponse.json({ error: 'Invalid watchlist id' }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(watchlistSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const watchlist = await watchlistService.renameWatchlist(userId, watchlistId, validation.data.name);
+
+    return NextResponse.json({
+      success: true,
+      data: watchlist
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Watchlist not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof Error && error.message === 'A watchlist with this name already exists') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Watchlist update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/watchlists/[watchlistId] - Delete a watchlist and its items
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const watchlistId = parseInt((await params).watchlistId);
+    if (isNaN(watchlistId)) {
+      return NextResponse.json({ error: 'Invalid watchlist id' }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await watchlistService.deleteWatchlist(userId, watchlistId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Watchlist deleted'
+    });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Watchlist not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error('Watchlist deletion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete watchlist' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+// Watchlist analysis API route - one-click AI recommendation for a watched symbol
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { aiAnalyzerService } from '@/services/aiAnalyzer';
+import { finnhubService } from '@/services/finnhub';
+import { aiRateLimiter, withRateLimit } from '@/middleware/rateLimiter';
+import { validateInput, watchlistAnalysisSchema } from '@/utils/validation';
+
+// POST /api/watchlists/analyze - AI recommendation for a single symbol
+export async function POST(request: NextRequest) {
+  return withRateLimit(request, aiRateLimiter, async () => {
+    try {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.email) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+
+      const body = await request.json();
+      const validation = validateInput(watchlistAnalysisSchema, body);
+
+      if (!validation.success) {
+        return NextResponse.json({ error: validation.error }, { status: 400 });
+      }
+
+      const stockData = await finnhubService.getStockData(validation.data.symbol);
+      const recommendation = await aiAnalyzerService.analyzeStock({
+        symbol: stockData.symbol,
+        name: stockData.name,
+        price: stockData.currentPrice,
+        change: stockData.change,
+        changePercent: stockData.changePercent,
+        volume: 0, // Finnhub quotes carry no volume
+        marketCap: stockData.marketCap || undefined,
+        sector: stockData.industry,
+        lastUpdated: new Date().toISOString()
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: recommendation
+      });
+
+    } catch (error) {
+      console.error('Watchlist analysis error:', error);
+      return NextResponse.json(
+        { error: 'Failed to analyze symbol' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,83 @@
+// Watchlist API routes - list the user's watchlists and create new ones
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { watchlistService } from '@/services/watchlists';
+import { validateInput, watchlistSchema } from '@/utils/validation';
+
+async function getUserId(email: string): Promise<number | null> {
+  const user = await prisma.user.findUnique({ where: { email } });
+  return user?.id ?? null;
+}
+
+// GET /api/watchlists - The user's watchlists with their items
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const watchlists = await watchlistService.listWatchlists(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: watchlists
+    });
+
+  } catch (error) {
+    console.error('Watchlists fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch watchlists' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/watchlists - Create an empty watchlist
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validation = validateInput(watchlistSchema, body);
+
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const userId = await getUserId(session.user.email);
+    if (!userId) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const watchlist = await watchlistService.createWatchlist(userId, validation.data.name);
+
+    return NextResponse.json({
+      success: true,
+      data: watchlist
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'A watchlist with this name already exists') {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Watchlist creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create watchlist' },
+      { status: 500 }
+    );
+  }
+}
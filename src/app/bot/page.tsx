@@ -3,14 +3,26 @@
 import React, { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
-import { tradingBotService, BotStatus, QueuedTrade, BotDecision, BotPerformance } from '@/services/tradingBot';
+import {
+  tradingBotService,
+  BotStatus,
+  QueuedTrade,
+  BotDecision,
+  BotPerformance,
+  BotOverview,
+  TradingBotInput
+} from '@/services/tradingBot';
 import { riskManagerService, PortfolioRisk, StopLossTarget } from '@/services/riskManager';
+import { usePortfolioStore } from '@/store/portfolio';
 import MobileNav from '@/components/MobileNav';
+import TradingBotList from '@/components/TradingBotList';
 
 const TradingBotDashboard = () => {
   const { data: session, status } = useSession();
   const router = useRouter();
   
+  const [overview, setOverview] = useState<BotOverview | null>(null);
+  const [selectedBotId, setSelectedBotId] = useState<number | null>(null);
   const [botStatus, setBotStatus] = useState<BotStatus | null>(null);
   const [performance, setPerformance] = useState<BotPerformance | null>(null);
   const [queuedTrades, setQueuedTrades] = useState<QueuedTrade[]>([]);
@@ -33,42 +45,77 @@ const TradingBotDashboard = () => {
     const interval = setInterval(updateDashboardData, 10000); // Update every 10 seconds
 
     return () => clearInterval(interval);
-  }, [session, status, router]);
-
-  const updateDashboardData = () => {
-    setBotStatus(tradingBotService.getStatus());
-    setPerformance(tradingBotService.getPerformance());
-    setQueuedTrades(tradingBotService.getExecutionQueue().slice(0, 10)); // Latest 10 trades
-    setRecentDecisions(tradingBotService.getDecisions(10)); // Latest 10 decisions
-    setPortfolioRisk(riskManagerService.assessPortfolioRisk());
-    setStopLossTargets(riskManagerService.checkStopLossTargets(tradingBotService.getConfig()));
+  }, [session, status, router, selectedBotId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const updateDashboardData = async () => {
+    try {
+      // Bot state lives on the server worker; risk is assessed against the local portfolio view
+      const nextOverview = await tradingBotService.getOverview();
+      setOverview(nextOverview);
+
+      const botId = nextOverview.bots.some(bot => bot.id === selectedBotId)
+        ? selectedBotId
+        : nextOverview.bots[0]?.id ?? null;
+      if (botId !== selectedBotId) {
+        setSelectedBotId(botId); // Reloads through the effect
+        return;
+      }
+      if (botId === null) {
+        setBotStatus(null);
+        return;
+      }
+
+      const [dashboard, config] = await Promise.all([
+        tradingBotService.getDashboard(botId, 10), // Latest 10 trades and decisions
+        tradingBotService.getConfig(botId)
+      ]);
+      const portfolio = usePortfolioStore.getState();
+
+      setBotStatus(dashboard.bot.status);
+      setPerformance(dashboard.bot.performance);
+      setQueuedTrades(dashboard.queue);
+      setRecentDecisions(dashboard.decisions);
+      setPortfolioRisk(riskManagerService.assessPortfolioRisk(portfolio));
+      setStopLossTargets(riskManagerService.checkStopLossTargets(config, portfolio));
+    } catch (error) {
+      console.error('Failed to load trading bot dashboard:', error);
+    }
   };
 
-  const handleStartBot = async () => {
-    const success = await tradingBotService.startBot();
-    if (success) {
+  const handleStartBot = async (botId: number) => {
+    try {
+      await tradingBotService.startBot(botId);
       updateDashboardData();
-    } else {
-      alert('Failed to start trading bot. Check configuration and try again.');
+    } catch (error) {
+      alert(`Failed to start trading bot: ${error instanceof Error ? error.message : 'Check configuration and try again.'}`);
     }
   };
 
-  const handleStopBot = () => {
-    tradingBotService.stopBot();
+  const handleStopBot = async (botId: number) => {
+    await tradingBotService.stopBot(botId);
     updateDashboardData();
   };
 
-  const handlePauseBot = () => {
-    tradingBotService.pauseBot();
+  const handlePauseBot = async (botId: number) => {
+    await tradingBotService.pauseBot(botId);
     updateDashboardData();
   };
 
-  const handleEmergencyStop = () => {
-    tradingBotService.emergencyStop();
+  const handleEmergencyStop = async () => {
+    await tradingBotService.emergencyStop();
     updateDashboardData();
     alert('EMERGENCY STOP ACTIVATED - All trading has been halted');
   };
 
+  const handleCreateBot = async (input: TradingBotInput) => {
+    try {
+      const bot = await tradingBotService.createBot(input);
+      router.push(`/settings/bot?bot=${bot.id}`);
+    } catch (error) {
+      alert(`Failed to create trading bot: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    }
+  };
+
   const confirmAction = (action: string, callback: () => void) => {
     setShowConfirmDialog({ action, callback });
   };
@@ -113,7 +160,7 @@ const TradingBotDashboard = () => {
     }).format(amount);
   };
 
-  if (status === 'loading') {
+  if (status === 'loading' || !overview) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center">
@@ -124,12 +171,45 @@ const TradingBotDashboard = () => {
     );
   }
 
-  if (!botStatus) {
+  const header = (
+    <div className="mb-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">🤖 Automated Trading Bots</h1>
+          <p className="mt-2 text-gray-600">Monitor and control your automated trading strategies</p>
+        </div>
+        <button
+          onClick={() => router.push('/')}
+          className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg font-medium flex items-center space-x-2"
+        >
+          <span>←</span>
+          <span>Home</span>
+        </button>
+      </div>
+    </div>
+  );
+
+  const botList = (
+    <TradingBotList
+      overview={overview}
+      selectedBotId={selectedBotId}
+      onSelect={setSelectedBotId}
+      onStart={(botId) => confirmAction('start the trading bot', () => handleStartBot(botId))}
+      onPause={(botId) => confirmAction('pause the trading bot', () => handlePauseBot(botId))}
+      onStop={(botId) => confirmAction('stop the trading bot', () => handleStopBot(botId))}
+      onCreate={handleCreateBot}
+    />
+  );
+
+  // No bots yet (or the selected one is still loading): just the list and the create form
+  if (!botStatus || selectedBotId === null) {
     return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="text-center">
-          <p className="text-gray-600">Initializing trading bot...</p>
+      <div className="min-h-screen bg-gray-50 py-8 pb-20">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          {header}
+          {botList}
         </div>
+        <MobileNav />
       </div>
     );
   }
@@ -137,22 +217,10 @@ const TradingBotDashboard = () => {
   return (
     <div className="min-h-screen bg-gray-50 py-8 pb-20">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        {/* Header */}
-        <div className="mb-8">
-          <div className="flex items-center justify-between">
-            <div>
-              <h1 className="text-3xl font-bold text-gray-900">🤖 Automated Trading Bot</h1>
-              <p className="mt-2 text-gray-600">Monitor and control your AI-powered automated trading system</p>
-            </div>
-            <button
-              onClick={() => router.push('/')}
-              className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg font-medium flex items-center space-x-2"
-            >
-              <span>←</span>
-              <span>Home</span>
-            </button>
-          </div>
-        </div>
+        {header}
+
+        {/* Bots */}
+        {botList}
 
         {/* Status Overview */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
@@ -252,7 +320,7 @@ const TradingBotDashboard = () => {
           <div className="flex flex-wrap gap-4">
             {botStatus.status === 'STOPPED' && (
               <button
-                onClick={() => confirmAction('start the trading bot', handleStartBot)}
+                onClick={() => confirmAction('start the trading bot', () => handleStartBot(selectedBotId))}
                 className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium"
               >
                 ▶️ Start Bot
@@ -262,13 +330,13 @@ const TradingBotDashboard = () => {
             {botStatus.status === 'RUNNING' && (
               <>
                 <button
-                  onClick={() => confirmAction('pause the trading bot', handlePauseBot)}
+                  onClick={() => confirmAction('pause the trading bot', () => handlePauseBot(selectedBotId))}
                   className="bg-yellow-600 hover:bg-yellow-700 text-white px-4 py-2 rounded-lg font-medium"
                 >
                   ⏸️ Pause Bot
                 </button>
                 <button
-                  onClick={() => confirmAction('stop the trading bot', handleStopBot)}
+                  onClick={() => confirmAction('stop the trading bot', () => handleStopBot(selectedBotId))}
                   className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg font-medium"
                 >
                   ⏹️ Stop Bot
@@ -279,13 +347,13 @@ const TradingBotDashboard = () => {
             {botStatus.status === 'PAUSED' && (
               <>
                 <button
-                  onClick={() => confirmAction('resume the trading bot', handleStartBot)}
+                  onClick={() => confirmAction('resume the trading bot', () => handleStartBot(selectedBotId))}
                   className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium"
                 >
                   ▶️ Resume Bot
                 </button>
                 <button
-                  onClick={() => confirmAction('stop the trading bot', handleStopBot)}
+                  onClick={() => confirmAction('stop the trading bot', () => handleStopBot(selectedBotId))}
                   className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg font-medium"
                 >
                   ⏹️ Stop Bot
@@ -297,11 +365,18 @@ const TradingBotDashboard = () => {
               onClick={() => confirmAction('EMERGENCY STOP all trading', handleEmergencyStop)}
               className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg font-medium"
             >
-              🚨 Emergency Stop
+              🚨 Emergency Stop All
+            </button>
+
+            <button
+              onClick={() => router.push('/backtest')}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-4 py-2 rounded-lg font-medium"
+            >
+              📈 Backtest
             </button>
 
             <button
-              onClick={() => router.push('/settings/bot')}
+              onClick={() => router.push(`/settings/bot?bot=${selectedBotId}`)}
               className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium"
             >
               ⚙️ Settings
@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import AppHeader from '@/components/AppHeader';
+import DigestArchive from '@/components/DigestArchive';
+import MobileNav from '@/components/MobileNav';
+
+export default function DigestsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const digestId = parseInt(searchParams.get('id') ?? '');
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session) {
+      router.push('/login');
+    }
+  }, [session, status, router]);
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-500 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      <AppHeader
+        title="Digests"
+        subtitle="Daily and weekly after-close reports on your portfolios"
+      />
+
+      <DigestArchive initialDigestId={isNaN(digestId) ? undefined : digestId} />
+
+      <MobileNav />
+    </div>
+  );
+}
@@ -5,6 +5,9 @@ import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import PortfolioManager from '@/components/PortfolioManager';
 import PortfolioSettings from '@/components/PortfolioSettings';
+import PortfolioSelector from '@/components/PortfolioSelector';
+import RecurringPlans from '@/components/RecurringPlans';
+import RebalancePanel from '@/components/RebalancePanel';
 import MobileNav from '@/components/MobileNav';
 import Link from 'next/link';
 
@@ -65,12 +68,25 @@ export default function HomePage() {
               <p className="text-sm text-gray-600">Welcome back, {session.user?.name}</p>
             </div>
             <div className="flex items-center space-x-3">
+              <PortfolioSelector />
+              <Link 
+                href="/watchlist"
+                className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+              >
+                ⭐ Watchlist
+              </Link>
               <Link 
                 href="/advanced-analytics"
                 className="text-sm text-blue-600 hover:text-blue-800 font-medium"
               >
                 📊 Analytics
               </Link>
+              <Link 
+                href="/digests"
+                className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+              >
+                📰 Digests
+              </Link>
               <Link 
                 href="/settings"
                 className="text-sm text-gray-600 hover:text-gray-900"
@@ -116,6 +132,8 @@ export default function HomePage() {
       {/* Main Content */}
       <main className="pb-20 px-4">
         <PortfolioSettings />
+        <RecurringPlans />
+        <RebalancePanel />
         <PortfolioManager />
       </main>
 
@@ -2,16 +2,24 @@
 
 import React, { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
-import { useRouter } from 'next/navigation';
-import { tradingBotService, TradingBotConfig } from '@/services/tradingBot';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { DEFAULT_TRADING_BOT_CONFIG, tradingBotService, TradingBotConfig } from '@/services/tradingBot';
 // import { riskManagerService } from '@/services/riskManager';
 import MobileNav from '@/components/MobileNav';
+import StrategyConfigFields from '@/components/StrategyConfigFields';
+import type { StrategySummary } from '@/types/strategy';
 
 const BotSettingsPage = () => {
   const { data: session, status } = useSession();
   const router = useRouter();
-  
+  const searchParams = useSearchParams();
+  const botId = parseInt(searchParams.get('bot') || '');
+
+  const [botName, setBotName] = useState('');
+  const [budgetInput, setBudgetInput] = useState('');
   const [config, setConfig] = useState<TradingBotConfig | null>(null);
+  const [strategies, setStrategies] = useState<StrategySummary[]>([]);
+  const [symbolsInput, setSymbolsInput] = useState('');
   const [unsavedChanges, setUnsavedChanges] = useState(false);
   const [saving, setSaving] = useState(false);
   const [showResetDialog, setShowResetDialog] = useState(false);
@@ -22,10 +30,29 @@ const BotSettingsPage = () => {
       router.push('/login');
       return;
     }
+    // Settings are per bot; without one there is nothing to edit
+    if (isNaN(botId)) {
+      router.push('/bot');
+      return;
+    }
 
-    // Load current configuration
-    setConfig(tradingBotService.getConfig());
-  }, [session, status, router]);
+    // Load the bot and its current configuration
+    tradingBotService.getDashboard(botId, 1)
+      .then(({ bot }) => {
+        setBotName(bot.name);
+        setBudgetInput(bot.budget === null ? '' : String(bot.budget));
+      })
+      .catch((error) => console.error('Error loading bot:', error));
+    tradingBotService.getConfig(botId)
+      .then((loaded) => {
+        setConfig(loaded);
+        setSymbolsInput(loaded.strategy.symbols.join(', '));
+      })
+      .catch((error) => console.error('Error loading bot settings:', error));
+    tradingBotService.getStrategies()
+      .then(setStrategies)
+      .catch((error) => console.error('Error loading bot strategies:', error));
+  }, [session, status, router, botId]);
 
   const handleConfigChange = (section: keyof TradingBotConfig, field: string, value: any) => {
     if (!config) return;
@@ -42,17 +69,31 @@ const BotSettingsPage = () => {
     setUnsavedChanges(true);
   };
 
+  const handleStrategyChange = (strategy: Partial<TradingBotConfig['strategy']>) => {
+    if (!config) return;
+
+    setConfig({ ...config, strategy: { ...config.strategy, ...strategy } });
+    setUnsavedChanges(true);
+  };
+
   const handleSave = async () => {
     if (!config) return;
 
+    const budget = budgetInput.trim() === '' ? null : parseFloat(budgetInput);
+    if (!botName.trim() || (budget !== null && !(budget > 0))) {
+      alert('Please enter a bot name and a positive budget (or leave the budget blank).');
+      return;
+    }
+
     setSaving(true);
     try {
-      tradingBotService.updateConfig(config);
+      await tradingBotService.updateBot(botId, { name: botName.trim(), budget });
+      setConfig(await tradingBotService.updateConfig(botId, config));
       setUnsavedChanges(false);
       alert('Settings saved successfully!');
     } catch (error) {
       console.error('Error saving settings:', error);
-      alert('Failed to save settings. Please try again.');
+      alert(`Failed to save settings: ${error instanceof Error ? error.message : 'Please try again.'}`);
     } finally {
       setSaving(false);
     }
@@ -64,41 +105,16 @@ const BotSettingsPage = () => {
 
   const confirmReset = () => {
     // Reset to default configuration
-    const defaultConfig = {
-      enabled: false,
-      intervals: {
-        scanning: 30,
-        execution: 60,
-      },
-      aiThresholds: {
-        minimumConfidence: 80,
-        riskLevelsEnabled: ['LOW', 'MEDIUM'] as ('LOW' | 'MEDIUM' | 'HIGH')[],
-      },
-      riskManagement: {
-        maxPositionSize: 10,
-        maxDailyTrades: 5,
-        maxDailyAmount: 1000,
-        stopLossPercent: 15,
-        takeProfitPercent: 25,
-        maxPortfolioDrawdown: 20,
-      },
-      marketConditions: {
-        tradingHoursOnly: true,
-        avoidHighVolatility: true,
-        minimumLiquidity: 100000,
-      },
-      preferences: {
-        diversificationTarget: 8,
-        cashReservePercent: 15,
-        rebalancingEnabled: true,
-      },
-    };
+    const defaultConfig = { ...DEFAULT_TRADING_BOT_CONFIG };
 
     setConfig(defaultConfig);
+    setSymbolsInput('');
     setUnsavedChanges(true);
     setShowResetDialog(false);
   };
 
+  const selectedStrategy = strategies.find(option => option.id === config?.strategy.id);
+
   if (status === 'loading' || !config) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -157,6 +173,45 @@ const BotSettingsPage = () => {
           </div>
         </div>
 
+        {/* Name and capital allocation */}
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Bot</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Name
+              </label>
+              <input
+                type="text"
+                value={botName}
+                maxLength={100}
+                onChange={(e) => {
+                  setBotName(e.target.value);
+                  setUnsavedChanges(true);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Budget ($)
+              </label>
+              <input
+                type="number"
+                min="0"
+                value={budgetInput}
+                placeholder="Whole portfolio"
+                onChange={(e) => {
+                  setBudgetInput(e.target.value);
+                  setUnsavedChanges(true);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <p className="text-xs text-gray-500 mt-1">The bot only trades with this slice of the portfolio&apos;s cash; leave blank to share the whole portfolio</p>
+            </div>
+          </div>
+        </div>
+
         {/* Main Bot Enable/Disable */}
         <div className="bg-white rounded-lg shadow p-6 mb-8">
           <h3 className="text-lg font-medium text-gray-900 mb-4">Bot Status</h3>
@@ -169,7 +224,10 @@ const BotSettingsPage = () => {
               <input
                 type="checkbox"
                 checked={config.enabled}
-                onChange={(e) => handleConfigChange('enabled' as any, '', e.target.checked)}
+                onChange={(e) => {
+                  setConfig({ ...config, enabled: e.target.checked });
+                  setUnsavedChanges(true);
+                }}
                 className="sr-only peer"
               />
               <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
@@ -177,6 +235,57 @@ const BotSettingsPage = () => {
           </div>
         </div>
 
+        {/* Strategy */}
+        <div className="bg-white rounded-lg shadow p-6 mb-8">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">🧠 Strategy</h3>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Trading Strategy
+              </label>
+              <select
+                value={config.strategy.id}
+                onChange={(e) => handleStrategyChange({ id: e.target.value, config: {} })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {strategies.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+              {selectedStrategy && (
+                <p className="text-xs text-gray-500 mt-1">{selectedStrategy.description}</p>
+              )}
+            </div>
+            {selectedStrategy && !selectedStrategy.usesSignals && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Symbols
+                </label>
+                <input
+                  type="text"
+                  value={symbolsInput}
+                  onChange={(e) => {
+                    setSymbolsInput(e.target.value);
+                    handleStrategyChange({
+                      symbols: e.target.value.split(/[\s,]+/).map(symbol => symbol.trim().toUpperCase()).filter(Boolean)
+                    });
+                  }}
+                  placeholder="SPY, QQQ"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">The strategy trades only these symbols</p>
+              </div>
+            )}
+            {selectedStrategy && (
+              <StrategyConfigFields
+                strategy={selectedStrategy}
+                config={config.strategy.config}
+                onChange={(strategyConfig) => handleStrategyChange({ config: strategyConfig })}
+              />
+            )}
+          </div>
+        </div>
+
         {/* Intervals Configuration */}
         <div className="bg-white rounded-lg shadow p-6 mb-8">
           <h3 className="text-lg font-medium text-gray-900 mb-4">⏰ Timing Configuration</h3>
@@ -237,6 +346,20 @@ const BotSettingsPage = () => {
                 <span>95%</span>
               </div>
               <p className="text-xs text-gray-500 mt-1">Only execute trades with AI confidence above this level</p>
+              <label className="flex items-start mt-3">
+                <input
+                  type="checkbox"
+                  checked={config.aiThresholds.calibrateConfidence ?? false}
+                  onChange={(e) => handleConfigChange('aiThresholds', 'calibrateConfidence', e.target.checked)}
+                  className="mr-2 mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-700">
+                  Calibrate confidence
+                  <span className="block text-xs text-gray-500">
+                    Rescale AI confidence to its historical 5-session hit rate before comparing it to the threshold
+                  </span>
+                </span>
+              </label>
             </div>
 
             <div>
@@ -461,7 +584,7 @@ const BotSettingsPage = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="font-medium text-gray-700">Portfolio Rebalancing</p>
-                  <p className="text-sm text-gray-500">Automatically rebalance portfolio based on AI recommendations</p>
+                  <p className="text-sm text-gray-500">Once a day, rebalance toward the portfolio&apos;s target allocation when it drifts (bots without a budget only)</p>
                 </div>
                 <label className="relative inline-flex items-center cursor-pointer">
                   <input
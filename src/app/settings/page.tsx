@@ -8,6 +8,7 @@ import { aiService, AIProvider, getUserPreferredProvider, saveUserPreferredProvi
 import { unifiedRecommendations } from '@/services/unifiedRecommendations';
 import AppHeader from '@/components/AppHeader';
 import MobileNav from '@/components/MobileNav';
+import NotificationChannels from '@/components/NotificationChannels';
 
 export default function SettingsPage() {
   const { data: session, status } = useSession();
@@ -410,6 +411,7 @@ export default function SettingsPage() {
               { key: 'priceTargetHit', label: 'Price Target Hit', icon: '🎯' },
               { key: 'volatilitySpike', label: 'Volatility Spikes', icon: '⚡' },
               { key: 'portfolioRebalance', label: 'Portfolio Rebalancing', icon: '⚖️' },
+              { key: 'technicalSignals', label: 'Technical Signals', icon: '📡' },
             ].map(({ key, label, icon }) => (
               <div key={key} className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
@@ -480,7 +482,7 @@ export default function SettingsPage() {
             {[
               { key: 'browser', label: 'Browser Notifications', icon: '🔔' },
               { key: 'sound', label: 'Sound Alerts', icon: '🔊' },
-              { key: 'email', label: 'Email Notifications', icon: '📧' },
+              { key: 'serverChannels', label: 'Email & Push Channels', icon: '📧' },
             ].map(({ key, label, icon }) => (
               <div key={key} className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
@@ -504,6 +506,9 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* Outbound Channels */}
+        <NotificationChannels />
+
         {/* Quiet Hours */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200">
           <div className="p-4 border-b border-gray-200">
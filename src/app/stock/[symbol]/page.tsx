@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useParams, useRouter } from 'next/navigation';
+import AppHeader from '@/components/AppHeader';
+import MobileNav from '@/components/MobileNav';
+import StockDetailView from '@/components/StockDetailView';
+
+export default function StockPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const params = useParams<{ symbol: string }>();
+  const symbol = decodeURIComponent(params.symbol).toUpperCase();
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session) {
+      router.push('/login');
+    }
+  }, [session, status, router]);
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-500 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      <AppHeader
+        title={symbol}
+        subtitle="Chart, fundamentals, news and your trades"
+      />
+
+      <StockDetailView symbol={symbol} />
+
+      <MobileNav />
+    </div>
+  );
+}
@@ -41,12 +41,20 @@ export default function SuggestionsPage() {
               <h1 className="text-xl font-bold text-gray-900">🤖 AI Suggestions</h1>
               <p className="text-sm text-gray-600">AI-powered trading recommendations</p>
             </div>
-            <button
-              onClick={() => signOut({ callbackUrl: '/login' })}
-              className="text-sm text-gray-600 hover:text-gray-900"
-            >
-              Sign Out
-            </button>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => router.push('/screener')}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1.5 rounded-lg text-sm font-medium"
+              >
+                🔎 Screener
+              </button>
+              <button
+                onClick={() => signOut({ callbackUrl: '/login' })}
+                className="text-sm text-gray-600 hover:text-gray-900"
+              >
+                Sign Out
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import AppHeader from '@/components/AppHeader';
+import MobileNav from '@/components/MobileNav';
+import Watchlist from '@/components/Watchlist';
+
+export default function WatchlistPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (status === 'loading') return;
+    if (!session) {
+      router.push('/login');
+    }
+  }, [session, status, router]);
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-500 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20">
+      <AppHeader
+        title="Watchlist"
+        subtitle="Follow symbols with live prices, notes and price alerts"
+      />
+
+      <Watchlist />
+
+      <MobileNav />
+    </div>
+  );
+}
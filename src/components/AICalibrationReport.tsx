@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { CalibrationReport, LeaderboardEntry, OutcomeHorizon } from '@/types/recommendationTracking';
+
+const HORIZONS: OutcomeHorizon[] = [1, 5, 20];
+const CHART_SIZE = 240;
+const CHART_PADDING = 32;
+
+const formatBrier = (value: number | null): string => value !== null ? value.toFixed(3) : '—';
+const formatPercent = (value: number | null): string => value !== null ? `${value.toFixed(1)}%` : '—';
+
+// Lower Brier is better; 0.25 is what always answering 50% scores
+const brierColor = (value: number | null): string => {
+  if (value === null) return 'text-gray-400';
+  if (value < 0.2) return 'text-green-600';
+  if (value < 0.25) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const ReliabilityDiagram: React.FC<{ report: CalibrationReport }> = ({ report }) => {
+  const plot = CHART_SIZE - CHART_PADDING * 2;
+  const x = (confidence: number) => CHART_PADDING + confidence / 100 * plot;
+  const y = (hitRate: number) => CHART_SIZE - CHART_PADDING - hitRate / 100 * plot;
+  const populated = report.reliability.filter(bin => bin.count > 0);
+  const largest = Math.max(1, ...populated.map(bin => bin.count));
+
+  return (
+    <svg viewBox={`0 0 ${CHART_SIZE} ${CHART_SIZE}`} className="w-full max-w-sm">
+      {[0, 25, 50, 75, 100].map(tick => (
+        <g key={tick}>
+          <line x1={x(0)} x2={x(100)} y1={y(tick)} y2={y(tick)} stroke="#f3f4f6" />
+          <text x={CHART_PADDING - 4} y={y(tick) + 3} fontSize="8" textAnchor="end" fill="#6b7280">{tick}</text>
+          <text x={x(tick)} y={CHART_SIZE - CHART_PADDING + 12} fontSize="8" textAnchor="middle" fill="#6b7280">{tick}</text>
+        </g>
+      ))}
+      {/* Perfect calibration */}
+      <line x1={x(0)} y1={y(0)} x2={x(100)} y2={y(100)} stroke="#9ca3af" strokeDasharray="4 3" />
+      {report.curve.length > 1 && (
+        <polyline
+          points={report.curve.map(point => `${x(point.raw)},${y(point.calibrated)}`).join(' ')}
+          fill="none"
+          stroke="#8b5cf6"
+          strokeWidth="1.5"
+        />
+      )}
+      {populated.length > 1 && (
+        <polyline
+          points={populated.map(bin => `${x(bin.averageConfidence)},${y(bin.hitRate)}`).join(' ')}
+          fill="none"
+          stroke="#3b82f6"
+          strokeWidth="1.5"
+        />
+      )}
+      {populated.map(bin => (
+        <circle
+          key={bin.minConfidence}
+          cx={x(bin.averageConfidence)}
+          cy={y(bin.hitRate)}
+          r={2 + 4 * Math.sqrt(bin.count / largest)}
+          fill="#3b82f6"
+        >
+          <title>{`${bin.minConfidence}-${bin.maxConfidence}%: ${bin.hitRate.toFixed(1)}% hit rate over ${bin.count}`}</title>
+        </circle>
+      ))}
+      <text x={CHART_SIZE / 2} y={CHART_SIZE - 4} fontSize="9" textAnchor="middle" fill="#374151">Stated confidence (%)</text>
+      <text x={10} y={CHART_SIZE / 2} fontSize="9" textAnchor="middle" fill="#374151" transform={`rotate(-90 10 ${CHART_SIZE / 2})`}>
+        Hit rate (%)
+      </text>
+    </svg>
+  );
+};
+
+const LeaderboardTable: React.FC<{ title: string; label: string; entries: LeaderboardEntry[] }> = ({ title, label, entries }) => (
+  <div className="bg-white rounded-lg p-6 border border-gray-200">
+    <h4 className="text-md font-semibold mb-3">{title}</h4>
+    {entries.length === 0 ? (
+      <p className="text-sm text-gray-500">No scored recommendations yet.</p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-4">#</th>
+              <th className="py-2 pr-4">{label}</th>
+              <th className="py-2 pr-4 text-right">Calls</th>
+              <th className="py-2 pr-4 text-right">Hit Rate</th>
+              <th className="py-2 pr-4 text-right">Avg Conf.</th>
+              <th className="py-2 pr-4 text-right">Brier</th>
+              <th className="py-2 text-right">Avg Return</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {entries.map((entry, index) => (
+              <tr key={entry.key} className={entry.ranked ? '' : 'text-gray-400'}>
+                <td className="py-2 pr-4">{entry.ranked ? index + 1 : '—'}</td>
+                <td className="py-2 pr-4 font-medium capitalize">{entry.key}</td>
+                <td className="py-2 pr-4 text-right">{entry.count}</td>
+                <td className="py-2 pr-4 text-right">{entry.count > 0 ? formatPercent(entry.hitRate) : '—'}</td>
+                <td className="py-2 pr-4 text-right">{entry.count > 0 ? formatPercent(entry.averageConfidence) : '—'}</td>
+                <td className={`py-2 pr-4 text-right font-medium ${entry.ranked ? brierColor(entry.brierScore) : ''}`}>
+                  {formatBrier(entry.brierScore)}
+                </td>
+                <td className={`py-2 text-right ${(entry.averageReturn ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {entry.averageReturn !== null ? `${entry.averageReturn >= 0 ? '+' : ''}${entry.averageReturn.toFixed(2)}%` : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </div>
+);
+
+const AICalibrationReport: React.FC = () => {
+  const [horizon, setHorizon] = useState<OutcomeHorizon>(5);
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/recommendations/calibration?horizon=${horizon}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to load calibration');
+          return;
+        }
+        setReport(data.data);
+        setError(null);
+      } catch (loadError) {
+        console.error('Error loading recommendation calibration:', loadError);
+        setError('Failed to load calibration');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [horizon]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg p-6 border border-gray-200">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold flex items-center">📐 Confidence Calibration</h3>
+            <p className="text-sm text-gray-500">
+              Every stored recommendation scored against the market, whether or not it was traded
+            </p>
+          </div>
+          <div className="flex space-x-1">
+            {HORIZONS.map(option => (
+              <button
+                key={option}
+                onClick={() => setHorizon(option)}
+                className={`px-3 py-1 text-sm rounded ${horizon === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {option}d
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-500 border-t-transparent"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !report || report.overall.count === 0 ? (
+          <p className="text-sm text-gray-500">
+            No recommendations have reached the {horizon}-session horizon yet.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
+            <ReliabilityDiagram report={report} />
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <div className="text-xs text-gray-500">Brier Score</div>
+                  <div className={`text-xl font-bold ${brierColor(report.overall.brierScore)}`}>
+                    {formatBrier(report.overall.brierScore)}
+                  </div>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <div className="text-xs text-gray-500">Calibration Error</div>
+                  <div className="text-xl font-bold text-gray-900">
+                    {report.overall.calibrationError !== null ? `${report.overall.calibrationError.toFixed(1)} pts` : '—'}
+                  </div>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <div className="text-xs text-gray-500">Stated Confidence</div>
+                  <div className="text-xl font-bold text-gray-900">{formatPercent(report.overall.averageConfidence)}</div>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <div className="text-xs text-gray-500">Actual Hit Rate</div>
+                  <div className="text-xl font-bold text-gray-900">{formatPercent(report.overall.hitRate)}</div>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                {report.overall.count} outcomes. Points on the dashed line are perfectly calibrated; below it the AI is overconfident.
+                {report.curve.length > 0
+                  ? ' The purple line is the rescaling the trading bot applies when confidence calibration is on.'
+                  : ' The bot\'s calibration layer needs more scored outcomes before it changes anything.'}
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {report && report.overall.count > 0 && !isLoading && !error && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <LeaderboardTable title="🏆 Provider Leaderboard" label="Provider" entries={report.providers} />
+          <LeaderboardTable title="🏭 Sector Leaderboard" label="Sector" entries={report.sectors} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AICalibrationReport;
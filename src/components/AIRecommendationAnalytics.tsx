@@ -1,7 +1,8 @@
 'use client';
 
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { usePortfolioStore } from '@/store/portfolio';
+import type { ConfidenceBandAccuracy, RecommendationPerformance } from '@/types/recommendationTracking';
 
 interface AIAnalyticsMetrics {
   totalRecommendations: number;
@@ -26,7 +27,114 @@ interface AIAnalyticsMetrics {
   };
 }
 
-const AIRecommendationAnalytics: React.FC = () => {
+const TRACKING_DAYS = 90;
+
+const BAND_LABELS: Record<ConfidenceBandAccuracy['band'], string> = {
+  HIGH: 'High (80-100%)',
+  MEDIUM: 'Medium (60-79%)',
+  LOW: 'Low (0-59%)'
+};
+
+const describeCalibration = (band: ConfidenceBandAccuracy): string => {
+  if (band.evaluated === 0) return 'No outcomes yet';
+  const gap = band.hitRate - band.averageConfidence;
+  if (gap < -10) return 'Overconfident';
+  if (gap > 10) return 'Underconfident';
+  return 'Well calibrated';
+};
+
+// Every stored recommendation scored against realized prices, whether or not it was traded
+const TrackedRecommendationAccuracy: React.FC = () => {
+  const [performance, setPerformance] = useState<RecommendationPerformance | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPerformance = async () => {
+      try {
+        const response = await fetch(`/api/recommendations?days=${TRACKING_DAYS}`);
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || 'Failed to load tracked recommendations');
+          return;
+        }
+        setPerformance(data.data);
+      } catch (loadError) {
+        console.error('Error loading recommendation performance:', loadError);
+        setError('Failed to load tracked recommendations');
+      }
+    };
+
+    loadPerformance();
+  }, []);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-xl font-bold text-gray-900 mb-1">🎯 Tracked AI Accuracy</h3>
+      <p className="text-sm text-gray-500 mb-6">
+        {performance
+          ? `${performance.totalRecommendations} recommendations in the last ${TRACKING_DAYS} days, ${performance.pendingRecommendations} awaiting their first close`
+          : error ?? 'Loading...'}
+      </p>
+
+      {performance && performance.totalRecommendations > 0 && (
+        <>
+          {/* Accuracy by horizon */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+            {performance.horizons.map(horizon => (
+              <div key={horizon.horizonDays} className="p-4 bg-gradient-to-br from-blue-50 to-blue-100 rounded-lg">
+                <p className="text-sm text-blue-800 mb-1">
+                  After {horizon.horizonDays} {horizon.horizonDays === 1 ? 'session' : 'sessions'}
+                </p>
+                <p className="text-2xl font-bold text-blue-600">
+                  {horizon.evaluated > 0 ? `${horizon.hitRate.toFixed(1)}%` : '—'}
+                </p>
+                <p className="text-xs text-blue-700">
+                  right direction · {horizon.evaluated} scored
+                  {horizon.averageReturn !== null && ` · avg ${horizon.averageReturn >= 0 ? '+' : ''}${horizon.averageReturn.toFixed(2)}%`}
+                  {horizon.targetHitRate !== null && ` · target hit ${horizon.targetHitRate.toFixed(0)}%`}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Calibration */}
+          <h4 className="text-lg font-semibold text-gray-900 mb-4">
+            Stated Confidence vs Hit Rate ({performance.calibrationHorizon} sessions)
+          </h4>
+          <div className="space-y-4">
+            {performance.confidenceBands.map(band => (
+              <div key={band.band}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-800">{BAND_LABELS[band.band]}</span>
+                  <span className="text-gray-600">
+                    {band.evaluated} scored · {describeCalibration(band)}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-2 text-xs text-gray-600">
+                  <span className="w-20">Stated</span>
+                  <div className="flex-1 bg-gray-200 rounded-full h-2">
+                    <div className="bg-purple-500 h-2 rounded-full" style={{ width: `${band.averageConfidence}%` }} />
+                  </div>
+                  <span className="w-12 text-right">{band.averageConfidence.toFixed(0)}%</span>
+                </div>
+                <div className="flex items-center space-x-2 text-xs text-gray-600 mt-1">
+                  <span className="w-20">Actual</span>
+                  <div className="flex-1 bg-gray-200 rounded-full h-2">
+                    <div className="bg-green-500 h-2 rounded-full" style={{ width: `${band.hitRate}%` }} />
+                  </div>
+                  <span className="w-12 text-right">{band.hitRate.toFixed(0)}%</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Outcome of the trades placed on an AI recommendation, from the local portfolio
+const TradeRecommendationAnalytics: React.FC = () => {
   const { getTransactionHistory, holdings } = usePortfolioStore();
   const transactions = getTransactionHistory();
 
@@ -358,4 +466,11 @@ const AIRecommendationAnalytics: React.FC = () => {
   );
 };
 
+const AIRecommendationAnalytics: React.FC = () => (
+  <div className="space-y-6">
+    <TrackedRecommendationAccuracy />
+    <TradeRecommendationAnalytics />
+  </div>
+);
+
 export default AIRecommendationAnalytics;
\ No newline at end of file
@@ -1,12 +1,16 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import { finnhubService } from '@/services/finnhub';
 import { aiService, getUserPreferredProvider, TradeRecommendation } from '@/services/aiService';
 import { usePortfolioStore } from '@/store/portfolio';
 import orderManager from '@/services/orderManager';
-import { OrderType } from '@/types/orders';
+import { AdvancedOrder, OrderType, TimeInForce } from '@/types/orders';
 import AIRecommendationSection from '@/components/AIRecommendationSection';
+import TaxLotPicker, { LotSelection } from '@/components/TaxLotPicker';
+import TechnicalIndicatorsPanel from '@/components/TechnicalIndicatorsPanel';
+import { TechnicalIndicators } from '@/types/recommendations';
 
 interface StockData {
   symbol: string;
@@ -38,6 +42,7 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
   }>>([]);
   const [stockData, setStockData] = useState<StockData | null>(null);
   const [aiRecommendation, setAiRecommendation] = useState<TradeRecommendation | null>(null);
+  const [indicators, setIndicators] = useState<TechnicalIndicators | null>(null);
   const [quantity, setQuantity] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
@@ -45,6 +50,9 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
   
   // Advanced order settings
   const [orderType, setOrderType] = useState<OrderType>('MARKET');
+  const [limitPrice, setLimitPrice] = useState(0);
+  const [stopPrice, setStopPrice] = useState(0);
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>('DAY');
   const [stopLossEnabled, setStopLossEnabled] = useState(true);
   const [takeProfitEnabled, setTakeProfitEnabled] = useState(true);
   const [trailingStopEnabled, setTrailingStopEnabled] = useState(false);
@@ -52,6 +60,7 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
   const [customTakeProfit, setCustomTakeProfit] = useState(15);
   const [trailingPercent, setTrailingPercent] = useState(5);
   const [useMultiLevelTakeProfit, setUseMultiLevelTakeProfit] = useState(true);
+  const [lotSelections, setLotSelections] = useState<LotSelection[] | undefined>(undefined);
 
   const { executeTrade, getPortfolioSummary, holdings } = usePortfolioStore();
   const portfolioSummary = getPortfolioSummary();
@@ -103,15 +112,34 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
     await loadStockData(selectedSymbol);
   };
 
+  // Indicators need candle history, which not every symbol or API plan has; the screen works without them
+  const loadIndicators = async (stockSymbol: string): Promise<TechnicalIndicators | null> => {
+    try {
+      const response = await fetch(`/api/indicators?symbol=${encodeURIComponent(stockSymbol)}`);
+      const result = await response.json();
+      return response.ok ? result.data : null;
+    } catch (error) {
+      console.error('Error loading indicators:', error);
+      return null;
+    }
+  };
+
   const loadStockData = async (stockSymbol: string) => {
     setIsLoading(true);
     setError('');
     setStockData(null);
     setAiRecommendation(null);
+    setIndicators(null);
 
     try {
-      const data = await finnhubService.getStockData(stockSymbol.toUpperCase());
+      const [data, stockIndicators] = await Promise.all([
+        finnhubService.getStockData(stockSymbol.toUpperCase()),
+        loadIndicators(stockSymbol.toUpperCase())
+      ]);
       setStockData(data);
+      setIndicators(stockIndicators);
+      setLimitPrice(Number(data.currentPrice.toFixed(2)));
+      setStopPrice(Number(data.currentPrice.toFixed(2)));
 
       // Get AI recommendation
       const portfolio = {
@@ -132,7 +160,11 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
         ),
       };
 
-      const recommendation = await aiService.getTradeRecommendation(data, portfolio);
+      const recommendation = await aiService.getTradeRecommendation(
+        { ...data, indicators: stockIndicators ?? undefined },
+        portfolio,
+        'TRADING_INTERFACE'
+      );
       setAiRecommendation(recommendation);
 
       // Auto-adjust quantity based on AI recommendation
@@ -160,10 +192,53 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
     );
   };
 
+  const isLimitOrder = orderType === 'LIMIT' || orderType === 'STOP_LIMIT';
+
+  // Limit and stop-limit orders are placed with the server-side order engine and fill when the quote crosses the limit
+  const placeLimitOrder = async (type: 'BUY' | 'SELL') => {
+    if (!stockData) return;
+
+    if (limitPrice <= 0 || (orderType === 'STOP_LIMIT' && stopPrice <= 0)) {
+      setError('Enter a valid limit and stop price.');
+      return;
+    }
+
+    const order = orderType === 'STOP_LIMIT'
+      ? orderManager.createStopLimitOrder(stockData.symbol, type, quantity, stopPrice, limitPrice, timeInForce)
+      : orderManager.createLimitOrder(stockData.symbol, type, quantity, limitPrice, timeInForce);
+
+    try {
+      const response = await fetch('/api/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orders: [order] })
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to place order');
+      }
+
+      const placed: AdvancedOrder = result.data[0];
+      setError('');
+
+      if (placed.status === 'TRIGGERED') {
+        alert(`✅ ${type} ${orderType.replace('_', '-').toLowerCase()} order filled: ${quantity} shares of ${stockData.symbol}`);
+      } else if (placed.status === 'CANCELLED') {
+        setError(`${timeInForce} order could not be filled immediately and was cancelled.`);
+      } else {
+        alert(`📋 ${type} ${orderType.replace('_', '-').toLowerCase()} order placed (${timeInForce}): ${quantity} shares of ${stockData.symbol} at ${formatCurrency(limitPrice)}`);
+      }
+    } catch (error) {
+      console.error('Order placement error:', error);
+      setError(error instanceof Error ? error.message : 'Failed to place order.');
+    }
+  };
+
   const handleAdvancedTrade = async (type: 'BUY' | 'SELL') => {
     if (!stockData || quantity <= 0) return;
 
-    const totalCost = quantity * stockData.currentPrice;
+    const totalCost = quantity * (isLimitOrder ? limitPrice : stockData.currentPrice);
     
     if (type === 'BUY' && totalCost > portfolioSummary.cashBalance) {
       setError('Insufficient funds for this trade.');
@@ -176,6 +251,11 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
       return;
     }
 
+    if (isLimitOrder) {
+      await placeLimitOrder(type);
+      return;
+    }
+
     try {
       // Execute the main trade first
       const success = await executeTrade(
@@ -189,7 +269,8 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
               confidence: aiRecommendation.confidence,
               reasoning: aiRecommendation.reasoning,
             }
-          : undefined
+          : undefined,
+        type === 'SELL' ? lotSelections : undefined
       );
 
       if (success && type === 'BUY') {
@@ -211,15 +292,16 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
 
   const createAdvancedOrders = async (symbol: string, shares: number, entryPrice: number) => {
     try {
+      const orders: AdvancedOrder[] = [];
+
       // Create stop-loss order if enabled
       if (stopLossEnabled) {
-        const stopLossOrder = orderManager.createStopLossOrder(
+        orders.push(orderManager.createStopLossOrder(
           symbol, 
           shares, 
           entryPrice, 
           customStopLoss
-        );
-        orderManager.addOrder(stopLossOrder);
+        ));
       }
 
       // Create take-profit order(s) if enabled
@@ -233,27 +315,39 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
         );
         
         if (Array.isArray(takeProfitOrders)) {
-          takeProfitOrders.forEach(order => orderManager.addOrder(order));
+          orders.push(...takeProfitOrders);
         } else {
-          orderManager.addOrder(takeProfitOrders);
+          orders.push(takeProfitOrders);
         }
       }
 
       // Create trailing stop if enabled
       if (trailingStopEnabled) {
-        const trailingOrder = orderManager.createTrailingStopOrder(
+        orders.push(orderManager.createTrailingStopOrder(
           symbol, 
           shares, 
           entryPrice, 
           trailingPercent
-        );
-        orderManager.addOrder(trailingOrder);
+        ));
       }
 
       // Create OCO order if both stop-loss and take-profit are enabled
       if (stopLossEnabled && takeProfitEnabled && !useMultiLevelTakeProfit) {
-        const ocoOrder = orderManager.createOCOOrder(symbol, shares, entryPrice);
-        orderManager.addOrder(ocoOrder);
+        orders.push(orderManager.createOCOOrder(symbol, shares, entryPrice));
+      }
+
+      if (orders.length === 0) return;
+
+      // Persist orders so the server-side order engine monitors them
+      const response = await fetch('/api/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ orders })
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to create orders');
       }
     } catch (error) {
       console.error('Error creating advanced orders:', error);
@@ -357,6 +451,9 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
               <div>
                 <h3 className="text-xl font-bold text-gray-900">{stockData.symbol}</h3>
                 <p className="text-gray-600">{stockData.name}</p>
+                <Link href={`/stock/${stockData.symbol}`} className="text-xs text-blue-600 hover:underline">
+                  📈 Chart, news &amp; your trades
+                </Link>
               </div>
               {stockData.logo && (
                 <img src={stockData.logo} alt={stockData.name} className="w-12 h-12 rounded" />
@@ -393,6 +490,11 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
             </div>
           </div>
 
+          {/* Technical Indicators */}
+          {indicators && (
+            <TechnicalIndicatorsPanel indicators={indicators} currentPrice={stockData.currentPrice} />
+          )}
+
           {/* AI Recommendation */}
           {aiRecommendation && (
             <div className={`rounded-xl shadow-lg p-6 border-2 ${getRecommendationBg(aiRecommendation.recommendation)}`}>
@@ -479,6 +581,8 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
                 className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 <option value="MARKET">Market Order (Immediate)</option>
+                <option value="LIMIT">Limit Order</option>
+                <option value="STOP_LIMIT">Stop-Limit Order</option>
                 <option value="STOP_LOSS">Stop Loss Order</option>
                 <option value="TAKE_PROFIT">Take Profit Order</option>
                 <option value="TRAILING_STOP">Trailing Stop Order</option>
@@ -486,6 +590,54 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
               </select>
             </div>
 
+            {/* Limit / Stop-Limit Settings */}
+            {isLimitOrder && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                {orderType === 'STOP_LIMIT' && (
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Stop Price</label>
+                    <input
+                      type="number"
+                      value={stopPrice}
+                      onChange={(e) => setStopPrice(Number(e.target.value))}
+                      min="0.01"
+                      step="0.01"
+                      className="w-full p-2 border border-gray-300 rounded text-sm"
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Limit Price</label>
+                  <input
+                    type="number"
+                    value={limitPrice}
+                    onChange={(e) => setLimitPrice(Number(e.target.value))}
+                    min="0.01"
+                    step="0.01"
+                    className="w-full p-2 border border-gray-300 rounded text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Time in Force</label>
+                  <select
+                    value={timeInForce}
+                    onChange={(e) => setTimeInForce(e.target.value as TimeInForce)}
+                    className="w-full p-2 border border-gray-300 rounded text-sm"
+                  >
+                    <option value="DAY">DAY (expires at market close)</option>
+                    <option value="GTC">GTC (good till cancelled)</option>
+                    <option value="IOC">IOC (immediate or cancel)</option>
+                    <option value="FOK">FOK (fill or kill)</option>
+                  </select>
+                </div>
+                <p className="md:col-span-3 text-xs text-gray-500">
+                  {orderType === 'STOP_LIMIT'
+                    ? 'Once the stop price is reached, the order fills only at the limit price or better.'
+                    : 'Buy limits fill at or below the limit price; sell limits fill at or above it.'}
+                </p>
+              </div>
+            )}
+
             {/* Risk Management Settings */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
               {/* Stop Loss */}
@@ -599,10 +751,24 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
               />
             </div>
 
+            {holdings[stockData.symbol] && !isLimitOrder && (
+              <TaxLotPicker
+                symbol={stockData.symbol}
+                currentPrice={stockData.currentPrice}
+                holdingQuantity={holdings[stockData.symbol].quantity}
+                onChange={(selections) => {
+                  setLotSelections(selections);
+                  if (selections) {
+                    setQuantity(selections.reduce((sum, lot) => sum + lot.quantity, 0));
+                  }
+                }}
+              />
+            )}
+
             <div className="mb-4 p-3 bg-gray-50 rounded-lg">
               <div className="flex justify-between text-sm">
-                <span>Total Cost:</span>
-                <span className="font-semibold">{formatCurrency(quantity * stockData.currentPrice)}</span>
+                <span>{isLimitOrder ? 'Total at Limit:' : 'Total Cost:'}</span>
+                <span className="font-semibold">{formatCurrency(quantity * (isLimitOrder ? limitPrice : stockData.currentPrice))}</span>
               </div>
               <div className="flex justify-between text-sm text-gray-600">
                 <span>Available Cash:</span>
@@ -631,10 +797,12 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
             <div className="grid grid-cols-2 gap-3">
               <button
                 onClick={() => handleAdvancedTrade('BUY')}
-                disabled={quantity * stockData.currentPrice > portfolioSummary.cashBalance}
+                disabled={quantity * (isLimitOrder ? limitPrice : stockData.currentPrice) > portfolioSummary.cashBalance}
                 className="bg-green-600 text-white p-3 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
               >
-                🚀 Advanced Buy ${(quantity * stockData.currentPrice).toFixed(2)}
+                {isLimitOrder
+                  ? `🚀 Place Buy ${orderType === 'LIMIT' ? 'Limit' : 'Stop-Limit'} @ $${limitPrice.toFixed(2)}`
+                  : `🚀 Advanced Buy $${(quantity * stockData.currentPrice).toFixed(2)}`}
               </button>
               
               <button
@@ -642,7 +810,9 @@ export default function AdvancedTradingInterface({ initialSymbol = '' }: Advance
                 disabled={!holdings[stockData.symbol] || holdings[stockData.symbol].quantity < quantity}
                 className="bg-red-600 text-white p-3 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
               >
-                📉 Advanced Sell ${(quantity * stockData.currentPrice).toFixed(2)}
+                {isLimitOrder
+                  ? `📉 Place Sell ${orderType === 'LIMIT' ? 'Limit' : 'Stop-Limit'} @ $${limitPrice.toFixed(2)}`
+                  : `📉 Advanced Sell $${(quantity * stockData.currentPrice).toFixed(2)}`}
               </button>
             </div>
 
@@ -44,8 +44,8 @@ const AlertNotifications: React.FC<AlertNotificationsProps> = ({ className = ''
     setShowDropdown(false);
     updateAlertData();
     
-    // Navigate to trading page with the symbol
-    router.push(`/trade?symbol=${alert.symbol}`);
+    // Drift alerts open the rebalance preview; the rest open the symbol's trade page
+    router.push(alert.type === 'PORTFOLIO_REBALANCE' && alert.symbol !== 'SYSTEM' ? '/#rebalance' : `/trade?symbol=${alert.symbol}`);
   };
 
   const handleDismissAlert = (alertId: string, event: React.MouseEvent) => {
@@ -71,6 +71,7 @@ const AlertNotifications: React.FC<AlertNotificationsProps> = ({ className = ''
       case 'PRICE_TARGET_HIT': return '🎯';
       case 'VOLATILITY_SPIKE': return '⚡';
       case 'PORTFOLIO_REBALANCE': return '⚖️';
+      case 'TECHNICAL_SIGNAL': return '📡';
       default: return '🔔';
     }
   };
@@ -0,0 +1,393 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { AlertConfig, TriggeredAlert } from '@/types/recommendations';
+
+type RuleType = AlertConfig['type'];
+type RuleCondition = AlertConfig['condition'];
+
+const CONDITION_OPTIONS: Record<RuleType, { condition: RuleCondition; label: string; unit: string }[]> = {
+  PRICE: [
+    { condition: 'ABOVE', label: 'Price rises to', unit: '$' },
+    { condition: 'BELOW', label: 'Price falls to', unit: '$' },
+    { condition: 'CHANGE_PERCENT', label: 'Day change reaches', unit: '% (negative for drops)' }
+  ],
+  VOLUME: [
+    { condition: 'ABOVE', label: 'Volume exceeds', unit: 'shares' },
+    { condition: 'VOLUME_SPIKE', label: 'Volume spikes to', unit: 'x 20-day average' }
+  ],
+  NEWS: [
+    { condition: 'ABOVE', label: 'New articles reach', unit: 'articles' }
+  ],
+  RECOMMENDATION: [
+    { condition: 'ABOVE', label: 'AI says BUY with confidence ≥', unit: '%' },
+    { condition: 'BELOW', label: 'AI says SELL with confidence ≥', unit: '%' }
+  ],
+  SIGNAL: [
+    { condition: 'ABOVE', label: 'Bullish signal with strength ≥', unit: '0-100' },
+    { condition: 'BELOW', label: 'Bearish signal with strength ≥', unit: '0-100' }
+  ]
+};
+
+const TYPE_ICONS: Record<RuleType, string> = {
+  PRICE: '🎯',
+  VOLUME: '📊',
+  NEWS: '📰',
+  RECOMMENDATION: '🤖',
+  SIGNAL: '📡'
+};
+
+const EMPTY_FORM = {
+  type: 'PRICE' as RuleType,
+  symbol: '',
+  condition: 'ABOVE' as RuleCondition,
+  threshold: '',
+  recurring: false,
+  cooldownMinutes: '60',
+  expiresAt: ''
+};
+
+const describeRule = (rule: AlertConfig): string => {
+  const option = CONDITION_OPTIONS[rule.type].find(candidate => candidate.condition === rule.condition);
+  return `${rule.symbol ?? 'Any symbol'}: ${option?.label ?? rule.condition} ${rule.threshold} ${option?.unit ?? ''}`.trim();
+};
+
+const formatDateTime = (dateString: string): string =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const AlertRules: React.FC = () => {
+  const [rules, setRules] = useState<AlertConfig[]>([]);
+  const [history, setHistory] = useState<TriggeredAlert[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadData = async () => {
+    try {
+      const [rulesResponse, historyResponse] = await Promise.all([
+        fetch('/api/alerts/rules'),
+        fetch('/api/alerts/history')
+      ]);
+      const rulesData = await rulesResponse.json();
+      const historyData = await historyResponse.json();
+
+      if (rulesResponse.ok) setRules(rulesData.data);
+      if (historyResponse.ok) setHistory(historyData.data);
+      if (!rulesResponse.ok || !historyResponse.ok) {
+        setMessage(rulesData.error || historyData.error || 'Failed to load alert rules');
+      }
+    } catch (error) {
+      console.error('Error loading alert rules:', error);
+      setMessage('Failed to load alert rules');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const handleTypeChange = (type: RuleType) => {
+    setForm({ ...form, type, condition: CONDITION_OPTIONS[type][0].condition });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/alerts/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: form.type,
+          symbol: form.symbol.trim() ? form.symbol.trim().toUpperCase() : null,
+          condition: form.condition,
+          threshold: parseFloat(form.threshold),
+          recurring: form.recurring,
+          cooldownMinutes: parseInt(form.cooldownMinutes) || 0,
+          expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to create alert rule');
+        return;
+      }
+
+      setRules([data.data, ...rules]);
+      setForm({ ...EMPTY_FORM, type: form.type, condition: form.condition });
+    } catch (error) {
+      console.error('Error creating alert rule:', error);
+      setMessage('Failed to create alert rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertConfig) => {
+    try {
+      const response = await fetch(`/api/alerts/rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !rule.isActive })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to update alert rule');
+        return;
+      }
+      setRules(rules.map(candidate => candidate.id === rule.id ? data.data : candidate));
+    } catch (error) {
+      console.error('Error updating alert rule:', error);
+      setMessage('Failed to update alert rule');
+    }
+  };
+
+  const handleDelete = async (rule: AlertConfig) => {
+    if (!confirm(`Delete the alert "${describeRule(rule)}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/alerts/rules/${rule.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        setMessage(data.error || 'Failed to delete alert rule');
+        return;
+      }
+      setRules(rules.filter(candidate => candidate.id !== rule.id));
+    } catch (error) {
+      console.error('Error deleting alert rule:', error);
+      setMessage('Failed to delete alert rule');
+    }
+  };
+
+  const handleMarkRead = async (ids?: number[]) => {
+    try {
+      const response = await fetch('/api/alerts/history', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {})
+      });
+      if (response.ok) {
+        setHistory(history.map(alert => !ids || ids.includes(alert.id) ? { ...alert, isRead: true } : alert));
+      }
+    } catch (error) {
+      console.error('Error marking alerts read:', error);
+    }
+  };
+
+  const selectedOption = CONDITION_OPTIONS[form.type].find(option => option.condition === form.condition);
+  const unreadCount = history.filter(alert => !alert.isRead).length;
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-500 border-t-transparent mx-auto mb-4"></div>
+        <p className="text-gray-600">Loading alert rules...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {message && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{message}</div>
+      )}
+
+      {/* New Rule */}
+      <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+        <h3 className="text-lg font-semibold text-gray-900">New Alert Rule</h3>
+        <p className="text-sm text-gray-600">
+          Rules are checked on the server every minute, even when this page is closed. Price and volume rules run during market hours.
+        </p>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <label className="text-sm">
+            <span className="block text-gray-600 mb-1">Type</span>
+            <select
+              value={form.type}
+              onChange={(e) => handleTypeChange(e.target.value as RuleType)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="PRICE">Price</option>
+              <option value="VOLUME">Volume</option>
+              <option value="NEWS">News</option>
+              <option value="RECOMMENDATION">AI Recommendation</option>
+              <option value="SIGNAL">Technical Signal</option>
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block text-gray-600 mb-1">Symbol</span>
+            <input
+              type="text"
+              value={form.symbol}
+              onChange={(e) => setForm({ ...form, symbol: e.target.value.toUpperCase() })}
+              placeholder={form.type === 'RECOMMENDATION' || form.type === 'SIGNAL' ? 'Any symbol' : 'AAPL'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="block text-gray-600 mb-1">Condition</span>
+            <select
+              value={form.condition}
+              onChange={(e) => setForm({ ...form, condition: e.target.value as RuleCondition })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              {CONDITION_OPTIONS[form.type].map(option => (
+                <option key={option.condition} value={option.condition}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            <span className="block text-gray-600 mb-1">Threshold ({selectedOption?.unit})</span>
+            <input
+              type="number"
+              step="any"
+              value={form.threshold}
+              onChange={(e) => setForm({ ...form, threshold: e.target.value })}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.recurring}
+              onChange={(e) => setForm({ ...form, recurring: e.target.checked })}
+            />
+            <span>Recurring (otherwise fires once)</span>
+          </label>
+          <label className="text-sm">
+            <span className="block text-gray-600 mb-1">Cooldown (minutes)</span>
+            <input
+              type="number"
+              min="0"
+              value={form.cooldownMinutes}
+              onChange={(e) => setForm({ ...form, cooldownMinutes: e.target.value })}
+              disabled={!form.recurring}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-100"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="block text-gray-600 mb-1">Expires (optional)</span>
+            <input
+              type="datetime-local"
+              value={form.expiresAt}
+              onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isSaving || !form.threshold}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Add Rule'}
+          </button>
+        </div>
+      </form>
+
+      {/* Rules */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Your Alert Rules ({rules.length})</h3>
+        </div>
+        {rules.length === 0 ? (
+          <p className="p-4 text-sm text-gray-600">No alert rules yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {rules.map(rule => (
+              <div key={rule.id} className={`p-4 flex items-center justify-between ${rule.isActive ? '' : 'opacity-60'}`}>
+                <div className="flex items-center space-x-3">
+                  <span className="text-2xl">{TYPE_ICONS[rule.type]}</span>
+                  <div>
+                    <p className="font-medium text-gray-900">{describeRule(rule)}</p>
+                    <p className="text-xs text-gray-500">
+                      {rule.recurring ? `Recurring, ${rule.cooldownMinutes} min cooldown` : 'One-shot'}
+                      {rule.expiresAt && ` · expires ${formatDateTime(rule.expiresAt)}`}
+                      {` · fired ${rule.triggerCount}x`}
+                      {rule.lastTriggeredAt && `, last ${formatDateTime(rule.lastTriggeredAt)}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => handleToggle(rule)}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    {rule.isActive ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    className="px-3 py-1 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Triggered history */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Triggered Alerts ({unreadCount} unread)</h3>
+          {unreadCount > 0 && (
+            <button onClick={() => handleMarkRead()} className="text-sm text-blue-600 hover:text-blue-800">
+              Mark all read
+            </button>
+          )}
+        </div>
+        {history.length === 0 ? (
+          <p className="p-4 text-sm text-gray-600">None of your rules have fired yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {history.map(alert => (
+              <div
+                key={alert.id}
+                className={`p-4 flex items-start justify-between ${!alert.isRead ? 'bg-blue-50 border-l-4 border-l-blue-500' : ''}`}
+              >
+                <div className="flex items-start space-x-3">
+                  <span className="text-2xl">{TYPE_ICONS[alert.type]}</span>
+                  <div>
+                    <Link href={`/stock/${alert.symbol}`} className="font-semibold text-gray-900 hover:text-blue-600">
+                      {alert.symbol}
+                    </Link>
+                    <p className="text-gray-700">{alert.message}</p>
+                    <p className="text-xs text-gray-500">{formatDateTime(alert.triggeredAt)}</p>
+                  </div>
+                </div>
+                {!alert.isRead && (
+                  <button
+                    onClick={() => handleMarkRead([alert.id])}
+                    className="ml-4 text-sm text-gray-500 hover:text-gray-700"
+                  >
+                    Mark read
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertRules;
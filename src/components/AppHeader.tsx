@@ -3,6 +3,7 @@
 import React from 'react';
 import { useSession, signOut } from 'next-auth/react';
 import AlertNotifications from './AlertNotifications';
+import PortfolioSelector from './PortfolioSelector';
 
 interface AppHeaderProps {
   title: string;
@@ -31,6 +32,9 @@ const AppHeader: React.FC<AppHeaderProps> = ({ title, subtitle, showAlerts = tru
 
           {/* Actions Section */}
           <div className="flex items-center space-x-3">
+            {/* Portfolio Switcher */}
+            <PortfolioSelector />
+
             {/* Alert Notifications */}
             {showAlerts && <AlertNotifications />}
             
@@ -0,0 +1,336 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DEFAULT_TRADING_BOT_CONFIG, tradingBotService, TradingBotConfig } from '@/services/tradingBot';
+import StrategyConfigFields from '@/components/StrategyConfigFields';
+import type { BacktestDataSource, BacktestReport, BacktestRiskSettings } from '@/services/backtester';
+import type { StrategySummary } from '@/types/strategy';
+
+const RISK_FIELDS: Array<{ key: keyof BacktestRiskSettings; label: string; step: string }> = [
+  { key: 'maxPositionSize', label: 'Max position size (%)', step: '1' },
+  { key: 'maxDailyTrades', label: 'Max daily trades', step: '1' },
+  { key: 'stopLossPercent', label: 'Stop loss (%)', step: '0.5' },
+  { key: 'takeProfitPercent', label: 'Take profit (%)', step: '0.5' },
+  { key: 'trailingStopPercent', label: 'Trailing stop (%)', step: '0.5' },
+  { key: 'cashReservePercent', label: 'Cash reserve (%)', step: '1' }
+];
+
+const toInputDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// The bot's saved risk rules, so a backtest validates exactly what the bot would trade with
+const toBotRiskSettings = (config: TradingBotConfig): BacktestRiskSettings => {
+  return {
+    maxPositionSize: config.riskManagement.maxPositionSize,
+    maxDailyTrades: config.riskManagement.maxDailyTrades,
+    stopLossPercent: config.riskManagement.stopLossPercent,
+    takeProfitPercent: config.riskManagement.takeProfitPercent,
+    trailingStopPercent: 0,
+    cashReservePercent: config.preferences.cashReservePercent
+  };
+};
+
+export default function BacktestRunner() {
+  const [strategies, setStrategies] = useState<StrategySummary[]>([]);
+  const [strategy, setStrategy] = useState('buy-and-hold');
+  const [strategyConfig, setStrategyConfig] = useState<Record<string, unknown>>({});
+  const [symbols, setSymbols] = useState('AAPL, MSFT, NVDA');
+  const [startDate, setStartDate] = useState(() => toInputDate(new Date(Date.now() - 365 * 24 * 60 * 60 * 1000)));
+  const [endDate, setEndDate] = useState(() => toInputDate(new Date()));
+  const [initialCash, setInitialCash] = useState('10000');
+  const [benchmarkSymbol, setBenchmarkSymbol] = useState('SPY');
+  const [dataSource, setDataSource] = useState<BacktestDataSource>('finnhub');
+  const [risk, setRisk] = useState<BacktestRiskSettings>(() => toBotRiskSettings(DEFAULT_TRADING_BOT_CONFIG));
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const response = await fetch('/api/backtest');
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load strategies');
+        }
+        setStrategies(result.data.strategies);
+      } catch (err) {
+        console.error('Error loading backtest options:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load strategies');
+      }
+    };
+
+    loadOptions();
+    loadBotRiskSettings();
+  }, []);
+
+  const loadBotRiskSettings = async () => {
+    try {
+      // Seed from the first bot; with no bots the defaults stand
+      const { bots } = await tradingBotService.getOverview();
+      const config = bots.length > 0 ? await tradingBotService.getConfig(bots[0].id) : DEFAULT_TRADING_BOT_CONFIG;
+      setRisk(toBotRiskSettings(config));
+    } catch (err) {
+      console.error('Error loading bot risk settings:', err);
+    }
+  };
+
+  const runBacktest = async () => {
+    const symbolList = symbols.split(/[\s,]+/).map(s => s.trim().toUpperCase()).filter(Boolean);
+    if (symbolList.length === 0) {
+      setError('Enter at least one symbol');
+      return;
+    }
+
+    setIsRunning(true);
+    setError('');
+    try {
+      const response = await fetch('/api/backtest', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          strategy,
+          strategyConfig,
+          symbols: symbolList,
+          startDate,
+          endDate,
+          initialCash: parseFloat(initialCash),
+          benchmarkSymbol: benchmarkSymbol.trim().toUpperCase(),
+          dataSource,
+          risk
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Backtest failed');
+      }
+      setReport(result.data);
+    } catch (err) {
+      console.error('Error running backtest:', err);
+      setError(err instanceof Error ? err.message : 'Backtest failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+  const formatPercent = (percent: number) => `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+
+  const pnlClass = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+  const selectedStrategy = strategies.find(option => option.id === strategy);
+
+  const curve = report?.equityCurve ?? [];
+  const curveValues = curve.flatMap(point => [point.value, point.benchmark]);
+  const curveMin = Math.min(...curveValues);
+  const curveRange = Math.max(...curveValues) - curveMin || 1;
+  const toPoints = (key: 'value' | 'benchmark') => curve
+    .map((point, index) => `${(index / Math.max(1, curve.length - 1)) * 100},${30 - ((point[key] - curveMin) / curveRange) * 30}`)
+    .join(' ');
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Settings */}
+      <div className="bg-white rounded-lg shadow-md p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="text-sm text-gray-700">
+            Strategy
+            <select
+              value={strategy}
+              onChange={(e) => {
+                setStrategy(e.target.value);
+                setStrategyConfig({});
+              }}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded"
+            >
+              {strategies.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700 md:col-span-2">
+            Symbols
+            <input
+              type="text"
+              value={symbols}
+              onChange={(e) => setSymbols(e.target.value)}
+              placeholder="AAPL, MSFT"
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+        </div>
+        {selectedStrategy && (
+          <>
+            <p className="text-xs text-gray-500">{selectedStrategy.description}</p>
+            <StrategyConfigFields strategy={selectedStrategy} config={strategyConfig} onChange={setStrategyConfig} />
+          </>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <label className="text-sm text-gray-700">
+            Start
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="mt-1 w-full px-2 py-1 border border-gray-300 rounded" />
+          </label>
+          <label className="text-sm text-gray-700">
+            End
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="mt-1 w-full px-2 py-1 border border-gray-300 rounded" />
+          </label>
+          <label className="text-sm text-gray-700">
+            Starting cash
+            <input type="number" min="1" value={initialCash} onChange={(e) => setInitialCash(e.target.value)} className="mt-1 w-full px-2 py-1 border border-gray-300 rounded" />
+          </label>
+          <label className="text-sm text-gray-700">
+            Benchmark
+            <input type="text" value={benchmarkSymbol} onChange={(e) => setBenchmarkSymbol(e.target.value)} className="mt-1 w-full px-2 py-1 border border-gray-300 rounded" />
+          </label>
+          <label className="text-sm text-gray-700">
+            Data
+            <select
+              value={dataSource}
+              onChange={(e) => setDataSource(e.target.value as BacktestDataSource)}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded"
+            >
+              <option value="finnhub">Finnhub candles</option>
+              <option value="fixtures">Local fixtures</option>
+            </select>
+          </label>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-900">Risk settings</h3>
+            <button onClick={loadBotRiskSettings} className="text-xs text-blue-600 hover:text-blue-800">
+              Reset to bot settings
+            </button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            {RISK_FIELDS.map(field => (
+              <label key={field.key} className="text-xs text-gray-600">
+                {field.label}
+                <input
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  value={risk[field.key]}
+                  onChange={(e) => setRisk({ ...risk, [field.key]: parseFloat(e.target.value) || 0 })}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={runBacktest}
+          disabled={isRunning}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg font-medium"
+        >
+          {isRunning ? 'Running…' : '▶️ Run backtest'}
+        </button>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>
+        )}
+      </div>
+
+      {report && (
+        <>
+          {/* Headline metrics */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white rounded-lg shadow-md p-4">
+              <p className="text-sm text-gray-500">Total Return</p>
+              <p className={`text-xl font-bold ${pnlClass(report.totalReturn)}`}>{formatPercent(report.totalReturn)}</p>
+              <p className="text-xs text-gray-500">Benchmark {formatPercent(report.benchmark.return)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-md p-4">
+              <p className="text-sm text-gray-500">Final Value</p>
+              <p className="text-xl font-bold text-gray-900">{formatCurrency(report.finalValue)}</p>
+              <p className="text-xs text-gray-500">Annualized {formatPercent(report.annualizedReturn)}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-md p-4">
+              <p className="text-sm text-gray-500">Volatility / Sharpe</p>
+              <p className="text-xl font-bold text-gray-900">{report.volatility.toFixed(2)}% / {report.sharpeRatio.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">Benchmark volatility {report.benchmark.volatility.toFixed(2)}%</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-md p-4">
+              <p className="text-sm text-gray-500">Max Drawdown</p>
+              <p className="text-xl font-bold text-red-600">-{report.maxDrawdown.toFixed(2)}%</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-md p-4">
+              <p className="text-sm text-gray-500">Trades</p>
+              <p className="text-xl font-bold text-gray-900">{report.totalTrades}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-md p-4">
+              <p className="text-sm text-gray-500">Win Rate</p>
+              <p className="text-xl font-bold text-gray-900">{report.winRate.toFixed(1)}%</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-md p-4">
+              <p className="text-sm text-gray-500">Profit Factor</p>
+              <p className="text-xl font-bold text-gray-900">
+                {report.grossLoss > 0 ? report.profitFactor.toFixed(2) : '—'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {formatCurrency(report.grossProfit)} won / {formatCurrency(report.grossLoss)} lost
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow-md p-4">
+              <p className="text-sm text-gray-500">Trading Costs</p>
+              <p className="text-xl font-bold text-gray-900">
+                {formatCurrency(report.costs.commission + report.costs.spread + report.costs.slippage)}
+              </p>
+              <p className="text-xs text-gray-500">
+                {formatCurrency(report.costs.commission)} commission
+              </p>
+            </div>
+          </div>
+
+          {/* Equity curve */}
+          {curve.length > 1 && (
+            <div className="bg-white rounded-lg shadow-md p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-lg font-semibold">{report.strategy} vs {benchmarkSymbol.toUpperCase()}</h3>
+                <div className="flex items-center space-x-3 text-xs text-gray-500">
+                  <span><span className="inline-block w-3 h-0.5 bg-blue-600 align-middle mr-1"></span>Strategy</span>
+                  <span><span className="inline-block w-3 h-0.5 bg-gray-400 align-middle mr-1"></span>Benchmark</span>
+                </div>
+              </div>
+              <svg viewBox="0 0 100 30" preserveAspectRatio="none" className="w-full h-40">
+                <polyline points={toPoints('benchmark')} fill="none" stroke="#9ca3af" strokeWidth="0.8" vectorEffect="non-scaling-stroke" />
+                <polyline points={toPoints('value')} fill="none" stroke="#2563eb" strokeWidth="0.8" vectorEffect="non-scaling-stroke" />
+              </svg>
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>{report.period.start}</span>
+                <span>{report.period.end}</span>
+              </div>
+            </div>
+          )}
+
+          {/* Trade history */}
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <h3 className="text-lg font-semibold px-4 py-3 border-b border-gray-200">
+              Trades ({report.tradeHistory.length})
+            </h3>
+            {report.tradeHistory.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">The strategy made no trades in this period</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {report.tradeHistory.map((trade, index) => (
+                  <div key={index} className="grid grid-cols-5 gap-2 px-4 py-2 text-sm">
+                    <span className="text-gray-500">{trade.date}</span>
+                    <span className={trade.action === 'BUY' ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+                      {trade.action} {trade.symbol}
+                    </span>
+                    <span>{trade.quantity} sh</span>
+                    <span>{formatCurrency(trade.price)}</span>
+                    <span className="text-gray-500">{formatCurrency(trade.portfolioValue)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { DigestDetail, DigestPeriod, DigestPreferences, DigestSummary } from '@/types/digests';
+
+interface DigestArchiveProps {
+  initialDigestId?: number;
+}
+
+const PREFERENCE_OPTIONS: { key: keyof DigestPreferences; label: string; description: string }[] = [
+  { key: 'dailyDigest', label: 'Daily digest', description: 'After every trading day\'s close' },
+  { key: 'performanceReports', label: 'Weekly performance report', description: 'After Friday\'s close' }
+];
+
+const formatDateTime = (dateString: string): string =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const DigestArchive: React.FC<DigestArchiveProps> = ({ initialDigestId }) => {
+  const [digests, setDigests] = useState<DigestSummary[]>([]);
+  const [selected, setSelected] = useState<DigestDetail | null>(null);
+  const [preferences, setPreferences] = useState<DigestPreferences | null>(null);
+  const [deliver, setDeliver] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [generating, setGenerating] = useState<DigestPeriod | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadDigest = async (digestId: number) => {
+    try {
+      const response = await fetch(`/api/digests/${digestId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to load digest');
+        return;
+      }
+      setSelected(data.data);
+    } catch (error) {
+      console.error('Error loading digest:', error);
+      setMessage('Failed to load digest');
+    }
+  };
+
+  const loadData = async () => {
+    try {
+      const [digestsResponse, preferencesResponse] = await Promise.all([
+        fetch('/api/digests'),
+        fetch('/api/digests/preferences')
+      ]);
+      const digestsData = await digestsResponse.json();
+      const preferencesData = await preferencesResponse.json();
+
+      if (digestsResponse.ok) {
+        setDigests(digestsData.data);
+        const initialId = initialDigestId ?? digestsData.data[0]?.id;
+        if (initialId) await loadDigest(initialId);
+      }
+      if (preferencesResponse.ok) setPreferences(preferencesData.data);
+      if (!digestsResponse.ok || !preferencesResponse.ok) {
+        setMessage(digestsData.error || preferencesData.error || 'Failed to load digests');
+      }
+    } catch (error) {
+      console.error('Error loading digests:', error);
+      setMessage('Failed to load digests');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handlePreferenceChange = async (key: keyof DigestPreferences, value: boolean) => {
+    try {
+      const response = await fetch('/api/digests/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [key]: value })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to update preferences');
+        return;
+      }
+      setPreferences(data.data);
+    } catch (error) {
+      console.error('Error updating digest preferences:', error);
+      setMessage('Failed to update preferences');
+    }
+  };
+
+  const handleGenerate = async (period: DigestPeriod) => {
+    setGenerating(period);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/digests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ period, deliver })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to generate digest');
+        return;
+      }
+
+      const digest: DigestDetail = data.data;
+      setDigests([digest, ...digests.filter(candidate => candidate.id !== digest.id)]);
+      setSelected(digest);
+    } catch (error) {
+      console.error('Error generating digest:', error);
+      setMessage('Failed to generate digest');
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-500 border-t-transparent mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading digests...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      {message && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{message}</div>
+      )}
+
+      {/* Schedule */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+        <h3 className="text-lg font-semibold text-gray-900">Scheduled Reports</h3>
+        <p className="text-sm text-gray-600">
+          Sent through your notification channels after the market closes, and kept here.
+        </p>
+        {preferences && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {PREFERENCE_OPTIONS.map(option => (
+              <label key={option.key} className="flex items-start space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={preferences[option.key]}
+                  onChange={(e) => handlePreferenceChange(option.key, e.target.checked)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block font-medium text-gray-900">{option.label}</span>
+                  <span className="text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-gray-100">
+          <button
+            onClick={() => handleGenerate('DAILY')}
+            disabled={generating !== null}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {generating === 'DAILY' ? 'Generating...' : 'Generate daily now'}
+          </button>
+          <button
+            onClick={() => handleGenerate('WEEKLY')}
+            disabled={generating !== null}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            {generating === 'WEEKLY' ? 'Generating...' : 'Generate weekly now'}
+          </button>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input type="checkbox" checked={deliver} onChange={(e) => setDeliver(e.target.checked)} />
+            <span>Also send to my channels</span>
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Archive */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 lg:col-span-1">
+          <div className="px-4 py-3 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Archive ({digests.length})</h3>
+          </div>
+          {digests.length === 0 ? (
+            <p className="p-4 text-sm text-gray-600">No digests yet. The first one arrives after today&apos;s close.</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {digests.map(digest => (
+                <button
+                  key={digest.id}
+                  onClick={() => loadDigest(digest.id)}
+                  className={`w-full p-4 text-left hover:bg-gray-50 ${selected?.id === digest.id ? 'bg-blue-50 border-l-4 border-l-blue-500' : ''}`}
+                >
+                  <p className="font-medium text-gray-900">{digest.subject}</p>
+                  <p className="text-xs text-gray-500">
+                    {digest.period === 'DAILY' ? 'Daily' : 'Weekly'} · {formatDateTime(digest.createdAt)}
+                    {` · sent to ${digest.deliveredTo} channel(s)`}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Selected digest */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 lg:col-span-2">
+          {selected ? (
+            <>
+              <div className="px-4 py-3 border-b border-gray-200">
+                <h3 className="text-lg font-semibold text-gray-900">{selected.subject}</h3>
+                {selected.deliveries && selected.deliveries.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {selected.deliveries.map(result =>
+                      `${result.name}: ${result.status.toLowerCase()}${result.reason ? ` (${result.reason})` : ''}`).join(' · ')}
+                  </p>
+                )}
+              </div>
+              {/* Sandboxed so the archived HTML cannot run scripts or reach the app */}
+              <iframe
+                title={selected.subject}
+                sandbox=""
+                srcDoc={selected.html}
+                className="w-full h-[70vh] rounded-b-lg"
+              />
+            </>
+          ) : (
+            <p className="p-4 text-sm text-gray-600">Select a digest to read it.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DigestArchive;
@@ -17,6 +17,7 @@ interface TradePerformanceMetrics {
   avgAiConfidence: number;
   totalVolume: number;
   profitableTrades: number;
+  realizedProfitLoss: number;
 }
 
 const EnhancedTransactionHistory: React.FC = () => {
@@ -34,10 +35,11 @@ const EnhancedTransactionHistory: React.FC = () => {
     const aiGuidedTrades = transactions.filter(t => t.aiRecommendation);
     const manualTrades = transactions.filter(t => !t.aiRecommendation);
     
-    // Calculate success rates (simplified - based on current holdings profit)
+    // Calculate success rates - realized lot P&L for sells, current holding profit otherwise
     const calculateSuccessRate = (trades: Transaction[]) => {
       if (trades.length === 0) return 0;
       const successful = trades.filter(trade => {
+        if (trade.type === 'SELL' && trade.realizedPnl != null) return trade.realizedPnl > 0;
         const holding = holdings[trade.symbol];
         if (!holding) return false;
         return holding.profitLoss > 0;
@@ -50,7 +52,9 @@ const EnhancedTransactionHistory: React.FC = () => {
       : 0;
 
     const totalVolume = transactions.reduce((sum, t) => sum + t.totalAmount, 0);
+    const realizedProfitLoss = transactions.reduce((sum, t) => sum + (t.realizedPnl ?? 0), 0);
     const profitableTrades = transactions.filter(t => {
+      if (t.type === 'SELL' && t.realizedPnl != null) return t.realizedPnl > 0;
       const holding = holdings[t.symbol];
       return holding && holding.profitLoss > 0;
     }).length;
@@ -63,7 +67,8 @@ const EnhancedTransactionHistory: React.FC = () => {
       manualSuccessRate: calculateSuccessRate(manualTrades),
       avgAiConfidence,
       totalVolume,
-      profitableTrades
+      profitableTrades,
+      realizedProfitLoss
     };
   }, [transactions, holdings]);
 
@@ -130,6 +135,16 @@ const EnhancedTransactionHistory: React.FC = () => {
   };
 
   const getTradeOutcome = (transaction: Transaction) => {
+    // Sells are settled: their outcome is the realized P&L of the lots they closed
+    if (transaction.type === 'SELL' && transaction.realizedPnl != null) {
+      const costBasis = transaction.totalAmount - transaction.realizedPnl;
+      return {
+        status: 'realized',
+        profitLoss: transaction.realizedPnl,
+        profitLossPercent: costBasis > 0 ? (transaction.realizedPnl / costBasis) * 100 : 0
+      };
+    }
+
     const holding = holdings[transaction.symbol];
     if (!holding) {
       return { status: 'closed', profitLoss: 0, profitLossPercent: 0 };
@@ -230,9 +245,11 @@ const EnhancedTransactionHistory: React.FC = () => {
               </div>
 
               {/* Current outcome */}
-              {outcome.status === 'active' && (
+              {outcome.status !== 'closed' && (
                 <div className="border-t pt-4">
-                  <p className="text-sm text-gray-600 mb-2">Current Outcome</p>
+                  <p className="text-sm text-gray-600 mb-2">
+                    {outcome.status === 'realized' ? 'Realized P&L (tax lots)' : 'Current Outcome'}
+                  </p>
                   <div className={`p-3 rounded-lg ${
                     outcome.profitLoss >= 0 ? 'bg-green-50' : 'bg-red-50'
                   }`}>
@@ -349,6 +366,14 @@ const EnhancedTransactionHistory: React.FC = () => {
                 <span className="text-sm text-gray-600">Total Volume</span>
                 <span className="text-sm font-medium">{formatCurrency(performanceMetrics.totalVolume)}</span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">Realized P&L</span>
+                <span className={`text-sm font-medium ${
+                  performanceMetrics.realizedProfitLoss >= 0 ? 'text-green-600' : 'text-red-600'
+                }`}>
+                  {formatCurrency(performanceMetrics.realizedProfitLoss)}
+                </span>
+              </div>
               <div className="flex justify-between">
                 <span className="text-sm text-gray-600">Profitable Trades</span>
                 <span className="text-sm font-medium">{performanceMetrics.profitableTrades}/{performanceMetrics.totalTrades}</span>
@@ -470,10 +495,11 @@ const EnhancedTransactionHistory: React.FC = () => {
                       <p className="text-sm text-gray-600"><TransactionDate timestamp={transaction.timestamp} /></p>
                     )}
                     
-                    {outcome.status === 'active' && (
+                    {outcome.status !== 'closed' && (
                       <p className={`text-sm font-medium mt-1 ${
                         outcome.profitLoss >= 0 ? 'text-green-600' : 'text-red-600'
                       }`}>
+                        {outcome.status === 'realized' ? 'Realized ' : ''}
                         {outcome.profitLoss >= 0 ? '+' : ''}{formatCurrency(outcome.profitLoss)}
                       </p>
                     )}
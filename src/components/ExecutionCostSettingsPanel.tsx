@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ExecutionCostSettings } from '@/types/orders';
+import { usePortfolioStore } from '@/store/portfolio';
+
+type NumericSetting = {
+  [K in keyof ExecutionCostSettings]: ExecutionCostSettings[K] extends number ? K : never;
+}[keyof ExecutionCostSettings];
+
+export default function ExecutionCostSettingsPanel() {
+  const [settings, setSettings] = useState<ExecutionCostSettings | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+  const portfolioId = usePortfolioStore(state => state.portfolioId);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const response = await fetch('/api/portfolio/execution-costs');
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load execution cost settings');
+        }
+        setSettings(result.data);
+      } catch (error) {
+        console.error('Error loading execution cost settings:', error);
+        setMessage('Error loading execution cost settings');
+      }
+    };
+
+    loadSettings();
+  }, [portfolioId]);
+
+  const update = <K extends keyof ExecutionCostSettings>(key: K, value: ExecutionCostSettings[K]) => {
+    if (!settings) return;
+    setSettings({ ...settings, [key]: value });
+  };
+
+  const updateNumber = (key: NumericSetting, value: string) => {
+    const parsed = parseFloat(value);
+    update(key, isNaN(parsed) ? 0 : parsed);
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/portfolio/execution-costs', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings)
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save execution cost settings');
+      }
+      setSettings(result.data);
+      setMessage('Execution costs saved');
+    } catch (error) {
+      setMessage(error instanceof Error ? `Error: ${error.message}` : 'Error saving execution costs');
+    } finally {
+      setIsSaving(false);
+      setTimeout(() => setMessage(''), 3000);
+    }
+  };
+
+  const numberInput = (key: NumericSetting, label: string, step: string) => (
+    <div>
+      <label className="block text-xs text-gray-600 mb-1">{label}</label>
+      <input
+        type="number"
+        value={settings ? settings[key] : 0}
+        onChange={(e) => updateNumber(key, e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        min="0"
+        step={step}
+      />
+    </div>
+  );
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mt-4">
+      <h3 className="text-lg font-semibold text-gray-700 mb-1">⚖️ Execution Costs</h3>
+      <p className="text-sm text-gray-600 mb-3">
+        Commission, bid/ask spread and slippage applied to every fill in this portfolio.
+      </p>
+
+      {message && (
+        <div className={`mb-3 p-2 rounded text-sm ${
+          message.startsWith('Error') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+        }`}>
+          {message}
+        </div>
+      )}
+
+      {!settings ? (
+        <div className="text-sm text-gray-500">Loading...</div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {/* Commission */}
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Commission</label>
+              <select
+                value={settings.commissionModel}
+                onChange={(e) => update('commissionModel', e.target.value as ExecutionCostSettings['commissionModel'])}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="NONE">Commission-free</option>
+                <option value="PER_SHARE">Per share</option>
+                <option value="PERCENTAGE">Percentage of value</option>
+              </select>
+              {settings.commissionModel === 'PER_SHARE' && numberInput('commissionPerShare', '$ per share', '0.001')}
+              {settings.commissionModel === 'PERCENTAGE' && numberInput('commissionPercent', '% of trade value', '0.01')}
+              {settings.commissionModel !== 'NONE' && numberInput('minimumCommission', 'Minimum per trade ($)', '0.01')}
+            </div>
+
+            {/* Spread */}
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Bid/Ask Spread</label>
+              <select
+                value={settings.spreadModel}
+                onChange={(e) => update('spreadModel', e.target.value as ExecutionCostSettings['spreadModel'])}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="NONE">None</option>
+                <option value="QUOTE_RANGE">From day high/low</option>
+              </select>
+              {settings.spreadModel === 'QUOTE_RANGE' && numberInput('spreadFactor', 'Fraction of day range', '0.01')}
+              {settings.spreadModel === 'QUOTE_RANGE' && numberInput('maxSpreadBps', 'Max spread (bps)', '1')}
+            </div>
+
+            {/* Slippage */}
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Slippage</label>
+              <select
+                value={settings.slippageModel}
+                onChange={(e) => update('slippageModel', e.target.value as ExecutionCostSettings['slippageModel'])}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="NONE">None</option>
+                <option value="VOLUME">Volume-based</option>
+              </select>
+              {settings.slippageModel === 'VOLUME' && numberInput('baseSlippageBps', 'Base slippage (bps)', '0.5')}
+              {settings.slippageModel === 'VOLUME' && numberInput('volumeImpactBps', 'Impact at 1% of volume (bps)', '1')}
+              {settings.slippageModel === 'VOLUME' && numberInput('maxSlippageBps', 'Max slippage (bps)', '1')}
+            </div>
+          </div>
+
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="w-full bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Execution Costs'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePortfolioStore } from '@/store/portfolio';
+import type { HouseholdView as HouseholdData } from '@/services/portfolios';
+
+export default function HouseholdView() {
+  const portfolioId = usePortfolioStore(state => state.portfolioId);
+  const switchPortfolio = usePortfolioStore(state => state.switchPortfolio);
+  const [household, setHousehold] = useState<HouseholdData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadHousehold = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch('/api/portfolios/household');
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load household view');
+        }
+        setHousehold(result.data);
+        setError('');
+      } catch (err) {
+        console.error('Error loading household view:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load household view');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHousehold();
+  }, [portfolioId]);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+  const formatPercent = (percent: number) => `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+
+  const pnlClass = (value: number) => (value >= 0 ? 'text-green-600' : 'text-red-600');
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-500 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (error || !household) {
+    return (
+      <div className="p-4">
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4">{error}</div>
+      </div>
+    );
+  }
+
+  const history = household.history;
+  const historyMin = Math.min(...history.map(point => point.totalValue));
+  const historyRange = Math.max(...history.map(point => point.totalValue)) - historyMin || 1;
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-sm text-gray-500">Total Value</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(household.totalValue)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-sm text-gray-500">Net Gain</p>
+          <p className={`text-xl font-bold ${pnlClass(household.profitLoss)}`}>{formatCurrency(household.profitLoss)}</p>
+          <p className={`text-sm ${pnlClass(household.profitLoss)}`}>{formatPercent(household.profitLossPercent)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-sm text-gray-500">Net Deposits</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(household.netContributions)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-sm text-gray-500">Cash</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(household.cashBalance)}</p>
+        </div>
+      </div>
+
+      {/* Combined value history */}
+      {history.length > 1 && (
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <h3 className="text-lg font-semibold mb-2">Combined Value</h3>
+          <svg viewBox="0 0 100 30" preserveAspectRatio="none" className="w-full h-32">
+            <polyline
+              points={history
+                .map((point, index) => `${(index / (history.length - 1)) * 100},${30 - ((point.totalValue - historyMin) / historyRange) * 30}`)
+                .join(' ')}
+              fill="none"
+              stroke="#2563eb"
+              strokeWidth="0.8"
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>{history[0].date}</span>
+            <span>{history[history.length - 1].date}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Per-portfolio breakdown */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <h3 className="text-lg font-semibold px-4 py-3 border-b border-gray-200">Portfolios</h3>
+        <div className="divide-y divide-gray-100">
+          {household.portfolios.map(portfolio => (
+            <div key={portfolio.id} className="flex items-center justify-between px-4 py-3">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {portfolio.name}
+                  {portfolio.isActive && <span className="ml-2 text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded">Selected</span>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {portfolio.allocationPercent.toFixed(1)}% of household · {formatCurrency(portfolio.cashBalance)} cash
+                </p>
+              </div>
+              <div className="flex items-center space-x-4">
+                <div className="text-right">
+                  <p className="font-semibold">{formatCurrency(portfolio.totalValue)}</p>
+                  <p className={`text-sm ${pnlClass(portfolio.profitLoss)}`}>
+                    {formatCurrency(portfolio.profitLoss)} ({formatPercent(portfolio.profitLossPercent)})
+                  </p>
+                </div>
+                {!portfolio.isActive && (
+                  <button
+                    onClick={() => switchPortfolio(portfolio.id)}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Switch
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Consolidated holdings */}
+      <div className="bg-white rounded-lg shadow-md overflow-hidden">
+        <h3 className="text-lg font-semibold px-4 py-3 border-b border-gray-200">
+          Combined Holdings ({household.holdings.length})
+        </h3>
+        {household.holdings.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No holdings in any portfolio yet</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {household.holdings.map(holding => (
+              <div key={holding.symbol} className="grid grid-cols-2 md:grid-cols-5 gap-2 px-4 py-3 text-sm">
+                <div>
+                  <p className="font-semibold">{holding.symbol}</p>
+                  <p className="text-xs text-gray-500">{holding.portfolios.map(p => p.name).join(', ')}</p>
+                </div>
+                <div>
+                  <p>{holding.quantity} sh</p>
+                  <p className="text-xs text-gray-500">avg {formatCurrency(holding.averagePrice)}</p>
+                </div>
+                <div>{formatCurrency(holding.totalValue)}</div>
+                <div className={pnlClass(holding.profitLoss)}>
+                  {formatCurrency(holding.profitLoss)} ({formatPercent(holding.profitLossPercent)})
+                </div>
+                <div className="text-gray-500">{holding.allocationPercent.toFixed(1)}%</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
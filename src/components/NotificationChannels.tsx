@@ -0,0 +1,386 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type {
+  NotificationChannel,
+  NotificationChannelType,
+  NotificationPriority
+} from '@/types/notifications';
+
+interface ChannelField {
+  key: string;
+  label: string;
+  placeholder: string;
+  secret?: boolean;
+  optional?: boolean;
+}
+
+const CHANNEL_TYPES: { type: NotificationChannelType; label: string; icon: string }[] = [
+  { type: 'EMAIL', label: 'Email', icon: '📧' },
+  { type: 'WEBHOOK', label: 'Webhook', icon: '🔗' },
+  { type: 'TELEGRAM', label: 'Telegram', icon: '✈️' },
+  { type: 'NTFY', label: 'ntfy', icon: '📣' },
+  { type: 'GOTIFY', label: 'Gotify', icon: '📲' }
+];
+
+const CHANNEL_FIELDS: Record<NotificationChannelType, ChannelField[]> = {
+  EMAIL: [
+    { key: 'to', label: 'Send to', placeholder: 'you@example.com' }
+  ],
+  WEBHOOK: [
+    { key: 'url', label: 'URL', placeholder: 'https://example.com/hooks/alerts' },
+    { key: 'secret', label: 'Signing secret', placeholder: 'At least 16 characters', secret: true }
+  ],
+  TELEGRAM: [
+    { key: 'botToken', label: 'Bot token', placeholder: '123456:ABC-DEF...', secret: true },
+    { key: 'chatId', label: 'Chat id', placeholder: '123456789 or @channel' }
+  ],
+  NTFY: [
+    { key: 'serverUrl', label: 'Server URL', placeholder: 'https://ntfy.sh' },
+    { key: 'topic', label: 'Topic', placeholder: 'my-trading-alerts' },
+    { key: 'token', label: 'Access token', placeholder: 'Optional', secret: true, optional: true }
+  ],
+  GOTIFY: [
+    { key: 'serverUrl', label: 'Server URL', placeholder: 'https://gotify.example.com' },
+    { key: 'appToken', label: 'App token', placeholder: 'Application token', secret: true }
+  ]
+};
+
+const PRIORITIES: NotificationPriority[] = ['LOW', 'MEDIUM', 'HIGH', 'URGENT'];
+
+const getChannelIcon = (type: NotificationChannelType): string =>
+  CHANNEL_TYPES.find(option => option.type === type)?.icon ?? '🔔';
+
+const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const EMPTY_FORM = {
+  type: 'EMAIL' as NotificationChannelType,
+  name: '',
+  config: {} as Record<string, string>,
+  minPriority: 'LOW' as NotificationPriority,
+  quietHoursStart: '',
+  quietHoursEnd: ''
+};
+
+const NotificationChannels: React.FC = () => {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [testingId, setTestingId] = useState<number | null>(null);
+  const [testResults, setTestResults] = useState<Record<number, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadChannels = async () => {
+      try {
+        const response = await fetch('/api/notifications/channels');
+        const data = await response.json();
+        if (response.ok) {
+          setChannels(data.data);
+        } else {
+          setMessage(data.error || 'Failed to load notification channels');
+        }
+      } catch (error) {
+        console.error('Error loading notification channels:', error);
+        setMessage('Failed to load notification channels');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadChannels();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const config = Object.fromEntries(Object.entries(form.config).filter(([, value]) => value.trim() !== ''));
+      const response = await fetch('/api/notifications/channels', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: form.type,
+          name: form.name,
+          config,
+          minPriority: form.minPriority,
+          quietHoursStart: form.quietHoursStart || null,
+          quietHoursEnd: form.quietHoursEnd || null,
+          timeZone: getBrowserTimeZone()
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to add channel');
+        return;
+      }
+
+      setChannels([...channels, data.data]);
+      setForm({ ...EMPTY_FORM, type: form.type });
+    } catch (error) {
+      console.error('Error adding notification channel:', error);
+      setMessage('Failed to add channel');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateChannel = async (channel: NotificationChannel, updates: Partial<NotificationChannel>) => {
+    try {
+      const response = await fetch(`/api/notifications/channels/${channel.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setMessage(data.error || 'Failed to update channel');
+        return;
+      }
+      setChannels(channels.map(candidate => candidate.id === channel.id ? data.data : candidate));
+    } catch (error) {
+      console.error('Error updating notification channel:', error);
+      setMessage('Failed to update channel');
+    }
+  };
+
+  const handleQuietHoursChange = (channel: NotificationChannel, key: 'quietHoursStart' | 'quietHoursEnd', value: string) => {
+    const next = { ...channel, [key]: value || null };
+    // Only save once both ends are set, or both are cleared
+    if (!next.quietHoursStart === !next.quietHoursEnd) {
+      updateChannel(channel, {
+        quietHoursStart: next.quietHoursStart,
+        quietHoursEnd: next.quietHoursEnd,
+        timeZone: getBrowserTimeZone()
+      });
+    } else {
+      setChannels(channels.map(candidate => candidate.id === channel.id ? next : candidate));
+    }
+  };
+
+  const handleDelete = async (channel: NotificationChannel) => {
+    if (!confirm(`Delete the "${channel.name}" channel?`)) return;
+
+    try {
+      const response = await fetch(`/api/notifications/channels/${channel.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        setMessage(data.error || 'Failed to delete channel');
+        return;
+      }
+      setChannels(channels.filter(candidate => candidate.id !== channel.id));
+    } catch (error) {
+      console.error('Error deleting notification channel:', error);
+      setMessage('Failed to delete channel');
+    }
+  };
+
+  const handleTest = async (channel: NotificationChannel) => {
+    setTestingId(channel.id);
+    try {
+      const response = await fetch(`/api/notifications/channels/${channel.id}/test`, { method: 'POST' });
+      const data = await response.json();
+      const result = response.ok
+        ? (data.data.status === 'SENT' ? '✅ Test sent' : `❌ ${data.data.reason}`)
+        : `❌ ${data.error || 'Test failed'}`;
+      setTestResults({ ...testResults, [channel.id]: result });
+    } catch (error) {
+      console.error('Error testing notification channel:', error);
+      setTestResults({ ...testResults, [channel.id]: '❌ Test failed' });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900">Notification Channels</h3>
+        <p className="text-sm text-gray-600">
+          Deliver alerts by email, webhook, Telegram, ntfy or Gotify, even when no tab is open.
+          Priority filters and quiet hours are applied on the server; urgent alerts ignore quiet hours.
+        </p>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {message && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{message}</div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-600">Loading channels...</p>
+        ) : channels.length === 0 ? (
+          <p className="text-sm text-gray-600">No channels yet. Add one below.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {channels.map(channel => (
+              <div key={channel.id} className={`p-3 space-y-2 ${channel.isActive ? '' : 'opacity-60'}`}>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-lg">{getChannelIcon(channel.type)}</span>
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{channel.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {channel.type}
+                        {channel.lastSentAt && ` · last sent ${new Date(channel.lastSentAt).toLocaleString()}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleTest(channel)}
+                      disabled={testingId === channel.id}
+                      className="px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+                    >
+                      {testingId === channel.id ? 'Sending...' : 'Test'}
+                    </button>
+                    <button
+                      onClick={() => updateChannel(channel, { isActive: !channel.isActive })}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      {channel.isActive ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(channel)}
+                      className="px-3 py-1 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 text-sm">
+                  <label>
+                    <span className="block text-xs text-gray-500 mb-1">Minimum priority</span>
+                    <select
+                      value={channel.minPriority}
+                      onChange={(e) => updateChannel(channel, { minPriority: e.target.value as NotificationPriority })}
+                      className="w-full p-1 border border-gray-300 rounded"
+                    >
+                      {PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+                    </select>
+                  </label>
+                  <label>
+                    <span className="block text-xs text-gray-500 mb-1">Quiet from</span>
+                    <input
+                      type="time"
+                      value={channel.quietHoursStart ?? ''}
+                      onChange={(e) => handleQuietHoursChange(channel, 'quietHoursStart', e.target.value)}
+                      className="w-full p-1 border border-gray-300 rounded"
+                    />
+                  </label>
+                  <label>
+                    <span className="block text-xs text-gray-500 mb-1">Quiet until ({channel.timeZone})</span>
+                    <input
+                      type="time"
+                      value={channel.quietHoursEnd ?? ''}
+                      onChange={(e) => handleQuietHoursChange(channel, 'quietHoursEnd', e.target.value)}
+                      className="w-full p-1 border border-gray-300 rounded"
+                    />
+                  </label>
+                </div>
+
+                {testResults[channel.id] && <p className="text-xs text-gray-700">{testResults[channel.id]}</p>}
+                {channel.lastError && !testResults[channel.id] && (
+                  <p className="text-xs text-red-600">Last error: {channel.lastError}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Add Channel */}
+        <form onSubmit={handleCreate} className="space-y-3 border-t border-gray-200 pt-4">
+          <div className="flex flex-wrap gap-2">
+            {CHANNEL_TYPES.map(option => (
+              <button
+                key={option.type}
+                type="button"
+                onClick={() => setForm({ ...form, type: option.type, config: {} })}
+                className={`px-3 py-1 rounded-full text-sm border ${
+                  form.type === option.type
+                    ? 'bg-blue-100 text-blue-800 border-blue-300'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {option.icon} {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="text-sm">
+              <span className="block text-gray-600 mb-1">Name</span>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Phone"
+                required
+                className="w-full p-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+            {CHANNEL_FIELDS[form.type].map(field => (
+              <label key={field.key} className="text-sm">
+                <span className="block text-gray-600 mb-1">{field.label}</span>
+                <input
+                  type={field.secret ? 'password' : 'text'}
+                  value={form.config[field.key] ?? ''}
+                  onChange={(e) => setForm({ ...form, config: { ...form.config, [field.key]: e.target.value } })}
+                  placeholder={field.placeholder}
+                  required={!field.optional}
+                  autoComplete="off"
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                />
+              </label>
+            ))}
+            <label className="text-sm">
+              <span className="block text-gray-600 mb-1">Minimum priority</span>
+              <select
+                value={form.minPriority}
+                onChange={(e) => setForm({ ...form, minPriority: e.target.value as NotificationPriority })}
+                className="w-full p-2 border border-gray-300 rounded-lg"
+              >
+                {PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <label>
+                <span className="block text-gray-600 mb-1">Quiet from</span>
+                <input
+                  type="time"
+                  value={form.quietHoursStart}
+                  onChange={(e) => setForm({ ...form, quietHoursStart: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                />
+              </label>
+              <label>
+                <span className="block text-gray-600 mb-1">Quiet until</span>
+                <input
+                  type="time"
+                  value={form.quietHoursEnd}
+                  onChange={(e) => setForm({ ...form, quietHoursEnd: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg"
+                />
+              </label>
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Adding...' : 'Add Channel'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationChannels;
@@ -1,33 +1,59 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import orderManager from '@/services/orderManager';
-import { AdvancedOrder, OrderStatus, StopLossOrder, TakeProfitOrder, TrailingStopOrder, OCOOrder } from '@/types/orders';
+import { AdvancedOrder, OrderStatus, LimitOrder, StopLimitOrder, StopLossOrder, TakeProfitOrder, TrailingStopOrder, OCOOrder } from '@/types/orders';
+import { usePortfolioStore } from '@/store/portfolio';
 
 export default function OrderManagementDashboard() {
   const [activeOrders, setActiveOrders] = useState<AdvancedOrder[]>([]);
   const [orderHistory, setOrderHistory] = useState<AdvancedOrder[]>([]);
   const [selectedTab, setSelectedTab] = useState<'active' | 'history'>('active');
   const [refreshKey, setRefreshKey] = useState(0);
+  const [error, setError] = useState('');
+  const portfolioId = usePortfolioStore(state => state.portfolioId);
 
   useEffect(() => {
     loadOrders();
     const interval = setInterval(loadOrders, 30000); // Refresh every 30 seconds
     return () => clearInterval(interval);
-  }, [refreshKey]);
+  }, [refreshKey, portfolioId]);
 
-  const loadOrders = () => {
-    setActiveOrders(orderManager.getActiveOrders());
-    setOrderHistory(orderManager.getOrderHistory());
+  const loadOrders = async () => {
+    try {
+      const [activeResponse, historyResponse] = await Promise.all([
+        fetch('/api/orders?status=active'),
+        fetch('/api/orders?status=history')
+      ]);
+      const [activeResult, historyResult] = await Promise.all([
+        activeResponse.json(),
+        historyResponse.json()
+      ]);
+
+      if (!activeResponse.ok || !historyResponse.ok) {
+        throw new Error(activeResult.error || historyResult.error || 'Failed to load orders');
+      }
+
+      setActiveOrders(activeResult.data);
+      setOrderHistory(historyResult.data);
+      setError('');
+    } catch (error) {
+      console.error('Failed to load orders:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load orders');
+    }
   };
 
-  const handleCancelOrder = (orderId: string) => {
+  const handleCancelOrder = async (orderId: string) => {
     if (window.confirm('Are you sure you want to cancel this order?')) {
-      const success = orderManager.cancelOrder(orderId);
-      if (success) {
-        setRefreshKey(prev => prev + 1);
-        alert('Order cancelled successfully');
-      } else {
+      try {
+        const response = await fetch(`/api/orders/${orderId}`, { method: 'DELETE' });
+        if (response.ok) {
+          setRefreshKey(prev => prev + 1);
+          alert('Order cancelled successfully');
+        } else {
+          alert('Failed to cancel order');
+        }
+      } catch (error) {
+        console.error('Order cancel error:', error);
         alert('Failed to cancel order');
       }
     }
@@ -52,6 +78,8 @@ export default function OrderManagementDashboard() {
   const getOrderTypeIcon = (type: string) => {
     switch (type) {
       case 'MARKET': return '⚡';
+      case 'LIMIT': return '🎚️';
+      case 'STOP_LIMIT': return '🚦';
       case 'STOP_LOSS': return '🛡️';
       case 'TAKE_PROFIT': return '🎯';
       case 'TRAILING_STOP': return '📈';
@@ -79,7 +107,10 @@ export default function OrderManagementDashboard() {
             <span className="text-2xl">{getOrderTypeIcon(order.type)}</span>
             <div>
               <h3 className="font-semibold text-gray-900">{order.symbol}</h3>
-              <p className="text-sm text-gray-600">{order.type.replace('_', ' ')}</p>
+              <p className="text-sm text-gray-600">
+                {'side' in order ? `${order.side} ` : ''}{order.type.replace('_', ' ')}
+                {order.timeInForce && <span className="ml-1 text-xs text-gray-500">· {order.timeInForce}</span>}
+              </p>
             </div>
           </div>
           <div className="text-right">
@@ -95,6 +126,18 @@ export default function OrderManagementDashboard() {
             <p className="text-xs text-gray-500">Quantity</p>
             <p className="font-semibold">{order.quantity} shares</p>
           </div>
+          {(order.type === 'LIMIT' || order.type === 'STOP_LIMIT') && (
+            <div>
+              <p className="text-xs text-gray-500">Limit Price</p>
+              <p className="font-semibold text-blue-600">{formatCurrency((order as LimitOrder | StopLimitOrder).limitPrice)}</p>
+            </div>
+          )}
+          {order.type === 'STOP_LIMIT' && (
+            <div>
+              <p className="text-xs text-gray-500">Stop Price {(order as StopLimitOrder).stopTriggered ? '(reached)' : ''}</p>
+              <p className="font-semibold text-red-600">{formatCurrency((order as StopLimitOrder).stopPrice)}</p>
+            </div>
+          )}
           {order.type === 'STOP_LOSS' && (
             <div>
               <p className="text-xs text-gray-500">Stop Price</p>
@@ -162,6 +205,12 @@ export default function OrderManagementDashboard() {
             Triggered: {formatDate(order.triggeredAt)}
           </div>
         )}
+
+        {isActive && order.expiresAt && (
+          <div className="mt-2 text-xs text-gray-500">
+            Expires: {formatDate(order.expiresAt)}
+          </div>
+        )}
       </div>
     );
   };
@@ -197,6 +246,12 @@ export default function OrderManagementDashboard() {
         </div>
       </div>
 
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
       {/* Orders Summary */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
@@ -282,11 +337,12 @@ export default function OrderManagementDashboard() {
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <h4 className="font-semibold text-blue-900 mb-2">💡 Order Management Tips</h4>
         <div className="text-sm text-blue-800 space-y-1">
-          <p>• Active orders are automatically monitored and executed when conditions are met</p>
+          <p>• Active orders are monitored on the server and executed when conditions are met, even when this page is closed</p>
           <p>• Stop-loss orders help limit your losses if prices move against you</p>
           <p>• Take-profit orders automatically capture gains at your target price</p>
           <p>• Trailing stops adjust automatically to lock in profits as prices rise</p>
           <p>• OCO orders combine stop-loss and take-profit for complete position management</p>
+          <p>• Limit and stop-limit orders fill only at your limit price or better; DAY orders expire at market close</p>
         </div>
       </div>
 
@@ -1,9 +1,11 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { usePortfolioStore } from '@/store/portfolio';
+import { usePortfolioStore, PortfolioState, Transaction } from '@/store/portfolio';
 import { analyticsEngine, AnalyticsMetrics } from '@/services/analyticsEngine';
 import { performanceMetricsService, RiskMetrics, ReturnMetrics } from '@/services/performanceMetrics';
+import { portfolioAnalyticsService } from '@/services/portfolioAnalytics';
+import { usePortfolioSnapshots } from '@/hooks/usePortfolioSnapshots';
 
 interface MetricCardProps {
   title: string;
@@ -176,10 +178,12 @@ const PerformanceMetricsPanel: React.FC = () => {
   const [selectedTimeframe, setSelectedTimeframe] = useState<string>('all');
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
-  // Calculate analytics when portfolio changes or timeframe changes
+  const { snapshots } = usePortfolioSnapshots(undefined, portfolioStore.transactions.length);
+
+  // Calculate analytics when portfolio, snapshot history or timeframe changes
   useEffect(() => {
     calculateMetrics();
-  }, [portfolioStore.holdings, portfolioStore.totalValue, selectedTimeframe]);
+  }, [portfolioStore.holdings, portfolioStore.totalValue, selectedTimeframe, snapshots]);
 
   const calculateMetrics = async () => {
     setIsLoading(true);
@@ -192,12 +196,13 @@ const PerformanceMetricsPanel: React.FC = () => {
       const analyticsData = analyticsEngine.calculatePortfolioAnalytics(
         portfolio,
         transactions,
-        selectedTimeframe as any
+        selectedTimeframe as any,
+        snapshots
       );
       setAnalytics(analyticsData);
       
-      // Generate mock historical data for performance calculations
-      const historicalValues = generateMockHistoricalData(portfolio, transactions);
+      // Daily closing values from snapshots, ending with the live value, with cash flows taken out
+      const { values: historicalValues, timestamps } = buildValueSeries(portfolio, transactions);
       const returns = calculateReturnsFromValues(historicalValues);
       
       // Calculate return metrics
@@ -205,7 +210,7 @@ const PerformanceMetricsPanel: React.FC = () => {
         portfolio.initialValue,
         portfolio.totalValue,
         historicalValues,
-        generateMockTimestamps(historicalValues.length)
+        timestamps
       );
       setReturnMetrics(returnData);
       
@@ -224,23 +229,28 @@ const PerformanceMetricsPanel: React.FC = () => {
     }
   };
 
-  // Helper function to generate mock historical data
-  const generateMockHistoricalData = (portfolio: any, transactions: any[]): number[] => {
-    const values = [portfolio.initialValue];
-    const numPoints = Math.max(30, transactions.length * 2); // At least 30 data points
-    
-    let currentValue = portfolio.initialValue;
-    for (let i = 1; i < numPoints; i++) {
-      // Add some random walk with slight upward bias
-      const change = (Math.random() - 0.45) * 0.02; // Slight positive bias
-      currentValue *= (1 + change);
-      values.push(currentValue);
+  // Snapshot series; before the first close it starts from the initial value
+  const buildValueSeries = (portfolio: PortfolioState, transactions: Transaction[]): { values: number[]; timestamps: Date[] } => {
+    const values = snapshots.map(snapshot => snapshot.totalValue);
+    const timestamps = snapshots.map(snapshot => new Date(snapshot.timestamp));
+
+    if (values.length === 0) {
+      const firstTrade = transactions.length > 0
+        ? new Date(Math.min(...transactions.map(t => new Date(t.timestamp).getTime())))
+        : new Date();
+      values.push(portfolio.initialValue);
+      timestamps.push(firstTrade);
     }
+
+    values.push(portfolio.totalValue);
+    timestamps.push(new Date());
+
+    const adjusted = portfolioAnalyticsService.calculateFlowAdjustedValues(
+      portfolio.cashFlows ?? [],
+      values.map((totalValue, index) => ({ timestamp: timestamps[index], totalValue }))
+    );
     
-    // Ensure the last value matches current portfolio value
-    values[values.length - 1] = portfolio.totalValue;
-    
-    return values;
+    return { values: adjusted, timestamps };
   };
 
   const calculateReturnsFromValues = (values: number[]): number[] => {
@@ -252,19 +262,6 @@ const PerformanceMetricsPanel: React.FC = () => {
     return returns;
   };
 
-  const generateMockTimestamps = (length: number): Date[] => {
-    const timestamps = [];
-    const endDate = new Date();
-    
-    for (let i = 0; i < length; i++) {
-      const date = new Date(endDate);
-      date.setDate(date.getDate() - (length - 1 - i));
-      timestamps.push(date);
-    }
-    
-    return timestamps;
-  };
-
   const getTrendForValue = (value: number): 'up' | 'down' | 'neutral' => {
     if (value > 0.1) return 'up';
     if (value < -0.1) return 'down';
@@ -292,6 +289,9 @@ const PerformanceMetricsPanel: React.FC = () => {
 
   const portfolioSummary = getPortfolioSummary();
   const riskLevel = getRiskLevel(analytics.riskScore);
+  const realizedPnl = portfolioStore.transactions.reduce((sum, t) => sum + (t.realizedPnl ?? 0), 0);
+  const unrealizedPnl = Object.values(portfolioStore.holdings).reduce((sum, h) => sum + h.profitLoss, 0);
+  const flowReturns = portfolioAnalyticsService.calculateReturnMetrics(portfolioStore, snapshots, portfolioStore.totalValue);
 
   return (
     <div className="space-y-6">
@@ -381,12 +381,42 @@ const PerformanceMetricsPanel: React.FC = () => {
           trend={getTrendForValue(analytics.monthReturn)}
           tooltip="Return for the last month"
         />
+        <MetricCard
+          title="Time-Weighted Return"
+          value={flowReturns.timeWeightedReturn}
+          format="percentage"
+          trend={getTrendForValue(flowReturns.timeWeightedReturn)}
+          tooltip="Daily-linked Modified Dietz return; deposits and withdrawals do not count as performance"
+        />
+        <MetricCard
+          title="Money-Weighted Return"
+          value={flowReturns.moneyWeightedReturn}
+          format="percentage"
+          trend={getTrendForValue(flowReturns.moneyWeightedReturn)}
+          tooltip={flowReturns.moneyWeightedAnnualized
+            ? 'Annualized IRR of your deposits, withdrawals and current value'
+            : 'IRR of your deposits, withdrawals and current value over the period so far'}
+        />
         <MetricCard
           title="CAGR"
           value={returnMetrics.compoundAnnualGrowthRate}
           format="percentage"
           tooltip="Compound Annual Growth Rate"
         />
+        <MetricCard
+          title="Realized P&L"
+          value={realizedPnl}
+          format="currency"
+          trend={getTrendForValue(realizedPnl)}
+          tooltip="Gains and losses locked in by sales (tax-lot cost basis)"
+        />
+        <MetricCard
+          title="Unrealized P&L"
+          value={unrealizedPnl}
+          format="currency"
+          trend={getTrendForValue(unrealizedPnl)}
+          tooltip="Paper gains and losses on open positions"
+        />
       </MetricsSection>
 
       {/* Risk Metrics */}
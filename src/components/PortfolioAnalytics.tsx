@@ -7,6 +7,7 @@ import PortfolioChart, { PortfolioDataPoint } from './charts/PortfolioChart';
 import AllocationChart, { AllocationData } from './charts/AllocationChart';
 import PerformanceMetrics, { PerformanceMetric } from './charts/PerformanceMetrics';
 import TimeRangeSelector, { TimeRange } from './charts/TimeRangeSelector';
+import { usePortfolioSnapshots } from '@/hooks/usePortfolioSnapshots';
 
 // Mock sector data - in a real app, this would come from your API
 const SECTOR_MAPPING: Record<string, string> = {
@@ -75,51 +76,35 @@ const PortfolioAnalytics: React.FC = () => {
   const portfolioSummary = getPortfolioSummary();
   const transactions = getTransactionHistory();
 
-  // Generate mock historical data for portfolio chart
-  const historicalData = useMemo((): PortfolioDataPoint[] => {
-    const data: PortfolioDataPoint[] = [];
-    const now = new Date();
-    const daysToGenerate = selectedTimeRange === '1D' ? 24 : 
-                          selectedTimeRange === '1W' ? 7 :
-                          selectedTimeRange === '1M' ? 30 :
-                          selectedTimeRange === '3M' ? 90 :
-                          selectedTimeRange === '6M' ? 180 :
-                          selectedTimeRange === '1Y' ? 365 : 90;
+  const { snapshots } = usePortfolioSnapshots(undefined, transactions.length);
 
-    const startingValue = 10000;
-    const currentValue = portfolioSummary.totalValue;
-    
-    for (let i = daysToGenerate; i >= 0; i--) {
-      const date = new Date(now);
-      if (selectedTimeRange === '1D') {
-        date.setHours(date.getHours() - i);
-      } else {
-        date.setDate(date.getDate() - i);
-      }
-      
-      // Generate some realistic-looking data
-      const variance = 0.02; // 2% daily variance
-      const trend = (daysToGenerate - i) / daysToGenerate * 0.1; // 10% overall trend
-      const randomFactor = (Math.random() - 0.5) * variance;
-      const dayValue = startingValue * (1 + trend + randomFactor);
-      
-      // Calculate daily change
-      const previousValue = i === daysToGenerate ? startingValue : data[data.length - 1]?.totalValue || startingValue;
-      const dailyChange = dayValue - previousValue;
-      const dailyChangePercent = previousValue > 0 ? (dailyChange / previousValue) * 100 : 0;
-      
-      data.push({
-        date,
-        totalValue: i === 0 ? currentValue : dayValue,
-        dailyChange,
-        dailyChangePercent,
+  // Portfolio value history from daily snapshots, ending with the live value
+  const historicalData = useMemo((): PortfolioDataPoint[] => {
+    const points = [
+      ...snapshots.map(snapshot => ({
+        date: new Date(snapshot.timestamp),
+        totalValue: snapshot.totalValue,
+        cashBalance: snapshot.cashBalance,
+        investedAmount: snapshot.holdingsValue
+      })),
+      {
+        date: new Date(),
+        totalValue: portfolioSummary.totalValue,
         cashBalance: portfolioSummary.cashBalance,
         investedAmount: portfolioSummary.investedAmount
-      });
-    }
-    
-    return data;
-  }, [selectedTimeRange, portfolioSummary]);
+      }
+    ];
+
+    return points.map((point, index) => {
+      const previousValue = index > 0 ? points[index - 1].totalValue : point.totalValue;
+      const dailyChange = point.totalValue - previousValue;
+      return {
+        ...point,
+        dailyChange,
+        dailyChangePercent: previousValue > 0 ? (dailyChange / previousValue) * 100 : 0
+      };
+    });
+  }, [snapshots, portfolioSummary]);
 
   // Generate allocation data for holdings
   const holdingsAllocation = useMemo((): AllocationData[] => {
@@ -164,11 +149,13 @@ const PortfolioAnalytics: React.FC = () => {
         transactions: portfolioStore.transactions,
         cashBalance: portfolioStore.cashBalance,
         totalValue: portfolioStore.totalValue,
-        initialValue: 10000, // Starting value
+        initialValue: portfolioStore.initialValue,
+        cashFlows: portfolioStore.cashFlows,
         lastUpdated: new Date()
       },
       {}, // Mock price history
-      SECTOR_MAPPING
+      SECTOR_MAPPING,
+      snapshots
     );
 
     return [
@@ -179,6 +166,20 @@ const PortfolioAnalytics: React.FC = () => {
         description: 'Total percentage return on investment',
         isPositiveGood: true
       },
+      {
+        label: 'Time-Weighted Return',
+        value: analytics.timeWeightedReturn,
+        format: 'percentage',
+        description: 'Investment performance with deposits and withdrawals removed',
+        isPositiveGood: true
+      },
+      {
+        label: 'Money-Weighted Return',
+        value: analytics.moneyWeightedReturn,
+        format: 'percentage',
+        description: 'Your personal return (IRR), reflecting when cash was added or withdrawn',
+        isPositiveGood: true
+      },
       {
         label: 'Annualized Return',
         value: analytics.annualizedReturn,
@@ -207,6 +208,20 @@ const PortfolioAnalytics: React.FC = () => {
         description: 'Largest peak-to-trough decline',
         isPositiveGood: false
       },
+      {
+        label: 'Realized P&L',
+        value: analytics.realizedProfitLoss,
+        format: 'currency',
+        description: 'Gains locked in by sales, from tax-lot cost basis',
+        isPositiveGood: true
+      },
+      {
+        label: 'Unrealized P&L',
+        value: analytics.unrealizedProfitLoss,
+        format: 'currency',
+        description: 'Paper gains on open positions',
+        isPositiveGood: true
+      },
       {
         label: 'Win Rate',
         value: analytics.winRate,
@@ -236,7 +251,7 @@ const PortfolioAnalytics: React.FC = () => {
         isPositiveGood: false
       }
     ];
-  }, [portfolioStore]);
+  }, [portfolioStore, snapshots]);
 
   const hasHoldings = Object.keys(holdings).length > 0;
 
@@ -3,12 +3,18 @@
 import { useState, useEffect, useMemo } from 'react';
 import { usePortfolioStore } from '@/store/portfolio';
 import RealTimePortfolio from './RealTimePortfolio';
+import { portfolioAnalyticsService } from '@/services/portfolioAnalytics';
+import { usePortfolioSnapshots } from '@/hooks/usePortfolioSnapshots';
 
 export default function PortfolioManager() {
   // Use proper Zustand selectors for reactive updates with dependencies
   const getPortfolioSummary = usePortfolioStore(state => state.getPortfolioSummary);
   const getHoldingsByValue = usePortfolioStore(state => state.getHoldingsByValue);
   const executeTrade = usePortfolioStore(state => state.executeTrade);
+  const cashFlows = usePortfolioStore(state => state.cashFlows);
+  const initialValue = usePortfolioStore(state => state.initialValue);
+  const transactionCount = usePortfolioStore(state => state.transactions.length);
+  const { snapshots } = usePortfolioSnapshots(undefined, transactionCount);
 
   // Memoize calculated values to prevent infinite loops
   const portfolioSummary = useMemo(() => {
@@ -130,6 +136,15 @@ export default function PortfolioManager() {
     };
   }, [sortedHoldings, currentPrices, portfolioSummary.cashBalance]);
 
+  // Returns with deposits and withdrawals taken out
+  const flowReturns = useMemo(() => {
+    return portfolioAnalyticsService.calculateReturnMetrics(
+      { cashFlows, initialValue },
+      snapshots,
+      calculateLiveTotalPL.totalValue
+    );
+  }, [cashFlows, initialValue, snapshots, calculateLiveTotalPL.totalValue]);
+
   const renderOverviewMode = () => (
     <div className="space-y-4">
       {/* Portfolio Summary */}
@@ -170,6 +185,28 @@ export default function PortfolioManager() {
             <p className="text-gray-600">Invested Amount</p>
             <p className="font-semibold">{formatCurrency(portfolioSummary.investedAmount)}</p>
           </div>
+          <div title="Investment performance with deposits and withdrawals removed">
+            <p className="text-gray-600">Time-Weighted Return</p>
+            <p className={`font-semibold ${flowReturns.timeWeightedReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatPercent(flowReturns.timeWeightedReturn)}
+            </p>
+          </div>
+          <div title={`Your return on the cash you put in (IRR${flowReturns.moneyWeightedAnnualized ? ', annualized' : ''})`}>
+            <p className="text-gray-600">Money-Weighted Return</p>
+            <p className={`font-semibold ${flowReturns.moneyWeightedReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatPercent(flowReturns.moneyWeightedReturn)}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-600">Net Deposits</p>
+            <p className="font-semibold">{formatCurrency(flowReturns.netContributions)}</p>
+          </div>
+          <div>
+            <p className="text-gray-600">Net Gain</p>
+            <p className={`font-semibold ${flowReturns.profitLoss >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(flowReturns.profitLoss)}
+            </p>
+          </div>
         </div>
       </div>
 
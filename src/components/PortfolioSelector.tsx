@@ -0,0 +1,209 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { usePortfolioStore } from '@/store/portfolio';
+
+export default function PortfolioSelector() {
+  const portfolioId = usePortfolioStore(state => state.portfolioId);
+  const portfolioName = usePortfolioStore(state => state.portfolioName);
+  const portfolios = usePortfolioStore(state => state.portfolios);
+  const loadPortfolios = usePortfolioStore(state => state.loadPortfolios);
+  const createPortfolio = usePortfolioStore(state => state.createPortfolio);
+  const renamePortfolio = usePortfolioStore(state => state.renamePortfolio);
+  const archivePortfolio = usePortfolioStore(state => state.archivePortfolio);
+  const restorePortfolio = usePortfolioStore(state => state.restorePortfolio);
+  const switchPortfolio = usePortfolioStore(state => state.switchPortfolio);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newCash, setNewCash] = useState('10000');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    loadPortfolios();
+  }, [loadPortfolios, portfolioId]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const openPortfolios = portfolios.filter(p => !p.isArchived);
+  const archivedPortfolios = portfolios.filter(p => p.isArchived);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+  const handleSwitch = async (id: number) => {
+    setIsOpen(false);
+    await switchPortfolio(id);
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    const initialCash = parseFloat(newCash);
+    if (!name || isNaN(initialCash) || initialCash <= 0) {
+      alert('Please enter a name and a positive starting cash amount');
+      return;
+    }
+
+    setIsOpen(false);
+    if (await createPortfolio(name, initialCash)) {
+      setNewName('');
+      setNewCash('10000');
+      setShowCreateForm(false);
+    } else {
+      alert('Failed to create portfolio. Please try again.');
+    }
+  };
+
+  const handleRename = async (id: number, currentName: string) => {
+    const name = window.prompt('Rename portfolio', currentName)?.trim();
+    if (name && name !== currentName && !(await renamePortfolio(id, name))) {
+      alert('Failed to rename portfolio. Please try again.');
+    }
+  };
+
+  const handleArchive = async (id: number, name: string) => {
+    if (!window.confirm(`Archive "${name}"? Its open orders will be cancelled.`)) return;
+    if (!(await archivePortfolio(id))) {
+      alert(usePortfolioStore.getState().error || 'Failed to archive portfolio');
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-1 px-3 py-1 rounded-lg border border-gray-200 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        title="Switch portfolio"
+      >
+        <span>💼</span>
+        <span className="max-w-[120px] truncate">{portfolioName || 'Portfolio'}</span>
+        <span className="text-gray-400">▾</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+            {openPortfolios.map(portfolio => (
+              <div
+                key={portfolio.id}
+                className={`flex items-center justify-between px-3 py-2 ${portfolio.id === portfolioId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+              >
+                <button onClick={() => handleSwitch(portfolio.id)} className="flex-1 text-left">
+                  <div className="text-sm font-medium text-gray-900">
+                    {portfolio.id === portfolioId && '✓ '}{portfolio.name}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatCurrency(portfolio.totalValue)} · {portfolio.holdingsCount} position{portfolio.holdingsCount !== 1 ? 's' : ''}
+                  </div>
+                </button>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => handleRename(portfolio.id, portfolio.name)}
+                    className="p-1 text-gray-400 hover:text-gray-700"
+                    title="Rename"
+                  >
+                    ✏️
+                  </button>
+                  {openPortfolios.length > 1 && (
+                    <button
+                      onClick={() => handleArchive(portfolio.id, portfolio.name)}
+                      className="p-1 text-gray-400 hover:text-gray-700"
+                      title="Archive"
+                    >
+                      🗄️
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {archivedPortfolios.length > 0 && (
+            <div className="border-t border-gray-200 px-3 py-2">
+              <button
+                onClick={() => setShowArchived(!showArchived)}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                {showArchived ? '▾' : '▸'} Archived ({archivedPortfolios.length})
+              </button>
+              {showArchived && archivedPortfolios.map(portfolio => (
+                <div key={portfolio.id} className="flex items-center justify-between mt-1 text-sm text-gray-500">
+                  <span className="truncate">{portfolio.name}</span>
+                  <button
+                    onClick={() => restorePortfolio(portfolio.id)}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    Restore
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="border-t border-gray-200 p-3 space-y-2">
+            {showCreateForm ? (
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="Portfolio name"
+                  maxLength={100}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+                <input
+                  type="number"
+                  value={newCash}
+                  onChange={(e) => setNewCash(e.target.value)}
+                  placeholder="Starting cash"
+                  min="1"
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleCreate}
+                    className="flex-1 bg-blue-600 text-white px-2 py-1 rounded text-sm hover:bg-blue-700"
+                  >
+                    Create
+                  </button>
+                  <button
+                    onClick={() => setShowCreateForm(false)}
+                    className="flex-1 bg-gray-100 text-gray-700 px-2 py-1 rounded text-sm hover:bg-gray-200"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowCreateForm(true)}
+                className="w-full text-left text-sm text-blue-600 hover:text-blue-800"
+              >
+                ➕ New portfolio
+              </button>
+            )}
+            <Link
+              href="/household"
+              onClick={() => setIsOpen(false)}
+              className="block text-sm text-gray-700 hover:text-gray-900"
+            >
+              🏠 Household view
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
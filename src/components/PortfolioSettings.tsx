@@ -2,12 +2,15 @@
 
 import { useState } from 'react';
 import { usePortfolioStore } from '@/store/portfolio';
+import ExecutionCostSettingsPanel from './ExecutionCostSettingsPanel';
 
 export default function PortfolioSettings() {
   // Use proper Zustand selectors for reactive updates
   const resetPortfolio = usePortfolioStore(state => state.resetPortfolio);
   const topUpCash = usePortfolioStore(state => state.topUpCash);
+  const withdrawCash = usePortfolioStore(state => state.withdrawCash);
   const cashBalance = usePortfolioStore(state => state.cashBalance);
+  const initialValue = usePortfolioStore(state => state.initialValue);
   const [topUpAmount, setTopUpAmount] = useState('');
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [showTopUpForm, setShowTopUpForm] = useState(false);
@@ -29,11 +32,32 @@ export default function PortfolioSettings() {
     }
   };
 
+  const handleWithdraw = async () => {
+    const amount = parseFloat(topUpAmount);
+    if (isNaN(amount) || amount <= 0) {
+      alert('Please enter a valid amount');
+      return;
+    }
+    if (amount > cashBalance) {
+      alert(`You can withdraw at most $${cashBalance.toFixed(2)}`);
+      return;
+    }
+    
+    try {
+      await withdrawCash(amount);
+      setTopUpAmount('');
+      setShowTopUpForm(false);
+      alert(`Successfully withdrew $${amount.toFixed(2)} from your portfolio!`);
+    } catch {
+      alert('Failed to withdraw cash. Please try again.');
+    }
+  };
+
   const handleReset = async () => {
     try {
       await resetPortfolio();
       setShowResetConfirm(false);
-      alert('Portfolio has been reset to $10,000!');
+      alert(`Portfolio has been reset to $${initialValue.toLocaleString()}!`);
     } catch {
       alert('Failed to reset portfolio. Please try again.');
     }
@@ -53,25 +77,25 @@ export default function PortfolioSettings() {
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Top Up Cash Section */}
         <div className="border border-gray-200 rounded-lg p-4">
-          <h3 className="text-lg font-semibold text-gray-700 mb-3">💰 Add Virtual Cash</h3>
+          <h3 className="text-lg font-semibold text-gray-700 mb-3">💰 Add or Withdraw Cash</h3>
           
           {!showTopUpForm ? (
             <div>
               <p className="text-sm text-gray-600 mb-3">
-                Add more virtual money to your portfolio for additional trading.
+                Add more virtual money to your portfolio for additional trading, or take some out.
               </p>
               <button
                 onClick={() => setShowTopUpForm(true)}
                 className="w-full bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 transition-colors"
               >
-                Add Cash
+                Add or Withdraw Cash
               </button>
             </div>
           ) : (
             <div className="space-y-3">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Amount to Add
+                  Amount
                 </label>
                 <input
                   type="number"
@@ -107,6 +131,12 @@ export default function PortfolioSettings() {
                 >
                   Add Cash
                 </button>
+                <button
+                  onClick={handleWithdraw}
+                  className="flex-1 bg-yellow-500 text-white px-4 py-2 rounded-lg hover:bg-yellow-600 transition-colors"
+                >
+                  Withdraw
+                </button>
                 <button
                   onClick={() => {
                     setShowTopUpForm(false);
@@ -128,7 +158,7 @@ export default function PortfolioSettings() {
           {!showResetConfirm ? (
             <div>
               <p className="text-sm text-gray-600 mb-3">
-                Reset your portfolio to the initial $10,000 and clear all transactions.
+                Reset your portfolio to its starting ${initialValue.toLocaleString()} and clear all transactions.
               </p>
               <button
                 onClick={() => setShowResetConfirm(true)}
@@ -165,12 +195,16 @@ export default function PortfolioSettings() {
         </div>
       </div>
 
+      <ExecutionCostSettingsPanel />
+
       {/* Info Section */}
       <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
         <h4 className="text-sm font-semibold text-blue-800 mb-1">📋 Portfolio Management Tips</h4>
         <ul className="text-xs text-blue-700 space-y-1">
           <li>• The system now prevents overspending - you cannot buy more than your available cash</li>
           <li>• Add virtual cash when you need more buying power for larger positions</li>
+          <li>• Deposits and withdrawals are tracked separately, so they never show up as gains or losses</li>
+          <li>• Fills include the configured commission, spread and slippage, so buys cost slightly more than the quote</li>
           <li>• Reset your portfolio if you want to start fresh with a clean slate</li>
           <li>• All transactions and holdings are automatically saved in your browser</li>
         </ul>
@@ -2,7 +2,7 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { useRealTimePortfolio } from '@/hooks/useRealTimePortfolio';
-import { usePortfolioStore } from '@/store/portfolio';
+import { usePortfolioStore, getNetContributions } from '@/store/portfolio';
 import ClientOnly from './ClientOnly';
 import { formatCurrency } from '@/utils/formatters';
 
@@ -152,7 +152,7 @@ const RealTimePortfolio: React.FC = () => {
   // Use proper Zustand selectors for reactive updates with dependencies
   const holdings = usePortfolioStore(state => state.holdings);
   const cashBalance = usePortfolioStore(state => state.cashBalance);
-  const initialValue = usePortfolioStore(state => state.initialValue);
+  const netContributions = usePortfolioStore(state => getNetContributions(state));
   const getPortfolioSummary = usePortfolioStore(state => state.getPortfolioSummary);
 
   // Memoize calculated values to prevent infinite loops
@@ -267,7 +267,7 @@ const RealTimePortfolio: React.FC = () => {
         
         <RealTimeValueCard
           title="Total P&L"
-          value={realTimeData ? (realTimeData.totalValue - initialValue) : portfolioSummary.totalProfitLoss}
+          value={realTimeData ? (realTimeData.totalValue - netContributions) : portfolioSummary.totalProfitLoss}
           change={realTimeData?.dayChange}
           changePercent={realTimeData?.dayChangePercent}
           icon="📈"
@@ -0,0 +1,396 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePortfolioStore } from '@/store/portfolio';
+import type {
+  AllocationGroupBy,
+  AllocationTarget,
+  RebalancePreview,
+  RebalanceResult,
+  RebalanceSchedule,
+  TargetAllocation
+} from '@/types/rebalancing';
+
+const DEFAULT_ALLOCATION: TargetAllocation = {
+  groupBy: 'SYMBOL',
+  targets: [],
+  driftBand: 5,
+  cashReservePercent: 5,
+  minTradeAmount: 50,
+  schedule: 'OFF'
+};
+
+type NumericSetting = 'driftBand' | 'cashReservePercent' | 'minTradeAmount';
+
+const formatTargets = (allocation: TargetAllocation): string =>
+  allocation.targets
+    .map(target => `${target.key}:${target.weight}${target.symbol ? `@${target.symbol}` : ''}`)
+    .join(', ');
+
+// "VOO:60, BND:30" or "Technology:40@QQQ" -> targets; the optional @SYMBOL is what a sector buys while empty
+const parseTargets = (text: string, groupBy: AllocationGroupBy): AllocationTarget[] | null => {
+  const entries = text.split(',').map(entry => entry.trim()).filter(Boolean);
+  if (entries.length === 0) return null;
+
+  const targets: AllocationTarget[] = [];
+  for (const entry of entries) {
+    const match = entry.match(/^(.+?)\s*[:=]\s*([\d.]+)\s*(?:@\s*([A-Za-z.\-]+))?$/);
+    if (!match) return null;
+
+    const weight = parseFloat(match[2]);
+    if (isNaN(weight) || weight < 0) return null;
+
+    const key = groupBy === 'SYMBOL' ? match[1].toUpperCase() : match[1];
+    targets.push(match[3] && groupBy === 'SECTOR'
+      ? { key, weight, symbol: match[3].toUpperCase() }
+      : { key, weight });
+  }
+  return targets;
+};
+
+const formatDrift = (drift: number) => `${drift > 0 ? '+' : ''}${drift.toFixed(1)}pp`;
+
+export default function RebalancePanel() {
+  const portfolioId = usePortfolioStore(state => state.portfolioId);
+  const loadPortfolio = usePortfolioStore(state => state.loadPortfolio);
+
+  const [allocation, setAllocation] = useState<TargetAllocation>(DEFAULT_ALLOCATION);
+  const [isConfigured, setIsConfigured] = useState(false);
+  const [targetsText, setTargetsText] = useState('');
+  const [preview, setPreview] = useState<RebalancePreview | null>(null);
+  const [result, setResult] = useState<RebalanceResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    const loadAllocation = async () => {
+      try {
+        const response = await fetch('/api/portfolio/target-allocation');
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load target allocation');
+        }
+        setAllocation(result.data ?? DEFAULT_ALLOCATION);
+        setIsConfigured(result.data !== null);
+        setTargetsText(result.data ? formatTargets(result.data) : '');
+        setPreview(null);
+        setResult(null);
+      } catch (error) {
+        console.error('Error loading target allocation:', error);
+        setMessage('Error loading target allocation');
+      }
+    };
+
+    if (portfolioId !== null) {
+      loadAllocation();
+    }
+  }, [portfolioId]);
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 4000);
+  };
+
+  const updateNumber = (key: NumericSetting, value: string) => {
+    const parsed = parseFloat(value);
+    setAllocation({ ...allocation, [key]: isNaN(parsed) ? 0 : parsed });
+  };
+
+  const handleSave = async () => {
+    const targets = parseTargets(targetsText, allocation.groupBy);
+    if (!targets) {
+      alert(allocation.groupBy === 'SYMBOL'
+        ? 'Please enter targets, e.g. "VOO:60, BND:30"'
+        : 'Please enter targets, e.g. "Technology:40@QQQ, Healthcare:20@XLV"');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const response = await fetch('/api/portfolio/target-allocation', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...allocation, targets })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save target allocation');
+      }
+      setAllocation(result.data);
+      setTargetsText(formatTargets(result.data));
+      setIsConfigured(true);
+      setPreview(null);
+      showMessage('Target allocation saved');
+    } catch (error) {
+      showMessage(error instanceof Error ? `Error: ${error.message}` : 'Error saving target allocation');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove the target allocation? Scheduled rebalancing and drift alerts stop.')) return;
+
+    setIsBusy(true);
+    try {
+      const response = await fetch('/api/portfolio/target-allocation', { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove target allocation');
+      }
+      setAllocation(DEFAULT_ALLOCATION);
+      setTargetsText('');
+      setIsConfigured(false);
+      setPreview(null);
+      setResult(null);
+      showMessage('Target allocation removed');
+    } catch (error) {
+      showMessage(error instanceof Error ? `Error: ${error.message}` : 'Error removing target allocation');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setIsBusy(true);
+    try {
+      const response = await fetch('/api/portfolio/rebalance');
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to preview rebalance');
+      }
+      setPreview(result.data);
+      setResult(null);
+    } catch (error) {
+      showMessage(error instanceof Error ? `Error: ${error.message}` : 'Error previewing rebalance');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExecute = async () => {
+    if (!preview || preview.trades.length === 0) return;
+    if (!confirm(`Place ${preview.trades.length} rebalance trade(s) at market prices?`)) return;
+
+    setIsBusy(true);
+    try {
+      const response = await fetch('/api/portfolio/rebalance', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to execute rebalance');
+      }
+      setResult(result.data);
+      setPreview(null);
+      await loadPortfolio();
+      showMessage(result.message || 'Rebalance executed');
+    } catch (error) {
+      showMessage(error instanceof Error ? `Error: ${error.message}` : 'Error executing rebalance');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const numberInput = (key: NumericSetting, label: string, step: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="number"
+        value={allocation[key]}
+        min="0"
+        step={step}
+        onChange={(e) => updateNumber(key, e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+    </div>
+  );
+
+  return (
+    <div id="rebalance" className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h2 className="text-xl font-bold text-gray-800 mb-4">⚖️ Target Allocation</h2>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Set target weights by symbol or sector. When a bucket drifts outside its band, the rebalance
+        plan sells and buys only what is needed, keeps the cash reserve, and sells tax lots with losses first.
+      </p>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg text-sm ${message.startsWith('Error') ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          {message}
+        </div>
+      )}
+
+      <div className="space-y-3 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Group by</label>
+            <select
+              value={allocation.groupBy}
+              onChange={(e) => setAllocation({ ...allocation, groupBy: e.target.value as AllocationGroupBy })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="SYMBOL">Symbol</option>
+              <option value="SECTOR">Sector</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Automatic rebalancing</label>
+            <select
+              value={allocation.schedule}
+              onChange={(e) => setAllocation({ ...allocation, schedule: e.target.value as RebalanceSchedule })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="OFF">Off (manual only)</option>
+              <option value="DAILY">Daily, when drifted</option>
+              <option value="WEEKLY">Weekly, when drifted</option>
+              <option value="MONTHLY">Monthly, when drifted</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Targets (% of invested value)</label>
+          <input
+            type="text"
+            value={targetsText}
+            onChange={(e) => setTargetsText(e.target.value)}
+            placeholder={allocation.groupBy === 'SYMBOL' ? 'VOO:60, BND:30, GLD:10' : 'Technology:40@QQQ, Healthcare:20@XLV'}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {allocation.groupBy === 'SECTOR' && (
+            <p className="text-xs text-gray-500 mt-1">
+              Add @SYMBOL to say what to buy while a sector holds nothing.
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {numberInput('driftBand', 'Drift band (pp)', '0.5')}
+          {numberInput('cashReservePercent', 'Cash reserve (%)', '1')}
+          {numberInput('minTradeAmount', 'Minimum trade ($)', '10')}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={isBusy}
+            className="flex-1 bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            Save Targets
+          </button>
+          {isConfigured && (
+            <>
+              <button
+                onClick={handlePreview}
+                disabled={isBusy}
+                className="flex-1 bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 transition-colors disabled:opacity-50"
+              >
+                Preview Rebalance
+              </button>
+              <button
+                onClick={handleRemove}
+                disabled={isBusy}
+                className="bg-red-500 text-white px-4 py-2 rounded-lg hover:bg-red-600 transition-colors disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {preview && (
+        <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-700">Drift</h3>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${preview.needsRebalance ? 'text-yellow-600 bg-yellow-100' : 'text-green-600 bg-green-100'}`}>
+              {preview.needsRebalance ? `Max drift ${preview.maxDrift.toFixed(1)}pp` : 'Within bands'}
+            </span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1">Bucket</th>
+                  <th className="py-1 text-right">Target</th>
+                  <th className="py-1 text-right">Current</th>
+                  <th className="py-1 text-right">Drift</th>
+                  <th className="py-1 text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.drifts.map(drift => (
+                  <tr key={drift.key} className={drift.outOfBand ? 'text-red-600' : 'text-gray-700'}>
+                    <td className="py-1">{drift.key}</td>
+                    <td className="py-1 text-right">{drift.targetPercent.toFixed(1)}%</td>
+                    <td className="py-1 text-right">{drift.currentPercent.toFixed(1)}%</td>
+                    <td className="py-1 text-right">{formatDrift(drift.drift)}</td>
+                    <td className="py-1 text-right">${drift.currentValue.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-gray-700 mb-2">Planned Trades</h3>
+            {preview.trades.length === 0 ? (
+              <p className="text-sm text-gray-500">No trades needed.</p>
+            ) : (
+              <div className="space-y-1 text-sm">
+                {preview.trades.map(trade => (
+                  <p key={`${trade.side}-${trade.symbol}`} className="text-gray-700">
+                    <span className={trade.side === 'SELL' ? 'text-red-600 font-medium' : 'text-green-600 font-medium'}>
+                      {trade.side}
+                    </span>{' '}
+                    {trade.quantity} {trade.symbol} @ ${trade.price.toFixed(2)} (${trade.amount.toFixed(2)})
+                    {trade.bucket !== trade.symbol ? ` · ${trade.bucket}` : ''}
+                    {trade.estimatedRealizedPnl !== undefined
+                      ? ` · est. P&L ${trade.estimatedRealizedPnl >= 0 ? '+' : ''}$${trade.estimatedRealizedPnl.toFixed(2)}`
+                      : ''}
+                  </p>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              Cash ${preview.cashBalance.toFixed(2)} → ${preview.cashAfter.toFixed(2)}
+              {preview.estimatedRealizedPnl !== 0
+                ? ` · Estimated realized P&L ${preview.estimatedRealizedPnl >= 0 ? '+' : ''}$${preview.estimatedRealizedPnl.toFixed(2)}`
+                : ''}
+              {preview.lastRebalancedAt ? ` · Last rebalanced ${new Date(preview.lastRebalancedAt).toLocaleString()}` : ''}
+            </p>
+          </div>
+
+          {preview.warnings.length > 0 && (
+            <div className="bg-yellow-50 text-yellow-800 rounded-lg p-3 text-sm space-y-1">
+              {preview.warnings.map(warning => <p key={warning}>⚠️ {warning}</p>)}
+            </div>
+          )}
+
+          {preview.trades.length > 0 && (
+            <button
+              onClick={handleExecute}
+              disabled={isBusy}
+              className="w-full bg-purple-500 text-white px-4 py-2 rounded-lg hover:bg-purple-600 transition-colors disabled:opacity-50"
+            >
+              Execute Rebalance
+            </button>
+          )}
+        </div>
+      )}
+
+      {result && (
+        <div className="border border-gray-200 rounded-lg p-4">
+          <h3 className="text-lg font-semibold text-gray-700 mb-2">
+            Rebalanced {new Date(result.executedAt).toLocaleString()}
+          </h3>
+          {result.fills.map(fill => (
+            <p key={`${fill.side}-${fill.symbol}`} className={`text-sm ${fill.error ? 'text-red-600' : 'text-gray-600'}`}>
+              {fill.side} {fill.symbol}: {fill.error ?? `${fill.quantity} @ $${fill.price.toFixed(2)} ($${fill.amount.toFixed(2)})`}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
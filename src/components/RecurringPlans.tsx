@@ -0,0 +1,322 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePortfolioStore } from '@/store/portfolio';
+import type { PlanAllocation, PlanFrequency, RecurringPlan } from '@/types/recurringPlans';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const describeSchedule = (plan: RecurringPlan): string => {
+  switch (plan.frequency) {
+    case 'DAILY': return 'every trading day';
+    case 'WEEKLY': return `every ${DAY_NAMES[plan.dayOfWeek ?? 1]}`;
+    case 'MONTHLY': return `monthly on day ${plan.dayOfMonth}`;
+    default: return plan.frequency;
+  }
+};
+
+const describeAllocations = (allocations: PlanAllocation[]): string => {
+  const totalWeight = allocations.reduce((sum, allocation) => sum + allocation.weight, 0);
+  return allocations
+    .map(allocation => `${allocation.symbol} ${Math.round(allocation.weight / totalWeight * 100)}%`)
+    .join(', ');
+};
+
+// "VOO:60, VXUS 40, BND" -> weighted allocations; a bare symbol gets weight 1
+const parseAllocations = (text: string): PlanAllocation[] | null => {
+  const entries = text.split(',').map(entry => entry.trim()).filter(Boolean);
+  if (entries.length === 0) return null;
+
+  const allocations: PlanAllocation[] = [];
+  for (const entry of entries) {
+    const [symbol, weightText] = entry.split(/[\s:=]+/);
+    const weight = weightText ? parseFloat(weightText) : 1;
+    if (!symbol || !(weight > 0)) return null;
+    allocations.push({ symbol: symbol.toUpperCase(), weight });
+  }
+  return allocations;
+};
+
+const getRunStatusColor = (status: string) => {
+  switch (status) {
+    case 'COMPLETED': return 'text-green-600 bg-green-100';
+    case 'PARTIAL': return 'text-yellow-600 bg-yellow-100';
+    case 'SKIPPED': return 'text-gray-600 bg-gray-100';
+    default: return 'text-red-600 bg-red-100';
+  }
+};
+
+export default function RecurringPlans() {
+  const portfolioId = usePortfolioStore(state => state.portfolioId);
+  const plans = usePortfolioStore(state => state.recurringPlans);
+  const runs = usePortfolioStore(state => state.recurringPlanRuns);
+  const loadRecurringPlans = usePortfolioStore(state => state.loadRecurringPlans);
+  const saveRecurringPlan = usePortfolioStore(state => state.saveRecurringPlan);
+  const deleteRecurringPlan = usePortfolioStore(state => state.deleteRecurringPlan);
+
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [allocationsText, setAllocationsText] = useState('');
+  const [frequency, setFrequency] = useState<PlanFrequency>('WEEKLY');
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [dayOfMonth, setDayOfMonth] = useState(1);
+  const [depositAmount, setDepositAmount] = useState('');
+
+  useEffect(() => {
+    if (portfolioId !== null) {
+      loadRecurringPlans();
+    }
+  }, [portfolioId, loadRecurringPlans]);
+
+  const resetForm = () => {
+    setShowForm(false);
+    setName('');
+    setAmount('');
+    setAllocationsText('');
+    setDepositAmount('');
+  };
+
+  const handleCreate = async () => {
+    const parsedAmount = parseFloat(amount);
+    const allocations = parseAllocations(allocationsText);
+    const deposit = depositAmount.trim() === '' ? null : parseFloat(depositAmount);
+
+    if (!name.trim() || !(parsedAmount > 0)) {
+      alert('Please enter a plan name and a positive amount');
+      return;
+    }
+    if (!allocations) {
+      alert('Please enter symbols, e.g. "VOO" or "VOO:60, VXUS:40"');
+      return;
+    }
+    if (deposit !== null && !(deposit > 0)) {
+      alert('Salary deposit must be positive (or leave it blank)');
+      return;
+    }
+
+    const saved = await saveRecurringPlan({
+      name: name.trim(),
+      amount: parsedAmount,
+      allocations,
+      frequency,
+      dayOfWeek: frequency === 'WEEKLY' ? dayOfWeek : null,
+      dayOfMonth: frequency === 'MONTHLY' ? dayOfMonth : null,
+      depositAmount: deposit
+    });
+
+    if (saved) {
+      resetForm();
+    } else {
+      alert(`Failed to create plan: ${usePortfolioStore.getState().error}`);
+    }
+  };
+
+  const handleDelete = async (plan: RecurringPlan) => {
+    if (!confirm(`Delete "${plan.name}"? Shares it already bought stay in the portfolio.`)) return;
+    await deleteRecurringPlan(plan.id);
+  };
+
+  const planNames = new Map(plans.map(plan => [plan.id, plan.name]));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-800">🔁 Recurring Plans</h2>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors text-sm"
+          >
+            + New Plan
+          </button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Invest a fixed amount on a schedule. Plans buy at the next market open, split by weight and
+        using fractional shares, and invest only what your cash allows.
+      </p>
+
+      {showForm && (
+        <div className="border border-gray-200 rounded-lg p-4 mb-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Weekly index buy"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount per run ($)</label>
+              <input
+                type="number"
+                value={amount}
+                min="0"
+                step="0.01"
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="200"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Symbols and weights</label>
+            <input
+              type="text"
+              value={allocationsText}
+              onChange={(e) => setAllocationsText(e.target.value)}
+              placeholder="VOO:60, VXUS:40"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+              <select
+                value={frequency}
+                onChange={(e) => setFrequency(e.target.value as PlanFrequency)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="DAILY">Every trading day</option>
+                <option value="WEEKLY">Weekly</option>
+                <option value="MONTHLY">Monthly</option>
+              </select>
+            </div>
+            {frequency === 'WEEKLY' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Day</label>
+                <select
+                  value={dayOfWeek}
+                  onChange={(e) => setDayOfWeek(parseInt(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  {DAY_NAMES.map((day, index) => (
+                    <option key={day} value={index}>{day}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {frequency === 'MONTHLY' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Day of month</label>
+                <input
+                  type="number"
+                  value={dayOfMonth}
+                  min="1"
+                  max="28"
+                  onChange={(e) => setDayOfMonth(Math.min(28, Math.max(1, parseInt(e.target.value) || 1)))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Salary deposit ($, optional)</label>
+              <input
+                type="number"
+                value={depositAmount}
+                min="0"
+                step="0.01"
+                onChange={(e) => setDepositAmount(e.target.value)}
+                placeholder="Added to cash before each run"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleCreate}
+              className="flex-1 bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              Create Plan
+            </button>
+            <button
+              onClick={resetForm}
+              className="flex-1 bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {plans.length === 0 ? (
+        !showForm && <p className="text-sm text-gray-500">No recurring plans yet.</p>
+      ) : (
+        <div className="space-y-3 mb-4">
+          {plans.map(plan => (
+            <div key={plan.id} className="border border-gray-200 rounded-lg p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-gray-800">{plan.name}</span>
+                  {!plan.isActive && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium text-gray-600 bg-gray-100">Paused</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600">
+                  ${plan.amount.toFixed(2)} {describeSchedule(plan)} into {describeAllocations(plan.allocations)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {plan.depositAmount ? `Deposits $${plan.depositAmount.toFixed(2)} first · ` : ''}
+                  {plan.isActive ? `Next run ${plan.nextRunAt.toLocaleString()}` : 'Not scheduled'}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => saveRecurringPlan({ isActive: !plan.isActive }, plan.id)}
+                  className="bg-yellow-500 text-white px-3 py-1 rounded-lg hover:bg-yellow-600 transition-colors text-sm"
+                >
+                  {plan.isActive ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => handleDelete(plan)}
+                  className="bg-red-500 text-white px-3 py-1 rounded-lg hover:bg-red-600 transition-colors text-sm"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-700 mb-2">Recent Runs</h3>
+          <div className="space-y-2">
+            {runs.map(run => (
+              <div key={run.id} className="border border-gray-100 rounded-lg p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-800">
+                    {planNames.get(run.planId) ?? 'Plan'} · {run.executedAt.toLocaleDateString()}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getRunStatusColor(run.status)}`}>
+                    {run.status}
+                  </span>
+                </div>
+                <p className="text-gray-600">
+                  Invested ${run.investedAmount.toFixed(2)}
+                  {run.depositAmount ? ` after depositing $${run.depositAmount.toFixed(2)}` : ''}
+                  {run.message ? ` · ${run.message}` : ''}
+                </p>
+                {run.fills.map(fill => (
+                  <p key={fill.symbol} className={`text-xs ${fill.error ? 'text-red-600' : 'text-gray-500'}`}>
+                    {fill.symbol}: {fill.error ?? `${fill.quantity} @ $${fill.price.toFixed(2)} ($${fill.amount.toFixed(2)})`}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
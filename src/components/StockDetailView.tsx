@@ -0,0 +1,336 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import CandlestickChart from '@/components/charts/CandlestickChart';
+import type { AIRecommendation } from '@/services/aiAnalyzer';
+import type { ChartCandle, ChartResolution, StockDetail } from '@/types/stockDetail';
+
+interface StockDetailViewProps {
+  symbol: string;
+}
+
+const RESOLUTIONS: Array<{ value: ChartResolution; label: string }> = [
+  { value: '5', label: '5m' },
+  { value: '15', label: '15m' },
+  { value: '60', label: '1h' },
+  { value: 'D', label: '1D' },
+  { value: 'W', label: '1W' },
+  { value: 'M', label: '1M' }
+];
+
+const formatNumber = (value: number | null, digits = 2, suffix = '') =>
+  value === null ? '—' : `${value.toFixed(digits)}${suffix}`;
+
+const formatMarketCap = (millions: number | null) => {
+  if (millions === null) return '—';
+  if (millions >= 1000000) return `$${(millions / 1000000).toFixed(2)}T`;
+  if (millions >= 1000) return `$${(millions / 1000).toFixed(1)}B`;
+  return `$${millions.toFixed(0)}M`;
+};
+
+const getActionColor = (action: string) => {
+  switch (action) {
+    case 'BUY': return 'text-green-600 bg-green-100';
+    case 'SELL': return 'text-red-600 bg-red-100';
+    default: return 'text-yellow-600 bg-yellow-100';
+  }
+};
+
+export default function StockDetailView({ symbol }: StockDetailViewProps) {
+  const [detail, setDetail] = useState<StockDetail | null>(null);
+  const [candles, setCandles] = useState<ChartCandle[]>([]);
+  const [resolution, setResolution] = useState<ChartResolution>('D');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChartLoading, setIsChartLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [chartError, setChartError] = useState('');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  const loadDetail = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/stock/${encodeURIComponent(symbol)}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load stock details');
+      }
+      setDetail(data.data);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load stock details');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [symbol]);
+
+  const loadCandles = useCallback(async (chartResolution: ChartResolution) => {
+    setIsChartLoading(true);
+    try {
+      const response = await fetch(`/api/stock/${encodeURIComponent(symbol)}/candles?resolution=${chartResolution}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load chart data');
+      }
+      setCandles(data.data);
+      setChartError('');
+    } catch (err) {
+      setCandles([]);
+      setChartError(err instanceof Error ? err.message : 'Failed to load chart data');
+    } finally {
+      setIsChartLoading(false);
+    }
+  }, [symbol]);
+
+  useEffect(() => {
+    loadDetail();
+  }, [loadDetail]);
+
+  useEffect(() => {
+    loadCandles(resolution);
+  }, [loadCandles, resolution]);
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    try {
+      const response = await fetch('/api/watchlists/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ symbol })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to analyze symbol');
+      }
+      const recommendation: AIRecommendation = data.data;
+      setDetail(current => current ? { ...current, recommendation } : current);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to analyze symbol');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  if (isLoading && !detail) {
+    return (
+      <div className="p-4">
+        <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">Loading {symbol}…</div>
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="p-4">
+        <div className="bg-red-50 text-red-700 rounded-lg p-4 text-sm">{error || `No data for ${symbol}`}</div>
+      </div>
+    );
+  }
+
+  const { profile, quote, fundamentals, recommendation } = detail;
+  const isIntraday = resolution !== 'D' && resolution !== 'W' && resolution !== 'M';
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            {profile.logo && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={profile.logo} alt={profile.name} className="w-12 h-12 rounded-lg object-contain bg-gray-50" />
+            )}
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">{detail.symbol}</h2>
+              <p className="text-sm text-gray-600">
+                {profile.name}
+                {profile.industry && ` · ${profile.industry}`}
+                {profile.exchange && ` · ${profile.exchange}`}
+              </p>
+            </div>
+          </div>
+          {quote && (
+            <div className="text-left md:text-right">
+              <div className="text-3xl font-bold text-gray-900">${quote.price.toFixed(2)}</div>
+              <div className={`text-sm font-medium ${quote.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {quote.change >= 0 ? '+' : ''}{quote.change.toFixed(2)} ({quote.changePercent >= 0 ? '+' : ''}{quote.changePercent.toFixed(2)}%)
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2 mt-4">
+          <Link
+            href={`/trade?symbol=${detail.symbol}`}
+            className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors text-sm"
+          >
+            💰 Trade
+          </Link>
+          <button
+            onClick={handleAnalyze}
+            disabled={isAnalyzing}
+            className="bg-purple-500 text-white px-4 py-2 rounded-lg hover:bg-purple-600 transition-colors text-sm disabled:opacity-50"
+          >
+            {isAnalyzing ? 'Analyzing…' : '🤖 Run AI Analysis'}
+          </button>
+          {profile.website && (
+            <a
+              href={profile.website}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="bg-gray-100 text-gray-800 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+            >
+              🌐 Website
+            </a>
+          )}
+        </div>
+        {error && <div className="mt-4 p-3 rounded-lg text-sm bg-red-50 text-red-700">{error}</div>}
+      </div>
+
+      {/* Chart */}
+      <div className="bg-white rounded-lg shadow-md p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-gray-800">Price Chart</h3>
+          <div className="flex gap-1">
+            {RESOLUTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setResolution(option.value)}
+                className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                  resolution === option.value ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {chartError ? (
+          <div className="h-64 flex items-center justify-center text-sm text-gray-500">{chartError}</div>
+        ) : (
+          <div className={isChartLoading ? 'opacity-50' : ''}>
+            <CandlestickChart
+              candles={candles}
+              executions={detail.executions}
+              orderLevels={detail.orderLevels}
+              intraday={isIntraday}
+            />
+          </div>
+        )}
+        {detail.orderLevels.length > 0 && (
+          <div className="flex flex-wrap gap-3 mt-3 text-xs text-gray-600">
+            {detail.orderLevels.map(level => (
+              <span key={`${level.orderId}-${level.kind}`}>
+                {level.kind === 'STOP' ? '🛑' : level.kind === 'TARGET' ? '🎯' : level.kind === 'TRAILING' ? '〰️' : '📌'}{' '}
+                {level.kind.toLowerCase()} {level.side.toLowerCase()} {level.quantity} @ ${level.price.toFixed(2)}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Key statistics */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="font-semibold text-gray-800 mb-3">Key Statistics</h3>
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+            {quote && (
+              <>
+                <dt className="text-gray-500">Day Range</dt>
+                <dd className="text-right text-gray-900">${quote.dayLow.toFixed(2)} – ${quote.dayHigh.toFixed(2)}</dd>
+                <dt className="text-gray-500">Open / Prev. Close</dt>
+                <dd className="text-right text-gray-900">${quote.open.toFixed(2)} / ${quote.previousClose.toFixed(2)}</dd>
+              </>
+            )}
+            <dt className="text-gray-500">52-Week Range</dt>
+            <dd className="text-right text-gray-900">
+              {fundamentals.week52Low !== null && fundamentals.week52High !== null
+                ? `$${fundamentals.week52Low.toFixed(2)} – $${fundamentals.week52High.toFixed(2)}`
+                : '—'}
+            </dd>
+            <dt className="text-gray-500">Market Cap</dt>
+            <dd className="text-right text-gray-900">{formatMarketCap(profile.marketCap)}</dd>
+            <dt className="text-gray-500">P/E (TTM)</dt>
+            <dd className="text-right text-gray-900">{formatNumber(fundamentals.peRatio, 1)}</dd>
+            <dt className="text-gray-500">P/B · P/S</dt>
+            <dd className="text-right text-gray-900">{formatNumber(fundamentals.pbRatio)} · {formatNumber(fundamentals.psRatio)}</dd>
+            <dt className="text-gray-500">EPS (TTM)</dt>
+            <dd className="text-right text-gray-900">{fundamentals.eps === null ? '—' : `$${fundamentals.eps.toFixed(2)}`}</dd>
+            <dt className="text-gray-500">Beta</dt>
+            <dd className="text-right text-gray-900">{formatNumber(fundamentals.beta)}</dd>
+            <dt className="text-gray-500">Dividend Yield</dt>
+            <dd className="text-right text-gray-900">{formatNumber(fundamentals.dividendYield, 2, '%')}</dd>
+          </dl>
+        </div>
+
+        {/* Latest AI recommendation */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="font-semibold text-gray-800 mb-3">🤖 Latest AI Recommendation</h3>
+          {recommendation ? (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className={`px-3 py-1 rounded-full text-sm font-medium ${getActionColor(recommendation.action)}`}>
+                  {recommendation.action}
+                </span>
+                <span className="text-sm text-gray-600">{recommendation.confidence}% confidence</span>
+              </div>
+              <p className="text-sm text-gray-700 mb-2">{recommendation.reasoning}</p>
+              <p className="text-xs text-gray-500">
+                Target ${recommendation.targetPrice.toFixed(2)} · {recommendation.riskLevel} risk · {recommendation.timeframe.toLowerCase()} term
+                · {new Date(recommendation.generatedAt).toLocaleString()}
+              </p>
+              {recommendation.keyFactors.length > 0 && (
+                <ul className="mt-2 text-xs text-gray-600 list-disc list-inside">
+                  {recommendation.keyFactors.slice(0, 5).map(factor => <li key={factor}>{factor}</li>)}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No recent recommendation for {detail.symbol}. Run an analysis to get one.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Our executions */}
+      {detail.executions.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h3 className="font-semibold text-gray-800 mb-3">Your Trades</h3>
+          <div className="space-y-2">
+            {detail.executions.slice(-10).reverse().map(execution => (
+              <div key={execution.transactionId} className="flex justify-between text-sm">
+                <span className={execution.side === 'BUY' ? 'text-green-600' : 'text-red-600'}>
+                  {execution.side} {execution.quantity} @ ${execution.price.toFixed(2)}
+                </span>
+                <span className="text-gray-500">{new Date(execution.time * 1000).toLocaleDateString()}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* News */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="font-semibold text-gray-800 mb-3">📰 Recent News</h3>
+        {detail.news.length === 0 ? (
+          <p className="text-sm text-gray-500">No news in the last week.</p>
+        ) : (
+          <div className="space-y-3">
+            {detail.news.map(item => (
+              <a
+                key={item.url}
+                href={item.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block border-b border-gray-100 pb-3 last:border-0 hover:bg-gray-50 rounded"
+              >
+                <div className="text-sm font-medium text-gray-900">{item.headline}</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {item.source} · {new Date(item.datetime * 1000).toLocaleString()}
+                </div>
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
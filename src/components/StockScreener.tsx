@@ -0,0 +1,564 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import type { AIRecommendation } from '@/services/aiAnalyzer';
+import type { Watchlist } from '@/types/watchlists';
+import type {
+  SavedScreen,
+  ScreenCriteria,
+  ScreenerFilters,
+  ScreenerMetric,
+  ScreenerResult,
+  ScreenerRow,
+  ScreenerSortKey,
+  SortDirection
+} from '@/types/screener';
+
+interface MetricColumn {
+  key: ScreenerMetric;
+  label: string;
+  hint: string;
+  format: (value: number) => string;
+}
+
+const METRICS: MetricColumn[] = [
+  { key: 'price', label: 'Price', hint: '$', format: value => `$${value.toFixed(2)}` },
+  { key: 'changePercent', label: 'Change', hint: '%', format: value => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%` },
+  { key: 'volume', label: 'Volume', hint: 'shares', format: value => value.toLocaleString() },
+  { key: 'volumeRatio', label: 'Rel. Volume', hint: 'x 20-day avg', format: value => `${value.toFixed(2)}x` },
+  { key: 'marketCap', label: 'Market Cap', hint: '$M', format: value => value >= 1000 ? `$${(value / 1000).toFixed(1)}B` : `$${value.toFixed(0)}M` },
+  { key: 'peRatio', label: 'P/E', hint: 'TTM', format: value => value.toFixed(1) },
+  { key: 'pbRatio', label: 'P/B', hint: 'annual', format: value => value.toFixed(2) },
+  { key: 'beta', label: 'Beta', hint: '', format: value => value.toFixed(2) },
+  { key: 'week52Position', label: '52W Position', hint: '0 = low, 100 = high', format: value => `${value.toFixed(0)}%` },
+  { key: 'rsi', label: 'RSI', hint: '14-day', format: value => value.toFixed(1) },
+  { key: 'priceVsSma50', label: 'vs SMA50', hint: '%', format: value => `${value >= 0 ? '+' : ''}${value.toFixed(1)}%` }
+];
+
+type FilterInputs = Partial<Record<ScreenerMetric, { min: string; max: string }>>;
+
+const toFilters = (inputs: FilterInputs): ScreenerFilters => {
+  const filters: ScreenerFilters = {};
+  for (const [key, range] of Object.entries(inputs) as Array<[ScreenerMetric, { min: string; max: string }]>) {
+    const min = range.min.trim() === '' ? undefined : parseFloat(range.min);
+    const max = range.max.trim() === '' ? undefined : parseFloat(range.max);
+    if ((min !== undefined && !isNaN(min)) || (max !== undefined && !isNaN(max))) {
+      filters[key] = {
+        ...(min !== undefined && !isNaN(min) && { min }),
+        ...(max !== undefined && !isNaN(max) && { max })
+      };
+    }
+  }
+  return filters;
+};
+
+const toInputs = (filters: ScreenerFilters): FilterInputs => {
+  const inputs: FilterInputs = {};
+  for (const [key, range] of Object.entries(filters) as Array<[ScreenerMetric, { min?: number; max?: number }]>) {
+    inputs[key] = { min: range.min?.toString() ?? '', max: range.max?.toString() ?? '' };
+  }
+  return inputs;
+};
+
+const getActionColor = (action: string) => {
+  switch (action) {
+    case 'BUY': return 'text-green-600 bg-green-100';
+    case 'SELL': return 'text-red-600 bg-red-100';
+    default: return 'text-yellow-600 bg-yellow-100';
+  }
+};
+
+export default function StockScreener() {
+  const [filterInputs, setFilterInputs] = useState<FilterInputs>({});
+  const [sectors, setSectors] = useState<string[]>([]);
+  const [sortBy, setSortBy] = useState<ScreenerSortKey>('marketCap');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [result, setResult] = useState<ScreenerResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [message, setMessage] = useState('');
+  const [screens, setScreens] = useState<SavedScreen[]>([]);
+  const [selectedScreenId, setSelectedScreenId] = useState<number | null>(null);
+  const [selectedSymbols, setSelectedSymbols] = useState<string[]>([]);
+  const [analysis, setAnalysis] = useState<AIRecommendation[]>([]);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [targetWatchlistId, setTargetWatchlistId] = useState<number | null>(null);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const buildCriteria = (overrides: Partial<ScreenCriteria> = {}): ScreenCriteria => ({
+    filters: toFilters(filterInputs),
+    sectors,
+    sortBy,
+    sortDirection,
+    ...overrides
+  });
+
+  const runScreen = async (criteria: ScreenCriteria = buildCriteria()) => {
+    if (retryTimer.current) clearTimeout(retryTimer.current);
+    setIsRunning(true);
+    try {
+      const response = await fetch('/api/screener', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(criteria)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run screen');
+      }
+
+      if (response.status === 202) {
+        // The universe snapshot is still loading on the server; ask again shortly
+        setMessage(data.message);
+        retryTimer.current = setTimeout(() => runScreen(criteria), 5000);
+        return;
+      }
+
+      setResult(data.data);
+      setSelectedSymbols(current => current.filter(symbol => data.data.rows.some((row: ScreenerRow) => row.symbol === symbol)));
+      setMessage('');
+    } catch (error) {
+      setMessage(error instanceof Error ? `Error: ${error.message}` : 'Error running screen');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const loadScreens = async () => {
+    try {
+      const response = await fetch('/api/screener/screens');
+      const data = await response.json();
+      if (response.ok) {
+        setScreens(data.data);
+      }
+    } catch (error) {
+      console.error('Error loading saved screens:', error);
+    }
+  };
+
+  const loadWatchlists = async () => {
+    try {
+      const response = await fetch('/api/watchlists');
+      const data = await response.json();
+      if (response.ok) {
+        setWatchlists(data.data);
+        setTargetWatchlistId(current => current ?? data.data[0]?.id ?? null);
+      }
+    } catch (error) {
+      console.error('Error loading watchlists:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadScreens();
+    loadWatchlists();
+    runScreen();
+    return () => {
+      if (retryTimer.current) clearTimeout(retryTimer.current);
+    };
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const updateFilter = (key: ScreenerMetric, bound: 'min' | 'max', value: string) => {
+    setFilterInputs(current => ({
+      ...current,
+      [key]: { min: current[key]?.min ?? '', max: current[key]?.max ?? '', [bound]: value }
+    }));
+  };
+
+  const handleSort = (key: ScreenerSortKey) => {
+    const direction: SortDirection = key === sortBy && sortDirection === 'desc' ? 'asc' : 'desc';
+    setSortBy(key);
+    setSortDirection(direction);
+    runScreen(buildCriteria({ sortBy: key, sortDirection: direction }));
+  };
+
+  const handleReset = () => {
+    setFilterInputs({});
+    setSectors([]);
+    setSelectedScreenId(null);
+    runScreen({ filters: {}, sortBy, sortDirection });
+  };
+
+  const handleLoadScreen = (screenId: number | null) => {
+    setSelectedScreenId(screenId);
+    const screen = screens.find(candidate => candidate.id === screenId);
+    if (!screen) return;
+
+    setFilterInputs(toInputs(screen.filters));
+    setSectors(screen.sectors ?? []);
+    setSortBy(screen.sortBy ?? 'marketCap');
+    setSortDirection(screen.sortDirection ?? 'desc');
+    runScreen({
+      filters: screen.filters,
+      sectors: screen.sectors,
+      sortBy: screen.sortBy,
+      sortDirection: screen.sortDirection,
+      limit: screen.limit
+    });
+  };
+
+  const handleSaveScreen = async (asNew: boolean) => {
+    const selected = screens.find(screen => screen.id === selectedScreenId);
+    const name = asNew || !selected ? prompt('Name this screen')?.trim() : selected.name;
+    if (!name) return;
+
+    try {
+      const response = await fetch(
+        asNew || !selected ? '/api/screener/screens' : `/api/screener/screens/${selected.id}`,
+        {
+          method: asNew || !selected ? 'POST' : 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name, ...buildCriteria() })
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save screen');
+      }
+      await loadScreens();
+      setSelectedScreenId(data.data.id);
+      setMessage(`Screen "${name}" saved`);
+    } catch (error) {
+      setMessage(error instanceof Error ? `Error: ${error.message}` : 'Error saving screen');
+    }
+  };
+
+  const handleDeleteScreen = async () => {
+    const selected = screens.find(screen => screen.id === selectedScreenId);
+    if (!selected || !confirm(`Delete the screen "${selected.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/screener/screens/${selected.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to delete screen');
+      }
+      setSelectedScreenId(null);
+      await loadScreens();
+    } catch (error) {
+      setMessage(error instanceof Error ? `Error: ${error.message}` : 'Error deleting screen');
+    }
+  };
+
+  const toggleSymbol = (symbol: string) => {
+    setSelectedSymbols(current => current.includes(symbol)
+      ? current.filter(candidate => candidate !== symbol)
+      : [...current, symbol]);
+  };
+
+  const handleAnalyze = async () => {
+    if (selectedSymbols.length === 0) return;
+
+    setIsAnalyzing(true);
+    try {
+      const response = await fetch('/api/screener/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ symbols: selectedSymbols })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to analyze symbols');
+      }
+      setAnalysis(data.data);
+    } catch (error) {
+      setMessage(error instanceof Error ? `Error: ${error.message}` : 'Error analyzing symbols');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleAddToWatchlist = async () => {
+    if (selectedSymbols.length === 0) return;
+
+    try {
+      let watchlistId = targetWatchlistId;
+      if (watchlistId === null) {
+        // First use: start a default list rather than sending the user elsewhere to create one
+        const response = await fetch('/api/watchlists', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: 'My Watchlist' })
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to create watchlist');
+        }
+        watchlistId = data.data.id as number;
+        setTargetWatchlistId(watchlistId);
+        await loadWatchlists();
+      }
+
+      let added = 0;
+      for (const symbol of selectedSymbols) {
+        const response = await fetch(`/api/watchlists/${watchlistId}/items`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ symbol })
+        });
+        // 409 means the symbol is already on the list, which is fine here
+        if (response.ok) {
+          added++;
+        } else if (response.status !== 409) {
+          throw new Error((await response.json()).error || `Failed to add ${symbol}`);
+        }
+      }
+
+      const listName = watchlists.find(list => list.id === watchlistId)?.name ?? 'My Watchlist';
+      setMessage(`Added ${added} symbol(s) to "${listName}"`);
+    } catch (error) {
+      setMessage(error instanceof Error ? `Error: ${error.message}` : 'Error adding to watchlist');
+    }
+  };
+
+  const sortIndicator = (key: ScreenerSortKey) => key === sortBy ? (sortDirection === 'desc' ? ' ▼' : ' ▲') : '';
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Criteria */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+          <h2 className="text-xl font-bold text-gray-800">🔎 Screen Criteria</h2>
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={selectedScreenId ?? ''}
+              onChange={(e) => handleLoadScreen(e.target.value ? parseInt(e.target.value) : null)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Saved screens…</option>
+              {screens.map(screen => (
+                <option key={screen.id} value={screen.id}>{screen.name}</option>
+              ))}
+            </select>
+            {selectedScreenId !== null && (
+              <>
+                <button
+                  onClick={() => handleSaveScreen(false)}
+                  className="bg-blue-500 text-white px-3 py-2 rounded-lg hover:bg-blue-600 transition-colors text-sm"
+                >
+                  Update
+                </button>
+                <button
+                  onClick={handleDeleteScreen}
+                  className="bg-red-500 text-white px-3 py-2 rounded-lg hover:bg-red-600 transition-colors text-sm"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => handleSaveScreen(true)}
+              className="bg-gray-600 text-white px-3 py-2 rounded-lg hover:bg-gray-700 transition-colors text-sm"
+            >
+              Save As…
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 mb-4">
+          {METRICS.map(metric => (
+            <div key={metric.key}>
+              <label className="block text-xs text-gray-600 mb-1">
+                {metric.label}{metric.hint && <span className="text-gray-400"> ({metric.hint})</span>}
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  value={filterInputs[metric.key]?.min ?? ''}
+                  onChange={(e) => updateFilter(metric.key, 'min', e.target.value)}
+                  placeholder="Min"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <input
+                  type="number"
+                  value={filterInputs[metric.key]?.max ?? ''}
+                  onChange={(e) => updateFilter(metric.key, 'max', e.target.value)}
+                  placeholder="Max"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {result && result.sectors.length > 0 && (
+          <div className="mb-4">
+            <label className="block text-xs text-gray-600 mb-1">Sectors (none selected = all)</label>
+            <div className="flex flex-wrap gap-2">
+              {result.sectors.map(sector => (
+                <button
+                  key={sector}
+                  onClick={() => setSectors(current => current.includes(sector)
+                    ? current.filter(candidate => candidate !== sector)
+                    : [...current, sector])}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    sectors.includes(sector)
+                      ? 'bg-blue-500 text-white border-blue-500'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {sector}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => runScreen()}
+            disabled={isRunning}
+            className="flex-1 bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            {isRunning ? 'Screening…' : 'Run Screen'}
+          </button>
+          <button
+            onClick={handleReset}
+            className="bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+
+        {message && (
+          <div className={`mt-4 p-3 rounded-lg text-sm ${message.startsWith('Error') ? 'bg-red-50 text-red-700' : 'bg-blue-50 text-blue-700'}`}>
+            {message}
+          </div>
+        )}
+      </div>
+
+      {/* Results */}
+      {result && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-xl font-bold text-gray-800">Results</h2>
+              <p className="text-xs text-gray-500">
+                {result.matched} of {result.universeSize} symbols match · data from {new Date(result.builtAt).toLocaleTimeString()}
+                {result.failedSymbols.length > 0 && ` · ${result.failedSymbols.length} without data`}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {watchlists.length > 1 && (
+                <select
+                  value={targetWatchlistId ?? ''}
+                  onChange={(e) => setTargetWatchlistId(parseInt(e.target.value))}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {watchlists.map(list => (
+                    <option key={list.id} value={list.id}>{list.name}</option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={handleAddToWatchlist}
+                disabled={selectedSymbols.length === 0}
+                className="bg-yellow-500 text-white px-4 py-2 rounded-lg hover:bg-yellow-600 transition-colors text-sm disabled:opacity-50"
+              >
+                ⭐ Add to Watchlist
+              </button>
+              <button
+                onClick={handleAnalyze}
+                disabled={selectedSymbols.length === 0 || selectedSymbols.length > 10 || isAnalyzing}
+                className="bg-purple-500 text-white px-4 py-2 rounded-lg hover:bg-purple-600 transition-colors text-sm disabled:opacity-50"
+              >
+                {isAnalyzing ? 'Analyzing…' : `🤖 Analyze Selected (${selectedSymbols.length}/10)`}
+              </button>
+            </div>
+          </div>
+
+          {result.rows.length === 0 ? (
+            <p className="text-sm text-gray-500">No symbols match these criteria.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-2"></th>
+                    <th className="py-2 pr-3 cursor-pointer whitespace-nowrap" onClick={() => handleSort('symbol')}>
+                      Symbol{sortIndicator('symbol')}
+                    </th>
+                    {METRICS.map(metric => (
+                      <th
+                        key={metric.key}
+                        className="py-2 pr-3 text-right cursor-pointer whitespace-nowrap"
+                        onClick={() => handleSort(metric.key)}
+                      >
+                        {metric.label}{sortIndicator(metric.key)}
+                      </th>
+                    ))}
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map(row => (
+                    <tr key={row.symbol} className="border-b border-gray-100 hover:bg-gray-50">
+                      <td className="py-2 pr-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedSymbols.includes(row.symbol)}
+                          onChange={() => toggleSymbol(row.symbol)}
+                        />
+                      </td>
+                      <td className="py-2 pr-3">
+                        <Link href={`/stock/${row.symbol}`} className="font-semibold text-gray-900 hover:text-blue-600">
+                          {row.symbol}
+                        </Link>
+                        <div className="text-xs text-gray-500 truncate max-w-[10rem]">{row.sector}</div>
+                      </td>
+                      {METRICS.map(metric => {
+                        const value = row[metric.key];
+                        const signed = metric.key === 'changePercent' || metric.key === 'priceVsSma50';
+                        return (
+                          <td
+                            key={metric.key}
+                            className={`py-2 pr-3 text-right whitespace-nowrap ${
+                              signed && value !== null ? (value >= 0 ? 'text-green-600' : 'text-red-600') : 'text-gray-700'
+                            }`}
+                          >
+                            {value === null ? '—' : metric.format(value)}
+                          </td>
+                        );
+                      })}
+                      <td className="py-2">
+                        <Link href={`/trade?symbol=${row.symbol}`} className="text-blue-600 hover:underline text-xs">
+                          Trade
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* AI Analysis */}
+      {analysis.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-bold text-gray-800 mb-4">🤖 AI Analysis</h2>
+          <div className="space-y-3">
+            {analysis.map(recommendation => (
+              <div key={recommendation.symbol} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-gray-900">{recommendation.symbol}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getActionColor(recommendation.action)}`}>
+                      {recommendation.action}
+                    </span>
+                  </div>
+                  <span className="text-sm text-gray-600">{recommendation.confidence}% confidence</span>
+                </div>
+                <p className="text-sm text-gray-700">{recommendation.reasoning}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Target ${recommendation.targetPrice.toFixed(2)} · {recommendation.riskLevel} risk · {recommendation.timeframe.toLowerCase()} term
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import type { StrategySummary } from '@/types/strategy';
+
+interface StrategyConfigFieldsProps {
+  strategy: StrategySummary;
+  config: Record<string, unknown>;
+  onChange: (config: Record<string, unknown>) => void;
+}
+
+// fastPeriod -> Fast period
+const toLabel = (key: string) => {
+  const words = key.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Parameter inputs for a strategy's config; unset fields show the strategy default
+export default function StrategyConfigFields({ strategy, config, onChange }: StrategyConfigFieldsProps) {
+  if (strategy.parameters.length === 0) return null;
+
+  const defaults = (strategy.defaultConfig ?? {}) as Record<string, unknown>;
+  const valueOf = (key: string) => config[key] ?? defaults[key];
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      {strategy.parameters.map(parameter => {
+        const value = valueOf(parameter.key);
+
+        if (parameter.type === 'boolean') {
+          return (
+            <label key={parameter.key} className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={Boolean(value)}
+                onChange={(e) => onChange({ ...config, [parameter.key]: e.target.checked })}
+              />
+              {toLabel(parameter.key)}
+            </label>
+          );
+        }
+
+        return (
+          <label key={parameter.key} className="text-xs text-gray-600">
+            {toLabel(parameter.key)}
+            {parameter.type === 'select' ? (
+              <select
+                value={String(value)}
+                onChange={(e) => onChange({ ...config, [parameter.key]: e.target.value })}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {parameter.options?.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="number"
+                min="0"
+                value={Number(value)}
+                onChange={(e) => onChange({ ...config, [parameter.key]: parseFloat(e.target.value) || 0 })}
+                className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            )}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
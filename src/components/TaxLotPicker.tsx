@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePortfolioStore } from '@/store/portfolio';
+
+interface OpenLot {
+  id: number;
+  remainingQuantity: number;
+  costBasis: number;
+  acquiredAt: string;
+}
+
+export interface LotSelection {
+  lotId: number;
+  quantity: number;
+}
+
+interface TaxLotPickerProps {
+  symbol: string;
+  currentPrice: number;
+  holdingQuantity: number; // Reloads lots whenever the position changes
+  onChange: (selections: LotSelection[] | undefined) => void;
+}
+
+export default function TaxLotPicker({ symbol, currentPrice, holdingQuantity, onChange }: TaxLotPickerProps) {
+  const [lots, setLots] = useState<OpenLot[]>([]);
+  const [method, setMethod] = useState('FIFO');
+  const [useSpecificLots, setUseSpecificLots] = useState(false);
+  const [selected, setSelected] = useState<Record<number, number>>({});
+  const portfolioId = usePortfolioStore(state => state.portfolioId);
+
+  useEffect(() => {
+    const loadLots = async () => {
+      try {
+        const response = await fetch(`/api/portfolio/lots?symbol=${encodeURIComponent(symbol)}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load tax lots');
+        }
+        setLots(result.data.lots);
+        setMethod(result.data.method);
+      } catch (error) {
+        console.error('Error loading tax lots:', error);
+        setLots([]);
+      }
+      setSelected({});
+      setUseSpecificLots(false);
+      onChange(undefined);
+    };
+
+    loadLots();
+  }, [symbol, holdingQuantity, portfolioId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const emit = (next: Record<number, number>) => {
+    setSelected(next);
+    const selections = Object.entries(next)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([lotId, quantity]) => ({ lotId: Number(lotId), quantity }));
+    onChange(selections.length > 0 ? selections : undefined);
+  };
+
+  const changeMethod = async (nextMethod: string) => {
+    try {
+      const response = await fetch('/api/portfolio/lots', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ method: nextMethod })
+      });
+      if (response.ok) {
+        setMethod(nextMethod);
+      }
+    } catch (error) {
+      console.error('Error updating lot-relief method:', error);
+    }
+  };
+
+  const toggleSpecificLots = (enabled: boolean) => {
+    setUseSpecificLots(enabled);
+    if (!enabled) emit({});
+  };
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+
+  if (lots.length === 0) return null;
+
+  return (
+    <div className="mb-4 p-3 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <span className="text-sm font-medium text-gray-700">🧾 Tax Lots</span>
+          <select
+            value={method}
+            onChange={(e) => changeMethod(e.target.value)}
+            disabled={useSpecificLots}
+            className="text-xs p-1 border border-gray-300 rounded"
+            title="Default lot-relief method for this portfolio"
+          >
+            <option value="FIFO">FIFO</option>
+            <option value="LIFO">LIFO</option>
+            <option value="HIFO">HIFO</option>
+          </select>
+        </div>
+        <label className="flex items-center text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={useSpecificLots}
+            onChange={(e) => toggleSpecificLots(e.target.checked)}
+            className="mr-2"
+          />
+          Choose lots to sell
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        {lots.map(lot => {
+          const gain = (currentPrice - lot.costBasis) * lot.remainingQuantity;
+          return (
+            <div key={lot.id} className="flex items-center justify-between text-sm">
+              <div>
+                <span className="font-medium">{lot.remainingQuantity} sh</span>
+                <span className="text-gray-600"> @ {formatCurrency(lot.costBasis)}</span>
+                <span className="text-gray-400"> · {new Date(lot.acquiredAt).toLocaleDateString()}</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className={gain >= 0 ? 'text-green-600' : 'text-red-600'}>
+                  {gain >= 0 ? '+' : ''}{formatCurrency(gain)}
+                </span>
+                {useSpecificLots && (
+                  <input
+                    type="number"
+                    value={selected[lot.id] ?? 0}
+                    onChange={(e) => {
+                      const quantity = Math.min(lot.remainingQuantity, Math.max(0, parseFloat(e.target.value) || 0));
+                      emit({ ...selected, [lot.id]: quantity });
+                    }}
+                    min="0"
+                    max={lot.remainingQuantity}
+                    className="w-20 p-1 border border-gray-300 rounded text-right"
+                  />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {useSpecificLots && (
+        <p className="text-xs text-gray-500 mt-2">
+          The sell quantity follows the shares selected across lots.
+        </p>
+      )}
+    </div>
+  );
+}
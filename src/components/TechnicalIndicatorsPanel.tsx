@@ -0,0 +1,107 @@
+'use client';
+
+import { TechnicalIndicators } from '@/types/recommendations';
+import { formatCurrency } from '@/utils/formatters';
+
+interface TechnicalIndicatorsPanelProps {
+  indicators: TechnicalIndicators;
+  currentPrice: number;
+}
+
+const getRsiLabel = (rsi: number) => {
+  if (rsi >= 70) return { text: 'Overbought', color: 'text-red-600' };
+  if (rsi <= 30) return { text: 'Oversold', color: 'text-green-600' };
+  return { text: 'Neutral', color: 'text-gray-600' };
+};
+
+export default function TechnicalIndicatorsPanel({ indicators, currentPrice }: TechnicalIndicatorsPanelProps) {
+  const { rsi, macd, movingAverages, bollingerBands, volume, support, resistance } = indicators;
+  const rsiLabel = getRsiLabel(rsi);
+
+  // Where the price sits inside the bands, 0% = lower band, 100% = upper band
+  const bandWidth = bollingerBands.upper - bollingerBands.lower;
+  const bandPosition = bandWidth > 0
+    ? Math.min(100, Math.max(0, (currentPrice - bollingerBands.lower) / bandWidth * 100))
+    : 50;
+
+  const trendClass = (average: number) => currentPrice >= average ? 'text-green-600' : 'text-red-600';
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h3 className="text-lg font-bold text-gray-900 mb-4">📐 Technical Indicators</h3>
+
+      <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+        <div>
+          <p className="text-gray-600">RSI (14)</p>
+          <p className="font-semibold">
+            {rsi.toFixed(1)} <span className={`text-xs ${rsiLabel.color}`}>{rsiLabel.text}</span>
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600">MACD (12, 26, 9)</p>
+          <p className="font-semibold">
+            {macd.macd.toFixed(2)} / {macd.signal.toFixed(2)}{' '}
+            <span className={`text-xs ${macd.histogram >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {macd.histogram >= 0 ? '+' : ''}{macd.histogram.toFixed(2)}
+            </span>
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600">SMA 20 / 50</p>
+          <p className="font-semibold">
+            <span className={trendClass(movingAverages.sma20)}>{formatCurrency(movingAverages.sma20)}</span>
+            {' / '}
+            <span className={trendClass(movingAverages.sma50)}>{formatCurrency(movingAverages.sma50)}</span>
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600">EMA 12 / 26</p>
+          <p className="font-semibold">
+            {formatCurrency(movingAverages.ema12)} / {formatCurrency(movingAverages.ema26)}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600">Volume vs 20-day avg</p>
+          <p className={`font-semibold ${volume.volumeRatio >= 1.5 ? 'text-purple-600' : ''}`}>
+            {volume.volumeRatio.toFixed(2)}x
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600">Bollinger (20, 2)</p>
+          <p className="font-semibold">
+            {formatCurrency(bollingerBands.lower)} - {formatCurrency(bollingerBands.upper)}
+          </p>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <div className="flex justify-between text-xs text-gray-500 mb-1">
+          <span>Lower band</span>
+          <span>Price within bands</span>
+          <span>Upper band</span>
+        </div>
+        <div className="relative h-2 bg-gray-200 rounded-full">
+          <div
+            className="absolute top-1/2 w-3 h-3 -mt-1.5 -ml-1.5 rounded-full bg-blue-500"
+            style={{ left: `${bandPosition}%` }}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-gray-600">Support</p>
+          <p className="font-semibold text-green-600">
+            {support.length > 0 ? support.map(level => formatCurrency(level)).join(', ') : 'None nearby'}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600">Resistance</p>
+          <p className="font-semibold text-red-600">
+            {resistance.length > 0 ? resistance.map(level => formatCurrency(level)).join(', ') : 'None nearby'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
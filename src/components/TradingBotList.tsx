@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import type { BotOverview, BotStatus, TradingBotInput } from '@/services/tradingBot';
+
+interface TradingBotListProps {
+  overview: BotOverview;
+  selectedBotId: number | null;
+  onSelect: (botId: number) => void;
+  onStart: (botId: number) => void;
+  onPause: (botId: number) => void;
+  onStop: (botId: number) => void;
+  onCreate: (input: TradingBotInput) => void;
+}
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+};
+
+const getStatusColor = (status: BotStatus['status']) => {
+  switch (status) {
+    case 'RUNNING': return 'text-green-600 bg-green-100';
+    case 'PAUSED': return 'text-yellow-600 bg-yellow-100';
+    case 'STOPPED': return 'text-gray-600 bg-gray-100';
+    case 'ERROR': return 'text-red-600 bg-red-100';
+    default: return 'text-gray-600 bg-gray-100';
+  }
+};
+
+// Combined totals, one row per bot with its own controls, and a form to add another bot
+export default function TradingBotList({
+  overview,
+  selectedBotId,
+  onSelect,
+  onStart,
+  onPause,
+  onStop,
+  onCreate,
+}: TradingBotListProps) {
+  const [name, setName] = useState('');
+  const [budget, setBudget] = useState('');
+
+  const { bots, combined } = overview;
+  const parsedBudget = parseFloat(budget);
+  const budgetValid = budget === '' || (Number.isFinite(parsedBudget) && parsedBudget > 0);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !budgetValid) return;
+
+    onCreate({ name: name.trim(), budget: budget === '' ? null : parsedBudget });
+    setName('');
+    setBudget('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Bots</h3>
+
+      {/* Combined view */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">Running</p>
+          <p className="text-lg font-semibold text-gray-900">{combined.runningBots} / {bots.length}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">Trades (success rate)</p>
+          <p className="text-lg font-semibold text-gray-900">
+            {combined.totalAutomatedTrades} ({combined.successRate.toFixed(1)}%)
+          </p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">Combined P&L</p>
+          <p className={`text-lg font-semibold ${combined.totalProfitLoss >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatCurrency(combined.totalProfitLoss)}
+          </p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <p className="text-xs text-gray-500">Today / Pending</p>
+          <p className="text-lg font-semibold text-gray-900">
+            {combined.todayTradesCount} ({formatCurrency(combined.todayTradeAmount)}) / {combined.pendingTrades}
+          </p>
+        </div>
+      </div>
+
+      {/* Bot rows */}
+      {bots.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-6">No bots yet. Create one below to get started.</p>
+      ) : (
+        <div className="space-y-3 mb-6">
+          {bots.map(bot => (
+            <div
+              key={bot.id}
+              onClick={() => onSelect(bot.id)}
+              className={`border rounded-lg p-4 cursor-pointer flex flex-col md:flex-row md:items-center md:justify-between gap-3 ${
+                bot.id === selectedBotId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{bot.name}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(bot.status.status)}`}>
+                    {bot.status.status}
+                  </span>
+                  {!bot.enabled && <span className="text-xs text-gray-400">disabled</span>}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {bot.strategyId} · {bot.budget === null ? 'Whole portfolio' : `Budget ${formatCurrency(bot.budget)}`}
+                </p>
+                {bot.allocation && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Cash {formatCurrency(bot.allocation.cash)} · Invested {formatCurrency(bot.allocation.investedValue)} ·{' '}
+                    <span className={bot.allocation.profitLoss >= 0 ? 'text-green-600' : 'text-red-600'}>
+                      P&L {formatCurrency(bot.allocation.profitLoss)}
+                    </span>
+                  </p>
+                )}
+              </div>
+
+              <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+                {bot.status.status !== 'RUNNING' && (
+                  <button
+                    onClick={() => onStart(bot.id)}
+                    className="bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded text-sm font-medium"
+                  >
+                    {bot.status.status === 'PAUSED' ? 'Resume' : 'Start'}
+                  </button>
+                )}
+                {bot.status.status === 'RUNNING' && (
+                  <button
+                    onClick={() => onPause(bot.id)}
+                    className="bg-yellow-600 hover:bg-yellow-700 text-white px-3 py-1 rounded text-sm font-medium"
+                  >
+                    Pause
+                  </button>
+                )}
+                {bot.status.status !== 'STOPPED' && (
+                  <button
+                    onClick={() => onStop(bot.id)}
+                    className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm font-medium"
+                  >
+                    Stop
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New bot */}
+      <form onSubmit={handleCreate} className="flex flex-col md:flex-row gap-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Bot name"
+          maxLength={100}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <input
+          type="number"
+          min="0"
+          value={budget}
+          onChange={(e) => setBudget(e.target.value)}
+          placeholder="Budget (blank = whole portfolio)"
+          className="md:w-64 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <button
+          type="submit"
+          disabled={!name.trim() || !budgetValid}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white px-4 py-2 rounded-lg text-sm font-medium"
+        >
+          + New Bot
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -142,7 +142,7 @@ export default function TradingInterface({ initialSymbol = '' }: TradingInterfac
         ),
       };
 
-      const recommendation = await aiService.getTradeRecommendation(data, portfolio);
+      const recommendation = await aiService.getTradeRecommendation(data, portfolio, 'TRADING_INTERFACE');
       setAiRecommendation(recommendation);
     } catch (error) {
       console.error('Error loading stock data:', error);
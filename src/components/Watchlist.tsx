@@ -0,0 +1,563 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { realTimePriceService, LivePrice } from '@/services/realTimePrice';
+import type { AIRecommendation } from '@/services/aiAnalyzer';
+import type { Watchlist as WatchlistData, WatchlistItem, WatchlistSymbolInfo } from '@/types/watchlists';
+
+interface ItemDraft {
+  notes: string;
+  tags: string;
+  alertAbove: string;
+  alertBelow: string;
+}
+
+const toDraft = (item: WatchlistItem): ItemDraft => ({
+  notes: item.notes ?? '',
+  tags: item.tags.join(', '),
+  alertAbove: item.alertAbove?.toString() ?? '',
+  alertBelow: item.alertBelow?.toString() ?? ''
+});
+
+const parseLevel = (value: string): number | null => {
+  const level = parseFloat(value);
+  return isNaN(level) || level <= 0 ? null : level;
+};
+
+// Where the price sits in its 52-week range, 0 = at the low and 100 = at the high
+const getWeek52Position = (price: number | undefined, info: WatchlistSymbolInfo | undefined): number | null => {
+  if (!price || !info?.week52High || !info.week52Low || info.week52High <= info.week52Low) return null;
+  return Math.min(100, Math.max(0, ((price - info.week52Low) / (info.week52High - info.week52Low)) * 100));
+};
+
+const getActionColor = (action: string) => {
+  switch (action) {
+    case 'BUY': return 'text-green-600 bg-green-100';
+    case 'SELL': return 'text-red-600 bg-red-100';
+    default: return 'text-yellow-600 bg-yellow-100';
+  }
+};
+
+export default function Watchlist() {
+  const [watchlists, setWatchlists] = useState<WatchlistData[]>([]);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [items, setItems] = useState<WatchlistItem[]>([]);
+  const [symbolInfo, setSymbolInfo] = useState<Record<string, WatchlistSymbolInfo>>({});
+  const [prices, setPrices] = useState<Record<string, LivePrice>>({});
+  const [newSymbol, setNewSymbol] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<ItemDraft | null>(null);
+  const [analysis, setAnalysis] = useState<Record<string, AIRecommendation>>({});
+  const [analyzing, setAnalyzing] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [message, setMessage] = useState('');
+
+  const showError = (error: unknown, fallback: string) => {
+    setMessage(error instanceof Error ? `Error: ${error.message}` : fallback);
+  };
+
+  const loadWatchlists = useCallback(async () => {
+    try {
+      const response = await fetch('/api/watchlists');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load watchlists');
+      }
+      setWatchlists(data.data);
+      setActiveId(current => data.data.some((list: WatchlistData) => list.id === current)
+        ? current
+        : data.data[0]?.id ?? null);
+    } catch (error) {
+      showError(error, 'Error loading watchlists');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const loadActiveWatchlist = useCallback(async (watchlistId: number) => {
+    try {
+      const response = await fetch(`/api/watchlists/${watchlistId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load watchlist');
+      }
+      setItems(data.data.watchlist.items);
+      setSymbolInfo(Object.fromEntries(
+        (data.data.symbols as WatchlistSymbolInfo[]).map(info => [info.symbol, info])
+      ));
+    } catch (error) {
+      showError(error, 'Error loading watchlist');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWatchlists();
+  }, [loadWatchlists]);
+
+  useEffect(() => {
+    setTagFilter(null);
+    setEditingId(null);
+    if (activeId === null) {
+      setItems([]);
+      return;
+    }
+    loadActiveWatchlist(activeId);
+  }, [activeId, loadActiveWatchlist]);
+
+  // Stream prices through the shared real-time cache while the list is on screen
+  const symbolKey = items.map(item => item.symbol).join(',');
+  useEffect(() => {
+    if (!symbolKey) return;
+    const symbols = symbolKey.split(',');
+    let cancelled = false;
+
+    const refresh = async () => {
+      const livePrices = await realTimePriceService.getLivePrices(symbols);
+      if (!cancelled) setPrices(current => ({ ...current, ...livePrices }));
+    };
+
+    refresh();
+    const interval = setInterval(refresh, realTimePriceService.getPollingInterval());
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [symbolKey]);
+
+  const handleCreateWatchlist = async () => {
+    const name = prompt('Name the new watchlist')?.trim();
+    if (!name) return;
+
+    try {
+      const response = await fetch('/api/watchlists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create watchlist');
+      }
+      await loadWatchlists();
+      setActiveId(data.data.id);
+    } catch (error) {
+      showError(error, 'Error creating watchlist');
+    }
+  };
+
+  const handleRenameWatchlist = async () => {
+    const active = watchlists.find(list => list.id === activeId);
+    const name = active && prompt('Rename watchlist', active.name)?.trim();
+    if (!active || !name) return;
+
+    try {
+      const response = await fetch(`/api/watchlists/${active.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to rename watchlist');
+      }
+      await loadWatchlists();
+    } catch (error) {
+      showError(error, 'Error renaming watchlist');
+    }
+  };
+
+  const handleDeleteWatchlist = async () => {
+    const active = watchlists.find(list => list.id === activeId);
+    if (!active || !confirm(`Delete the watchlist "${active.name}" and its ${active.items.length} symbol(s)?`)) return;
+
+    try {
+      const response = await fetch(`/api/watchlists/${active.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to delete watchlist');
+      }
+      await loadWatchlists();
+    } catch (error) {
+      showError(error, 'Error deleting watchlist');
+    }
+  };
+
+  const handleAddSymbol = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const symbol = newSymbol.trim().toUpperCase();
+    if (!symbol || activeId === null) return;
+
+    try {
+      const response = await fetch(`/api/watchlists/${activeId}/items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ symbol })
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to add symbol');
+      }
+      setNewSymbol('');
+      setMessage('');
+      await loadActiveWatchlist(activeId);
+    } catch (error) {
+      showError(error, 'Error adding symbol');
+    }
+  };
+
+  const handleRemoveSymbol = async (item: WatchlistItem) => {
+    if (!confirm(`Remove ${item.symbol} from this watchlist?`)) return;
+
+    try {
+      const response = await fetch(`/api/watchlists/${item.watchlistId}/items/${item.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error((await response.json()).error || 'Failed to remove symbol');
+      }
+      setItems(current => current.filter(candidate => candidate.id !== item.id));
+    } catch (error) {
+      showError(error, 'Error removing symbol');
+    }
+  };
+
+  const startEditing = (item: WatchlistItem) => {
+    setEditingId(item.id);
+    setDraft(toDraft(item));
+  };
+
+  const handleSaveItem = async (item: WatchlistItem) => {
+    if (!draft) return;
+
+    try {
+      const response = await fetch(`/api/watchlists/${item.watchlistId}/items/${item.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          notes: draft.notes.trim() || null,
+          tags: draft.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+          alertAbove: parseLevel(draft.alertAbove),
+          alertBelow: parseLevel(draft.alertBelow)
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save symbol');
+      }
+      setItems(current => current.map(candidate => candidate.id === item.id ? data.data : candidate));
+      setEditingId(null);
+      setMessage('');
+    } catch (error) {
+      showError(error, 'Error saving symbol');
+    }
+  };
+
+  // Alert shortcuts fill the draft levels relative to the live price or the 52-week range
+  const applyShortcut = (item: WatchlistItem, shortcut: 'up5' | 'down5' | 'high52' | 'low52') => {
+    const price = prices[item.symbol]?.currentPrice;
+    const info = symbolInfo[item.symbol];
+    setDraft(current => {
+      if (!current) return current;
+      switch (shortcut) {
+        case 'up5': return price ? { ...current, alertAbove: (price * 1.05).toFixed(2) } : current;
+        case 'down5': return price ? { ...current, alertBelow: (price * 0.95).toFixed(2) } : current;
+        case 'high52': return info?.week52High ? { ...current, alertAbove: info.week52High.toFixed(2) } : current;
+        case 'low52': return info?.week52Low ? { ...current, alertBelow: info.week52Low.toFixed(2) } : current;
+      }
+    });
+  };
+
+  const handleAnalyze = async (symbol: string) => {
+    setAnalyzing(symbol);
+    try {
+      const response = await fetch('/api/watchlists/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ symbol })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to analyze symbol');
+      }
+      setAnalysis(current => ({ ...current, [symbol]: data.data }));
+    } catch (error) {
+      showError(error, 'Error analyzing symbol');
+    } finally {
+      setAnalyzing(null);
+    }
+  };
+
+  const allTags = [...new Set(items.flatMap(item => item.tags))].sort();
+  const visibleItems = tagFilter ? items.filter(item => item.tags.includes(tagFilter)) : items;
+
+  if (isLoading) {
+    return (
+      <div className="p-4">
+        <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">Loading watchlists…</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+          <div className="flex items-center gap-2">
+            <h2 className="text-xl font-bold text-gray-800">⭐ Watchlist</h2>
+            {watchlists.length > 0 && (
+              <select
+                value={activeId ?? ''}
+                onChange={(e) => setActiveId(parseInt(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {watchlists.map(list => (
+                  <option key={list.id} value={list.id}>{list.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {activeId !== null && (
+              <>
+                <button
+                  onClick={handleRenameWatchlist}
+                  className="bg-gray-100 text-gray-800 px-3 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={handleDeleteWatchlist}
+                  className="bg-red-500 text-white px-3 py-2 rounded-lg hover:bg-red-600 transition-colors text-sm"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+            <button
+              onClick={handleCreateWatchlist}
+              className="bg-blue-500 text-white px-3 py-2 rounded-lg hover:bg-blue-600 transition-colors text-sm"
+            >
+              New List
+            </button>
+          </div>
+        </div>
+
+        {activeId === null ? (
+          <p className="text-sm text-gray-500">Create a watchlist to follow symbols without re-searching them.</p>
+        ) : (
+          <>
+            <form onSubmit={handleAddSymbol} className="flex gap-2 mb-4">
+              <input
+                type="text"
+                value={newSymbol}
+                onChange={(e) => setNewSymbol(e.target.value.toUpperCase())}
+                placeholder="Add symbol, e.g. AAPL"
+                maxLength={10}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!newSymbol.trim()}
+                className="bg-green-500 text-white px-4 py-2 rounded-lg hover:bg-green-600 transition-colors text-sm disabled:opacity-50"
+              >
+                Add
+              </button>
+            </form>
+
+            {allTags.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                {allTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => setTagFilter(current => current === tag ? null : tag)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                      tagFilter === tag
+                        ? 'bg-blue-500 text-white border-blue-500'
+                        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {visibleItems.length === 0 ? (
+              <p className="text-sm text-gray-500">No symbols on this watchlist yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {visibleItems.map(item => {
+                  const livePrice = prices[item.symbol];
+                  const info = symbolInfo[item.symbol];
+                  const position = getWeek52Position(livePrice?.currentPrice, info);
+                  const recommendation = analysis[item.symbol];
+                  const isEditing = editingId === item.id && draft;
+
+                  return (
+                    <div key={item.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <Link href={`/stock/${item.symbol}`} className="font-semibold text-gray-900 hover:text-blue-600">
+                              {item.symbol}
+                            </Link>
+                            {item.tags.map(tag => (
+                              <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">#{tag}</span>
+                            ))}
+                          </div>
+                          <div className="text-xs text-gray-500 truncate">{info?.name ?? item.symbol}</div>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-semibold text-gray-900">
+                            {livePrice ? `$${livePrice.currentPrice.toFixed(2)}` : '—'}
+                          </div>
+                          {livePrice && (
+                            <div className={`text-xs ${livePrice.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {livePrice.change >= 0 ? '+' : ''}{livePrice.change.toFixed(2)} ({livePrice.changePercent >= 0 ? '+' : ''}{livePrice.changePercent.toFixed(2)}%)
+                            </div>
+                          )}
+                        </div>
+                      </div>
+
+                      {position !== null && info && (
+                        <div className="mt-3">
+                          <div className="flex justify-between text-xs text-gray-500 mb-1">
+                            <span>52W low ${info.week52Low?.toFixed(2)}</span>
+                            <span>{position.toFixed(0)}% of range</span>
+                            <span>52W high ${info.week52High?.toFixed(2)}</span>
+                          </div>
+                          <div className="relative h-1.5 bg-gray-200 rounded-full">
+                            <div
+                              className="absolute top-1/2 w-3 h-3 -mt-1.5 -ml-1.5 rounded-full bg-blue-500"
+                              style={{ left: `${position}%` }}
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {!isEditing && (item.notes || item.alertAbove !== null || item.alertBelow !== null) && (
+                        <div className="mt-3 text-xs text-gray-600 space-y-1">
+                          {item.notes && <p className="whitespace-pre-line">{item.notes}</p>}
+                          {(item.alertAbove !== null || item.alertBelow !== null) && (
+                            <p>
+                              🔔 Alert
+                              {item.alertAbove !== null && ` above $${item.alertAbove.toFixed(2)}`}
+                              {item.alertAbove !== null && item.alertBelow !== null && ' /'}
+                              {item.alertBelow !== null && ` below $${item.alertBelow.toFixed(2)}`}
+                            </p>
+                          )}
+                        </div>
+                      )}
+
+                      {isEditing && (
+                        <div className="mt-3 space-y-2">
+                          <textarea
+                            value={draft.notes}
+                            onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                            placeholder="Notes"
+                            rows={2}
+                            maxLength={1000}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                          <input
+                            type="text"
+                            value={draft.tags}
+                            onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                            placeholder="Tags, comma separated"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                          <div className="grid grid-cols-2 gap-2">
+                            <div>
+                              <input
+                                type="number"
+                                step="0.01"
+                                value={draft.alertAbove}
+                                onChange={(e) => setDraft({ ...draft, alertAbove: e.target.value })}
+                                placeholder="Alert above $"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                              <div className="flex gap-1 mt-1">
+                                <button onClick={() => applyShortcut(item, 'up5')} className="text-xs text-blue-600 hover:underline">+5%</button>
+                                <span className="text-xs text-gray-400">·</span>
+                                <button onClick={() => applyShortcut(item, 'high52')} className="text-xs text-blue-600 hover:underline">52W high</button>
+                              </div>
+                            </div>
+                            <div>
+                              <input
+                                type="number"
+                                step="0.01"
+                                value={draft.alertBelow}
+                                onChange={(e) => setDraft({ ...draft, alertBelow: e.target.value })}
+                                placeholder="Alert below $"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                              <div className="flex gap-1 mt-1">
+                                <button onClick={() => applyShortcut(item, 'down5')} className="text-xs text-blue-600 hover:underline">-5%</button>
+                                <span className="text-xs text-gray-400">·</span>
+                                <button onClick={() => applyShortcut(item, 'low52')} className="text-xs text-blue-600 hover:underline">52W low</button>
+                              </div>
+                            </div>
+                          </div>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleSaveItem(item)}
+                              className="bg-blue-500 text-white px-3 py-1.5 rounded-lg hover:bg-blue-600 transition-colors text-sm"
+                            >
+                              Save
+                            </button>
+                            <button
+                              onClick={() => setEditingId(null)}
+                              className="bg-gray-100 text-gray-800 px-3 py-1.5 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      )}
+
+                      {recommendation && (
+                        <div className="mt-3 bg-purple-50 rounded-lg p-3">
+                          <div className="flex items-center justify-between mb-1">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getActionColor(recommendation.action)}`}>
+                              {recommendation.action}
+                            </span>
+                            <span className="text-xs text-gray-600">
+                              {recommendation.confidence}% confidence · target ${recommendation.targetPrice.toFixed(2)}
+                            </span>
+                          </div>
+                          <p className="text-xs text-gray-700">{recommendation.reasoning}</p>
+                        </div>
+                      )}
+
+                      <div className="mt-3 flex flex-wrap gap-3 text-xs">
+                        <button
+                          onClick={() => handleAnalyze(item.symbol)}
+                          disabled={analyzing !== null}
+                          className="text-purple-600 hover:underline disabled:opacity-50"
+                        >
+                          {analyzing === item.symbol ? 'Analyzing…' : '🤖 AI Analysis'}
+                        </button>
+                        <Link href={`/trade?symbol=${item.symbol}`} className="text-blue-600 hover:underline">
+                          💰 Trade
+                        </Link>
+                        <button onClick={() => startEditing(item)} className="text-gray-600 hover:underline">
+                          ✏️ Notes, tags &amp; alerts
+                        </button>
+                        <button onClick={() => handleRemoveSymbol(item)} className="text-red-600 hover:underline">
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+
+        {message && (
+          <div className="mt-4 p-3 rounded-lg text-sm bg-red-50 text-red-700">
+            {message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import {
+  createChart,
+  createSeriesMarkers,
+  CandlestickSeries,
+  HistogramSeries,
+  ColorType,
+  LineStyle,
+  IChartApi,
+  IPriceLine,
+  ISeriesApi,
+  ISeriesMarkersPluginApi,
+  SeriesMarker,
+  Time,
+  UTCTimestamp
+} from 'lightweight-charts';
+import type { ChartCandle, ChartExecution, OrderLevel } from '@/types/stockDetail';
+
+interface CandlestickChartProps {
+  candles: ChartCandle[];
+  executions?: ChartExecution[];
+  orderLevels?: OrderLevel[];
+  intraday?: boolean;
+  height?: number;
+}
+
+const UP_COLOR = '#16a34a';
+const DOWN_COLOR = '#dc2626';
+
+const LEVEL_COLORS: Record<OrderLevel['kind'], string> = {
+  STOP: '#dc2626',
+  TARGET: '#16a34a',
+  TRAILING: '#f59e0b',
+  LIMIT: '#2563eb'
+};
+
+// Executions are pinned to the candle they happened in; fills before the first candle are off-chart
+const toMarkers = (candles: ChartCandle[], executions: ChartExecution[]): SeriesMarker<Time>[] => {
+  if (candles.length === 0) return [];
+
+  const markers: SeriesMarker<Time>[] = [];
+  for (const execution of executions) {
+    if (execution.time < candles[0].time) continue;
+
+    let index = candles.length - 1;
+    while (index > 0 && candles[index].time > execution.time) index--;
+
+    markers.push({
+      time: candles[index].time as UTCTimestamp,
+      position: execution.side === 'BUY' ? 'belowBar' : 'aboveBar',
+      color: execution.side === 'BUY' ? UP_COLOR : DOWN_COLOR,
+      shape: execution.side === 'BUY' ? 'arrowUp' : 'arrowDown',
+      text: `${execution.side} ${execution.quantity} @ ${execution.price.toFixed(2)}`
+    });
+  }
+  return markers.sort((a, b) => (a.time as number) - (b.time as number));
+};
+
+const CandlestickChart: React.FC<CandlestickChartProps> = ({
+  candles,
+  executions = [],
+  orderLevels = [],
+  intraday = false,
+  height = 420
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const candleSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  const markersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
+  const priceLinesRef = useRef<IPriceLine[]>([]);
+
+  // Create the chart once; data effects below update it in place
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const chart = createChart(containerRef.current, {
+      autoSize: true,
+      layout: {
+        background: { type: ColorType.Solid, color: '#ffffff' },
+        textColor: '#374151'
+      },
+      grid: {
+        vertLines: { color: '#f3f4f6' },
+        horzLines: { color: '#f3f4f6' }
+      },
+      rightPriceScale: { borderColor: '#e5e7eb' },
+      timeScale: { borderColor: '#e5e7eb' }
+    });
+
+    const candleSeries = chart.addSeries(CandlestickSeries, {
+      upColor: UP_COLOR,
+      downColor: DOWN_COLOR,
+      wickUpColor: UP_COLOR,
+      wickDownColor: DOWN_COLOR,
+      borderVisible: false
+    });
+    candleSeries.priceScale().applyOptions({ scaleMargins: { top: 0.1, bottom: 0.25 } });
+
+    // Volume shares the pane on its own overlay scale, squeezed into the bottom fifth
+    const volumeSeries = chart.addSeries(HistogramSeries, {
+      priceFormat: { type: 'volume' },
+      priceScaleId: ''
+    });
+    volumeSeries.priceScale().applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
+
+    chartRef.current = chart;
+    candleSeriesRef.current = candleSeries;
+    volumeSeriesRef.current = volumeSeries;
+    markersRef.current = createSeriesMarkers(candleSeries, []);
+
+    return () => {
+      chart.remove();
+      chartRef.current = null;
+      candleSeriesRef.current = null;
+      volumeSeriesRef.current = null;
+      markersRef.current = null;
+      priceLinesRef.current = [];
+    };
+  }, []);
+
+  useEffect(() => {
+    chartRef.current?.applyOptions({ timeScale: { timeVisible: intraday, secondsVisible: false } });
+  }, [intraday]);
+
+  useEffect(() => {
+    if (!candleSeriesRef.current || !volumeSeriesRef.current) return;
+
+    candleSeriesRef.current.setData(candles.map(candle => ({
+      time: candle.time as UTCTimestamp,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close
+    })));
+    volumeSeriesRef.current.setData(candles.map(candle => ({
+      time: candle.time as UTCTimestamp,
+      value: candle.volume,
+      color: candle.close >= candle.open ? 'rgba(22, 163, 74, 0.4)' : 'rgba(220, 38, 38, 0.4)'
+    })));
+    chartRef.current?.timeScale().fitContent();
+  }, [candles]);
+
+  useEffect(() => {
+    markersRef.current?.setMarkers(toMarkers(candles, executions));
+  }, [candles, executions]);
+
+  useEffect(() => {
+    const series = candleSeriesRef.current;
+    if (!series) return;
+
+    priceLinesRef.current.forEach(line => series.removePriceLine(line));
+    priceLinesRef.current = orderLevels.map(level => series.createPriceLine({
+      price: level.price,
+      color: LEVEL_COLORS[level.kind],
+      lineWidth: 1,
+      lineStyle: level.kind === 'TRAILING' ? LineStyle.Dotted : LineStyle.Dashed,
+      axisLabelVisible: true,
+      title: `${level.kind} ${level.side} ${level.quantity}`
+    }));
+  }, [orderLevels]);
+
+  return <div ref={containerRef} style={{ height }} className="w-full" />;
+};
+
+export default CandlestickChart;
@@ -0,0 +1,72 @@
+// React hook for the persisted daily portfolio snapshot history
+import { useState, useEffect, useCallback } from 'react';
+import { PortfolioSnapshot } from '@/services/analyticsEngine';
+import { usePortfolioStore } from '@/store/portfolio';
+
+export interface UsePortfolioSnapshotsReturn {
+  snapshots: PortfolioSnapshot[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  takeSnapshot: () => Promise<void>;
+}
+
+const parseSnapshot = (snapshot: PortfolioSnapshot & { timestamp: string | Date }): PortfolioSnapshot => ({
+  ...snapshot,
+  timestamp: new Date(snapshot.timestamp)
+});
+
+/**
+ * Load daily snapshots (oldest first). Pass a changing refreshKey, e.g. the
+ * transaction count, to reload after trades.
+ */
+export const usePortfolioSnapshots = (days?: number, refreshKey?: unknown): UsePortfolioSnapshotsReturn => {
+  const [snapshots, setSnapshots] = useState<PortfolioSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const portfolioId = usePortfolioStore(state => state.portfolioId);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const query = days ? `?days=${days}` : '';
+      const response = await fetch(`/api/portfolio/snapshots${query}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load portfolio history');
+      }
+
+      setSnapshots(result.data.map(parseSnapshot));
+    } catch (err) {
+      console.error('Error loading portfolio snapshots:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load portfolio history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  const takeSnapshot = useCallback(async () => {
+    try {
+      const response = await fetch('/api/portfolio/snapshots', { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to take snapshot');
+      }
+
+      await refresh();
+    } catch (err) {
+      console.error('Error taking portfolio snapshot:', err);
+      setError(err instanceof Error ? err.message : 'Failed to take snapshot');
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey, portfolioId]);
+
+  return { snapshots, isLoading, error, refresh, takeSnapshot };
+};
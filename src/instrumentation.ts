@@ -0,0 +1,49 @@
+// Next.js instrumentation hook - starts long-running server-side services once per server process
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  if (process.env.ORDER_ENGINE_ENABLED !== 'false') {
+    const { orderEngine } = await import('@/services/orderEngine');
+    orderEngine.start();
+  }
+
+  if (process.env.PORTFOLIO_SNAPSHOTS_ENABLED !== 'false') {
+    const { portfolioSnapshotService } = await import('@/services/portfolioSnapshots');
+    portfolioSnapshotService.start();
+  }
+
+  if (process.env.TRADING_BOT_ENABLED !== 'false') {
+    const { tradingBotWorker } = await import('@/services/tradingBotWorker');
+    tradingBotWorker.start();
+  }
+
+  if (process.env.RECURRING_PLANS_ENABLED !== 'false') {
+    const { recurringPlanService } = await import('@/services/recurringPlans');
+    recurringPlanService.start();
+  }
+
+  if (process.env.REBALANCER_ENABLED !== 'false') {
+    const { rebalanceService } = await import('@/services/rebalancer');
+    rebalanceService.start();
+  }
+
+  if (process.env.SIGNAL_SCANNER_ENABLED !== 'false') {
+    const { signalScanner } = await import('@/services/signalScanner');
+    signalScanner.start();
+  }
+
+  if (process.env.ALERT_RULES_ENABLED !== 'false') {
+    const { alertRuleEngine } = await import('@/services/alertRules');
+    alertRuleEngine.start();
+  }
+
+  if (process.env.DIGESTS_ENABLED !== 'false') {
+    const { digestService } = await import('@/services/digests');
+    digestService.start();
+  }
+
+  if (process.env.RECOMMENDATION_OUTCOMES_ENABLED !== 'false') {
+    const { recommendationTracker } = await import('@/services/recommendationTracker');
+    recommendationTracker.start();
+  }
+}
@@ -1,5 +1,5 @@
 // Prisma database client singleton
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined;
@@ -9,4 +9,14 @@ export const prisma = globalForPrisma.prisma ?? new PrismaClient();
 
 if (process.env.NODE_ENV !== 'production') {
   globalForPrisma.prisma = prisma;
-}
\ No newline at end of file
+}
+
+/**
+ * Lock a portfolio row until the surrounding interactive transaction ends. Plain SELECTs take
+ * no lock under MySQL's REPEATABLE READ, so cash and holdings read-modify-writes start here:
+ * a concurrent fill, deposit or withdrawal on the same portfolio waits for this one to commit.
+ * Call it before any other read in the transaction so later reads see the latest rows.
+ */
+export async function lockPortfolio(tx: Prisma.TransactionClient, portfolioId: number): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM portfolios WHERE id = ${portfolioId} FOR UPDATE`;
+}
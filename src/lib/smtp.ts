@@ -0,0 +1,227 @@
+// Minimal SMTP client - plain text or text+HTML mail over a plain, implicit-TLS or STARTTLS connection with optional AUTH PLAIN (only once encrypted)
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+
+const SMTP_TIMEOUT_MS = 15000;
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;     // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  ignoreTls: boolean;  // Never upgrade, for local test servers with self-signed certificates
+  allowInsecureAuth: boolean; // Send credentials without TLS, for local relays only
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string; // Sent as multipart/alternative alongside the text
+}
+
+/**
+ * SMTP settings from the environment, or null when SMTP_HOST is not set
+ */
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    ignoreTls: process.env.SMTP_IGNORE_TLS === 'true',
+    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.SMTP_FROM || `stock-trader@${host}`
+  };
+}
+
+// Single-line header value, as an RFC 2047 encoded-word when it is not plain ASCII
+const encodeHeader = (value: string): string => {
+  const line = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line, 'utf8').toString('base64')}?=`;
+};
+
+// CRLF line endings and dot-stuffing, so a line holding a single "." cannot end the DATA section early
+const encodeBody = (text: string): string =>
+  text.replace(/\r?\n/g, '\r\n').split('\r\n').map(line => line.startsWith('.') ? `.${line}` : line).join('\r\n');
+
+const TEXT_PART_HEADERS = 'Content-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: 8bit';
+const HTML_PART_HEADERS = 'Content-Type: text/html; charset=utf-8\r\nContent-Transfer-Encoding: 8bit';
+
+// Content headers plus body: a single text part, or text and HTML alternatives
+const buildBody = (message: MailMessage): string => {
+  if (!message.html) {
+    return `${TEXT_PART_HEADERS}\r\n\r\n${encodeBody(message.text)}`;
+  }
+
+  const boundary = `alt-${randomUUID()}`;
+  return [
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    TEXT_PART_HEADERS,
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    HTML_PART_HEADERS,
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`
+  ].join('\r\n');
+};
+
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private failure: Error | null = null;
+  private waiting: (() => boolean) | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  async reply(expected: number[]): Promise<string[]> {
+    const lines: string[] = [];
+    // Multi-line replies use "250-" on every line but the last
+    do {
+      lines.push(await this.nextLine());
+    } while (lines[lines.length - 1].charAt(3) === '-');
+
+    const code = parseInt(lines[lines.length - 1].slice(0, 3));
+    if (!expected.includes(code)) {
+      throw new Error(`SMTP error: ${lines.join(' ')}`);
+    }
+    return lines;
+  }
+
+  async command(line: string, expected: number[]): Promise<string[]> {
+    this.socket.write(`${line}\r\n`);
+    return this.reply(expected);
+  }
+
+  async startTls(host: string): Promise<void> {
+    await this.command('STARTTLS', [220]);
+    this.socket.removeAllListeners('data');
+
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      let index: number;
+      while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+        this.lines.push(this.buffer.slice(0, index));
+        this.buffer = this.buffer.slice(index + 2);
+      }
+      this.flush();
+    });
+    socket.on('error', error => {
+      this.failure = error;
+      this.flush();
+    });
+    socket.on('close', () => {
+      this.failure = this.failure ?? new Error('SMTP connection closed');
+      this.flush();
+    });
+  }
+
+  private nextLine(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const settle = (): boolean => {
+        const line = this.lines.shift();
+        if (line !== undefined) {
+          resolve(line);
+          return true;
+        }
+        if (this.failure) {
+          reject(this.failure);
+          return true;
+        }
+        return false;
+      };
+      if (!settle()) this.waiting = settle;
+    });
+  }
+
+  private flush(): void {
+    if (this.waiting && this.waiting()) {
+      this.waiting = null;
+    }
+  }
+}
+
+const connect = (config: SmtpConfig): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+
+/**
+ * Deliver one message, as plain text or text plus HTML. Throws with the server's reply when any
+ * step is refused, and before authenticating when the connection is not encrypted (a stripped
+ * STARTTLS would otherwise expose the password) unless allowInsecureAuth is set.
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  const connection = new SmtpConnection(await connect(config));
+  const hostname = config.from.split('@')[1] || 'localhost';
+
+  try {
+    await connection.reply([220]);
+    const capabilities = await connection.command(`EHLO ${hostname}`, [250]);
+
+    let encrypted = config.secure;
+    if (!config.secure && !config.ignoreTls && capabilities.some(line => /STARTTLS/i.test(line))) {
+      await connection.startTls(config.host);
+      await connection.command(`EHLO ${hostname}`, [250]);
+      encrypted = true;
+    }
+
+    if (config.user && config.pass) {
+      if (!encrypted && !config.allowInsecureAuth) {
+        throw new Error('SMTP server did not offer TLS; refusing to send credentials (set SMTP_ALLOW_INSECURE_AUTH=true for a local relay)');
+      }
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass}`, 'utf8').toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${config.from}>`, [250]);
+    await connection.command(`RCPT TO:<${message.to}>`, [250, 251]);
+    await connection.command('DATA', [354]);
+
+    const headers = [
+      `From: ${config.from}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${randomUUID()}@${hostname}>`,
+      'MIME-Version: 1.0'
+    ];
+    await connection.command(`${headers.join('\r\n')}\r\n${buildBody(message)}\r\n.`, [250]);
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ExecutionCostSettings } from '@/types/orders';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { portfolio: { findUnique: vi.fn(), update: vi.fn() } }
+}));
+
+vi.mock('@/services/finnhub', () => ({
+  finnhubService: { getQuote: vi.fn(), getBasicFinancials: vi.fn() }
+}));
+
+import { prisma } from '@/lib/prisma';
+import { DEFAULT_EXECUTION_COST_SETTINGS, executionCostService } from '@/services/executionCosts';
+import { finnhubService } from '@/services/finnhub';
+import type { BasicFinancials, StockQuote } from '@/services/finnhub';
+
+const FREE: ExecutionCostSettings = {
+  ...DEFAULT_EXECUTION_COST_SETTINGS,
+  commissionModel: 'NONE',
+  spreadModel: 'NONE',
+  slippageModel: 'NONE'
+};
+
+const market = { high: 102, low: 98, averageDailyVolume: 100000 };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('executionCostService.calculateCosts', () => {
+  it('fills at the reference price when every model is off', () => {
+    const costs = executionCostService.calculateCosts({ side: 'BUY', quantity: 10, price: 100, market }, FREE);
+
+    expect(costs).toEqual({ referencePrice: 100, fillPrice: 100, spreadCost: 0, slippageCost: 0, commission: 0 });
+  });
+
+  it('charges half the estimated spread against the trader on either side', () => {
+    const settings = { ...FREE, spreadModel: 'QUOTE_RANGE' as const };
+
+    // 5% of a $4 range is a $0.20 spread, half of it paid per share
+    const buy = executionCostService.calculateCosts({ side: 'BUY', quantity: 10, price: 100, market }, settings);
+    const sell = executionCostService.calculateCosts({ side: 'SELL', quantity: 10, price: 100, market }, settings);
+
+    expect(buy.fillPrice).toBeCloseTo(100.1);
+    expect(sell.fillPrice).toBeCloseTo(99.9);
+    expect(buy.spreadCost).toBeCloseTo(1);
+  });
+
+  it('caps the spread in basis points and ignores a missing range', () => {
+    const settings = { ...FREE, spreadModel: 'QUOTE_RANGE' as const };
+
+    const wide = executionCostService.calculateCosts(
+      { side: 'BUY', quantity: 1, price: 100, market: { high: 120, low: 80 } },
+      settings
+    );
+    const unknown = executionCostService.calculateCosts({ side: 'BUY', quantity: 1, price: 100, market: {} }, settings);
+
+    expect(wide.fillPrice).toBeCloseTo(100.25);
+    expect(unknown.fillPrice).toBe(100);
+  });
+
+  it('scales slippage with the square root of volume participation, up to the cap', () => {
+    const settings = { ...FREE, slippageModel: 'VOLUME' as const };
+
+    // 1% of daily volume: 1 bps base + 10 bps impact
+    const typical = executionCostService.calculateCosts({ side: 'BUY', quantity: 1000, price: 100, market }, settings);
+    // 100% of daily volume would be 101 bps; capped at 100
+    const huge = executionCostService.calculateCosts({ side: 'SELL', quantity: 100000, price: 100, market }, settings);
+    const noVolume = executionCostService.calculateCosts({ side: 'BUY', quantity: 1000, price: 100, market: {} }, settings);
+
+    expect(typical.fillPrice).toBeCloseTo(100.11);
+    expect(typical.slippageCost).toBeCloseTo(110);
+    expect(huge.fillPrice).toBeCloseTo(99);
+    expect(noVolume.fillPrice).toBeCloseTo(100.01);
+  });
+
+  it('never fills past the limit price', () => {
+    const settings = { ...FREE, spreadModel: 'QUOTE_RANGE' as const, slippageModel: 'VOLUME' as const };
+
+    const buy = executionCostService.calculateCosts({ side: 'BUY', quantity: 1000, price: 100, market }, settings, 100.05);
+    const sell = executionCostService.calculateCosts({ side: 'SELL', quantity: 1000, price: 100, market }, settings, 100.5);
+
+    expect(buy.fillPrice).toBeCloseTo(100.05);
+    // The spread is charged first, the rest of the allowed move is slippage
+    expect(buy.spreadCost).toBeCloseTo(50);
+    expect(buy.slippageCost).toBeCloseTo(0);
+    // A sell limit above the price leaves no room for costs at all
+    expect(sell.fillPrice).toBe(100);
+  });
+
+  it('applies per-share and percentage commissions with a minimum', () => {
+    const perShare = executionCostService.calculateCosts(
+      { side: 'BUY', quantity: 100, price: 50, market },
+      { ...FREE, commissionModel: 'PER_SHARE', commissionPerShare: 0.005, minimumCommission: 1 }
+    );
+    const percentage = executionCostService.calculateCosts(
+      { side: 'SELL', quantity: 100, price: 50, market },
+      { ...FREE, commissionModel: 'PERCENTAGE', commissionPercent: 0.1 }
+    );
+
+    expect(perShare.commission).toBe(1);
+    expect(percentage.commission).toBe(5);
+  });
+
+  it('does not charge the minimum when commissions are off', () => {
+    const costs = executionCostService.calculateCosts(
+      { side: 'BUY', quantity: 1, price: 50, market },
+      { ...FREE, minimumCommission: 5 }
+    );
+
+    expect(costs.commission).toBe(0);
+  });
+});
+
+describe('executionCostService.estimateFill', () => {
+  it('merges stored settings over the defaults and prices from live market data', async () => {
+    vi.mocked(prisma.portfolio.findUnique).mockResolvedValue(
+      { executionCosts: { commissionModel: 'PER_SHARE', slippageModel: 'NONE' } } as never
+    );
+    vi.mocked(finnhubService.getQuote).mockResolvedValue({ c: 100, h: 102, l: 98 } as StockQuote);
+
+    const costs = await executionCostService.estimateFill(1, 'AAPL', 'BUY', 200, 100);
+
+    expect(costs.fillPrice).toBeCloseTo(100.1);
+    expect(costs.commission).toBe(1);
+    expect(finnhubService.getBasicFinancials).not.toHaveBeenCalled();
+  });
+
+  it('falls back to no spread and base slippage when market data is unavailable', async () => {
+    vi.mocked(prisma.portfolio.findUnique).mockResolvedValue({ executionCosts: null } as never);
+    vi.mocked(finnhubService.getQuote).mockRejectedValue(new Error('rate limited'));
+    vi.mocked(finnhubService.getBasicFinancials).mockRejectedValue(new Error('rate limited'));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const costs = await executionCostService.estimateFill(1, 'AAPL', 'SELL', 10, 100);
+
+    expect(costs.fillPrice).toBeCloseTo(99.99);
+    expect(costs.commission).toBe(0);
+  });
+
+  it('reads average volume from the 10-day figure in millions', async () => {
+    vi.mocked(prisma.portfolio.findUnique).mockResolvedValue(
+      { executionCosts: { spreadModel: 'NONE' } } as never
+    );
+    vi.mocked(finnhubService.getBasicFinancials).mockResolvedValue(
+      { metric: { '10DayAverageTradingVolume': 0.1 } } as unknown as BasicFinancials
+    );
+
+    const costs = await executionCostService.estimateFill(1, 'AAPL', 'BUY', 1000, 100);
+
+    expect(costs.fillPrice).toBeCloseTo(100.11);
+  });
+});
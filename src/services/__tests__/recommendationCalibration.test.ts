@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+vi.mock('@/services/indicators', () => ({ indicatorService: {} }));
+
+import {
+  applyCalibration,
+  buildReliabilityBins,
+  CalibrationSample,
+  fitCalibrationCurve,
+  summarize
+} from '@/services/recommendationCalibration';
+
+const sample = (confidence: number, correct: boolean, overrides: Partial<CalibrationSample> = {}): CalibrationSample => ({
+  confidence,
+  correct,
+  action: 'BUY',
+  returnPercent: correct ? 2 : -2,
+  provider: 'gemini',
+  sector: 'Technology',
+  ...overrides
+});
+
+// `count` samples at one confidence, the first `hits` of them correct
+const batch = (confidence: number, count: number, hits: number): CalibrationSample[] =>
+  Array.from({ length: count }, (_, index) => sample(confidence, index < hits));
+
+describe('buildReliabilityBins', () => {
+  it('returns every 10-point bucket and puts 100% in the top one', () => {
+    const bins = buildReliabilityBins([sample(100, true), sample(95, false), sample(42, true)]);
+
+    expect(bins).toHaveLength(10);
+    expect(bins[9]).toMatchObject({ minConfidence: 90, maxConfidence: 100, count: 2, averageConfidence: 97.5, hitRate: 50 });
+    expect(bins[4]).toMatchObject({ count: 1, hitRate: 100 });
+    expect(bins[0]).toMatchObject({ count: 0, averageConfidence: 0, hitRate: 0 });
+  });
+});
+
+describe('summarize', () => {
+  it('computes the hit rate, Brier score and calibration error', () => {
+    const summary = summarize([...batch(80, 4, 3), ...batch(60, 2, 1)]);
+
+    expect(summary.count).toBe(6);
+    expect(summary.hitRate).toBeCloseTo(400 / 6);
+    expect(summary.averageConfidence).toBeCloseTo(220 / 3);
+    // Three hits at 0.8 (0.04 each), one miss at 0.8 (0.64), one hit and one miss at 0.6 (0.16, 0.36)
+    expect(summary.brierScore).toBeCloseTo((3 * 0.04 + 0.64 + 0.16 + 0.36) / 6);
+    // |80 - 75| over four samples and |60 - 50| over two
+    expect(summary.calibrationError).toBeCloseTo((4 * 5 + 2 * 10) / 6);
+  });
+
+  it('counts SELL returns in the direction of the call and leaves HOLD out of the average return', () => {
+    const summary = summarize([
+      sample(70, true, { action: 'SELL', returnPercent: -4 }),
+      sample(70, true, { action: 'BUY', returnPercent: 2 }),
+      sample(70, true, { action: 'HOLD', returnPercent: 10 })
+    ]);
+
+    expect(summary.averageReturn).toBeCloseTo(3);
+  });
+
+  it('reports nothing for an empty sample', () => {
+    expect(summarize([])).toEqual({
+      count: 0,
+      hitRate: 0,
+      averageConfidence: 0,
+      brierScore: null,
+      calibrationError: null,
+      averageReturn: null
+    });
+  });
+});
+
+describe('fitCalibrationCurve', () => {
+  it('needs enough outcomes before it fits anything', () => {
+    expect(fitCalibrationCurve(batch(70, 49, 20))).toEqual([]);
+  });
+
+  it('shrinks sparse bins towards the stated confidence', () => {
+    // 50 misses at 90%: ten pseudo-outcomes at 90% keep the calibrated value off zero
+    expect(fitCalibrationCurve(batch(90, 50, 0))).toEqual([{ raw: 90, calibrated: 15 }]);
+  });
+
+  it('pools bins so a higher stated confidence never calibrates lower', () => {
+    const curve = fitCalibrationCurve([...batch(65, 60, 42), ...batch(85, 60, 30)]);
+
+    // 65% bin shrinks to 69.3, 85% bin to 55; out of order, so both get the pooled 62.1
+    expect(curve.map(point => point.raw)).toEqual([65, 85]);
+    expect(curve[0].calibrated).toBeCloseTo((4850 / 70 + 55) / 2);
+    expect(curve[1].calibrated).toBeCloseTo(curve[0].calibrated);
+  });
+
+  it('keeps bins that are already in order', () => {
+    const curve = fitCalibrationCurve([...batch(55, 60, 30), ...batch(85, 60, 54)]);
+
+    expect(curve[0].calibrated).toBeLessThan(curve[1].calibrated);
+  });
+});
+
+describe('applyCalibration', () => {
+  const curve = [{ raw: 60, calibrated: 50 }, { raw: 80, calibrated: 70 }];
+
+  it('leaves confidence unchanged without a curve', () => {
+    expect(applyCalibration(73, [])).toBe(73);
+  });
+
+  it('interpolates between points and holds the end values outside them', () => {
+    expect(applyCalibration(70, curve)).toBeCloseTo(60);
+    expect(applyCalibration(40, curve)).toBe(50);
+    expect(applyCalibration(95, curve)).toBe(70);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PriceBar } from '@/types/strategy';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+vi.mock('@/services/indicators', () => ({ indicatorService: {} }));
+
+import { scoreOutcome } from '@/services/recommendationTracker';
+
+const bar = (date: string, close: number, high = close, low = close): PriceBar => ({
+  date,
+  open: close,
+  high,
+  low,
+  close,
+  volume: 1000
+});
+
+// Five sessions after a recommendation made at $100
+const bars: PriceBar[] = [
+  bar('2026-10-13', 101, 103, 99),
+  bar('2026-10-14', 102, 104, 100),
+  bar('2026-10-15', 99, 101, 95),
+  bar('2026-10-16', 98, 99, 97),
+  bar('2026-10-19', 104, 106, 97)
+];
+
+describe('scoreOutcome', () => {
+  it('exits at the close of the last session in the horizon', () => {
+    const outcome = scoreOutcome('BUY', 100, null, bars, 1);
+
+    expect(outcome).toMatchObject({ evaluationDate: '2026-10-13', exitPrice: 101, correct: true, targetHit: null });
+    expect(outcome.returnPercent).toBeCloseTo(1);
+    expect(scoreOutcome('BUY', 100, null, bars, 5).evaluationDate).toBe('2026-10-19');
+  });
+
+  it('scores BUY on a gain and SELL on a loss', () => {
+    expect(scoreOutcome('BUY', 100, null, bars.slice(0, 4), 5).correct).toBe(false);
+    expect(scoreOutcome('SELL', 100, null, bars.slice(0, 4), 5).correct).toBe(true);
+    expect(scoreOutcome('SELL', 100, null, bars, 5).correct).toBe(false);
+  });
+
+  it('scores HOLD inside a band that widens with the square root of the horizon', () => {
+    // A 2% move is outside the 1-session ±1% band but inside the 5-session ±2.24% band
+    const flat = [bar('2026-10-13', 102), ...bars.slice(1, 4).map(entry => ({ ...entry, close: 100 })), bar('2026-10-19', 102)];
+
+    expect(scoreOutcome('HOLD', 100, 110, flat, 1)).toMatchObject({ correct: false, targetHit: null });
+    expect(scoreOutcome('HOLD', 100, 110, flat, 5).correct).toBe(true);
+  });
+
+  it('checks targets against intraday highs for buys and lows for sells within the horizon', () => {
+    expect(scoreOutcome('BUY', 100, 104, bars, 1).targetHit).toBe(false);
+    expect(scoreOutcome('BUY', 100, 104, bars, 5).targetHit).toBe(true);
+    expect(scoreOutcome('SELL', 100, 95, bars, 5).targetHit).toBe(true);
+    expect(scoreOutcome('SELL', 100, 90, bars, 5).targetHit).toBe(false);
+  });
+
+  it('ignores targets that are missing or equal to the entry price', () => {
+    expect(scoreOutcome('BUY', 100, 0, bars, 5).targetHit).toBeNull();
+    expect(scoreOutcome('BUY', 100, 100, bars, 5).targetHit).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Prisma, TaxLot } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { taxLot: { findMany: vi.fn() } }
+}));
+
+import { prisma } from '@/lib/prisma';
+import { RelieveLotsInput, taxLotService } from '@/services/taxLots';
+
+const lot = (id: number, acquiredAt: string, quantity: number, costBasis: number): TaxLot => ({
+  id,
+  portfolioId: 1,
+  symbol: 'AAPL',
+  buyTransactionId: `buy-${id}`,
+  quantity: new Decimal(quantity),
+  remainingQuantity: new Decimal(quantity),
+  costBasis: new Decimal(costBasis),
+  acquiredAt: new Date(acquiredAt),
+  closedAt: null,
+  createdAt: new Date(acquiredAt)
+});
+
+// 30 shares in three lots: an old cheap one, a recent expensive one and a recent mid-priced one
+const openLots = (): TaxLot[] => [
+  lot(1, '2023-01-01T15:00:00Z', 10, 50),
+  lot(2, '2024-06-01T15:00:00Z', 10, 80),
+  lot(3, '2024-09-01T15:00:00Z', 10, 60)
+];
+
+let lots: TaxLot[];
+let updates: Array<{ id: number; remainingQuantity: number; closed: boolean }>;
+let disposals: Array<Record<string, unknown>>;
+
+const tx = {
+  taxLot: {
+    findMany: vi.fn(async () => lots.map(entry => ({ ...entry }))),
+    create: vi.fn(async ({ data }: { data: Partial<TaxLot> }) => ({ ...lot(99, '2000-01-01T00:00:00Z', 0, 0), ...data })),
+    update: vi.fn(async ({ where, data }: { where: { id: number }; data: { remainingQuantity: Decimal; closedAt: Date | null } }) => {
+      updates.push({ id: where.id, remainingQuantity: Number(data.remainingQuantity), closed: data.closedAt !== null });
+    })
+  },
+  lotDisposal: {
+    create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+      disposals.push(data);
+    })
+  }
+} as unknown as Prisma.TransactionClient;
+
+const sell = (overrides: Partial<RelieveLotsInput>): RelieveLotsInput => ({
+  portfolioId: 1,
+  symbol: 'AAPL',
+  transactionId: 'sell-1',
+  quantity: 15,
+  proceeds: 70,
+  holdingQuantity: 30,
+  holdingAveragePrice: 190 / 3,
+  holdingCreatedAt: new Date('2023-01-01T15:00:00Z'),
+  method: 'FIFO',
+  disposedAt: new Date('2024-10-01T15:00:00Z'),
+  ...overrides
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  lots = openLots();
+  updates = [];
+  disposals = [];
+});
+
+describe('taxLotService.relieveLots', () => {
+  it('relieves the oldest lots first under FIFO', async () => {
+    const relief = await taxLotService.relieveLots(tx, sell({ method: 'FIFO' }));
+
+    expect(relief.disposals.map(d => [d.lotId, d.quantity])).toEqual([[1, 10], [2, 5]]);
+    expect(relief.realizedPnl).toBeCloseTo(10 * 20 + 5 * -10);
+    expect(relief.disposals[0].isLongTerm).toBe(true);
+    expect(relief.disposals[1].isLongTerm).toBe(false);
+    // Lot 1 is closed, lot 2 keeps five shares
+    expect(updates).toEqual([
+      { id: 1, remainingQuantity: 0, closed: true },
+      { id: 2, remainingQuantity: 5, closed: false }
+    ]);
+    expect(relief.remainingQuantity).toBe(15);
+    expect(relief.remainingAverageCost).toBeCloseTo((5 * 80 + 10 * 60) / 15);
+    expect(disposals).toHaveLength(2);
+  });
+
+  it('relieves the newest lots first under LIFO', async () => {
+    const relief = await taxLotService.relieveLots(tx, sell({ method: 'LIFO' }));
+
+    expect(relief.disposals.map(d => [d.lotId, d.quantity])).toEqual([[3, 10], [2, 5]]);
+    expect(relief.realizedPnl).toBeCloseTo(10 * 10 + 5 * -10);
+  });
+
+  it('relieves the highest-cost lots first under HIFO', async () => {
+    const relief = await taxLotService.relieveLots(tx, sell({ method: 'HIFO' }));
+
+    expect(relief.disposals.map(d => [d.lotId, d.quantity])).toEqual([[2, 10], [3, 5]]);
+    expect(relief.realizedPnl).toBeCloseTo(10 * -10 + 5 * 10);
+    expect(relief.remainingAverageCost).toBeCloseTo((10 * 50 + 5 * 60) / 15);
+  });
+
+  it('uses specific lot selections over the method', async () => {
+    const relief = await taxLotService.relieveLots(tx, sell({
+      quantity: 4,
+      method: 'FIFO',
+      selections: [{ lotId: 3, quantity: 3 }, { lotId: 3, quantity: 1 }]
+    }));
+
+    expect(relief.disposals.map(d => [d.lotId, d.quantity])).toEqual([[3, 4]]);
+    expect(relief.realizedPnl).toBeCloseTo(40);
+  });
+
+  it('rejects selections that do not add up, name another lot or oversell one', async () => {
+    await expect(taxLotService.relieveLots(tx, sell({ quantity: 4, selections: [{ lotId: 3, quantity: 3 }] })))
+      .rejects.toThrow('Selected 3 shares for a sale of 4');
+    await expect(taxLotService.relieveLots(tx, sell({ quantity: 4, selections: [{ lotId: 42, quantity: 4 }] })))
+      .rejects.toThrow('Lot 42 is not open');
+    await expect(taxLotService.relieveLots(tx, sell({ quantity: 11, selections: [{ lotId: 1, quantity: 11 }] })))
+      .rejects.toThrow('Lot 1 has only 10 shares');
+    expect(disposals).toHaveLength(0);
+  });
+
+  it('refuses to sell more than the open lots cover', async () => {
+    await expect(taxLotService.relieveLots(tx, sell({ quantity: 31 })))
+      .rejects.toThrow('Insufficient shares');
+    expect(updates).toHaveLength(0);
+  });
+
+  it('backfills untracked shares as a lot that keeps the holding average', async () => {
+    // 35 shares averaging $60 but only 30 tracked ($1,900): the other 5 cost $40 each
+    const relief = await taxLotService.relieveLots(tx, sell({
+      quantity: 5,
+      holdingQuantity: 35,
+      holdingAveragePrice: 60,
+      holdingCreatedAt: new Date('2022-01-01T15:00:00Z')
+    }));
+
+    expect(tx.taxLot.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ quantity: new Decimal(5), costBasis: new Decimal(40) })
+    });
+    expect(relief.disposals).toHaveLength(1);
+    expect(relief.realizedPnl).toBeCloseTo(5 * 30);
+    expect(relief.remainingAverageCost).toBeCloseTo(1900 / 30);
+  });
+});
+
+describe('taxLotService.planTaxEfficientRelief', () => {
+  const now = new Date('2024-10-01T15:00:00Z');
+
+  it('sells losses first, then long-term gains, then short-term gains', async () => {
+    vi.mocked(prisma.taxLot.findMany).mockResolvedValue(openLots());
+
+    const plan = await taxLotService.planTaxEfficientRelief(1, 'aapl', 15, 70, now);
+
+    expect(plan).toEqual({
+      selections: [{ lotId: 2, quantity: 10 }, { lotId: 1, quantity: 5 }],
+      realizedPnl: 10 * -10 + 5 * 20
+    });
+  });
+
+  it('returns null when open lots do not cover the sale', async () => {
+    vi.mocked(prisma.taxLot.findMany).mockResolvedValue(openLots());
+
+    expect(await taxLotService.planTaxEfficientRelief(1, 'AAPL', 31, 70, now)).toBeNull();
+  });
+});
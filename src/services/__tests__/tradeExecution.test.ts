@@ -0,0 +1,255 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Decimal } from '@prisma/client/runtime/library';
+import type { FillCosts } from '@/types/orders';
+
+// In-memory stand-ins for the rows executeTrade reads and writes inside its transaction
+interface FakeHolding {
+  id: number;
+  quantity: Decimal;
+  averagePrice: Decimal;
+  createdAt: Date;
+}
+
+const state = vi.hoisted(() => ({
+  portfolio: null as { id: number; cashBalance: unknown; lotReliefMethod: string } | null,
+  holding: null as unknown,
+  transactions: [] as Array<Record<string, unknown>>
+}));
+
+type Mock = ReturnType<typeof vi.fn>;
+const tx = vi.hoisted(() => ({
+  portfolio: {} as Record<'findUnique' | 'updateMany' | 'update', Mock>,
+  holding: {} as Record<'findUnique' | 'create' | 'update' | 'delete', Mock>,
+  transaction: {} as Record<'create', Mock>
+}));
+
+interface CashUpdate {
+  where: { cashBalance?: { gte: Decimal } };
+  data: { cashBalance: { decrement?: Decimal; increment?: Decimal } };
+}
+
+interface RowData {
+  data: Record<string, unknown>;
+}
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { $transaction: (callback: (client: unknown) => unknown) => callback(tx) },
+  lockPortfolio: vi.fn()
+}));
+
+vi.mock('@/services/finnhub', () => ({
+  finnhubService: { getQuote: vi.fn() }
+}));
+
+vi.mock('@/services/executionCosts', () => ({
+  executionCostService: { estimateFill: vi.fn() }
+}));
+
+vi.mock('@/services/taxLots', () => ({
+  taxLotService: { openLot: vi.fn(), relieveLots: vi.fn() }
+}));
+
+import { lockPortfolio } from '@/lib/prisma';
+import { executionCostService } from '@/services/executionCosts';
+import { finnhubService } from '@/services/finnhub';
+import type { StockQuote } from '@/services/finnhub';
+import { taxLotService } from '@/services/taxLots';
+import { tradeExecutionService } from '@/services/tradeExecution';
+
+const noCosts = (price: number): FillCosts => ({
+  referencePrice: price,
+  fillPrice: price,
+  spreadCost: 0,
+  slippageCost: 0,
+  commission: 0
+});
+
+const cash = (): number => Number(state.portfolio!.cashBalance);
+const holding = (): FakeHolding | null => state.holding as FakeHolding | null;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  state.portfolio = { id: 1, cashBalance: new Decimal(1000), lotReliefMethod: 'FIFO' };
+  state.holding = null;
+  state.transactions = [];
+
+  tx.portfolio = {
+    findUnique: vi.fn(async () => state.portfolio),
+    // Honours the conditional debit the way the database would
+    updateMany: vi.fn(async ({ where, data }: CashUpdate) => {
+      if (where.cashBalance && cash() < Number(where.cashBalance.gte)) return { count: 0 };
+      state.portfolio!.cashBalance = new Decimal(cash() - Number(data.cashBalance.decrement));
+      return { count: 1 };
+    }),
+    update: vi.fn(async ({ data }: CashUpdate) => {
+      state.portfolio!.cashBalance = new Decimal(cash() + Number(data.cashBalance.increment));
+      return state.portfolio;
+    })
+  };
+  tx.holding = {
+    findUnique: vi.fn(async () => state.holding),
+    create: vi.fn(async ({ data }: RowData) => {
+      state.holding = { id: 10, createdAt: new Date('2024-01-02T15:00:00Z'), ...data };
+      return state.holding;
+    }),
+    update: vi.fn(async ({ data }: RowData) => {
+      state.holding = { ...holding(), ...data };
+      return state.holding;
+    }),
+    delete: vi.fn(async () => {
+      state.holding = null;
+    })
+  };
+  tx.transaction = {
+    create: vi.fn(async ({ data }: RowData) => {
+      state.transactions.push(data);
+      return data;
+    })
+  };
+
+  vi.mocked(executionCostService.estimateFill).mockImplementation(async (_portfolioId, _symbol, _side, _quantity, price) => noCosts(price));
+});
+
+describe('tradeExecutionService.executeTrade', () => {
+  it('debits cash, opens a holding and a tax lot on a buy', async () => {
+    vi.mocked(executionCostService.estimateFill).mockResolvedValue({ ...noCosts(100), commission: 5 });
+
+    const transaction = await tradeExecutionService.executeTrade(1, { symbol: 'aapl', type: 'BUY', quantity: 5, price: 100 });
+
+    expect(lockPortfolio).toHaveBeenCalledWith(tx, 1);
+    expect(cash()).toBe(495);
+    expect(Number(transaction.totalAmount)).toBe(505);
+    expect(transaction.symbol).toBe('AAPL');
+    // Fees are part of the cost basis
+    expect(Number(holding()!.averagePrice)).toBe(101);
+    expect(taxLotService.openLot).toHaveBeenCalledWith(tx, expect.objectContaining({ quantity: 5, costBasis: 101 }));
+  });
+
+  it('averages a buy into an existing holding', async () => {
+    state.holding = { id: 10, quantity: new Decimal(10), averagePrice: new Decimal(50), createdAt: new Date() };
+
+    await tradeExecutionService.executeTrade(1, { symbol: 'AAPL', type: 'BUY', quantity: 10, price: 70 });
+
+    expect(Number(holding()!.quantity)).toBe(20);
+    expect(Number(holding()!.averagePrice)).toBe(60);
+    expect(cash()).toBe(300);
+  });
+
+  it('rejects a buy the cash does not cover and leaves the portfolio untouched', async () => {
+    await expect(
+      tradeExecutionService.executeTrade(1, { symbol: 'AAPL', type: 'BUY', quantity: 11, price: 100 })
+    ).rejects.toThrow('Insufficient funds');
+
+    expect(cash()).toBe(1000);
+    expect(tx.holding.create).not.toHaveBeenCalled();
+    expect(state.transactions).toHaveLength(0);
+  });
+
+  it('credits net proceeds and records the realized P&L on a sell', async () => {
+    state.holding = { id: 10, quantity: new Decimal(10), averagePrice: new Decimal(80), createdAt: new Date() };
+    vi.mocked(executionCostService.estimateFill).mockResolvedValue({ ...noCosts(100), commission: 10 });
+    vi.mocked(taxLotService.relieveLots).mockResolvedValue({
+      realizedPnl: 79,
+      remainingQuantity: 6,
+      remainingAverageCost: 75,
+      disposals: []
+    });
+
+    const transaction = await tradeExecutionService.executeTrade(1, { symbol: 'AAPL', type: 'SELL', quantity: 4, price: 100 });
+
+    expect(cash()).toBe(1390);
+    expect(taxLotService.relieveLots).toHaveBeenCalledWith(tx, expect.objectContaining({ quantity: 4, proceeds: 97.5 }));
+    expect(Number(transaction.realizedPnl)).toBe(79);
+    expect(Number(holding()!.quantity)).toBe(6);
+    // The remaining average comes from the lots left open
+    expect(Number(holding()!.averagePrice)).toBe(75);
+  });
+
+  it('removes the holding when the whole position is sold', async () => {
+    state.holding = { id: 10, quantity: new Decimal(3), averagePrice: new Decimal(80), createdAt: new Date() };
+    vi.mocked(taxLotService.relieveLots).mockResolvedValue({
+      realizedPnl: 60,
+      remainingQuantity: 0,
+      remainingAverageCost: 0,
+      disposals: []
+    });
+
+    await tradeExecutionService.executeTrade(1, { symbol: 'AAPL', type: 'SELL', quantity: 3, price: 100 });
+
+    expect(tx.holding.delete).toHaveBeenCalled();
+    expect(holding()).toBeNull();
+    expect(cash()).toBe(1300);
+  });
+
+  it('rejects selling more shares than are held', async () => {
+    state.holding = { id: 10, quantity: new Decimal(2), averagePrice: new Decimal(80), createdAt: new Date() };
+
+    await expect(
+      tradeExecutionService.executeTrade(1, { symbol: 'AAPL', type: 'SELL', quantity: 3, price: 100 })
+    ).rejects.toThrow('Insufficient shares');
+
+    expect(cash()).toBe(1000);
+    expect(taxLotService.relieveLots).not.toHaveBeenCalled();
+  });
+
+  it('rejects a sell whose proceeds do not cover the minimum commission', async () => {
+    state.holding = { id: 10, quantity: new Decimal(1), averagePrice: new Decimal(4), createdAt: new Date() };
+    vi.mocked(executionCostService.estimateFill).mockResolvedValue({ ...noCosts(3), commission: 5 });
+
+    await expect(
+      tradeExecutionService.executeTrade(1, { symbol: 'PENNY', type: 'SELL', quantity: 1, price: 3 })
+    ).rejects.toThrow('Sale proceeds');
+
+    expect(cash()).toBe(1000);
+    expect(tx.portfolio.update).not.toHaveBeenCalled();
+    expect(state.transactions).toHaveLength(0);
+  });
+});
+
+describe('tradeExecutionService.verifyPrice', () => {
+  const quote = (c: number) => vi.mocked(finnhubService.getQuote).mockResolvedValue({ c } as StockQuote);
+
+  it('fills at the quote when the requested price is within tolerance', async () => {
+    quote(100);
+
+    const verification = await tradeExecutionService.verifyPrice('aapl', 101.5);
+
+    expect(verification).toMatchObject({ price: 100, requestedPrice: 101.5, quotePrice: 100, repriced: false });
+    expect(verification.deviationPercent).toBeCloseTo(1.5);
+    expect(finnhubService.getQuote).toHaveBeenCalledWith('AAPL');
+  });
+
+  it('rejects a stale price beyond the tolerance by default', async () => {
+    quote(100);
+
+    await expect(tradeExecutionService.verifyPrice('AAPL', 97)).rejects.toThrow('Price deviation');
+  });
+
+  it('re-prices instead when TRADE_PRICE_POLICY is reprice', async () => {
+    vi.stubEnv('TRADE_PRICE_POLICY', 'reprice');
+    vi.resetModules();
+    const { tradeExecutionService: repricing } = await import('@/services/tradeExecution');
+    const { finnhubService: finnhub } = await import('@/services/finnhub');
+    vi.mocked(finnhub.getQuote).mockResolvedValue({ c: 100 } as StockQuote);
+
+    const verification = await repricing.verifyPrice('AAPL', 90);
+
+    expect(verification).toMatchObject({ price: 100, repriced: true });
+    vi.unstubAllEnvs();
+  });
+
+  it('treats a zero quote or a rejected symbol as unknown', async () => {
+    quote(0);
+    await expect(tradeExecutionService.verifyPrice('ZZZZ', 10)).rejects.toThrow('Unknown symbol ZZZZ');
+
+    vi.mocked(finnhubService.getQuote).mockRejectedValue(new Error('Invalid quote data for ZZZZ'));
+    await expect(tradeExecutionService.getTradablePrice('ZZZZ')).rejects.toThrow('Unknown symbol ZZZZ');
+  });
+
+  it('reports an outage separately from an unknown symbol', async () => {
+    vi.mocked(finnhubService.getQuote).mockRejectedValue(new Error('fetch failed'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(tradeExecutionService.verifyPrice('AAPL', 100)).rejects.toThrow('Quote unavailable for AAPL');
+  });
+});
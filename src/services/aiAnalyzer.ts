@@ -2,6 +2,12 @@
 // AI analysis service for generating buy/sell recommendations
 import { finnhubService } from './finnhub';
 import { IndexStock } from './indices';
+import { formatIndicatorsForPrompt, indicatorService } from './indicators';
+import { recommendationTracker } from './recommendationTracker';
+import { TechnicalIndicators } from '@/types/recommendations';
+
+const ANALYSIS_MODEL = 'gemini-1.5-flash';
+const ANALYSIS_PROMPT_VERSION = 'analysis-v1'; // Bump when buildAnalysisPrompt changes so outcomes stay comparable
 
 export interface AIRecommendation {
   symbol: string;
@@ -64,18 +70,20 @@ class AIAnalyzerService {
       const yesterday = new Date(today);
       yesterday.setDate(yesterday.getDate() - 1);
       
-      const [quote, profile, news] = await Promise.all([
+      const [quote, profile, news, indicators] = await Promise.all([
         finnhubService.getQuote(stock.symbol),
         finnhubService.getCompanyProfile(stock.symbol),
         finnhubService.getCompanyNews(
           stock.symbol, 
           yesterday.toISOString().split('T')[0], 
           today.toISOString().split('T')[0]
-        )
-      ]) as [any, any, any]; // eslint-disable-line @typescript-eslint/no-explicit-any
+        ),
+        // Indicators are extra context; the analysis still runs without candle history
+        indicatorService.getIndicators(stock.symbol).catch(() => null)
+      ]) as [any, any, any, TechnicalIndicators | null]; // eslint-disable-line @typescript-eslint/no-explicit-any
 
       // Prepare comprehensive data for AI analysis
-      const analysisPrompt = this.buildAnalysisPrompt(stock, quote, profile, news);
+      const analysisPrompt = this.buildAnalysisPrompt(stock, quote, profile, news, indicators);
       
       // Get AI recommendation using a generic prompt
       const aiResponse = await this.generateAIResponse(analysisPrompt);
@@ -84,16 +92,43 @@ class AIAnalyzerService {
       const recommendation = this.parseAIResponse(aiResponse, stock);
       
       this.setCache(cacheKey, recommendation);
+      this.trackRecommendation(recommendation, 'gemini');
       return recommendation;
     } catch (error) {
       console.error(`Error analyzing ${stock.symbol}:`, error);
       
       // Return fallback recommendation
-      return this.getFallbackRecommendation(stock);
+      const fallback = this.getFallbackRecommendation(stock);
+      this.trackRecommendation(fallback, 'fallback');
+      return fallback;
     }
   }
 
-  private buildAnalysisPrompt(stock: IndexStock, quote: any, profile: any, news: any[]): string { // eslint-disable-line @typescript-eslint/no-explicit-any
+  // Stored for outcome tracking in the background; a storage failure never blocks the analysis
+  private trackRecommendation(recommendation: AIRecommendation, provider: 'gemini' | 'fallback'): void {
+    const isModel = provider !== 'fallback';
+    recommendationTracker.record([{
+      source: 'ANALYZER',
+      provider,
+      model: isModel ? ANALYSIS_MODEL : null,
+      promptVersion: isModel ? ANALYSIS_PROMPT_VERSION : null,
+      symbol: recommendation.symbol,
+      name: recommendation.name,
+      sector: recommendation.marketData.sector,
+      action: recommendation.action,
+      confidence: recommendation.confidence,
+      currentPrice: recommendation.currentPrice,
+      targetPrice: recommendation.targetPrice,
+      expectedReturn: recommendation.expectedReturn,
+      reasoning: recommendation.reasoning,
+      riskLevel: recommendation.riskLevel,
+      timeframe: recommendation.timeframe,
+      keyFactors: recommendation.keyFactors,
+      generatedAt: recommendation.generatedAt
+    }]).catch(error => console.warn(`Failed to record recommendation for ${recommendation.symbol}:`, error));
+  }
+
+  private buildAnalysisPrompt(stock: IndexStock, quote: any, profile: any, news: any[], indicators: TechnicalIndicators | null): string { // eslint-disable-line @typescript-eslint/no-explicit-any
     const newsHeadlines = news.slice(0, 3).map(n => n.headline).join('; ');
     
     return `
@@ -112,6 +147,9 @@ TECHNICAL DATA:
 - Low: $${quote.l || stock.price}
 - Previous Close: $${quote.pc || stock.price}
 
+INDICATORS (daily):
+${indicators ? formatIndicatorsForPrompt(indicators) : '- Not available'}
+
 RECENT NEWS: ${newsHeadlines || 'No recent news'}
 
 COMPANY INFO:
@@ -145,41 +183,36 @@ Focus on maximizing short-term profits while managing risk.
   }
 
   private parseAIResponse(aiResponse: string, stock: IndexStock): AIRecommendation {
-    try {
-      // Extract JSON from AI response
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON found in AI response');
-      
-      const parsed = JSON.parse(jsonMatch[0]);
-      
-      // Calculate volatility based on price movement
-      const volatility = Math.abs(stock.changePercent) > 5 ? 
-        Math.abs(stock.changePercent) : Math.random() * 3 + 1;
-      
-      return {
-        symbol: stock.symbol,
-        name: stock.name,
-        action: parsed.action || 'HOLD',
-        confidence: Math.min(100, Math.max(0, parsed.confidence || 50)),
-        currentPrice: stock.price,
-        targetPrice: parsed.targetPrice || stock.price,
-        expectedReturn: parsed.expectedReturn || 0,
-        reasoning: parsed.reasoning || 'AI analysis based on current market conditions',
-        riskLevel: parsed.riskLevel || 'MEDIUM',
-        timeframe: parsed.timeframe || 'SHORT',
-        keyFactors: parsed.keyFactors || ['Market momentum', 'Technical indicators'],
-        marketData: {
-          volume: stock.volume,
-          changePercent: stock.changePercent,
-          volatility,
-          sector: stock.sector || 'Unknown'
-        },
-        generatedAt: new Date().toISOString()
-      };
-    } catch (error) {
-      console.error('Error parsing AI response:', error);
-      return this.getFallbackRecommendation(stock);
-    }
+    // Extract JSON from AI response; unparseable responses throw so analyzeStock records a fallback
+    const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) throw new Error('No JSON found in AI response');
+    
+    const parsed = JSON.parse(jsonMatch[0]);
+    
+    // Calculate volatility based on price movement
+    const volatility = Math.abs(stock.changePercent) > 5 ? 
+      Math.abs(stock.changePercent) : Math.random() * 3 + 1;
+    
+    return {
+      symbol: stock.symbol,
+      name: stock.name,
+      action: parsed.action || 'HOLD',
+      confidence: Math.min(100, Math.max(0, parsed.confidence || 50)),
+      currentPrice: stock.price,
+      targetPrice: parsed.targetPrice || stock.price,
+      expectedReturn: parsed.expectedReturn || 0,
+      reasoning: parsed.reasoning || 'AI analysis based on current market conditions',
+      riskLevel: parsed.riskLevel || 'MEDIUM',
+      timeframe: parsed.timeframe || 'SHORT',
+      keyFactors: parsed.keyFactors || ['Market momentum', 'Technical indicators'],
+      marketData: {
+        volume: stock.volume,
+        changePercent: stock.changePercent,
+        volatility,
+        sector: stock.sector || 'Unknown'
+      },
+      generatedAt: new Date().toISOString()
+    };
   }
 
   private getFallbackRecommendation(stock: IndexStock): AIRecommendation {
@@ -361,7 +394,7 @@ Focus on maximizing short-term profits while managing risk.
       // Import GoogleGenerativeAI dynamically to avoid build issues
       const { GoogleGenerativeAI } = await import('@google/generative-ai');
       const genAI = new GoogleGenerativeAI(process.env.NEXT_PUBLIC_GEMINI_API_KEY || '');
-      const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+      const model = genAI.getGenerativeModel({ model: ANALYSIS_MODEL });
       
       const result = await model.generateContent(prompt);
       const response = await result.response;
@@ -372,6 +405,11 @@ Focus on maximizing short-term profits while managing risk.
     }
   }
 
+  // The last analysis of a symbol while it is still fresh; never calls an AI provider
+  getCachedAnalysis(symbol: string): AIRecommendation | null {
+    return this.getFromCache<AIRecommendation>(`analysis_${symbol}`);
+  }
+
   clearCache(): void {
     this.cache.clear();
   }
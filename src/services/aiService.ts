@@ -1,9 +1,18 @@
-import { geminiService } from './gemini';
-import { groqService } from './groq';
-import { openaiService } from './openai';
+import { geminiService, GEMINI_MODEL } from './gemini';
+import { groqService, GROQ_MODEL } from './groq';
+import { openaiService, OPENAI_MODEL } from './openai';
+import { TechnicalIndicators } from '@/types/recommendations';
+import type { RecommendationSource, TrackedRecommendationInput } from '@/types/recommendationTracking';
 
 export type AIProvider = 'gemini' | 'groq' | 'openai';
 
+const PROVIDER_MODELS: Record<AIProvider, string> = {
+  gemini: GEMINI_MODEL,
+  groq: GROQ_MODEL,
+  openai: OPENAI_MODEL
+};
+const TRADE_PROMPT_VERSION = 'trade-v1'; // Bump when a provider's getTradeRecommendation prompt changes
+
 export interface TradeRecommendation {
   recommendation: 'BUY' | 'SELL' | 'HOLD';
   confidence: number;
@@ -48,6 +57,7 @@ interface StockData {
   peRatio: number;
   beta?: number;
   industry?: string;
+  indicators?: TechnicalIndicators; // Daily technical indicators, when candle history is available
 }
 
 interface Portfolio {
@@ -138,17 +148,39 @@ class AIService {
     }
   }
 
+  // Pass a source to store the recommendation for outcome tracking; debug and comparison calls leave it out
   async getTradeRecommendation(
     stockData: StockData, 
-    portfolio: Portfolio
+    portfolio: Portfolio,
+    source?: RecommendationSource
   ): Promise<TradeRecommendation | null> {
     console.log(`🔍 Getting trade recommendation using ${this.currentProvider.toUpperCase()}`);
     try {
+      const provider = this.currentProvider;
       const service = this.getService();
       const result = await service.getTradeRecommendation(stockData, portfolio);
       
       if (result) {
-        console.log(`✅ ${this.currentProvider.toUpperCase()} recommendation: ${result.recommendation} with ${result.confidence}% confidence`);
+        console.log(`✅ ${provider.toUpperCase()} recommendation: ${result.recommendation} with ${result.confidence}% confidence`);
+
+        if (source) {
+          trackRecommendations([{
+            source,
+            provider,
+            model: PROVIDER_MODELS[provider],
+            promptVersion: TRADE_PROMPT_VERSION,
+            symbol: stockData.symbol,
+            name: stockData.name,
+            sector: stockData.industry ?? null,
+            action: result.recommendation,
+            confidence: result.confidence,
+            currentPrice: stockData.currentPrice,
+            targetPrice: result.targetPrice,
+            reasoning: result.reasoning,
+            riskLevel: result.riskLevel,
+            keyFactors: result.keyFactors
+          }]);
+        }
       }
       
       return result;
@@ -292,4 +324,29 @@ export function saveUserPreferredProvider(provider: AIProvider): void {
     localStorage.setItem('ai-provider-preference', provider);
     aiService.setProvider(provider);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Store recommendations for outcome tracking: directly on the server, through the API from the browser.
+ * Failures are only logged so tracking never gets in the way of a recommendation.
+ */
+export async function trackRecommendations(inputs: TrackedRecommendationInput[]): Promise<void> {
+  try {
+    if (typeof window === 'undefined') {
+      const { recommendationTracker } = await import('./recommendationTracker');
+      await recommendationTracker.record(inputs);
+      return;
+    }
+
+    const response = await fetch('/api/recommendations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ recommendations: inputs })
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  } catch (error) {
+    console.warn('Failed to record AI recommendations:', error);
+  }
+}
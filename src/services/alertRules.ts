@@ -0,0 +1,396 @@
+// Alert rule engine - persisted user alert rules evaluated on a server-side schedule, with trigger history
+import { AlertEvent as EventRecord, AlertRule as RuleRecord } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '@/lib/prisma';
+import { AIRecommendation } from '@/services/aiAnalyzer';
+import { finnhubService } from '@/services/finnhub';
+import { indicatorService } from '@/services/indicators';
+import { getAppUrl, notificationService } from '@/services/notifications';
+import { serverCacheService } from '@/services/serverCache';
+import { signalScanner } from '@/services/signalScanner';
+import { stockDetailService } from '@/services/stockDetail';
+import { isMarketOpen } from '@/utils/marketHours';
+import { validateInput, alertRuleSchema } from '@/utils/validation';
+import type { AlertConfig, AlertConfigInput, TriggeredAlert } from '@/types/recommendations';
+
+const DEFAULT_INTERVAL_MS = 60000; // Evaluate rules every minute
+const DEFAULT_COOLDOWN_MINUTES = 60;
+const DEFAULT_HISTORY_LIMIT = 50;
+const MARKET_RULE_TYPES: AlertConfig['type'][] = ['PRICE', 'VOLUME']; // Quotes only move during the session
+
+interface RuleMatch {
+  symbol: string;
+  value: number;
+  message: string;
+}
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+const toRule = (record: RuleRecord): AlertConfig => ({
+  id: record.id,
+  type: record.type,
+  ...(record.symbol ? { symbol: record.symbol } : {}),
+  condition: record.condition,
+  threshold: Number(record.threshold),
+  isActive: record.isActive,
+  notificationMethod: record.notificationMethod,
+  recurring: record.recurring,
+  cooldownMinutes: record.cooldownMinutes,
+  expiresAt: record.expiresAt?.toISOString() ?? null,
+  lastTriggeredAt: record.lastTriggeredAt?.toISOString() ?? null,
+  triggerCount: record.triggerCount,
+  createdAt: record.createdAt.toISOString()
+});
+
+const toTriggeredAlert = (record: EventRecord): TriggeredAlert => ({
+  id: record.id,
+  ruleId: record.ruleId,
+  symbol: record.symbol,
+  type: record.type,
+  condition: record.condition,
+  threshold: Number(record.threshold),
+  value: Number(record.value),
+  message: record.message,
+  isRead: record.isRead,
+  triggeredAt: record.triggeredAt.toISOString()
+});
+
+/**
+ * Whether an observed value satisfies a rule's condition. CHANGE_PERCENT thresholds are
+ * signed: +3 fires on a 3% gain or more, -3 on a 3% drop or more.
+ */
+export function matchesCondition(condition: AlertConfig['condition'], threshold: number, value: number): boolean {
+  switch (condition) {
+    case 'ABOVE':
+    case 'VOLUME_SPIKE':
+      return value >= threshold;
+    case 'BELOW':
+      return value <= threshold;
+    case 'CHANGE_PERCENT':
+      return threshold > 0 ? value >= threshold : value <= threshold;
+    default:
+      return false;
+  }
+}
+
+class AlertRuleEngine {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isEvaluating = false;
+
+  /**
+   * Start the evaluation loop (idempotent)
+   */
+  start(intervalMs: number = Number(process.env.ALERT_RULES_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.evaluateRules().catch(error => console.error('Alert rule tick failed:', error));
+    }, intervalMs);
+
+    console.log(`🔔 Alert rule engine started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  async listRules(userId: number): Promise<AlertConfig[]> {
+    const records = await prisma.alertRule.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' }
+    });
+    return records.map(toRule);
+  }
+
+  async createRule(userId: number, input: AlertConfigInput): Promise<AlertConfig> {
+    const record = await prisma.alertRule.create({
+      data: { userId, ...this.toRecordData(input) }
+    });
+    return toRule(record);
+  }
+
+  /**
+   * Merge updates onto the stored rule and re-validate. Re-activating a rule resets nothing
+   * else, so a recurring rule still honours the cooldown from its last firing.
+   */
+  async updateRule(userId: number, ruleId: number, updates: Partial<AlertConfigInput>): Promise<AlertConfig> {
+    const existing = toRule(await this.findRule(userId, ruleId));
+    const validation = validateInput(alertRuleSchema, { ...this.toInput(existing), ...updates });
+
+    if (!validation.success) {
+      throw new Error(`Invalid alert rule: ${validation.error}`);
+    }
+
+    const record = await prisma.alertRule.update({
+      where: { id: ruleId },
+      data: this.toRecordData(validation.data as AlertConfigInput)
+    });
+    return toRule(record);
+  }
+
+  async deleteRule(userId: number, ruleId: number): Promise<void> {
+    await this.findRule(userId, ruleId);
+    await prisma.alertRule.delete({ where: { id: ruleId } });
+  }
+
+  /**
+   * Triggered alerts, newest first
+   */
+  async getHistory(userId: number, unreadOnly: boolean = false, limit: number = DEFAULT_HISTORY_LIMIT): Promise<TriggeredAlert[]> {
+    const records = await prisma.alertEvent.findMany({
+      where: { userId, ...(unreadOnly ? { isRead: false } : {}) },
+      orderBy: { triggeredAt: 'desc' },
+      take: limit
+    });
+    return records.map(toTriggeredAlert);
+  }
+
+  /**
+   * Mark the given triggered alerts, or all of them, as read. Returns how many changed.
+   */
+  async markRead(userId: number, ids?: number[]): Promise<number> {
+    const result = await prisma.alertEvent.updateMany({
+      where: { userId, isRead: false, ...(ids ? { id: { in: ids } } : {}) },
+      data: { isRead: true }
+    });
+    return result.count;
+  }
+
+  /**
+   * Deactivate expired rules, then check every active rule that is out of its cooldown.
+   * Price and volume rules are skipped outside the session. Quotes, bars and news are
+   * cached by the underlying services, so rules sharing a symbol cost one request each.
+   * Returns the number of alerts triggered.
+   */
+  async evaluateRules(now: Date = new Date()): Promise<number> {
+    if (this.isEvaluating) return 0;
+
+    this.isEvaluating = true;
+    try {
+      await prisma.alertRule.updateMany({
+        where: { isActive: true, expiresAt: { lte: now } },
+        data: { isActive: false }
+      });
+
+      const marketOpen = isMarketOpen(now);
+      const records = await prisma.alertRule.findMany({
+        where: { isActive: true },
+        orderBy: { symbol: 'asc' }
+      });
+      let triggered = 0;
+
+      for (const record of records) {
+        const rule = toRule(record);
+        if (!this.isOutOfCooldown(rule, now)) continue;
+        if (!marketOpen && MARKET_RULE_TYPES.includes(rule.type)) continue;
+
+        try {
+          const match = await this.checkRule(rule, now);
+          if (match && await this.trigger(record, match, now)) {
+            triggered++;
+          }
+        } catch (error) {
+          console.error(`Alert rule ${rule.id} failed:`, error);
+        }
+      }
+
+      if (triggered > 0) {
+        console.log(`🔔 ${triggered} alert rule(s) triggered`);
+      }
+      return triggered;
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  private isOutOfCooldown(rule: AlertConfig, now: Date): boolean {
+    if (!rule.lastTriggeredAt) return true;
+    return now.getTime() - new Date(rule.lastTriggeredAt).getTime() >= rule.cooldownMinutes * 60000;
+  }
+
+  /**
+   * The observation that satisfies the rule right now, or null
+   */
+  private async checkRule(rule: AlertConfig, now: Date): Promise<RuleMatch | null> {
+    const { symbol, condition, threshold } = rule;
+    // News, recommendations and signals only count if they arrived after the rule last fired
+    const since = new Date(rule.lastTriggeredAt ?? rule.createdAt);
+
+    switch (rule.type) {
+      case 'PRICE': {
+        const quote = await finnhubService.getQuote(symbol!);
+        if (condition === 'CHANGE_PERCENT') {
+          if (!matchesCondition(condition, threshold, quote.dp)) return null;
+          return {
+            symbol: symbol!,
+            value: quote.dp,
+            message: `${symbol} is ${quote.dp >= 0 ? 'up' : 'down'} ${Math.abs(quote.dp).toFixed(2)}% today at $${quote.c.toFixed(2)}`
+          };
+        }
+        if (!matchesCondition(condition, threshold, quote.c)) return null;
+        return {
+          symbol: symbol!,
+          value: quote.c,
+          message: `${symbol} is at $${quote.c.toFixed(2)}, ${condition === 'ABOVE' ? 'above' : 'below'} your $${threshold.toFixed(2)} alert`
+        };
+      }
+
+      case 'VOLUME': {
+        const { volume } = await indicatorService.getIndicators(symbol!);
+        if (condition === 'VOLUME_SPIKE') {
+          if (!matchesCondition(condition, threshold, volume.volumeRatio)) return null;
+          return {
+            symbol: symbol!,
+            value: volume.volumeRatio,
+            message: `${symbol} volume is ${volume.volumeRatio}x its 20-day average`
+          };
+        }
+        if (!matchesCondition(condition, threshold, volume.current)) return null;
+        return {
+          symbol: symbol!,
+          value: volume.current,
+          message: `${symbol} has traded ${volume.current.toLocaleString()} shares today, above ${threshold.toLocaleString()}`
+        };
+      }
+
+      case 'NEWS': {
+        const news = await finnhubService.getCompanyNews(symbol!, toDateString(since), toDateString(now));
+        const fresh = news
+          .filter(item => item.datetime * 1000 > since.getTime())
+          .sort((a, b) => b.datetime - a.datetime);
+        if (!matchesCondition(condition, threshold, fresh.length)) return null;
+        return {
+          symbol: symbol!,
+          value: fresh.length,
+          message: `${fresh.length} new ${symbol} article(s), latest: ${fresh[0].headline}`
+        };
+      }
+
+      case 'RECOMMENDATION': {
+        const wanted = condition === 'ABOVE' ? 'BUY' : 'SELL';
+        const recommendations = symbol
+          ? [await stockDetailService.getLatestRecommendation(symbol)]
+          : (await serverCacheService.getCachedRecommendations())?.recommendations ?? [];
+        const best = recommendations
+          .filter((recommendation): recommendation is AIRecommendation => recommendation !== null)
+          .filter(recommendation => recommendation.action === wanted &&
+            new Date(recommendation.generatedAt) > since &&
+            matchesCondition('ABOVE', threshold, recommendation.confidence))
+          .sort((a, b) => b.confidence - a.confidence)[0];
+        if (!best) return null;
+        return {
+          symbol: best.symbol,
+          value: best.confidence,
+          message: `AI recommends ${wanted} ${best.symbol} with ${best.confidence}% confidence`
+        };
+      }
+
+      case 'SIGNAL': {
+        const wanted = condition === 'ABOVE' ? 'BULLISH' : 'BEARISH';
+        const matches = (signalScanner.getLatestScan()?.signals ?? [])
+          .filter(signal => signal.direction === wanted &&
+            (!symbol || signal.symbol === symbol) &&
+            new Date(signal.timeDetected) > since &&
+            matchesCondition('ABOVE', threshold, signal.strength))
+          .sort((a, b) => b.strength - a.strength);
+        const best = matches[0];
+        if (!best) return null;
+        const others = matches.length > 1 ? ` (+${matches.length - 1} more)` : '';
+        return {
+          symbol: best.symbol,
+          value: best.strength,
+          message: `${best.symbol}: ${best.description} (strength ${best.strength})${others}`
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Record a firing and push it to the user's notification channels. The rule is claimed on its
+   * last trigger time first so a concurrent evaluation cannot fire it twice; one-shot rules are
+   * deactivated in the same update.
+   */
+  private async trigger(record: RuleRecord, match: RuleMatch, now: Date): Promise<boolean> {
+    const claim = await prisma.alertRule.updateMany({
+      where: { id: record.id, isActive: true, lastTriggeredAt: record.lastTriggeredAt },
+      data: {
+        lastTriggeredAt: now,
+        triggerCount: { increment: 1 },
+        isActive: record.recurring
+      }
+    });
+    if (claim.count === 0) return false;
+
+    await prisma.alertEvent.create({
+      data: {
+        userId: record.userId,
+        ruleId: record.id,
+        symbol: match.symbol,
+        type: record.type,
+        condition: record.condition,
+        threshold: record.threshold,
+        value: new Decimal(match.value),
+        message: match.message,
+        triggeredAt: now
+      }
+    });
+
+    // Rules are explicit user requests, so they go out as HIGH priority
+    notificationService.dispatch(record.userId, {
+      title: `${match.symbol} ${record.type.toLowerCase()} alert`,
+      message: match.message,
+      priority: 'HIGH',
+      symbol: match.symbol,
+      url: getAppUrl(`/stock/${match.symbol}`)
+    }, now).catch(error => console.error(`Notification dispatch for alert rule ${record.id} failed:`, error));
+    return true;
+  }
+
+  private async findRule(userId: number, ruleId: number): Promise<RuleRecord> {
+    const record = await prisma.alertRule.findFirst({ where: { id: ruleId, userId } });
+    if (!record) {
+      throw new Error('Alert rule not found');
+    }
+    return record;
+  }
+
+  private toInput(rule: AlertConfig): AlertConfigInput {
+    return {
+      type: rule.type,
+      symbol: rule.symbol,
+      condition: rule.condition,
+      threshold: rule.threshold,
+      isActive: rule.isActive,
+      notificationMethod: rule.notificationMethod,
+      recurring: rule.recurring,
+      cooldownMinutes: rule.cooldownMinutes,
+      expiresAt: rule.expiresAt
+    };
+  }
+
+  private toRecordData(input: AlertConfigInput) {
+    return {
+      type: input.type,
+      symbol: input.symbol || null,
+      condition: input.condition,
+      threshold: new Decimal(input.threshold),
+      isActive: input.isActive ?? true,
+      notificationMethod: input.notificationMethod ?? 'PUSH',
+      recurring: input.recurring ?? false,
+      cooldownMinutes: input.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+      expiresAt: input.expiresAt ? new Date(input.expiresAt) : null
+    };
+  }
+}
+
+export const alertRuleEngine = new AlertRuleEngine();
@@ -2,13 +2,17 @@
 import { AIRecommendation } from './aiAnalyzer';
 import { indicesService } from './indices';
 import { intelligentAI } from './intelligentAIService';
+import { realTimePriceService } from './realTimePrice';
 import { quotaManager } from '@/utils/quotaManager';
+import type { AllocationDrift, RebalancePreview } from '@/types/rebalancing';
+import type { TradingSignal } from '@/types/recommendations';
+import type { Watchlist, WatchlistItem } from '@/types/watchlists';
 
 export interface TradingAlert {
   id: string;
   symbol: string;
   name: string;
-  type: 'HIGH_CONFIDENCE_BUY' | 'HIGH_CONFIDENCE_SELL' | 'PRICE_TARGET_HIT' | 'VOLATILITY_SPIKE' | 'PORTFOLIO_REBALANCE';
+  type: 'HIGH_CONFIDENCE_BUY' | 'HIGH_CONFIDENCE_SELL' | 'PRICE_TARGET_HIT' | 'VOLATILITY_SPIKE' | 'PORTFOLIO_REBALANCE' | 'TECHNICAL_SIGNAL';
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
   recommendation: AIRecommendation;
   triggerPrice?: number;
@@ -38,11 +42,12 @@ export interface AlertSettings {
     priceTargetHit: boolean;
     volatilitySpike: boolean;
     portfolioRebalance: boolean;
+    technicalSignals: boolean;
   };
   notificationSettings: {
     browser: boolean;
     sound: boolean;
-    email: boolean;
+    serverChannels: boolean; // Forward to the email, webhook, Telegram and ntfy/Gotify channels in /settings
   };
   monitoringInterval: number; // minutes
   maxAlertsPerDay: number;
@@ -84,11 +89,12 @@ class AlertService {
         priceTargetHit: true,
         volatilitySpike: false,
         portfolioRebalance: true,
+        technicalSignals: true,
       },
       notificationSettings: {
         browser: true,
         sound: true,
-        email: false,
+        serverChannels: false, // Opt-in: alerts leave the browser only when asked to
       },
       monitoringInterval: 15, // 15 minutes
       maxAlertsPerDay: 20,
@@ -170,6 +176,11 @@ class AlertService {
     }
 
     try {
+      // Allocation drift, technical signals and watchlist price levels need no AI, so they are checked even when every provider is out of quota
+      await this.checkAllocationDrift();
+      await this.checkTechnicalSignals();
+      await this.checkWatchlistPriceAlerts();
+
       // Check quota availability before scanning
       const availableProviders = quotaManager.getAvailableProviders();
       if (availableProviders.length === 0) {
@@ -317,7 +328,302 @@ class AlertService {
     console.log(`🚨 Alert created: ${alert.type} for ${alert.symbol} (${alert.priority} priority)`);
   }
 
-  private async sendNotification(alert: TradingAlert): Promise<void> {
+  /**
+   * Raise a PORTFOLIO_REBALANCE alert for each bucket that has drifted out of its band
+   * (once per bucket per day). Portfolios without a target allocation are skipped.
+   */
+  async checkAllocationDrift(): Promise<number> {
+    if (!this.settings.alertTypes.portfolioRebalance) return 0;
+
+    let preview: RebalancePreview;
+    try {
+      const response = await fetch('/api/portfolio/rebalance');
+      if (!response.ok) return 0; // No target allocation set
+      preview = (await response.json()).data;
+    } catch (error) {
+      console.error('Error checking allocation drift:', error);
+      return 0;
+    }
+
+    const today = new Date().toDateString();
+    let created = 0;
+
+    for (const drift of preview.drifts.filter(candidate => candidate.outOfBand)) {
+      const existingAlert = this.alerts.find(alert =>
+        alert.type === 'PORTFOLIO_REBALANCE' &&
+        alert.symbol === drift.key &&
+        new Date(alert.createdAt).toDateString() === today &&
+        !alert.isDismissed
+      );
+      if (existingAlert) continue;
+
+      const alert = this.createDriftAlert(drift, preview.allocation.driftBand);
+      this.alerts.unshift(alert);
+      await this.sendNotification(alert);
+      created++;
+    }
+
+    if (created > 0) {
+      this.saveAlertsToStorage();
+      console.log(`⚖️ ${created} allocation drift alert(s) created`);
+    }
+    return created;
+  }
+
+  private createDriftAlert(drift: AllocationDrift, driftBand: number): TradingAlert {
+    const overweight = drift.drift > 0;
+    const message = `${drift.key} is ${drift.currentPercent.toFixed(1)}% of the portfolio vs a ${drift.targetPercent}% target ` +
+      `(${overweight ? '+' : ''}${drift.drift.toFixed(1)} pts, band ±${driftBand}). Consider rebalancing.`;
+
+    return {
+      id: this.generateAlertId(),
+      symbol: drift.key,
+      name: `${drift.key} allocation drift`,
+      type: 'PORTFOLIO_REBALANCE',
+      priority: Math.abs(drift.drift) > driftBand * 2 ? 'HIGH' : 'MEDIUM',
+      recommendation: {
+        symbol: drift.key,
+        name: drift.key,
+        action: overweight ? 'SELL' : 'BUY',
+        confidence: 100,
+        currentPrice: 0,
+        targetPrice: 0,
+        expectedReturn: 0,
+        reasoning: message,
+        riskLevel: 'LOW',
+        timeframe: 'SHORT',
+        keyFactors: [`Target ${drift.targetPercent}%`, `Current ${drift.currentPercent.toFixed(1)}%`],
+        marketData: { volume: 0, changePercent: 0, volatility: 0, sector: drift.key },
+        generatedAt: new Date().toISOString()
+      },
+      currentPrice: 0,
+      message,
+      createdAt: new Date().toISOString(),
+      isActive: true,
+      isDismissed: false,
+      isRead: false,
+      actions: [
+        {
+          type: 'VIEW_ANALYSIS',
+          label: 'Review Rebalance'
+        },
+        {
+          type: 'DISMISS',
+          label: 'Dismiss'
+        }
+      ]
+    };
+  }
+
+  /**
+   * Raise alerts for scanner signals at least as strong as the confidence threshold (once per
+   * symbol and alert type per day). Volume spikes become VOLATILITY_SPIKE alerts; breakouts,
+   * reversals and momentum become TECHNICAL_SIGNAL alerts. These are for display only: SIGNAL
+   * alert rules deliver scanner signals to the server channels whether or not a tab is open.
+   */
+  async checkTechnicalSignals(): Promise<number> {
+    const { volatilitySpike, technicalSignals } = this.settings.alertTypes;
+    if (!volatilitySpike && !technicalSignals) return 0;
+
+    let signals: TradingSignal[];
+    try {
+      const response = await fetch(`/api/signals?minStrength=${this.settings.confidenceThreshold}`);
+      const scan = response.ok ? (await response.json()).data : null;
+      if (!scan) return 0; // First scan still running
+      signals = scan.signals;
+    } catch (error) {
+      console.error('Error checking technical signals:', error);
+      return 0;
+    }
+
+    const today = new Date().toDateString();
+    let created = 0;
+
+    for (const signal of signals) {
+      if (this.getTodayAlertsCount() >= this.settings.maxAlertsPerDay) break;
+
+      const type: TradingAlert['type'] = signal.signalType === 'VOLUME_SPIKE' ? 'VOLATILITY_SPIKE' : 'TECHNICAL_SIGNAL';
+      if (type === 'VOLATILITY_SPIKE' ? !volatilitySpike : !technicalSignals) continue;
+
+      const existingAlert = this.alerts.find(alert =>
+        alert.type === type &&
+        alert.symbol === signal.symbol &&
+        new Date(alert.createdAt).toDateString() === today &&
+        !alert.isDismissed
+      );
+      if (existingAlert) continue;
+
+      const alert = this.createSignalAlert(signal, type);
+      this.alerts.unshift(alert);
+      await this.sendNotification(alert, false);
+      created++;
+    }
+
+    if (created > 0) {
+      this.saveAlertsToStorage();
+      console.log(`📡 ${created} technical signal alert(s) created`);
+    }
+    return created;
+  }
+
+  private createSignalAlert(signal: TradingSignal, type: TradingAlert['type']): TradingAlert {
+    const action = signal.direction === 'BULLISH' ? 'BUY' : 'SELL';
+    const label = signal.signalType.replace('_', ' ').toLowerCase();
+    const message = `${signal.direction === 'BULLISH' ? 'Bullish' : 'Bearish'} ${label} on ${signal.symbol} ` +
+      `(strength ${signal.strength}): ${signal.description}`;
+
+    return {
+      id: this.generateAlertId(),
+      symbol: signal.symbol,
+      name: signal.symbol,
+      type,
+      priority: signal.strength >= 90 ? 'HIGH' : 'MEDIUM',
+      recommendation: {
+        symbol: signal.symbol,
+        name: signal.symbol,
+        action,
+        confidence: signal.strength,
+        currentPrice: signal.price,
+        targetPrice: signal.price,
+        expectedReturn: 0,
+        reasoning: signal.description,
+        riskLevel: 'MEDIUM',
+        timeframe: 'SHORT',
+        keyFactors: [`${signal.signalType} signal`, `Strength ${signal.strength}/100`],
+        marketData: { volume: 0, changePercent: 0, volatility: 0, sector: 'Unknown' },
+        generatedAt: signal.timeDetected
+      },
+      currentPrice: signal.price,
+      message,
+      createdAt: new Date().toISOString(),
+      isActive: true,
+      isDismissed: false,
+      isRead: false,
+      actions: [
+        {
+          type: action,
+          label: `${action} ${signal.symbol}`,
+          data: { symbol: signal.symbol }
+        },
+        {
+          type: 'VIEW_ANALYSIS',
+          label: 'View Analysis',
+          data: { symbol: signal.symbol }
+        },
+        {
+          type: 'DISMISS',
+          label: 'Dismiss'
+        }
+      ]
+    };
+  }
+
+  /**
+   * Raise PRICE_TARGET_HIT alerts for watchlist items whose live price has reached their upper
+   * or lower alert level. Levels are one-shot: a level that fires is cleared on the item.
+   */
+  async checkWatchlistPriceAlerts(): Promise<number> {
+    if (!this.settings.alertTypes.priceTargetHit) return 0;
+
+    let items: WatchlistItem[];
+    try {
+      const response = await fetch('/api/watchlists');
+      if (!response.ok) return 0;
+      const watchlists: Watchlist[] = (await response.json()).data;
+      items = watchlists.flatMap(watchlist => watchlist.items)
+        .filter(item => item.alertAbove !== null || item.alertBelow !== null);
+    } catch (error) {
+      console.error('Error checking watchlist price alerts:', error);
+      return 0;
+    }
+    if (items.length === 0) return 0;
+
+    const prices = await realTimePriceService.getLivePrices([...new Set(items.map(item => item.symbol))]);
+    let created = 0;
+
+    for (const item of items) {
+      if (this.getTodayAlertsCount() >= this.settings.maxAlertsPerDay) break;
+
+      const price = prices[item.symbol]?.currentPrice;
+      if (!price) continue;
+
+      const level = item.alertAbove !== null && price >= item.alertAbove ? 'alertAbove'
+        : item.alertBelow !== null && price <= item.alertBelow ? 'alertBelow'
+        : null;
+      if (!level) continue;
+
+      const alert = this.createPriceLevelAlert(item, level, price);
+      this.alerts.unshift(alert);
+      await this.sendNotification(alert);
+      created++;
+
+      try {
+        await fetch(`/api/watchlists/${item.watchlistId}/items/${item.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ [level]: null })
+        });
+      } catch (error) {
+        console.error(`Error clearing the ${item.symbol} alert level:`, error);
+      }
+    }
+
+    if (created > 0) {
+      this.saveAlertsToStorage();
+      console.log(`🎯 ${created} watchlist price alert(s) created`);
+    }
+    return created;
+  }
+
+  private createPriceLevelAlert(item: WatchlistItem, level: 'alertAbove' | 'alertBelow', price: number): TradingAlert {
+    const triggerPrice = (level === 'alertAbove' ? item.alertAbove : item.alertBelow) as number;
+    const message = `${item.symbol} ${level === 'alertAbove' ? 'rose to' : 'fell to'} $${price.toFixed(2)}, ` +
+      `${level === 'alertAbove' ? 'above' : 'below'} your $${triggerPrice.toFixed(2)} alert level`;
+
+    return {
+      id: this.generateAlertId(),
+      symbol: item.symbol,
+      name: item.symbol,
+      type: 'PRICE_TARGET_HIT',
+      priority: 'HIGH',
+      recommendation: {
+        symbol: item.symbol,
+        name: item.symbol,
+        action: 'HOLD',
+        confidence: 100,
+        currentPrice: price,
+        targetPrice: triggerPrice,
+        expectedReturn: 0,
+        reasoning: item.notes || message,
+        riskLevel: 'MEDIUM',
+        timeframe: 'SHORT',
+        keyFactors: ['Watchlist price alert', ...item.tags],
+        marketData: { volume: 0, changePercent: 0, volatility: 0, sector: 'Unknown' },
+        generatedAt: new Date().toISOString()
+      },
+      triggerPrice,
+      currentPrice: price,
+      message,
+      createdAt: new Date().toISOString(),
+      triggeredAt: new Date().toISOString(),
+      isActive: true,
+      isDismissed: false,
+      isRead: false,
+      actions: [
+        {
+          type: 'VIEW_ANALYSIS',
+          label: 'View Analysis',
+          data: { symbol: item.symbol }
+        },
+        {
+          type: 'DISMISS',
+          label: 'Dismiss'
+        }
+      ]
+    };
+  }
+
+  private async sendNotification(alert: TradingAlert, forward = true): Promise<void> {
     // Browser notification
     if (this.settings.notificationSettings.browser && 'Notification' in window) {
       const permission = await Notification.requestPermission();
@@ -347,6 +653,26 @@ class AlertService {
         console.warn('Could not play notification sound:', error);
       }
     }
+
+    // Email, webhook, Telegram and ntfy/Gotify channels; the server applies their filters.
+    // Every open tab raises the same alert, so the server delivers each key only once a day.
+    if (forward && this.settings.notificationSettings.serverChannels) {
+      try {
+        await fetch('/api/notifications/dispatch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            title: `${alert.symbol} Trading Alert`,
+            message: alert.message,
+            priority: alert.priority,
+            symbol: alert.symbol,
+            dedupeKey: `${alert.type}:${alert.symbol}:${new Date(alert.createdAt).toDateString()}`
+          })
+        });
+      } catch (error) {
+        console.warn('Could not forward alert to notification channels:', error);
+      }
+    }
   }
 
   // Public API methods
@@ -468,7 +794,20 @@ class AlertService {
     try {
       const stored = localStorage.getItem('alert_settings');
       if (stored) {
-        this.settings = { ...this.getDefaultSettings(), ...JSON.parse(stored) };
+        const defaults = this.getDefaultSettings();
+        const parsed = JSON.parse(stored);
+        // Settings saved before the channels toggle was renamed keep their old email choice
+        const { email, ...notificationSettings } = parsed.notificationSettings ?? {};
+        if (notificationSettings.serverChannels === undefined && typeof email === 'boolean') {
+          notificationSettings.serverChannels = email;
+        }
+        // Alert types and notification options added since the settings were saved keep their defaults
+        this.settings = {
+          ...defaults,
+          ...parsed,
+          alertTypes: { ...defaults.alertTypes, ...parsed.alertTypes },
+          notificationSettings: { ...defaults.notificationSettings, ...notificationSettings }
+        };
       }
     } catch (error) {
       console.error('Error loading settings from storage:', error);
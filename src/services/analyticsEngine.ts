@@ -1,11 +1,17 @@
 // Core analytics engine for portfolio performance analysis
 import { Transaction, Holding, PortfolioState } from '@/store/portfolio';
+import { finnhubService } from '@/services/finnhub';
+import { performanceMetricsService } from '@/services/performanceMetrics';
+import { portfolioAnalyticsService } from '@/services/portfolioAnalytics';
+import { getTradingDate } from '@/utils/marketHours';
 
 export interface PortfolioSnapshot {
   timestamp: Date;
   totalValue: number;
   cashBalance: number;
   holdingsValue: number;
+  realizedPnl?: number; // Cumulative, from tax lots
+  unrealizedPnl?: number;
   holdings: Record<string, {
     symbol: string;
     quantity: number;
@@ -77,6 +83,16 @@ export interface BenchmarkComparison {
   trackingError: number;
   informationRatio: number;
   relativePerformance: number;
+  correlation: number;
+  upCapture: number; // Percent of benchmark up-day returns captured
+  downCapture: number; // Percent of benchmark down-day returns captured
+  series: BenchmarkSeriesPoint[]; // Both series rebased to 100 on the first aligned day
+}
+
+export interface BenchmarkSeriesPoint {
+  date: string; // Trading date, YYYY-MM-DD
+  portfolio: number;
+  benchmark: number;
 }
 
 export interface AIPerformanceMetrics {
@@ -124,9 +140,10 @@ class AnalyticsEngine {
   calculatePortfolioAnalytics(
     portfolio: PortfolioState,
     transactions: Transaction[],
-    timeframe: 'week' | 'month' | 'quarter' | 'year' | 'all' = 'all'
+    timeframe: 'week' | 'month' | 'quarter' | 'year' | 'all' = 'all',
+    snapshots: PortfolioSnapshot[] = []
   ): AnalyticsMetrics {
-    const historicalData = this.generateHistoricalData(portfolio, transactions, timeframe);
+    const historicalData = this.generateHistoricalData(portfolio, snapshots, timeframe);
     const returns = this.calculateReturns(historicalData);
     
     if (returns.length === 0) {
@@ -281,31 +298,48 @@ class AnalyticsEngine {
   }
   
   /**
-   * Generate benchmark comparison
+   * Compare the portfolio's daily snapshot history against a benchmark's daily closes.
+   * Each snapshot is matched to the benchmark close on the same trading date (or the
+   * most recent close before it), so alpha, beta and capture ratios use aligned returns.
    */
   async generateBenchmarkComparison(
     portfolio: PortfolioState,
-    benchmarkSymbol: string = 'SPY'
+    benchmarkSymbol: string = 'SPY',
+    snapshots: PortfolioSnapshot[] = []
   ): Promise<BenchmarkComparison> {
-    // TODO: Integrate with real benchmark data
-    // For now, using mock data
-    const portfolioReturn = ((portfolio.totalValue - portfolio.initialValue) / portfolio.initialValue) * 100;
-    const benchmarkReturn = 10.5; // Mock S&P 500 return
-    
-    const alpha = portfolioReturn - benchmarkReturn;
-    const beta = 1.0; // TODO: Calculate correlation with benchmark
-    const trackingError = Math.abs(portfolioReturn - benchmarkReturn);
-    const informationRatio = alpha / trackingError;
-    
+    const symbol = benchmarkSymbol.trim().toUpperCase();
+    const history = this.generateHistoricalData(portfolio, snapshots, 'all');
+    const series = await this.alignWithBenchmark(history, symbol);
+
+    const portfolioReturns: number[] = [];
+    const benchmarkReturns: number[] = [];
+    for (let i = 1; i < series.length; i++) {
+      portfolioReturns.push((series[i].portfolio - series[i - 1].portfolio) / series[i - 1].portfolio);
+      benchmarkReturns.push((series[i].benchmark - series[i - 1].benchmark) / series[i - 1].benchmark);
+    }
+
+    const metrics = performanceMetricsService.calculateBenchmarkMetrics(portfolioReturns, benchmarkReturns);
+    const last = series[series.length - 1];
+    const portfolioReturn = last ? (last.portfolio / series[0].portfolio - 1) * 100 : 0;
+    const benchmarkReturn = last ? (last.benchmark / series[0].benchmark - 1) * 100 : 0;
+
     return {
-      benchmarkName: benchmarkSymbol,
+      benchmarkName: symbol,
       portfolioReturn,
       benchmarkReturn,
-      alpha,
-      beta,
-      trackingError,
-      informationRatio,
-      relativePerformance: portfolioReturn - benchmarkReturn
+      alpha: metrics.alpha * 100,
+      beta: metrics.beta,
+      trackingError: metrics.trackingError * 100,
+      informationRatio: metrics.informationRatio,
+      relativePerformance: portfolioReturn - benchmarkReturn,
+      correlation: metrics.correlation,
+      upCapture: metrics.upCapture * 100,
+      downCapture: metrics.downCapture * 100,
+      series: series.map(point => ({
+        date: point.date,
+        portfolio: (point.portfolio / series[0].portfolio) * 100,
+        benchmark: (point.benchmark / series[0].benchmark) * 100
+      }))
     };
   }
   
@@ -313,43 +347,79 @@ class AnalyticsEngine {
   
   private generateHistoricalData(
     portfolio: PortfolioState,
-    transactions: Transaction[],
+    snapshots: PortfolioSnapshot[],
     timeframe: string
   ): PortfolioSnapshot[] {
-    // Generate historical portfolio snapshots based on transactions
-    const snapshots: PortfolioSnapshot[] = [];
-    let currentValue = portfolio.initialValue;
-    
-    // Sort transactions by timestamp
-    const sortedTransactions = [...transactions].sort(
-      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
-    
-    // Create snapshots for each transaction
-    sortedTransactions.forEach(transaction => {
-      if (transaction.type === 'BUY') {
-        currentValue += transaction.totalAmount * 0.01; // Assume 1% daily growth (mock)
-      }
-      
-      snapshots.push({
-        timestamp: new Date(transaction.timestamp),
-        totalValue: currentValue,
-        cashBalance: 0, // Simplified
-        holdingsValue: currentValue,
-        holdings: {} // Simplified
-      });
-    });
+    // Daily snapshots recorded at each close, limited to the timeframe
+    const timeframeDays: Record<string, number> = { week: 7, month: 30, quarter: 90, year: 365 };
+    const cutoff = timeframeDays[timeframe]
+      ? Date.now() - timeframeDays[timeframe] * 24 * 60 * 60 * 1000
+      : 0;
+
+    const history = [...snapshots]
+      .filter(snapshot => new Date(snapshot.timestamp).getTime() >= cutoff)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
     
     // Add current snapshot
-    snapshots.push({
+    history.push({
       timestamp: new Date(),
       totalValue: portfolio.totalValue,
       cashBalance: portfolio.cashBalance,
       holdingsValue: portfolio.totalValue - portfolio.cashBalance,
       holdings: {}
     });
-    
-    return snapshots;
+
+    // Deposits and withdrawals are not performance: returns, drawdown and benchmark
+    // alignment all read totalValue, so it carries the flow-adjusted value
+    const adjusted = portfolioAnalyticsService.calculateFlowAdjustedValues(portfolio.cashFlows ?? [], history);
+    return history.map((snapshot, index) => ({ ...snapshot, totalValue: adjusted[index] }));
+  }
+  
+  private async alignWithBenchmark(
+    history: PortfolioSnapshot[],
+    symbol: string
+  ): Promise<BenchmarkSeriesPoint[]> {
+    if (history.length < 2) return [];
+
+    // Snapshot dates are stored at UTC midnight; the live point is dated by the ET session
+    const dates = history.map((snapshot, index) =>
+      index === history.length - 1
+        ? getTradingDate(new Date(snapshot.timestamp))
+        : new Date(snapshot.timestamp).toISOString().slice(0, 10)
+    );
+
+    // Start a week early so the first snapshot has a prior close to match
+    const from = Math.floor(new Date(`${dates[0]}T00:00:00.000Z`).getTime() / 1000) - 7 * 24 * 60 * 60;
+    const to = Math.floor(Date.now() / 1000);
+    const candles = await finnhubService.getCandles(symbol, 'D', from, to);
+
+    if (candles.s !== 'ok' || !candles.c?.length) {
+      throw new Error(`No price history available for ${symbol}`);
+    }
+
+    const closes = candles.t
+      .map((timestamp, index) => ({ date: new Date(timestamp * 1000).toISOString().slice(0, 10), close: candles.c[index] }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const series: BenchmarkSeriesPoint[] = [];
+    let cursor = -1;
+
+    history.forEach((snapshot, index) => {
+      while (cursor + 1 < closes.length && closes[cursor + 1].date <= dates[index]) {
+        cursor++;
+      }
+      if (cursor < 0 || snapshot.totalValue <= 0) return;
+
+      const point = { date: dates[index], portfolio: snapshot.totalValue, benchmark: closes[cursor].close };
+      // The live point replaces a snapshot already taken today
+      if (series.length > 0 && series[series.length - 1].date === point.date) {
+        series[series.length - 1] = point;
+      } else {
+        series.push(point);
+      }
+    });
+
+    return series;
   }
   
   private calculateReturns(snapshots: PortfolioSnapshot[]): number[] {
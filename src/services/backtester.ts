@@ -0,0 +1,595 @@
+// Backtesting engine - replays daily candles through a strategy with the live order trigger and fill-cost rules
+import { promises as fs } from 'fs';
+import path from 'path';
+import { finnhubService } from './finnhub';
+import { executionCostService } from './executionCosts';
+import { orderManager } from './orderManager';
+import { performanceMetricsService } from './performanceMetrics';
+import { strategyRegistry } from './strategies';
+import { AdvancedOrder, ExecutionCostSettings, TakeProfitOrder } from '@/types/orders';
+import { BacktestResult } from '@/types/recommendations';
+import { OrderIntent, PriceBar, StrategyPosition } from '@/types/strategy';
+
+export type BacktestDataSource = 'finnhub' | 'fixtures';
+
+// The bot's risk rules as the backtester applies them; 0 disables a percentage rule
+export interface BacktestRiskSettings {
+  maxPositionSize: number; // % of portfolio value per symbol
+  maxDailyTrades: number; // Strategy fills per day; protective exits are never blocked
+  stopLossPercent: number;
+  takeProfitPercent: number;
+  trailingStopPercent: number;
+  cashReservePercent: number; // Cash buys may not spend
+}
+
+export const DEFAULT_BACKTEST_RISK_SETTINGS: BacktestRiskSettings = {
+  maxPositionSize: 10,
+  maxDailyTrades: 5,
+  stopLossPercent: 15,
+  takeProfitPercent: 25,
+  trailingStopPercent: 0,
+  cashReservePercent: 15
+};
+
+export interface BacktestConfig {
+  strategyId: string;
+  strategyConfig?: unknown; // Validated with strategyRegistry.resolveConfig; defaults to the strategy's own
+  symbols: string[];
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+  initialCash: number;
+  benchmarkSymbol: string;
+  dataSource: BacktestDataSource;
+  risk: BacktestRiskSettings;
+  executionCosts: ExecutionCostSettings;
+}
+
+export interface BacktestEquityPoint {
+  date: string;
+  value: number;
+  benchmark: number; // Benchmark buy-and-hold rebased to the initial cash
+}
+
+export interface BacktestReport extends BacktestResult {
+  initialCash: number;
+  finalValue: number;
+  grossProfit: number;
+  grossLoss: number;
+  costs: { commission: number; spread: number; slippage: number };
+  equityCurve: BacktestEquityPoint[];
+}
+
+interface SimulatedOrder {
+  order: AdvancedOrder;
+  activeFrom: string; // First trading day the order may fill
+  protective: boolean; // Stop-loss / take-profit / trailing exits attached to a buy
+}
+
+interface Position extends StrategyPosition {
+  costBasis: number; // Including buy commissions
+}
+
+interface SimulationState {
+  cash: number;
+  positions: Record<string, Position>;
+  lastClose: Record<string, number>;
+  orders: SimulatedOrder[];
+  trades: BacktestResult['tradeHistory'];
+  strategyFillsToday: number;
+  grossProfit: number;
+  grossLoss: number;
+  winningSells: number;
+  closedSells: number;
+  costs: BacktestReport['costs'];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VOLUME_LOOKBACK_DAYS = 10;
+
+const toDateString = (timestampSeconds: number): string =>
+  new Date(timestampSeconds * 1000).toISOString().slice(0, 10);
+
+const endOfDay = (date: string): Date => new Date(`${date}T23:59:59Z`);
+
+const round = (value: number, decimals: number = 2): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+class BacktestService {
+  private orderSequence = 0;
+
+  /**
+   * Run a strategy over daily bars. Strategies decide after each close; their orders work
+   * from the next session. Within a bar the price path is open → low → high → close on up
+   * days and open → high → low → close on down days, so stops are checked pessimistically.
+   */
+  async run(config: BacktestConfig): Promise<BacktestReport> {
+    const strategy = strategyRegistry.get(config.strategyId);
+    if (!strategy) {
+      throw new Error(`Unknown strategy: ${config.strategyId}`);
+    }
+
+    const barsBySymbol: Record<string, PriceBar[]> = {};
+    for (const symbol of config.symbols) {
+      barsBySymbol[symbol] = await this.loadBars(symbol, config.startDate, config.endDate, config.dataSource);
+      if (barsBySymbol[symbol].length === 0) {
+        throw new Error(`No price history available for ${symbol}`);
+      }
+    }
+
+    const benchmarkBars = await this.loadBars(config.benchmarkSymbol, config.startDate, config.endDate, config.dataSource);
+    if (benchmarkBars.length === 0) {
+      throw new Error(`No price history available for ${config.benchmarkSymbol}`);
+    }
+
+    const dates = Array.from(new Set(Object.values(barsBySymbol).flat().map(bar => bar.date))).sort();
+    if (dates.length < 2) {
+      throw new Error('Not enough price history in the selected period');
+    }
+
+    const barIndex: Record<string, Map<string, PriceBar>> = {};
+    const history: Record<string, PriceBar[]> = {};
+    for (const symbol of config.symbols) {
+      barIndex[symbol] = new Map(barsBySymbol[symbol].map(bar => [bar.date, bar]));
+      history[symbol] = [];
+    }
+
+    const state: SimulationState = {
+      cash: config.initialCash,
+      positions: {},
+      lastClose: {},
+      orders: [],
+      trades: [],
+      strategyFillsToday: 0,
+      grossProfit: 0,
+      grossLoss: 0,
+      winningSells: 0,
+      closedSells: 0,
+      costs: { commission: 0, spread: 0, slippage: 0 }
+    };
+    const values: number[] = [];
+
+    for (let i = 0; i < dates.length; i++) {
+      const date = dates[i];
+      state.strategyFillsToday = 0;
+
+      for (const symbol of config.symbols) {
+        const bar = barIndex[symbol].get(date);
+        if (!bar) continue;
+
+        await this.processBar(state, symbol, bar, history[symbol], config);
+        history[symbol].push(bar);
+        state.lastClose[symbol] = bar.close;
+      }
+
+      state.orders = state.orders.filter(({ order }) => !orderManager.isExpired(order, endOfDay(date)));
+
+      const totalValue = this.getTotalValue(state);
+      values.push(totalValue);
+      state.trades
+        .filter(trade => trade.date === date)
+        .forEach(trade => { trade.portfolioValue = round(totalValue); });
+
+      const nextDate = dates[i + 1];
+      if (nextDate) {
+        const intents = strategy.onBar({
+          date,
+          bars: history,
+          portfolio: {
+            cash: state.cash,
+            totalValue,
+            positions: Object.fromEntries(
+              Object.entries(state.positions).map(([symbol, { quantity, averagePrice }]) => [symbol, { symbol, quantity, averagePrice }])
+            )
+          }
+        }, config.strategyConfig ?? strategy.defaultConfig);
+
+        for (const intent of intents) {
+          const order = this.createOrder(intent, state, totalValue, config, nextDate);
+          if (order) {
+            state.orders.push({ order, activeFrom: nextDate, protective: false });
+          }
+        }
+      }
+    }
+
+    return this.buildReport(config, strategy.name, dates, values, benchmarkBars, state);
+  }
+
+  /**
+   * Daily bars for a symbol within the period, oldest first
+   */
+  async loadBars(symbol: string, startDate: string, endDate: string, source: BacktestDataSource): Promise<PriceBar[]> {
+    const bars = source === 'fixtures'
+      ? await this.loadFixtureBars(symbol)
+      : await this.loadFinnhubBars(symbol, startDate, endDate);
+
+    return bars
+      .filter(bar => bar.date >= startDate && bar.date <= endDate && bar.close > 0)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private async loadFinnhubBars(symbol: string, startDate: string, endDate: string): Promise<PriceBar[]> {
+    const from = Math.floor(new Date(`${startDate}T00:00:00Z`).getTime() / 1000);
+    const to = Math.min(
+      Math.floor((new Date(`${endDate}T00:00:00Z`).getTime() + DAY_MS) / 1000),
+      Math.floor(Date.now() / 1000)
+    );
+
+    const candles = await finnhubService.getCandles(symbol, 'D', from, to);
+    if (candles.s !== 'ok' || !candles.t?.length) {
+      return [];
+    }
+
+    return candles.t.map((timestamp, i) => ({
+      date: toDateString(timestamp),
+      open: candles.o[i],
+      high: candles.h[i],
+      low: candles.l[i],
+      close: candles.c[i],
+      volume: candles.v[i] ?? 0
+    }));
+  }
+
+  /**
+   * Local fixtures: SYMBOL.json (Finnhub candle response or an array of bars) or
+   * SYMBOL.csv with a date,open,high,low,close,volume header
+   */
+  private async loadFixtureBars(symbol: string): Promise<PriceBar[]> {
+    const directory = process.env.BACKTEST_FIXTURES_DIR || path.join(process.cwd(), 'data', 'backtest');
+
+    const json = await this.readFixture(path.join(directory, `${symbol}.json`));
+    if (json !== null) {
+      const data = JSON.parse(json);
+      if (Array.isArray(data)) {
+        return data.map(row => ({
+          date: String(row.date).slice(0, 10),
+          open: Number(row.open),
+          high: Number(row.high),
+          low: Number(row.low),
+          close: Number(row.close),
+          volume: Number(row.volume ?? 0)
+        }));
+      }
+      return (data.t ?? []).map((timestamp: number, i: number) => ({
+        date: toDateString(timestamp),
+        open: data.o[i],
+        high: data.h[i],
+        low: data.l[i],
+        close: data.c[i],
+        volume: data.v?.[i] ?? 0
+      }));
+    }
+
+    const csv = await this.readFixture(path.join(directory, `${symbol}.csv`));
+    if (csv === null) {
+      return [];
+    }
+
+    const [header, ...rows] = csv.trim().split(/\r?\n/);
+    const columns = header.split(',').map(column => column.trim().toLowerCase());
+    const column = (cells: string[], name: string) => Number(cells[columns.indexOf(name)]);
+
+    return rows
+      .map(row => row.split(',').map(cell => cell.trim()))
+      .filter(cells => cells.length === columns.length)
+      .map(cells => ({
+        date: cells[columns.indexOf('date')].slice(0, 10),
+        open: column(cells, 'open'),
+        high: column(cells, 'high'),
+        low: column(cells, 'low'),
+        close: column(cells, 'close'),
+        volume: columns.includes('volume') ? column(cells, 'volume') : 0
+      }));
+  }
+
+  private async readFixture(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(filePath, 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Walk the bar's price path and fill whatever the live trigger rules say would have filled
+   */
+  private async processBar(
+    state: SimulationState,
+    symbol: string,
+    bar: PriceBar,
+    previousBars: PriceBar[],
+    config: BacktestConfig
+  ): Promise<void> {
+    const pricePath = bar.close >= bar.open
+      ? [bar.open, bar.low, bar.high, bar.close]
+      : [bar.open, bar.high, bar.low, bar.close];
+
+    const recentVolume = previousBars.slice(-VOLUME_LOOKBACK_DAYS).map(b => b.volume).filter(v => v > 0);
+    const averageDailyVolume = recentVolume.length > 0
+      ? recentVolume.reduce((sum, v) => sum + v, 0) / recentVolume.length
+      : undefined;
+
+    for (let step = 0; step < pricePath.length; step++) {
+      const price = pricePath[step];
+      const working = state.orders.filter(o => o.order.symbol === symbol && o.activeFrom <= bar.date);
+
+      for (const simulated of working) {
+        if (!state.orders.includes(simulated)) continue; // Cancelled by an earlier fill this step
+
+        const { order } = simulated;
+        const triggered = order.type === 'MARKET'
+          ? step === 0
+          : await orderManager.shouldTriggerOrder(order, price);
+
+        if (!triggered) {
+          if (order.type === 'TRAILING_STOP') {
+            orderManager.updateTrailingStop(order, price);
+          }
+          continue;
+        }
+
+        if (!simulated.protective && state.strategyFillsToday >= config.risk.maxDailyTrades) {
+          this.removeOrder(state, simulated);
+          continue;
+        }
+
+        // A gap through the level fills at the open; otherwise the price passed through the level itself
+        const referencePrice = step === 0 ? price : this.getTriggerLevel(order, price);
+        this.fillOrder(state, simulated, referencePrice, { high: bar.high, low: bar.low, averageDailyVolume }, bar.date, config);
+      }
+    }
+  }
+
+  private fillOrder(
+    state: SimulationState,
+    simulated: SimulatedOrder,
+    referencePrice: number,
+    market: { high: number; low: number; averageDailyVolume?: number },
+    date: string,
+    config: BacktestConfig
+  ): void {
+    const { order } = simulated;
+    const side = 'side' in order ? order.side : 'SELL';
+    const limitPrice = order.type === 'LIMIT' ? order.limitPrice : undefined;
+    const position = state.positions[order.symbol];
+
+    this.removeOrder(state, simulated);
+
+    let quantity = order.quantity;
+    let costs = executionCostService.calculateCosts({ side, quantity, price: referencePrice, market }, config.executionCosts, limitPrice);
+
+    if (side === 'SELL') {
+      quantity = Math.min(quantity, position?.quantity ?? 0);
+    } else {
+      // Costs at the full size bound any smaller fill, as in the live order engine
+      const reserve = this.getTotalValue(state) * config.risk.cashReservePercent / 100;
+      const affordable = Math.floor((state.cash - reserve - costs.commission) / costs.fillPrice);
+      quantity = Math.min(quantity, Math.max(0, affordable));
+    }
+
+    if (quantity <= 0) return;
+
+    if (quantity !== order.quantity) {
+      costs = executionCostService.calculateCosts({ side, quantity, price: referencePrice, market }, config.executionCosts, limitPrice);
+    }
+
+    const value = quantity * costs.fillPrice;
+    state.costs.commission += costs.commission;
+    state.costs.spread += costs.spreadCost;
+    state.costs.slippage += costs.slippageCost;
+    if (!simulated.protective) {
+      state.strategyFillsToday++;
+    }
+
+    if (side === 'BUY') {
+      state.cash -= value + costs.commission;
+      const held = state.positions[order.symbol] ??= { symbol: order.symbol, quantity: 0, averagePrice: 0, costBasis: 0 };
+      held.quantity += quantity;
+      held.costBasis += value + costs.commission;
+      held.averagePrice = held.costBasis / held.quantity;
+      this.attachProtectiveOrders(state, order.symbol, quantity, costs.fillPrice, date, config);
+    } else if (position) {
+      const costOfSold = position.averagePrice * quantity;
+      const realized = value - costs.commission - costOfSold;
+      state.cash += value - costs.commission;
+      position.quantity -= quantity;
+      position.costBasis -= costOfSold;
+
+      state.closedSells++;
+      if (realized > 0) {
+        state.winningSells++;
+        state.grossProfit += realized;
+      } else {
+        state.grossLoss += -realized;
+      }
+
+      if (position.quantity <= 0) {
+        delete state.positions[order.symbol];
+        // Remaining exits for a closed position can never fill
+        state.orders = state.orders.filter(o => !(o.order.symbol === order.symbol && 'side' in o.order && o.order.side === 'SELL'));
+      }
+    }
+
+    state.trades.push({
+      date,
+      symbol: order.symbol,
+      action: side,
+      price: costs.fillPrice,
+      quantity,
+      portfolioValue: 0 // Filled in with the day's closing value
+    });
+  }
+
+  private attachProtectiveOrders(
+    state: SimulationState,
+    symbol: string,
+    quantity: number,
+    entryPrice: number,
+    date: string,
+    config: BacktestConfig
+  ): void {
+    const { stopLossPercent, takeProfitPercent, trailingStopPercent } = config.risk;
+    const exits: AdvancedOrder[] = [];
+
+    if (stopLossPercent > 0) {
+      exits.push(orderManager.createStopLossOrder(symbol, quantity, entryPrice, stopLossPercent));
+    }
+    if (takeProfitPercent > 0) {
+      exits.push(orderManager.createTakeProfitOrder(symbol, quantity, entryPrice, takeProfitPercent, false) as TakeProfitOrder);
+    }
+    if (trailingStopPercent > 0) {
+      exits.push(orderManager.createTrailingStopOrder(symbol, quantity, entryPrice, trailingStopPercent));
+    }
+
+    // Exits start working on the bar after the entry so the entry bar's range cannot hit them retroactively
+    const activeFrom = this.nextDay(date);
+    exits.forEach(order => state.orders.push({ order, activeFrom, protective: true }));
+  }
+
+  /**
+   * Turn a strategy intent into a sized order, applying the position-size limit
+   */
+  private createOrder(
+    intent: OrderIntent,
+    state: SimulationState,
+    totalValue: number,
+    config: BacktestConfig,
+    nextDate: string
+  ): AdvancedOrder | null {
+    const price = state.lastClose[intent.symbol];
+    if (!price) return null;
+
+    let quantity = intent.quantity ?? Math.floor((intent.notional ?? 0) / (intent.limitPrice ?? price));
+
+    if (intent.side === 'BUY') {
+      const held = state.positions[intent.symbol]?.quantity ?? 0;
+      const maxValue = totalValue * config.risk.maxPositionSize / 100 - held * price;
+      quantity = Math.min(quantity, Math.floor(Math.max(0, maxValue) / price));
+    }
+
+    quantity = Math.floor(quantity);
+    if (quantity <= 0) return null;
+
+    if (intent.orderType === 'LIMIT' && intent.limitPrice) {
+      const order = orderManager.createLimitOrder(intent.symbol, intent.side, quantity, intent.limitPrice, 'DAY');
+      order.expiresAt = endOfDay(nextDate);
+      return order;
+    }
+
+    return {
+      id: `backtest_${++this.orderSequence}`,
+      symbol: intent.symbol,
+      type: 'MARKET',
+      status: 'ACTIVE',
+      quantity,
+      side: intent.side,
+      price,
+      createdAt: new Date(),
+      expiresAt: endOfDay(nextDate)
+    };
+  }
+
+  // The price a triggered order is assumed to trade at when the bar moved through its level
+  private getTriggerLevel(order: AdvancedOrder, fallback: number): number {
+    switch (order.type) {
+      case 'LIMIT':
+      case 'STOP_LIMIT':
+        return order.limitPrice;
+      case 'STOP_LOSS':
+        return order.triggerPrice;
+      case 'TAKE_PROFIT':
+        return order.targetPrice;
+      case 'TRAILING_STOP':
+        return order.currentStopPrice;
+      default:
+        return fallback;
+    }
+  }
+
+  private removeOrder(state: SimulationState, simulated: SimulatedOrder): void {
+    state.orders = state.orders.filter(o => o !== simulated);
+  }
+
+  private nextDay(date: string): string {
+    return new Date(new Date(`${date}T00:00:00Z`).getTime() + DAY_MS).toISOString().slice(0, 10);
+  }
+
+  private getTotalValue(state: SimulationState): number {
+    return Object.values(state.positions).reduce(
+      (sum, position) => sum + position.quantity * (state.lastClose[position.symbol] ?? position.averagePrice),
+      state.cash
+    );
+  }
+
+  private buildReport(
+    config: BacktestConfig,
+    strategyName: string,
+    dates: string[],
+    values: number[],
+    benchmarkBars: PriceBar[],
+    state: SimulationState
+  ): BacktestReport {
+    // Benchmark closes carried forward onto the backtest calendar
+    const benchmarkCloses: number[] = [];
+    let benchmarkIndex = 0;
+    let benchmarkClose = benchmarkBars[0].close;
+    for (const date of dates) {
+      while (benchmarkIndex < benchmarkBars.length && benchmarkBars[benchmarkIndex].date <= date) {
+        benchmarkClose = benchmarkBars[benchmarkIndex].close;
+        benchmarkIndex++;
+      }
+      benchmarkCloses.push(benchmarkClose);
+    }
+
+    const toReturns = (series: number[]) =>
+      series.slice(1).map((value, i) => (series[i] > 0 ? (value - series[i]) / series[i] : 0));
+
+    const returns = toReturns(values);
+    const benchmarkReturns = toReturns(benchmarkCloses);
+    const risk = performanceMetricsService.calculateRiskMetrics(returns, values, benchmarkReturns);
+    const benchmarkRisk = performanceMetricsService.calculateRiskMetrics(benchmarkReturns, benchmarkCloses);
+
+    const finalValue = values[values.length - 1];
+    const totalReturn = (finalValue - config.initialCash) / config.initialCash;
+    const years = returns.length / 252;
+    const annualizedReturn = years > 0 && finalValue > 0 ? Math.pow(1 + totalReturn, 1 / years) - 1 : 0;
+    const benchmarkReturn = (benchmarkCloses[benchmarkCloses.length - 1] - benchmarkCloses[0]) / benchmarkCloses[0];
+
+    return {
+      strategy: strategyName,
+      period: { start: dates[0], end: dates[dates.length - 1] },
+      totalReturn: round(totalReturn * 100),
+      annualizedReturn: round(annualizedReturn * 100),
+      volatility: round(risk.volatility * 100),
+      sharpeRatio: round(risk.sharpeRatio),
+      maxDrawdown: round(risk.maxDrawdownPercent),
+      winRate: state.closedSells > 0 ? round((state.winningSells / state.closedSells) * 100) : 0,
+      totalTrades: state.trades.length,
+      // 0 when nothing lost money, since the ratio is undefined; grossLoss tells the cases apart
+      profitFactor: state.grossLoss > 0 ? round(state.grossProfit / state.grossLoss) : 0,
+      benchmark: {
+        return: round(benchmarkReturn * 100),
+        volatility: round(benchmarkRisk.volatility * 100)
+      },
+      tradeHistory: state.trades,
+      initialCash: config.initialCash,
+      finalValue: round(finalValue),
+      grossProfit: round(state.grossProfit),
+      grossLoss: round(state.grossLoss),
+      costs: {
+        commission: round(state.costs.commission),
+        spread: round(state.costs.spread),
+        slippage: round(state.costs.slippage)
+      },
+      equityCurve: dates.map((date, i) => ({
+        date,
+        value: round(values[i]),
+        benchmark: round(config.initialCash * benchmarkCloses[i] / benchmarkCloses[0])
+      }))
+    };
+  }
+}
+
+export const backtestService = new BacktestService();
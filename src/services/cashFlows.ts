@@ -0,0 +1,172 @@
+// Cash-flow ledger - deposits and withdrawals kept apart from trading so returns are not distorted by top-ups
+import { CashFlowType, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { lockPortfolio, prisma } from '@/lib/prisma';
+
+export interface CashFlowEntry {
+  id: number;
+  type: CashFlowType;
+  amount: number;
+  note: string | null;
+  occurredAt: Date;
+}
+
+export interface CashFlowResult {
+  cashFlow: CashFlowEntry;
+  cashBalance: number;
+  totalValue: number;
+}
+
+const OPENING_BALANCE_NOTE = 'Opening balance';
+
+const toNumber = (value: Decimal | null | undefined): number => Number(value ?? 0);
+
+const toEntry = (row: { id: number; type: CashFlowType; amount: Decimal; note: string | null; occurredAt: Date }): CashFlowEntry => ({
+  id: row.id,
+  type: row.type,
+  amount: toNumber(row.amount),
+  note: row.note,
+  occurredAt: row.occurredAt
+});
+
+class CashFlowService {
+  /**
+   * Move cash into or out of the portfolio and record it in the ledger atomically
+   */
+  async recordCashFlow(
+    portfolioId: number,
+    type: CashFlowType,
+    amount: number,
+    note?: string
+  ): Promise<CashFlowResult> {
+    if (!(amount > 0)) {
+      throw new Error('Invalid amount: must be a positive number');
+    }
+
+    return prisma.$transaction(async (tx) => {
+      // Make sure the opening balance is on the ledger before the first top-up or withdrawal;
+      // this also takes the portfolio row lock so concurrent fills cannot interleave
+      await this.backfillLedger(tx, portfolioId);
+
+      const portfolio = await tx.portfolio.findUnique({ where: { id: portfolioId } });
+      if (!portfolio) {
+        throw new Error('Portfolio not found');
+      }
+
+      const signedAmount = type === 'DEPOSIT' ? amount : -amount;
+      const cashBalance = toNumber(portfolio.cashBalance) + signedAmount;
+      const totalValue = toNumber(portfolio.totalValue) + signedAmount;
+
+      if (cashBalance < 0) {
+        throw new Error('Insufficient cash for withdrawal');
+      }
+
+      await tx.portfolio.update({
+        where: { id: portfolioId },
+        data: {
+          cashBalance: { increment: new Decimal(signedAmount) },
+          totalValue: { increment: new Decimal(signedAmount) },
+          updatedAt: new Date()
+        }
+      });
+
+      const cashFlow = await tx.cashFlow.create({
+        data: {
+          portfolioId,
+          type,
+          amount: new Decimal(amount),
+          note: note ?? null
+        }
+      });
+
+      return { cashFlow: toEntry(cashFlow), cashBalance, totalValue };
+    });
+  }
+
+  /**
+   * Start a fresh ledger with the opening deposit, e.g. when a portfolio is created or reset.
+   * Runs in the caller's transaction so the portfolio never exists without its opening entry.
+   */
+  async resetLedger(
+    tx: Prisma.TransactionClient,
+    portfolioId: number,
+    openingBalance: number,
+    occurredAt: Date = new Date()
+  ): Promise<void> {
+    await tx.cashFlow.deleteMany({ where: { portfolioId } });
+    await tx.cashFlow.create({
+      data: {
+        portfolioId,
+        type: 'DEPOSIT',
+        amount: new Decimal(openingBalance),
+        note: OPENING_BALANCE_NOTE,
+        occurredAt
+      }
+    });
+  }
+
+  /**
+   * Ledger in date order. Portfolios created before the ledger existed are backfilled with
+   * the initial value as an opening deposit plus any top-ups recorded as CASH transactions.
+   */
+  async getCashFlows(portfolioId: number): Promise<CashFlowEntry[]> {
+    const rows = await prisma.cashFlow.findMany({
+      where: { portfolioId },
+      orderBy: { occurredAt: 'asc' }
+    });
+
+    if (rows.length > 0) {
+      return rows.map(toEntry);
+    }
+
+    await prisma.$transaction(tx => this.backfillLedger(tx, portfolioId));
+
+    const backfilled = await prisma.cashFlow.findMany({
+      where: { portfolioId },
+      orderBy: { occurredAt: 'asc' }
+    });
+    return backfilled.map(toEntry);
+  }
+
+  /**
+   * Write the opening entries if the ledger is still empty. Runs under the portfolio row lock,
+   * so two first reads (the snapshot job and an API request) cannot both insert them.
+   */
+  private async backfillLedger(tx: Prisma.TransactionClient, portfolioId: number): Promise<void> {
+    await lockPortfolio(tx, portfolioId);
+
+    const existing = await tx.cashFlow.count({ where: { portfolioId } });
+    if (existing > 0) return;
+
+    const portfolio = await tx.portfolio.findUnique({ where: { id: portfolioId } });
+    if (!portfolio) {
+      throw new Error('Portfolio not found');
+    }
+
+    const legacyTopUps = await tx.transaction.findMany({
+      where: { portfolioId, symbol: 'CASH', type: 'BUY' },
+      orderBy: { transactionDate: 'asc' }
+    });
+
+    await tx.cashFlow.createMany({
+      data: [
+        {
+          portfolioId,
+          type: 'DEPOSIT' as CashFlowType,
+          amount: portfolio.initialValue,
+          note: OPENING_BALANCE_NOTE,
+          occurredAt: portfolio.createdAt
+        },
+        ...legacyTopUps.map(topUp => ({
+          portfolioId,
+          type: 'DEPOSIT' as CashFlowType,
+          amount: topUp.totalAmount,
+          note: 'Top-up',
+          occurredAt: topUp.transactionDate
+        }))
+      ]
+    });
+  }
+}
+
+export const cashFlowService = new CashFlowService();
@@ -0,0 +1,156 @@
+// Digest renderer - turns a DigestReport into an email-safe HTML page and a short plain-text summary
+import type { DigestMover, DigestPortfolioSummary, DigestReport } from '@/types/digests';
+
+const COLORS = {
+  text: '#111827',
+  muted: '#6b7280',
+  border: '#e5e7eb',
+  up: '#16a34a',
+  down: '#dc2626',
+  accent: '#2563eb'
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const money = (value: number): string =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const signedMoney = (value: number): string => `${value > 0 ? '+' : ''}${money(value)}`;
+
+const signedPercent = (value: number): string => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const changeColor = (value: number): string => value > 0 ? COLORS.up : value < 0 ? COLORS.down : COLORS.muted;
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleString('en-US', {
+    timeZone: 'America/New_York',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const periodLabel = (report: DigestReport): string =>
+  report.period === 'DAILY' ? report.periodEnd : `${report.periodStart} to ${report.periodEnd}`;
+
+export function getDigestSubject(report: DigestReport): string {
+  const totalChange = report.portfolios.reduce((sum, portfolio) => sum + portfolio.valueChange, 0);
+  const label = report.period === 'DAILY' ? 'Daily digest' : 'Weekly report';
+  return `${label} ${periodLabel(report)}: ${signedMoney(totalChange)}`;
+}
+
+const section = (title: string, body: string): string => `
+  <h3 style="margin:24px 0 8px;font-size:15px;color:${COLORS.text};">${escapeHtml(title)}</h3>
+  ${body}`;
+
+const table = (headers: string[], rows: string[][]): string => `
+  <table role="presentation" cellpadding="6" cellspacing="0" style="width:100%;border-collapse:collapse;font-size:13px;">
+    <tr>${headers.map(header => `<th align="left" style="border-bottom:1px solid ${COLORS.border};color:${COLORS.muted};font-weight:600;">${header}</th>`).join('')}</tr>
+    ${rows.map(row => `<tr>${row.map(cell => `<td style="border-bottom:1px solid ${COLORS.border};">${cell}</td>`).join('')}</tr>`).join('')}
+  </table>`;
+
+const emptyNote = (text: string): string => `<p style="margin:0;font-size:13px;color:${COLORS.muted};">${escapeHtml(text)}</p>`;
+
+const moverRows = (movers: DigestMover[]): string[][] => movers.map(mover => [
+  `<strong>${escapeHtml(mover.symbol)}</strong>`,
+  money(mover.price),
+  `<span style="color:${changeColor(mover.changePercent)};">${signedPercent(mover.changePercent)}</span>`,
+  `<span style="color:${changeColor(mover.changeValue)};">${signedMoney(mover.changeValue)}</span>`
+]);
+
+const renderPortfolio = (portfolio: DigestPortfolioSummary): string => {
+  const change = portfolio.valueChangePercent !== null
+    ? `${signedMoney(portfolio.valueChange)} (${signedPercent(portfolio.valueChangePercent)})`
+    : signedMoney(portfolio.valueChange);
+  const movers = [...portfolio.topGainers, ...portfolio.topLosers];
+  const skipped = Object.entries(portfolio.botActivity.skipped)
+    .map(([decision, count]) => `${count} ${decision.replace(/_/g, ' ').toLowerCase()}`)
+    .join(', ');
+
+  return `
+  <div style="margin-top:24px;padding:16px;border:1px solid ${COLORS.border};border-radius:8px;">
+    <h2 style="margin:0;font-size:17px;color:${COLORS.text};">${escapeHtml(portfolio.name)}</h2>
+    <p style="margin:4px 0 0;font-size:22px;font-weight:700;color:${COLORS.text};">${money(portfolio.endValue)}</p>
+    <p style="margin:2px 0 0;font-size:14px;color:${changeColor(portfolio.valueChange)};">${change}</p>
+    ${portfolio.netCashFlow !== 0
+    ? `<p style="margin:2px 0 0;font-size:12px;color:${COLORS.muted};">Net deposits of ${signedMoney(portfolio.netCashFlow)} are excluded from the change</p>`
+    : ''}
+    ${section('Top movers in your holdings', movers.length > 0
+    ? table(['Symbol', 'Price', 'Change', 'Your P&amp;L'], moverRows(movers))
+    : emptyNote('No price history to compare yet.'))}
+    ${section('Executed trades', portfolio.trades.length > 0
+    ? table(['Time', 'Trade', 'Price', 'Amount', 'Realized'], portfolio.trades.map(trade => [
+      formatTime(trade.executedAt),
+      `<span style="color:${trade.type === 'BUY' ? COLORS.up : COLORS.down};">${trade.type}</span> ${trade.quantity} ${escapeHtml(trade.symbol)}`,
+      money(trade.price),
+      money(trade.totalAmount),
+      trade.realizedPnl !== null
+        ? `<span style="color:${changeColor(trade.realizedPnl)};">${signedMoney(trade.realizedPnl)}</span>`
+        : ''
+    ]))
+    : emptyNote('No trades.'))}
+    ${portfolio.botActivity.decisions > 0
+    ? section('Trading bots', `<p style="margin:0;font-size:13px;color:${COLORS.text};">${portfolio.botActivity.decisions} decision(s): ${portfolio.botActivity.executed} executed${skipped ? `, skipped ${escapeHtml(skipped)}` : ''}</p>`)
+    : ''}
+  </div>`;
+};
+
+/**
+ * Self-contained HTML with inline styles only, so it renders the same in mail clients and the in-app archive
+ */
+export function renderDigestHtml(report: DigestReport, appUrl?: string): string {
+  const title = report.period === 'DAILY' ? 'Daily Digest' : 'Weekly Performance Report';
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:${COLORS.text};">
+<div style="max-width:640px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+  <h1 style="margin:0;font-size:20px;">📈 ${escapeHtml(title)}</h1>
+  <p style="margin:4px 0 0;font-size:13px;color:${COLORS.muted};">${escapeHtml(periodLabel(report))} · generated ${escapeHtml(formatTime(report.generatedAt))} ET</p>
+  ${report.portfolios.length > 0 ? report.portfolios.map(renderPortfolio).join('') : emptyNote('You have no active portfolios.')}
+  ${section('Triggered alerts', report.alerts.length > 0
+    ? table(['Time', 'Symbol', 'Alert'], report.alerts.map(alert => [
+      formatTime(alert.triggeredAt),
+      `<strong>${escapeHtml(alert.symbol)}</strong>`,
+      escapeHtml(alert.message)
+    ]))
+    : emptyNote('None of your alert rules fired.'))}
+  ${section('New high-confidence AI ideas', report.ideas.length > 0
+    ? table(['Symbol', 'Action', 'Confidence', 'Price → Target'], report.ideas.map(idea => [
+      `<strong>${escapeHtml(idea.symbol)}</strong><br><span style="color:${COLORS.muted};font-size:12px;">${escapeHtml(idea.name)}</span>`,
+      `<span style="color:${idea.action === 'BUY' ? COLORS.up : COLORS.down};">${idea.action}</span>`,
+      `${idea.confidence}%`,
+      `${money(idea.currentPrice)} → ${money(idea.targetPrice)}`
+    ]))
+    : emptyNote('No new ideas above the confidence bar.'))}
+  ${appUrl ? `<p style="margin:24px 0 0;font-size:13px;"><a href="${escapeHtml(appUrl)}" style="color:${COLORS.accent};">Open in Stock Trader AI</a></p>` : ''}
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * A few lines for channels that only show text (Telegram, ntfy, Gotify)
+ */
+export function renderDigestText(report: DigestReport): string {
+  const lines = report.portfolios.map(portfolio => {
+    const best = portfolio.topGainers[0];
+    const worst = portfolio.topLosers[0];
+    return [
+      `${portfolio.name}: ${money(portfolio.endValue)} (${signedMoney(portfolio.valueChange)})`,
+      best ? `best ${best.symbol} ${signedPercent(best.changePercent)}` : '',
+      worst ? `worst ${worst.symbol} ${signedPercent(worst.changePercent)}` : '',
+      portfolio.trades.length > 0 ? `${portfolio.trades.length} trade(s)` : ''
+    ].filter(Boolean).join(', ');
+  });
+
+  lines.push(`${report.alerts.length} alert(s) triggered, ${report.ideas.length} new AI idea(s)`);
+  return lines.join('\n');
+}
@@ -0,0 +1,378 @@
+// Digest service - daily and weekly after-close portfolio reports, archived and delivered through the notification channels
+import { Digest as DigestRecord, Portfolio, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getDigestSubject, renderDigestHtml, renderDigestText } from '@/services/digestRenderer';
+import { getAppUrl, notificationService } from '@/services/notifications';
+import { portfolioSnapshotService, SnapshotPosition } from '@/services/portfolioSnapshots';
+import { serverCacheService } from '@/services/serverCache';
+import { getTradingDate, isAfterMarketClose, isTradingDay, toEasternTime } from '@/utils/marketHours';
+import type {
+  DigestBotActivity,
+  DigestDetail,
+  DigestIdea,
+  DigestMover,
+  DigestPeriod,
+  DigestPortfolioSummary,
+  DigestPreferences,
+  DigestReport,
+  DigestSummary
+} from '@/types/digests';
+import type { DispatchResult } from '@/types/notifications';
+
+const DEFAULT_INTERVAL_MS = 300000; // Look for the close every 5 minutes
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_DAYS: Record<DigestPeriod, number> = { DAILY: 1, WEEKLY: 7 };
+const MAX_GAP_DAYS = 3; // A weekend between two daily digests
+const TOP_MOVERS = 3;
+const MAX_ALERTS = 50;
+const MIN_IDEA_CONFIDENCE = 80;
+const MAX_IDEAS = 10;
+const FRIDAY = 5;
+
+const DEFAULT_PREFERENCES: DigestPreferences = {
+  dailyDigest: true,
+  tradeAlerts: true,
+  marketNews: true,
+  performanceReports: true
+};
+
+// @db.Date columns store the trading date at UTC midnight
+const toSnapshotDate = (tradingDate: string): Date => new Date(`${tradingDate}T00:00:00.000Z`);
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Monday of the week containing the trading date
+const getWeekStart = (tradingDate: string): string => {
+  const date = toSnapshotDate(tradingDate);
+  date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+  return toDateString(date);
+};
+
+const toPreferences = (value: Prisma.JsonValue | null): DigestPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...(value as Partial<DigestPreferences> | null)
+});
+
+const toSummary = (record: DigestRecord): DigestSummary => ({
+  id: record.id,
+  period: record.period,
+  periodStart: toDateString(record.periodStart),
+  periodEnd: toDateString(record.periodEnd),
+  subject: record.subject,
+  deliveredTo: ((record.deliveries ?? []) as unknown as DispatchResult[]).filter(result => result.status === 'SENT').length,
+  createdAt: record.createdAt.toISOString()
+});
+
+const toDetail = (record: DigestRecord): DigestDetail => ({
+  ...toSummary(record),
+  report: record.report as unknown as DigestReport,
+  html: record.html,
+  deliveries: record.deliveries as unknown as DispatchResult[] | null
+});
+
+class DigestService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastScheduledDate: string | null = null;
+  private isRunningDigests = false;
+
+  /**
+   * Start the after-close scheduler (idempotent)
+   */
+  start(intervalMs: number = Number(process.env.DIGEST_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runScheduledDigests().catch(error => console.error('Digest tick failed:', error));
+    }, intervalMs);
+
+    console.log(`📰 Digest scheduler started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Once per trading day after the close, send the daily digest to users who want it,
+   * and on Fridays the weekly report. Digests already archived for the date are not resent.
+   */
+  async runScheduledDigests(now: Date = new Date()): Promise<number> {
+    const tradingDate = getTradingDate(now);
+    if (this.isRunningDigests || this.lastScheduledDate === tradingDate) return 0;
+    if (!isTradingDay(now) || !isAfterMarketClose(now)) return 0;
+
+    this.isRunningDigests = true;
+    try {
+      const periods: DigestPeriod[] = toEasternTime(now).getDay() === FRIDAY ? ['DAILY', 'WEEKLY'] : ['DAILY'];
+      const users = await prisma.user.findMany({
+        where: { portfolios: { some: { isArchived: false } } },
+        select: { id: true, notificationPreferences: true }
+      });
+      let sent = 0;
+
+      for (const user of users) {
+        const preferences = toPreferences(user.notificationPreferences);
+
+        for (const period of periods) {
+          if (period === 'DAILY' ? !preferences.dailyDigest : !preferences.performanceReports) continue;
+
+          try {
+            const existing = await prisma.digest.findUnique({
+              where: { unique_user_digest_period: { userId: user.id, period, periodEnd: toSnapshotDate(tradingDate) } },
+              select: { id: true }
+            });
+            if (existing) continue;
+
+            await this.generateDigest(user.id, period, true, now);
+            sent++;
+          } catch (error) {
+            console.error(`${period} digest failed for user ${user.id}:`, error);
+          }
+        }
+      }
+
+      this.lastScheduledDate = tradingDate;
+      console.log(`📰 Sent ${sent} digest(s) for ${tradingDate}`);
+      return sent;
+    } finally {
+      this.isRunningDigests = false;
+    }
+  }
+
+  /**
+   * Build, archive and optionally deliver the digest for the current trading date.
+   * Regenerating the same period replaces the archived copy.
+   */
+  async generateDigest(userId: number, period: DigestPeriod, deliver = true, now: Date = new Date()): Promise<DigestDetail> {
+    const report = await this.buildReport(userId, period, now);
+    const subject = getDigestSubject(report);
+    const html = renderDigestHtml(report, getAppUrl('/digests'));
+    const data = {
+      periodStart: toSnapshotDate(report.periodStart),
+      subject,
+      report: report as unknown as Prisma.InputJsonValue,
+      html,
+      deliveries: Prisma.DbNull
+    };
+
+    const record = await prisma.digest.upsert({
+      where: { unique_user_digest_period: { userId, period, periodEnd: toSnapshotDate(report.periodEnd) } },
+      update: { ...data, createdAt: now },
+      create: { userId, period, periodEnd: toSnapshotDate(report.periodEnd), ...data, createdAt: now }
+    });
+
+    if (!deliver) {
+      return toDetail(record);
+    }
+
+    const deliveries = await notificationService.dispatch(userId, {
+      title: subject,
+      message: renderDigestText(report),
+      priority: 'MEDIUM',
+      url: getAppUrl(`/digests?id=${record.id}`),
+      html
+    }, now);
+
+    const updated = await prisma.digest.update({
+      where: { id: record.id },
+      data: { deliveries: deliveries as unknown as Prisma.InputJsonValue }
+    });
+    return toDetail(updated);
+  }
+
+  async listDigests(userId: number, limit: number = 30): Promise<DigestSummary[]> {
+    const records = await prisma.digest.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+    return records.map(toSummary);
+  }
+
+  async getDigest(userId: number, digestId: number): Promise<DigestDetail> {
+    const record = await prisma.digest.findFirst({ where: { id: digestId, userId } });
+    if (!record) {
+      throw new Error('Digest not found');
+    }
+    return toDetail(record);
+  }
+
+  async getPreferences(userId: number): Promise<DigestPreferences> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { notificationPreferences: true } });
+    return toPreferences(user?.notificationPreferences ?? null);
+  }
+
+  async updatePreferences(userId: number, updates: Partial<DigestPreferences>): Promise<DigestPreferences> {
+    const preferences = { ...(await this.getPreferences(userId)), ...updates };
+    await prisma.user.update({
+      where: { id: userId },
+      data: { notificationPreferences: preferences }
+    });
+    return preferences;
+  }
+
+  /**
+   * Activity since the previous digest of the same period, or over the last day/week
+   * when there is none (or it is too old to be a meaningful baseline)
+   */
+  private async buildReport(userId: number, period: DigestPeriod, now: Date): Promise<DigestReport> {
+    const periodEnd = getTradingDate(now);
+    const periodStart = period === 'DAILY' ? periodEnd : getWeekStart(periodEnd);
+
+    const previous = await prisma.digest.findFirst({
+      where: { userId, period, periodEnd: { lt: toSnapshotDate(periodEnd) } },
+      orderBy: { periodEnd: 'desc' },
+      select: { createdAt: true }
+    });
+    const fallback = new Date(now.getTime() - PERIOD_DAYS[period] * DAY_MS);
+    const oldest = new Date(now.getTime() - (PERIOD_DAYS[period] + MAX_GAP_DAYS) * DAY_MS);
+    const since = previous && previous.createdAt > oldest ? previous.createdAt : fallback;
+
+    const portfolios = await prisma.portfolio.findMany({
+      where: { userId, isArchived: false },
+      orderBy: { id: 'asc' }
+    });
+
+    const summaries: DigestPortfolioSummary[] = [];
+    for (const portfolio of portfolios) {
+      summaries.push(await this.buildPortfolioSummary(portfolio, periodStart, since, now));
+    }
+
+    const alerts = await prisma.alertEvent.findMany({
+      where: { userId, triggeredAt: { gt: since, lte: now } },
+      orderBy: { triggeredAt: 'asc' },
+      take: MAX_ALERTS
+    });
+
+    return {
+      period,
+      periodStart,
+      periodEnd,
+      since: since.toISOString(),
+      generatedAt: now.toISOString(),
+      portfolios: summaries,
+      alerts: alerts.map(alert => ({
+        symbol: alert.symbol,
+        type: alert.type,
+        message: alert.message,
+        triggeredAt: alert.triggeredAt.toISOString()
+      })),
+      ideas: await this.getNewIdeas(since)
+    };
+  }
+
+  /**
+   * End value comes from a fresh snapshot; the start is the last close before the period.
+   * The value change excludes deposits and withdrawals made since then.
+   */
+  private async buildPortfolioSummary(portfolio: Portfolio, periodStart: string, since: Date, now: Date): Promise<DigestPortfolioSummary> {
+    const end = await portfolioSnapshotService.takeSnapshot(portfolio.id, isAfterMarketClose(now) ? 'SCHEDULED' : 'MANUAL', now);
+    const start = await prisma.portfolioSnapshot.findFirst({
+      where: { portfolioId: portfolio.id, snapshotDate: { lt: toSnapshotDate(periodStart) } },
+      orderBy: { snapshotDate: 'desc' }
+    });
+
+    const cashFlows = await prisma.cashFlow.findMany({
+      where: { portfolioId: portfolio.id, occurredAt: { gt: start?.takenAt ?? since, lte: now } }
+    });
+    const netCashFlow = cashFlows.reduce((sum, flow) =>
+      sum + (flow.type === 'DEPOSIT' ? Number(flow.amount) : -Number(flow.amount)), 0);
+
+    const startValue = start ? Number(start.totalValue) : null;
+    const valueChange = startValue !== null ? end.totalValue - startValue - netCashFlow : 0;
+    const movers = start ? this.getMovers(start.positions as unknown as Record<string, SnapshotPosition>, end.holdings) : [];
+
+    const transactions = await prisma.transaction.findMany({
+      where: { portfolioId: portfolio.id, transactionDate: { gt: since, lte: now } },
+      orderBy: { transactionDate: 'asc' }
+    });
+
+    return {
+      portfolioId: portfolio.id,
+      name: portfolio.name,
+      startValue,
+      endValue: end.totalValue,
+      netCashFlow,
+      valueChange,
+      valueChangePercent: startValue ? (valueChange / startValue) * 100 : null,
+      topGainers: movers.filter(mover => mover.changePercent > 0).slice(0, TOP_MOVERS),
+      topLosers: movers.filter(mover => mover.changePercent < 0).reverse().slice(0, TOP_MOVERS),
+      trades: transactions.map(transaction => ({
+        symbol: transaction.symbol,
+        type: transaction.type,
+        quantity: Number(transaction.quantity),
+        price: Number(transaction.price),
+        totalAmount: Number(transaction.totalAmount),
+        realizedPnl: transaction.realizedPnl !== null ? Number(transaction.realizedPnl) : null,
+        executedAt: transaction.transactionDate.toISOString()
+      })),
+      botActivity: await this.getBotActivity(portfolio.id, since, now)
+    };
+  }
+
+  // Positions held at both ends, sorted best to worst
+  private getMovers(start: Record<string, SnapshotPosition>, end: Record<string, SnapshotPosition>): DigestMover[] {
+    return Object.values(end)
+      .filter(position => start[position.symbol]?.price > 0)
+      .map(position => {
+        const startPrice = start[position.symbol].price;
+        return {
+          symbol: position.symbol,
+          changePercent: (position.price / startPrice - 1) * 100,
+          changeValue: position.quantity * (position.price - startPrice),
+          price: position.price
+        };
+      })
+      .sort((a, b) => b.changePercent - a.changePercent);
+  }
+
+  private async getBotActivity(portfolioId: number, since: Date, now: Date): Promise<DigestBotActivity> {
+    const decisions = await prisma.botDecision.findMany({
+      where: { bot: { portfolioId }, createdAt: { gt: since, lte: now } },
+      select: { decision: true, tradeExecuted: true }
+    });
+
+    const skipped: Record<string, number> = {};
+    for (const { decision, tradeExecuted } of decisions) {
+      if (!tradeExecuted) {
+        skipped[decision] = (skipped[decision] ?? 0) + 1;
+      }
+    }
+
+    return {
+      decisions: decisions.length,
+      executed: decisions.filter(decision => decision.tradeExecuted).length,
+      skipped
+    };
+  }
+
+  // BUY/SELL calls from the daily recommendations generated since the last digest
+  private async getNewIdeas(since: Date): Promise<DigestIdea[]> {
+    const cache = await serverCacheService.getCachedRecommendations();
+    if (!cache) return [];
+
+    return cache.recommendations
+      .filter(recommendation => recommendation.action !== 'HOLD' &&
+        recommendation.confidence >= MIN_IDEA_CONFIDENCE &&
+        new Date(recommendation.generatedAt || cache.generatedAt) > since)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_IDEAS)
+      .map(recommendation => ({
+        symbol: recommendation.symbol,
+        name: recommendation.name,
+        action: recommendation.action as DigestIdea['action'],
+        confidence: recommendation.confidence,
+        currentPrice: recommendation.currentPrice,
+        targetPrice: recommendation.targetPrice,
+        reasoning: recommendation.reasoning
+      }));
+  }
+}
+
+export const digestService = new DigestService();
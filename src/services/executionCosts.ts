@@ -0,0 +1,212 @@
+// Execution cost service - commission, bid/ask spread and slippage for simulated fills
+import { finnhubService } from './finnhub';
+import { prisma } from '@/lib/prisma';
+import {
+  CommissionModelType,
+  ExecutionCostSettings,
+  FillCosts,
+  SlippageModelType,
+  SpreadModelType
+} from '@/types/orders';
+
+export const DEFAULT_EXECUTION_COST_SETTINGS: ExecutionCostSettings = {
+  commissionModel: 'NONE',
+  commissionPerShare: 0.005,
+  commissionPercent: 0.1,
+  minimumCommission: 0,
+  spreadModel: 'QUOTE_RANGE',
+  spreadFactor: 0.05,
+  maxSpreadBps: 50,
+  slippageModel: 'VOLUME',
+  baseSlippageBps: 1,
+  volumeImpactBps: 10,
+  maxSlippageBps: 100
+};
+
+// Market data the price-impact models may use; missing values simply disable that component
+export interface MarketConditions {
+  high?: number;
+  low?: number;
+  averageDailyVolume?: number; // Shares
+}
+
+export interface FillContext {
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  market: MarketConditions;
+}
+
+export interface CommissionModel {
+  calculate(quantity: number, price: number, settings: ExecutionCostSettings): number;
+}
+
+// Price impact models return the adverse per-share price move for a fill
+export interface PriceImpactModel {
+  calculate(context: FillContext, settings: ExecutionCostSettings): number;
+}
+
+const bps = (price: number, basisPoints: number) => price * basisPoints / 10000;
+
+class ExecutionCostService {
+  private commissionModels = new Map<CommissionModelType, CommissionModel>([
+    ['NONE', { calculate: () => 0 }],
+    ['PER_SHARE', { calculate: (quantity, _price, settings) => quantity * settings.commissionPerShare }],
+    ['PERCENTAGE', { calculate: (quantity, price, settings) => quantity * price * settings.commissionPercent / 100 }]
+  ]);
+
+  private spreadModels = new Map<SpreadModelType, PriceImpactModel>([
+    ['NONE', { calculate: () => 0 }],
+    // Half of the estimated spread: a fraction of the day's range, capped in bps
+    ['QUOTE_RANGE', {
+      calculate: ({ price, market }, settings) => {
+        if (!market.high || !market.low || market.high <= market.low) return 0;
+        const spread = Math.min((market.high - market.low) * settings.spreadFactor, bps(price, settings.maxSpreadBps));
+        return spread / 2;
+      }
+    }]
+  ]);
+
+  private slippageModels = new Map<SlippageModelType, PriceImpactModel>([
+    ['NONE', { calculate: () => 0 }],
+    // Square-root impact: volumeImpactBps at 1% of average daily volume
+    ['VOLUME', {
+      calculate: ({ quantity, price, market }, settings) => {
+        const participation = market.averageDailyVolume ? quantity / market.averageDailyVolume : 0;
+        const impactBps = settings.baseSlippageBps + settings.volumeImpactBps * Math.sqrt(participation / 0.01);
+        return bps(price, Math.min(impactBps, settings.maxSlippageBps));
+      }
+    }]
+  ]);
+
+  registerCommissionModel(type: CommissionModelType, model: CommissionModel): void {
+    this.commissionModels.set(type, model);
+  }
+
+  registerSpreadModel(type: SpreadModelType, model: PriceImpactModel): void {
+    this.spreadModels.set(type, model);
+  }
+
+  registerSlippageModel(type: SlippageModelType, model: PriceImpactModel): void {
+    this.slippageModels.set(type, model);
+  }
+
+  /**
+   * Stored settings for a portfolio merged over the defaults
+   */
+  async getSettings(portfolioId: number): Promise<ExecutionCostSettings> {
+    const portfolio = await prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      select: { executionCosts: true }
+    });
+
+    const stored = portfolio?.executionCosts;
+    if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+      return { ...DEFAULT_EXECUTION_COST_SETTINGS };
+    }
+
+    return { ...DEFAULT_EXECUTION_COST_SETTINGS, ...(stored as Partial<ExecutionCostSettings>) };
+  }
+
+  async updateSettings(portfolioId: number, updates: Partial<ExecutionCostSettings>): Promise<ExecutionCostSettings> {
+    const settings = { ...(await this.getSettings(portfolioId)), ...updates };
+
+    await prisma.portfolio.update({
+      where: { id: portfolioId },
+      data: { executionCosts: { ...settings } }
+    });
+
+    return settings;
+  }
+
+  /**
+   * Quote range and average volume for the models that need them. Market data
+   * failures fall back to no spread / base slippage rather than blocking the trade.
+   */
+  async getMarketConditions(symbol: string, settings: ExecutionCostSettings): Promise<MarketConditions> {
+    const market: MarketConditions = {};
+
+    if (settings.spreadModel !== 'NONE') {
+      try {
+        const quote = await finnhubService.getQuote(symbol);
+        market.high = quote.h;
+        market.low = quote.l;
+      } catch (error) {
+        console.warn(`Execution costs: quote unavailable for ${symbol}:`, error);
+      }
+    }
+
+    if (settings.slippageModel !== 'NONE') {
+      try {
+        const financials = await finnhubService.getBasicFinancials(symbol);
+        const volumeMillions = Number(financials.metric['10DayAverageTradingVolume']);
+        if (volumeMillions > 0) {
+          market.averageDailyVolume = volumeMillions * 1_000_000;
+        }
+      } catch (error) {
+        console.warn(`Execution costs: volume unavailable for ${symbol}:`, error);
+      }
+    }
+
+    return market;
+  }
+
+  /**
+   * Apply commission, spread and slippage to a fill. A limit price caps how far
+   * the fill can move against the trader.
+   */
+  calculateCosts(
+    context: FillContext,
+    settings: ExecutionCostSettings,
+    limitPrice?: number
+  ): FillCosts {
+    const { side, quantity, price } = context;
+    const direction = side === 'BUY' ? 1 : -1;
+
+    const spreadModel = this.spreadModels.get(settings.spreadModel) ?? this.spreadModels.get('NONE')!;
+    const slippageModel = this.slippageModels.get(settings.slippageModel) ?? this.slippageModels.get('NONE')!;
+    const commissionModel = this.commissionModels.get(settings.commissionModel) ?? this.commissionModels.get('NONE')!;
+
+    const halfSpread = Math.max(0, spreadModel.calculate(context, settings));
+    let adverseMove = halfSpread + Math.max(0, slippageModel.calculate(context, settings));
+
+    if (limitPrice !== undefined) {
+      adverseMove = Math.min(adverseMove, Math.max(0, direction * (limitPrice - price)));
+    }
+
+    const spreadPerShare = Math.min(halfSpread, adverseMove);
+    const impact = adverseMove - spreadPerShare;
+    const fillPrice = Math.max(0.0001, price + direction * adverseMove);
+
+    let commission = commissionModel.calculate(quantity, fillPrice, settings);
+    if (settings.commissionModel !== 'NONE' && settings.minimumCommission > 0) {
+      commission = Math.max(commission, settings.minimumCommission);
+    }
+
+    return {
+      referencePrice: price,
+      fillPrice: Math.round(fillPrice * 10000) / 10000,
+      spreadCost: Math.round(quantity * spreadPerShare * 10000) / 10000,
+      slippageCost: Math.round(quantity * impact * 10000) / 10000,
+      commission: Math.round(commission * 100) / 100
+    };
+  }
+
+  /**
+   * Settings, market data and cost calculation in one call for a portfolio fill
+   */
+  async estimateFill(
+    portfolioId: number,
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    quantity: number,
+    price: number,
+    limitPrice?: number
+  ): Promise<FillCosts> {
+    const settings = await this.getSettings(portfolioId);
+    const market = await this.getMarketConditions(symbol, settings);
+    return this.calculateCosts({ side, quantity, price, market }, settings, limitPrice);
+  }
+}
+
+export const executionCostService = new ExecutionCostService();
@@ -1,6 +1,9 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { formatIndicatorsForPrompt } from './indicators';
+import { TechnicalIndicators } from '@/types/recommendations';
 
 const GEMINI_API_KEY = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
+export const GEMINI_MODEL = 'gemini-1.5-flash';
 
 if (!GEMINI_API_KEY) {
   throw new Error('NEXT_PUBLIC_GEMINI_API_KEY is not defined');
@@ -52,6 +55,7 @@ interface StockData {
   peRatio: number;
   beta?: number;
   industry?: string;
+  indicators?: TechnicalIndicators; // Daily technical indicators, when candle history is available
 }
 
 interface Portfolio {
@@ -68,7 +72,7 @@ interface Portfolio {
 }
 
 class GeminiService {
-  private model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+  private model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
 
   async getTradeRecommendation(
     stockData: StockData, 
@@ -99,7 +103,7 @@ class GeminiService {
       Technical Indicators:
       - Current price vs 52-week range: ${((stockData.currentPrice - stockData.low52) / (stockData.high52 - stockData.low52) * 100).toFixed(1)}% of range
       - Distance from 52-week high: ${((stockData.high52 - stockData.currentPrice) / stockData.high52 * 100).toFixed(1)}%
-      
+${stockData.indicators ? formatIndicatorsForPrompt(stockData.indicators, '      ') + '\n' : ''}      
       Provide a JSON response with:
       {
         "recommendation": "BUY/SELL/HOLD",
@@ -115,7 +119,7 @@ class GeminiService {
       }
       
       Consider:
-      - Technical analysis (price relative to 52-week range)
+      - Technical analysis (price relative to 52-week range, RSI, MACD, moving averages, support/resistance)
       - Fundamental metrics (P/E ratio, market cap)
       - Portfolio diversification and risk management
       - Market sentiment and sector trends
@@ -0,0 +1,229 @@
+// Technical indicator service - RSI, MACD, moving averages, Bollinger Bands, volume and support/resistance from daily candles
+import { finnhubService } from './finnhub';
+import { TechnicalIndicators } from '@/types/recommendations';
+import { PriceBar } from '@/types/strategy';
+
+const DAY_SECONDS = 86400;
+const HISTORY_DAYS = 400;  // Calendar days fetched on first use, ~275 trading days
+const MAX_BARS = 260;      // Bars kept per symbol; EMA26 and SMA50 have long settled by then
+const MIN_BARS = 50;       // SMA50 is the longest lookback
+const PIVOT_WINDOW = 5;    // Bars either side of a swing high/low
+const LEVEL_LOOKBACK = 120;
+const LEVEL_MERGE_PERCENT = 1.5; // Swing points this close together count as one level
+const MAX_LEVELS = 3;
+
+const round = (value: number, decimals: number = 2): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const sma = (values: number[], period: number): number => average(values.slice(-period));
+
+// EMA series aligned with `values`, seeded with the SMA of the first `period` values; earlier entries are NaN
+const emaSeries = (values: number[], period: number): number[] => {
+  const series = new Array<number>(values.length).fill(NaN);
+  if (values.length < period) return series;
+
+  const k = 2 / (period + 1);
+  series[period - 1] = average(values.slice(0, period));
+  for (let i = period; i < values.length; i++) {
+    series[i] = values[i] * k + series[i - 1] * (1 - k);
+  }
+  return series;
+};
+
+// Wilder's RSI
+const rsi = (closes: number[], period: number): number => {
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+  }
+
+  if (avgLoss === 0) return 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+};
+
+// Nearest distinct levels first; swing points within LEVEL_MERGE_PERCENT of a kept level are dropped
+const pickLevels = (candidates: number[], price: number): number[] => {
+  const levels: number[] = [];
+  const nearestFirst = [...candidates].sort((a, b) => Math.abs(a - price) - Math.abs(b - price));
+
+  for (const level of nearestFirst) {
+    if (levels.every(kept => Math.abs(kept - level) / kept * 100 > LEVEL_MERGE_PERCENT)) {
+      levels.push(round(level));
+    }
+    if (levels.length === MAX_LEVELS) break;
+  }
+  return levels;
+};
+
+/**
+ * Indicators from daily bars, oldest first. Needs at least MIN_BARS bars.
+ */
+export function computeIndicators(symbol: string, bars: PriceBar[]): TechnicalIndicators {
+  if (bars.length < MIN_BARS) {
+    throw new Error(`Not enough price history for ${symbol}`);
+  }
+
+  const closes = bars.map(bar => bar.close);
+  const price = closes[closes.length - 1];
+
+  const ema12 = emaSeries(closes, 12);
+  const ema26 = emaSeries(closes, 26);
+  const macdLine = closes.map((_, i) => ema12[i] - ema26[i]).slice(25);
+  const signalLine = emaSeries(macdLine, 9);
+  const macd = macdLine[macdLine.length - 1];
+  const signal = signalLine[signalLine.length - 1];
+
+  const middle = sma(closes, 20);
+  const deviation = Math.sqrt(average(closes.slice(-20).map(close => Math.pow(close - middle, 2))));
+
+  // Today's volume against the 20 sessions before it
+  const currentVolume = bars[bars.length - 1].volume;
+  const averageVolume = average(bars.slice(-21, -1).map(bar => bar.volume));
+
+  // Swing highs/lows whose window is complete, so the last PIVOT_WINDOW bars cannot form one yet
+  const recent = bars.slice(-LEVEL_LOOKBACK);
+  const swingLows: number[] = [];
+  const swingHighs: number[] = [];
+  for (let i = PIVOT_WINDOW; i < recent.length - PIVOT_WINDOW; i++) {
+    const window = recent.slice(i - PIVOT_WINDOW, i + PIVOT_WINDOW + 1);
+    if (window.every(bar => bar.low >= recent[i].low)) swingLows.push(recent[i].low);
+    if (window.every(bar => bar.high <= recent[i].high)) swingHighs.push(recent[i].high);
+  }
+
+  return {
+    symbol,
+    rsi: round(rsi(closes, 14)),
+    macd: {
+      macd: round(macd, 4),
+      signal: round(signal, 4),
+      histogram: round(macd - signal, 4)
+    },
+    movingAverages: {
+      sma20: round(middle),
+      sma50: round(sma(closes, 50)),
+      ema12: round(ema12[ema12.length - 1]),
+      ema26: round(ema26[ema26.length - 1])
+    },
+    bollingerBands: {
+      upper: round(middle + 2 * deviation),
+      middle: round(middle),
+      lower: round(middle - 2 * deviation)
+    },
+    volume: {
+      current: currentVolume,
+      average: Math.round(averageVolume),
+      volumeRatio: averageVolume > 0 ? round(currentVolume / averageVolume) : 0
+    },
+    support: pickLevels(swingLows.filter(level => level < price), price),
+    resistance: pickLevels(swingHighs.filter(level => level > price), price)
+  };
+}
+
+/**
+ * Indicator lines for AI prompts, one "- " bullet each
+ */
+export function formatIndicatorsForPrompt(indicators: TechnicalIndicators, indent: string = ''): string {
+  const { rsi, macd, movingAverages, bollingerBands, volume, support, resistance } = indicators;
+  const rsiState = rsi >= 70 ? 'overbought' : rsi <= 30 ? 'oversold' : 'neutral';
+  const formatLevels = (levels: number[]) => levels.length > 0 ? levels.map(level => `$${level}`).join(', ') : 'none nearby';
+
+  return [
+    `- RSI(14): ${rsi} (${rsiState})`,
+    `- MACD(12,26,9): ${macd.macd}, signal ${macd.signal}, histogram ${macd.histogram} (${macd.histogram >= 0 ? 'bullish' : 'bearish'})`,
+    `- SMA20: $${movingAverages.sma20}, SMA50: $${movingAverages.sma50}, EMA12: $${movingAverages.ema12}, EMA26: $${movingAverages.ema26}`,
+    `- Bollinger Bands(20,2): lower $${bollingerBands.lower}, middle $${bollingerBands.middle}, upper $${bollingerBands.upper}`,
+    `- Volume: ${volume.current.toLocaleString()} vs 20-day average ${volume.average.toLocaleString()} (${volume.volumeRatio}x)`,
+    `- Support: ${formatLevels(support)}`,
+    `- Resistance: ${formatLevels(resistance)}`
+  ].map(line => indent + line).join('\n');
+}
+
+interface SymbolHistory {
+  bars: PriceBar[];
+  indicators: TechnicalIndicators;
+  refreshedAt: number;
+}
+
+class IndicatorService {
+  private history = new Map<string, SymbolHistory>();
+  private readonly REFRESH_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
+  /**
+   * Current indicators for a symbol. Candle history is cached per symbol and only the
+   * days since the last cached bar are fetched on refresh.
+   */
+  async getIndicators(symbol: string): Promise<TechnicalIndicators> {
+    return (await this.getHistory(symbol)).indicators;
+  }
+
+  /**
+   * Daily bars behind the indicators, oldest first, from the same cache
+   */
+  async getBars(symbol: string): Promise<PriceBar[]> {
+    return (await this.getHistory(symbol)).bars;
+  }
+
+  private async getHistory(symbol: string): Promise<SymbolHistory> {
+    const key = symbol.toUpperCase();
+    const cached = this.history.get(key);
+    if (cached && Date.now() - cached.refreshedAt < this.REFRESH_INTERVAL) {
+      return cached;
+    }
+
+    const bars = await this.refreshBars(key, cached?.bars ?? []);
+    const history = { bars, indicators: computeIndicators(key, bars), refreshedAt: Date.now() };
+    this.history.set(key, history);
+    return history;
+  }
+
+  private async refreshBars(symbol: string, bars: PriceBar[]): Promise<PriceBar[]> {
+    const now = Math.floor(Date.now() / 1000);
+    // Refetch from the last cached day, whose bar is still forming while the market is open
+    const from = bars.length > 0
+      ? Math.floor(new Date(`${bars[bars.length - 1].date}T00:00:00Z`).getTime() / 1000)
+      : now - HISTORY_DAYS * DAY_SECONDS;
+
+    const candles = await finnhubService.getCandles(symbol, 'D', from, now);
+    if (candles.s !== 'ok' || !candles.t?.length) {
+      if (bars.length === 0) {
+        throw new Error(`No price history for ${symbol}`);
+      }
+      return bars;
+    }
+
+    const merged = new Map(bars.map(bar => [bar.date, bar]));
+    candles.t.forEach((timestamp, i) => {
+      const date = new Date(timestamp * 1000).toISOString().slice(0, 10);
+      merged.set(date, {
+        date,
+        open: candles.o[i],
+        high: candles.h[i],
+        low: candles.l[i],
+        close: candles.c[i],
+        volume: candles.v[i] ?? 0
+      });
+    });
+
+    return Array.from(merged.values())
+      .filter(bar => bar.close > 0)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-MAX_BARS);
+  }
+}
+
+export const indicatorService = new IndicatorService();
@@ -66,6 +66,13 @@ class IndicesService {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Every constituent symbol across the tracked indices, without duplicates
+   */
+  getUniverse(): string[] {
+    return Array.from(new Set(Object.values(this.INDEX_CONSTITUENTS).flat()));
+  }
+
   async getIndexStocks(indexName: keyof typeof this.INDEX_CONSTITUENTS): Promise<IndexStock[]> {
     const cacheKey = `index_${indexName}`;
     const cached = this.getFromCache<IndexStock[]>(cacheKey);
@@ -0,0 +1,188 @@
+// Notification channel senders - one delivery implementation per outbound channel type
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { getSmtpConfig, sendMail } from '@/lib/smtp';
+import type {
+  EmailChannelConfig,
+  GotifyChannelConfig,
+  NotificationChannelConfig,
+  NotificationChannelType,
+  NotificationPriority,
+  NtfyChannelConfig,
+  OutboundNotification,
+  TelegramChannelConfig,
+  WebhookChannelConfig
+} from '@/types/notifications';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+export interface ChannelSender {
+  send(config: NotificationChannelConfig, notification: OutboundNotification): Promise<void>;
+}
+
+// ntfy uses 1-5 and Gotify 0-10; both treat their top values as "wake me up"
+const NTFY_PRIORITIES: Record<NotificationPriority, number> = { LOW: 2, MEDIUM: 3, HIGH: 4, URGENT: 5 };
+const GOTIFY_PRIORITIES: Record<NotificationPriority, number> = { LOW: 2, MEDIUM: 4, HIGH: 7, URGENT: 10 };
+
+const withoutTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+const formatText = (notification: OutboundNotification): string =>
+  [notification.message, notification.url].filter(Boolean).join('\n\n');
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges
+const isPrivateAddress = (address: string): boolean => {
+  if (isIP(address) === 6) {
+    const normalized = address.toLowerCase();
+    // IPv4-mapped addresses, dotted or in the hex form URL parsing produces
+    const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+      const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return normalized === '::' || normalized === '::1' || /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized) || /^ff/.test(normalized);
+  }
+
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168);
+};
+
+/**
+ * User-supplied destinations must be public http(s) hosts, so a channel cannot be pointed at
+ * services on the server's own network. Every resolved address is checked. Self-hosters with
+ * ntfy or Gotify on their LAN can opt out with NOTIFICATION_ALLOW_PRIVATE_HOSTS=true.
+ */
+async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Invalid destination URL');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Destination URL must use http or https');
+  }
+  if (process.env.NOTIFICATION_ALLOW_PRIVATE_HOSTS === 'true') return;
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true }).catch(() => [])).map(entry => entry.address);
+
+  if (addresses.length === 0) {
+    throw new Error(`Destination host ${hostname} could not be resolved`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`Destination host ${hostname} is on a private network`);
+  }
+}
+
+async function post(url: string, body: string, headers: Record<string, string>): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body,
+    redirect: 'manual', // A redirect could lead to a host the check above never saw
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+
+  // The body is never passed on: it could be content from a host the user should not read
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+const emailSender: ChannelSender = {
+  async send(config, notification) {
+    const smtp = getSmtpConfig();
+    if (!smtp) {
+      throw new Error('Email is not configured on the server (SMTP_HOST)');
+    }
+    await sendMail(smtp, {
+      to: (config as EmailChannelConfig).to,
+      subject: `[${notification.priority}] ${notification.title}`,
+      text: formatText(notification),
+      html: notification.html
+    });
+  }
+};
+
+/**
+ * JSON POST signed with HMAC-SHA256 over "<timestamp>.<body>". Receivers recompute the
+ * signature from the X-Webhook-Timestamp header and raw body, and reject stale timestamps.
+ */
+const webhookSender: ChannelSender = {
+  async send(config, notification) {
+    const { url, secret } = config as WebhookChannelConfig;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const body = JSON.stringify({ ...notification, sentAt: new Date().toISOString() });
+    const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+    await assertPublicUrl(url);
+    await post(url, body, {
+      'Content-Type': 'application/json',
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${signature}`
+    });
+  }
+};
+
+const telegramSender: ChannelSender = {
+  async send(config, notification) {
+    const { botToken, chatId } = config as TelegramChannelConfig;
+    const apiUrl = withoutTrailingSlash(process.env.TELEGRAM_API_URL || 'https://api.telegram.org');
+
+    await post(`${apiUrl}/bot${botToken}/sendMessage`, JSON.stringify({
+      chat_id: chatId,
+      text: `${notification.title}\n\n${formatText(notification)}`,
+      disable_web_page_preview: true
+    }), { 'Content-Type': 'application/json' });
+  }
+};
+
+const ntfySender: ChannelSender = {
+  async send(config, notification) {
+    const { serverUrl, topic, token } = config as NtfyChannelConfig;
+
+    await assertPublicUrl(serverUrl);
+    await post(`${withoutTrailingSlash(serverUrl)}/${topic}`, notification.message, {
+      // ntfy reads metadata from headers, which must stay ASCII
+      'Title': notification.title.replace(/[^\x20-\x7e]/g, ''),
+      'Priority': NTFY_PRIORITIES[notification.priority].toString(),
+      ...(notification.symbol ? { 'Tags': notification.symbol } : {}),
+      ...(notification.url ? { 'Click': notification.url } : {}),
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+    });
+  }
+};
+
+const gotifySender: ChannelSender = {
+  async send(config, notification) {
+    const { serverUrl, appToken } = config as GotifyChannelConfig;
+
+    await assertPublicUrl(serverUrl);
+    await post(`${withoutTrailingSlash(serverUrl)}/message`, JSON.stringify({
+      title: notification.title,
+      message: formatText(notification),
+      priority: GOTIFY_PRIORITIES[notification.priority]
+    }), {
+      'Content-Type': 'application/json',
+      'X-Gotify-Key': appToken
+    });
+  }
+};
+
+export const channelSenders: Record<NotificationChannelType, ChannelSender> = {
+  EMAIL: emailSender,
+  WEBHOOK: webhookSender,
+  TELEGRAM: telegramSender,
+  NTFY: ntfySender,
+  GOTIFY: gotifySender
+};
@@ -0,0 +1,233 @@
+// Notification dispatcher - delivers alerts to each user's outbound channels, honouring priority filters and quiet hours
+import { NotificationChannel as ChannelRecord } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { channelSenders } from '@/services/notificationChannels';
+import { validateInput, notificationChannelSchema } from '@/utils/validation';
+import type {
+  DispatchResult,
+  NotificationChannel,
+  NotificationChannelConfig,
+  NotificationChannelInput,
+  NotificationPriority,
+  OutboundNotification
+} from '@/types/notifications';
+
+const SECRET_FIELDS = ['secret', 'botToken', 'token', 'appToken'];
+const SECRET_MASK = '********';
+const MAX_ERROR_LENGTH = 500;
+const DEDUPE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const PRIORITY_RANK: Record<NotificationPriority, number> = { LOW: 0, MEDIUM: 1, HIGH: 2, URGENT: 3 };
+
+// Secrets never leave the server; updates that send the mask back keep the stored value
+const maskConfig = (config: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(config).map(([key, value]) =>
+    [key, SECRET_FIELDS.includes(key) && value ? SECRET_MASK : value]));
+
+const toChannel = (record: ChannelRecord): NotificationChannel => ({
+  id: record.id,
+  type: record.type,
+  name: record.name,
+  config: maskConfig(record.config as Record<string, string>) as unknown as NotificationChannelConfig,
+  minPriority: record.minPriority,
+  quietHoursStart: record.quietHoursStart,
+  quietHoursEnd: record.quietHoursEnd,
+  timeZone: record.timeZone,
+  isActive: record.isActive,
+  lastSentAt: record.lastSentAt?.toISOString() ?? null,
+  lastError: record.lastError,
+  createdAt: record.createdAt.toISOString()
+});
+
+/**
+ * Absolute link into the app for notification bodies, or undefined when NEXTAUTH_URL is not set
+ */
+export function getAppUrl(path: string): string | undefined {
+  const baseUrl = process.env.NEXTAUTH_URL;
+  return baseUrl ? `${baseUrl.replace(/\/+$/, '')}${path}` : undefined;
+}
+
+/**
+ * Whether the wall-clock time in the given zone falls inside a "HH:MM" window.
+ * Windows that wrap midnight (22:00-08:00) cover the evening and the following morning.
+ */
+export function isInQuietHours(start: string, end: string, timeZone: string, now: Date = new Date()): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const current = `${parts.find(part => part.type === 'hour')?.value}:${parts.find(part => part.type === 'minute')?.value}`;
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+class NotificationService {
+  private delivered = new Map<string, number>(); // "<userId>:<dedupeKey>" -> first dispatch time
+
+  async listChannels(userId: number): Promise<NotificationChannel[]> {
+    const records = await prisma.notificationChannel.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return records.map(toChannel);
+  }
+
+  async createChannel(userId: number, input: NotificationChannelInput): Promise<NotificationChannel> {
+    const record = await prisma.notificationChannel.create({
+      data: { userId, ...this.toRecordData(input) }
+    });
+    return toChannel(record);
+  }
+
+  /**
+   * Merge updates onto the stored channel and re-validate. Masked secrets in the update
+   * are replaced with the stored values first.
+   */
+  async updateChannel(userId: number, channelId: number, updates: Partial<NotificationChannelInput>): Promise<NotificationChannel> {
+    const existing = await this.findChannel(userId, channelId);
+    const storedConfig = existing.config as Record<string, string>;
+    const config = updates.config
+      ? Object.fromEntries(Object.entries(updates.config).map(([key, value]) =>
+        [key, value === SECRET_MASK ? storedConfig[key] ?? '' : value]))
+      : storedConfig;
+
+    const validation = validateInput(notificationChannelSchema, { ...this.toInput(existing), ...updates, config });
+    if (!validation.success) {
+      throw new Error(`Invalid channel: ${validation.error}`);
+    }
+
+    const record = await prisma.notificationChannel.update({
+      where: { id: channelId },
+      data: this.toRecordData(validation.data as NotificationChannelInput)
+    });
+    return toChannel(record);
+  }
+
+  async deleteChannel(userId: number, channelId: number): Promise<void> {
+    await this.findChannel(userId, channelId);
+    await prisma.notificationChannel.delete({ where: { id: channelId } });
+  }
+
+  /**
+   * Send a notification to every active channel of the user. Channels whose priority filter
+   * excludes it, or that are in quiet hours, are skipped; URGENT notifications ignore quiet hours.
+   * A failing channel never stops the others. A repeated dedupe key is dropped without sending.
+   */
+  async dispatch(userId: number, notification: OutboundNotification, now: Date = new Date()): Promise<DispatchResult[]> {
+    if (notification.dedupeKey && this.isDuplicate(`${userId}:${notification.dedupeKey}`, now)) {
+      return [];
+    }
+
+    const records = await prisma.notificationChannel.findMany({ where: { userId, isActive: true } });
+    const results: DispatchResult[] = [];
+
+    for (const record of records) {
+      const skipReason = this.getSkipReason(record, notification.priority, now);
+      results.push(skipReason
+        ? { channelId: record.id, name: record.name, type: record.type, status: 'SKIPPED', reason: skipReason }
+        : await this.deliver(record, notification));
+    }
+
+    return results;
+  }
+
+  /**
+   * Send a sample notification through one channel, ignoring its filters and quiet hours
+   */
+  async sendTest(userId: number, channelId: number): Promise<DispatchResult> {
+    const record = await this.findChannel(userId, channelId);
+    return this.deliver(record, {
+      title: 'Test notification',
+      message: `This is a test from Stock Trader AI. Your "${record.name}" channel is working.`,
+      priority: 'MEDIUM',
+      url: getAppUrl('/settings')
+    });
+  }
+
+  /**
+   * Record the key and report whether it was already seen within a day. Checked and set
+   * synchronously, so concurrent dispatches of the same key cannot both pass.
+   */
+  private isDuplicate(key: string, now: Date): boolean {
+    for (const [storedKey, sentAt] of this.delivered) {
+      if (now.getTime() - sentAt >= DEDUPE_TTL_MS) this.delivered.delete(storedKey);
+    }
+
+    if (this.delivered.has(key)) return true;
+    this.delivered.set(key, now.getTime());
+    return false;
+  }
+
+  private getSkipReason(record: ChannelRecord, priority: NotificationPriority, now: Date): string | null {
+    if (PRIORITY_RANK[priority] < PRIORITY_RANK[record.minPriority]) {
+      return `Below the ${record.minPriority} priority filter`;
+    }
+    if (priority !== 'URGENT' && record.quietHoursStart && record.quietHoursEnd &&
+        isInQuietHours(record.quietHoursStart, record.quietHoursEnd, record.timeZone, now)) {
+      return 'Quiet hours';
+    }
+    return null;
+  }
+
+  private async deliver(record: ChannelRecord, notification: OutboundNotification): Promise<DispatchResult> {
+    const result: DispatchResult = { channelId: record.id, name: record.name, type: record.type, status: 'SENT' };
+
+    try {
+      await channelSenders[record.type].send(record.config as unknown as NotificationChannelConfig, notification);
+      await prisma.notificationChannel.update({
+        where: { id: record.id },
+        data: { lastSentAt: new Date(), lastError: null }
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Notification channel ${record.id} (${record.type}) failed:`, reason);
+      await prisma.notificationChannel.update({
+        where: { id: record.id },
+        data: { lastError: reason.slice(0, MAX_ERROR_LENGTH) }
+      }).catch(() => undefined);
+      return { ...result, status: 'FAILED', reason };
+    }
+
+    return result;
+  }
+
+  private async findChannel(userId: number, channelId: number): Promise<ChannelRecord> {
+    const record = await prisma.notificationChannel.findFirst({ where: { id: channelId, userId } });
+    if (!record) {
+      throw new Error('Notification channel not found');
+    }
+    return record;
+  }
+
+  private toInput(record: ChannelRecord): NotificationChannelInput {
+    return {
+      type: record.type,
+      name: record.name,
+      config: record.config as Record<string, string>,
+      minPriority: record.minPriority,
+      quietHoursStart: record.quietHoursStart,
+      quietHoursEnd: record.quietHoursEnd,
+      timeZone: record.timeZone,
+      isActive: record.isActive
+    };
+  }
+
+  private toRecordData(input: NotificationChannelInput) {
+    return {
+      type: input.type,
+      name: input.name,
+      config: input.config,
+      minPriority: input.minPriority ?? 'LOW',
+      quietHoursStart: input.quietHoursStart || null,
+      quietHoursEnd: input.quietHoursEnd || null,
+      ...(input.timeZone ? { timeZone: input.timeZone } : {}),
+      isActive: input.isActive ?? true
+    };
+  }
+}
+
+export const notificationService = new NotificationService();
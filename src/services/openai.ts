@@ -1,6 +1,9 @@
 import OpenAI from 'openai';
+import { formatIndicatorsForPrompt } from './indicators';
+import { TechnicalIndicators } from '@/types/recommendations';
 
 const OPENAI_API_KEY = process.env.NEXT_PUBLIC_OPENAI_API_KEY;
+export const OPENAI_MODEL = 'gpt-4o-mini';
 
 if (!OPENAI_API_KEY) {
   throw new Error('NEXT_PUBLIC_OPENAI_API_KEY is not defined');
@@ -55,6 +58,7 @@ interface StockData {
   peRatio: number;
   beta?: number;
   industry?: string;
+  indicators?: TechnicalIndicators; // Daily technical indicators, when candle history is available
 }
 
 interface Portfolio {
@@ -76,7 +80,7 @@ class OpenAIService {
       console.log('🔷 OpenAI: Sending request to OpenAI API...');
       const completion = await openai.chat.completions.create({
         messages: messages as Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
-        model: 'gpt-4o-mini', // Using GPT-4o Mini for fast and cost-effective responses
+        model: OPENAI_MODEL, // Using GPT-4o Mini for fast and cost-effective responses
         temperature: 0.3,
         max_tokens: 2048,
       });
@@ -125,7 +129,7 @@ class OpenAIService {
       Technical Indicators:
       - Current price vs 52-week range: ${((stockData.currentPrice - stockData.low52) / (stockData.high52 - stockData.low52) * 100).toFixed(1)}% of range
       - Distance from 52-week high: ${((stockData.high52 - stockData.currentPrice) / stockData.high52 * 100).toFixed(1)}%
-      
+${stockData.indicators ? formatIndicatorsForPrompt(stockData.indicators, '      ') + '\n' : ''}      
       Provide ONLY a valid JSON response with:
       {
         "recommendation": "BUY/SELL/HOLD",
@@ -141,7 +145,7 @@ class OpenAIService {
       }
       
       Consider:
-      - Technical analysis (price relative to 52-week range, momentum)
+      - Technical analysis (price relative to 52-week range, RSI, MACD, moving averages, support/resistance, momentum)
       - Fundamental metrics (P/E ratio, market cap, growth potential)
       - Portfolio diversification and risk management
       - Market sentiment and sector trends
@@ -0,0 +1,692 @@
+// Server-side order engine - persists advanced orders and monitors them against live quotes
+import { Prisma, Order as OrderRecord } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { v4 as uuidv4 } from 'uuid';
+import { prisma } from '@/lib/prisma';
+import { executionCostService } from '@/services/executionCosts';
+import { finnhubService } from '@/services/finnhub';
+import { orderManager } from '@/services/orderManager';
+import { tradeExecutionService } from '@/services/tradeExecution';
+import { getMarketClose, isMarketOpen } from '@/utils/marketHours';
+import {
+  AdvancedOrder,
+  LimitOrder,
+  MarketOrder,
+  NewAdvancedOrder,
+  OCOOrder,
+  OrderExecutionResult,
+  OrderStatus,
+  StopLimitOrder,
+  StopLossOrder,
+  TakeProfitOrder,
+  TimeInForce,
+  TrailingStopOrder
+} from '@/types/orders';
+
+const DEFAULT_INTERVAL_MS = 30000; // Check every 30 seconds
+const MAX_EXECUTION_ATTEMPTS = 5; // Failed fills retried before the order is cancelled
+// Failures that another attempt cannot fix: the order is cancelled straight away
+const PERMANENT_ERRORS = /^(Insufficient funds|Insufficient shares|Unknown symbol|Invalid lot selection|Portfolio not found|Sale proceeds)/;
+
+type OrderEventType = 'CREATED' | 'UPDATED' | 'ACTIVATED' | 'TRAILING_ADJUSTED' | 'TRIGGERED' | 'CANCELLED' | 'EXPIRED' | 'REJECTED';
+
+const toNumber = (value: Decimal | null | undefined): number => Number(value ?? 0);
+const toDecimal = (value: number | undefined): Decimal | null =>
+  typeof value === 'number' && isFinite(value) ? new Decimal(value) : null;
+
+class OrderEngineService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isChecking = false;
+
+  /**
+   * Start the monitoring loop (idempotent)
+   */
+  start(intervalMs: number = Number(process.env.ORDER_ENGINE_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.checkOrderTriggers().catch(error => console.error('Order engine tick failed:', error));
+    }, intervalMs);
+
+    console.log(`📋 Order engine started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  /**
+   * Stop the monitoring loop
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Convert a database row into the AdvancedOrder shape used by the order manager and UI
+   */
+  toAdvancedOrder(record: OrderRecord): AdvancedOrder {
+    const base = {
+      id: record.id,
+      symbol: record.symbol,
+      status: record.status as OrderStatus,
+      timeInForce: record.timeInForce as TimeInForce,
+      quantity: toNumber(record.quantity),
+      createdAt: record.createdAt,
+      triggeredAt: record.triggeredAt ?? undefined,
+      expiresAt: record.expiresAt ?? undefined,
+      parentOrderId: record.parentOrderId ?? undefined,
+    };
+
+    const stopLeg: StopLossOrder = {
+      ...base,
+      type: 'STOP_LOSS',
+      side: 'SELL',
+      stopPrice: toNumber(record.stopPrice),
+      triggerPrice: toNumber(record.triggerPrice ?? record.stopPrice),
+      percentage: record.stopPercentage !== null ? toNumber(record.stopPercentage) : undefined,
+    };
+
+    const targetLeg: TakeProfitOrder = {
+      ...base,
+      type: 'TAKE_PROFIT',
+      side: 'SELL',
+      targetPrice: toNumber(record.targetPrice),
+      profitPercentage: toNumber(record.profitPercentage),
+    };
+
+    switch (record.type) {
+      case 'LIMIT':
+        return {
+          ...base,
+          type: 'LIMIT',
+          side: record.side,
+          limitPrice: toNumber(record.limitPrice),
+        };
+      case 'STOP_LIMIT':
+        return {
+          ...base,
+          type: 'STOP_LIMIT',
+          side: record.side,
+          stopPrice: toNumber(record.stopPrice),
+          limitPrice: toNumber(record.limitPrice),
+          stopTriggered: record.stopTriggered,
+        };
+      case 'STOP_LOSS':
+        return stopLeg;
+      case 'TAKE_PROFIT':
+        return targetLeg;
+      case 'TRAILING_STOP':
+        return {
+          ...base,
+          type: 'TRAILING_STOP',
+          side: 'SELL',
+          trailAmount: toNumber(record.trailAmount),
+          trailType: record.trailType ?? 'PERCENTAGE',
+          highWaterMark: toNumber(record.highWaterMark),
+          currentStopPrice: toNumber(record.currentStopPrice),
+        };
+      case 'OCO':
+        return {
+          ...base,
+          type: 'OCO',
+          stopLossOrder: stopLeg,
+          takeProfitOrder: targetLeg,
+        };
+      default:
+        return {
+          ...base,
+          type: 'MARKET',
+          side: record.side,
+          price: toNumber(record.price),
+        };
+    }
+  }
+
+  /**
+   * Flatten an AdvancedOrder into the columns stored on the orders table
+   */
+  private toRecordData(order: NewAdvancedOrder) {
+    switch (order.type) {
+      case 'LIMIT':
+        return {
+          side: order.side,
+          limitPrice: toDecimal(order.limitPrice),
+        };
+      case 'STOP_LIMIT':
+        return {
+          side: order.side,
+          stopPrice: toDecimal(order.stopPrice),
+          limitPrice: toDecimal(order.limitPrice),
+        };
+      case 'STOP_LOSS':
+        return {
+          side: order.side,
+          stopPrice: toDecimal(order.stopPrice),
+          triggerPrice: toDecimal(order.triggerPrice),
+          stopPercentage: toDecimal(order.percentage),
+        };
+      case 'TAKE_PROFIT':
+        return {
+          side: order.side,
+          targetPrice: toDecimal(order.targetPrice),
+          profitPercentage: toDecimal(order.profitPercentage),
+        };
+      case 'TRAILING_STOP':
+        return {
+          side: order.side,
+          trailAmount: toDecimal(order.trailAmount),
+          trailType: order.trailType,
+          highWaterMark: toDecimal(order.highWaterMark),
+          currentStopPrice: toDecimal(order.currentStopPrice),
+        };
+      case 'OCO':
+        return {
+          side: 'SELL' as const,
+          stopPrice: toDecimal(order.stopLossOrder.stopPrice),
+          triggerPrice: toDecimal(order.stopLossOrder.triggerPrice),
+          stopPercentage: toDecimal(order.stopLossOrder.percentage),
+          targetPrice: toDecimal(order.takeProfitOrder.targetPrice),
+          profitPercentage: toDecimal(order.takeProfitOrder.profitPercentage),
+        };
+      case 'MARKET':
+        return {
+          side: order.side,
+          price: toDecimal(order.price),
+        };
+    }
+  }
+
+  /**
+   * Persist new orders for a portfolio
+   */
+  async createOrders(portfolioId: number, orders: NewAdvancedOrder[]): Promise<AdvancedOrder[]> {
+    const created: AdvancedOrder[] = [];
+
+    for (const order of orders) {
+      const timeInForce = order.timeInForce ?? 'GTC';
+      const expiresAt = order.expiresAt ?? (order.type === 'STOP_LOSS' ? order.timeBasedExpiry : undefined);
+
+      const record = await prisma.order.create({
+        data: {
+          id: uuidv4(),
+          portfolioId,
+          symbol: order.symbol.toUpperCase(),
+          type: order.type,
+          status: 'ACTIVE',
+          timeInForce,
+          quantity: new Decimal(order.quantity),
+          parentOrderId: order.parentOrderId ?? null,
+          // DAY orders expire at the close of the current (or next) session
+          expiresAt: expiresAt ?? (timeInForce === 'DAY' ? getMarketClose() : null),
+          ...this.toRecordData(order),
+          events: {
+            create: { type: 'CREATED', message: `${order.type} ${timeInForce} order created` }
+          }
+        }
+      });
+
+      if (timeInForce === 'IOC' || timeInForce === 'FOK') {
+        created.push(await this.executeImmediateOrder(record));
+      } else {
+        created.push(this.toAdvancedOrder(record));
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * IOC/FOK orders get a single chance to fill against the current quote
+   */
+  private async executeImmediateOrder(record: OrderRecord): Promise<AdvancedOrder> {
+    let currentPrice: number | null = null;
+    try {
+      const quote = await finnhubService.getQuote(record.symbol);
+      currentPrice = quote.c;
+    } catch (error) {
+      console.error(`Order engine: failed to get price for ${record.symbol}:`, error);
+    }
+
+    const order = this.toAdvancedOrder(record);
+    let filled = false;
+
+    if (currentPrice !== null && await orderManager.shouldTriggerOrder(order, currentPrice)) {
+      filled = (await this.executeOrder(record, order, currentPrice)).success;
+    }
+
+    if (!filled) {
+      await this.cancelOrder(
+        record.portfolioId,
+        record.id,
+        `${record.timeInForce} order could not be filled immediately`
+      );
+    }
+
+    const refreshed = await prisma.order.findUnique({ where: { id: record.id } });
+    return this.toAdvancedOrder(refreshed ?? record);
+  }
+
+  /**
+   * List orders for a portfolio: active (pending/active) or history (everything else)
+   */
+  async getOrders(portfolioId: number, scope: 'active' | 'history' | 'all' = 'all'): Promise<AdvancedOrder[]> {
+    const where: Prisma.OrderWhereInput = { portfolioId };
+    if (scope === 'active') {
+      where.status = { in: ['PENDING', 'ACTIVE'] };
+    } else if (scope === 'history') {
+      where.status = { in: ['TRIGGERED', 'CANCELLED', 'EXPIRED'] };
+    }
+
+    const records = await prisma.order.findMany({
+      where,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return records.map(record => this.toAdvancedOrder(record));
+  }
+
+  /**
+   * Get a single order with its event log
+   */
+  async getOrder(portfolioId: number, orderId: string) {
+    const record = await prisma.order.findFirst({
+      where: { id: orderId, portfolioId },
+      include: { events: { orderBy: { createdAt: 'asc' } } }
+    });
+
+    if (!record) return null;
+
+    return {
+      order: this.toAdvancedOrder(record),
+      events: record.events.map(event => ({
+        id: event.id,
+        type: event.type,
+        price: event.price !== null ? Number(event.price) : null,
+        message: event.message,
+        data: event.data,
+        createdAt: event.createdAt
+      }))
+    };
+  }
+
+  /**
+   * Amend the quantity, price levels or expiry of an active order
+   */
+  async updateOrder(
+    portfolioId: number,
+    orderId: string,
+    updates: {
+      quantity?: number;
+      stopPrice?: number;
+      limitPrice?: number;
+      targetPrice?: number;
+      trailAmount?: number;
+      expiresAt?: Date | null;
+    }
+  ): Promise<AdvancedOrder | null> {
+    const record = await prisma.order.findFirst({
+      where: { id: orderId, portfolioId, status: { in: ['PENDING', 'ACTIVE'] } }
+    });
+
+    if (!record) return null;
+
+    const data: Prisma.OrderUpdateInput = {};
+    if (updates.quantity !== undefined) data.quantity = new Decimal(updates.quantity);
+    if (updates.stopPrice !== undefined) {
+      data.stopPrice = new Decimal(updates.stopPrice);
+      data.triggerPrice = new Decimal(updates.stopPrice * 1.005); // Trigger slightly above stop price
+    }
+    if (updates.limitPrice !== undefined) data.limitPrice = new Decimal(updates.limitPrice);
+    if (updates.targetPrice !== undefined) data.targetPrice = new Decimal(updates.targetPrice);
+    if (updates.trailAmount !== undefined && record.type === 'TRAILING_STOP') {
+      data.trailAmount = new Decimal(updates.trailAmount);
+      data.currentStopPrice = new Decimal(toNumber(record.highWaterMark) - updates.trailAmount);
+    }
+    if (updates.expiresAt !== undefined) data.expiresAt = updates.expiresAt;
+
+    const updated = await prisma.order.update({
+      where: { id: orderId },
+      data
+    });
+
+    await this.recordEvent(orderId, 'UPDATED', 'Order amended', undefined, JSON.parse(JSON.stringify(updates)));
+    return this.toAdvancedOrder(updated);
+  }
+
+  /**
+   * Cancel an active order that belongs to the portfolio
+   */
+  async cancelOrder(portfolioId: number, orderId: string, reason: string = 'Cancelled by user'): Promise<boolean> {
+    const result = await prisma.order.updateMany({
+      where: { id: orderId, portfolioId, status: { in: ['PENDING', 'ACTIVE'] } },
+      data: { status: 'CANCELLED' }
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    await this.recordEvent(orderId, 'CANCELLED', reason);
+    return true;
+  }
+
+  /**
+   * Expire lapsed orders, then evaluate every active order against the latest quote.
+   * Triggers are only evaluated during the session: outside it quotes are stale.
+   */
+  async checkOrderTriggers(now: Date = new Date()): Promise<void> {
+    if (this.isChecking) return; // Previous tick still running
+    this.isChecking = true;
+
+    try {
+      const records = await prisma.order.findMany({
+        where: { status: 'ACTIVE' },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      const marketOpen = isMarketOpen(now);
+      const bySymbol = new Map<string, OrderRecord[]>();
+
+      for (const record of records) {
+        if (orderManager.isExpired(this.toAdvancedOrder(record), now)) {
+          await this.expireOrder(record);
+          continue;
+        }
+        if (!marketOpen) continue;
+        bySymbol.set(record.symbol, [...(bySymbol.get(record.symbol) || []), record]);
+      }
+
+      for (const [symbol, symbolOrders] of bySymbol) {
+        let currentPrice: number;
+        try {
+          const quote = await finnhubService.getQuote(symbol);
+          if (!(quote.c > 0)) {
+            throw new Error(`No valid quote for ${symbol}`);
+          }
+          currentPrice = quote.c;
+        } catch (error) {
+          console.error(`Order engine: failed to get price for ${symbol}:`, error);
+          continue;
+        }
+
+        for (const record of symbolOrders) {
+          try {
+            await this.evaluateOrder(record, currentPrice);
+          } catch (error) {
+            console.error(`Error checking order ${record.id}:`, error);
+          }
+        }
+      }
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async evaluateOrder(record: OrderRecord, currentPrice: number): Promise<void> {
+    const order = this.toAdvancedOrder(record);
+
+    if (order.type === 'STOP_LIMIT' && !order.stopTriggered && orderManager.isStopActivated(order, currentPrice)) {
+      order.stopTriggered = true;
+      await prisma.order.update({
+        where: { id: record.id },
+        data: { stopTriggered: true }
+      });
+      await this.recordEvent(
+        record.id,
+        'ACTIVATED',
+        `Stop $${order.stopPrice.toFixed(2)} reached, limit order working at $${order.limitPrice.toFixed(2)}`,
+        currentPrice
+      );
+    }
+
+    if (await orderManager.shouldTriggerOrder(order, currentPrice)) {
+      await this.executeOrder(record, order, currentPrice);
+      return;
+    }
+
+    if (order.type === 'TRAILING_STOP' && orderManager.updateTrailingStop(order, currentPrice)) {
+      await prisma.order.update({
+        where: { id: record.id },
+        data: {
+          highWaterMark: new Decimal(order.highWaterMark),
+          currentStopPrice: new Decimal(order.currentStopPrice)
+        }
+      });
+      await this.recordEvent(
+        record.id,
+        'TRAILING_ADJUSTED',
+        `Stop raised to $${order.currentStopPrice.toFixed(2)}`,
+        currentPrice
+      );
+    }
+  }
+
+  /**
+   * Fill a triggered order through the same atomic path as /api/portfolio/execute-trade.
+   * Orders that cannot be filled (no cash, no shares, unknown symbol) are cancelled; other
+   * failures are retried on later ticks up to MAX_EXECUTION_ATTEMPTS.
+   */
+  async executeOrder(record: OrderRecord, order: AdvancedOrder, currentPrice: number): Promise<OrderExecutionResult> {
+    if (!isMarketOpen()) {
+      return { success: false, orderId: record.id, reason: 'Market is closed' };
+    }
+
+    // Claim the order first so overlapping checks cannot fill it twice
+    const claim = await prisma.order.updateMany({
+      where: { id: record.id, status: 'ACTIVE' },
+      data: { status: 'TRIGGERED', triggeredAt: new Date() }
+    });
+
+    if (claim.count === 0) {
+      return { success: false, orderId: record.id, reason: 'Order is no longer active' };
+    }
+
+    const side = record.side;
+    const requestedQuantity = toNumber(record.quantity);
+    const fillableQuantity = await this.getFillableQuantity(record, requestedQuantity, currentPrice);
+
+    // FOK must fill in full; everything else fills what the position or cash allows
+    const quantity = record.timeInForce === 'FOK' && fillableQuantity < requestedQuantity
+      ? 0
+      : fillableQuantity;
+
+    if (quantity <= 0) {
+      const reason = side === 'SELL'
+        ? (record.timeInForce === 'FOK' ? 'Insufficient shares to fill in full' : 'Position already closed')
+        : 'Insufficient funds to fill order';
+      await prisma.order.update({ where: { id: record.id }, data: { status: 'CANCELLED' } });
+      await this.recordEvent(record.id, 'CANCELLED', reason, currentPrice);
+      return { success: false, orderId: record.id, reason };
+    }
+
+    try {
+      const transaction = await tradeExecutionService.executeTrade(record.portfolioId, {
+        symbol: record.symbol,
+        type: side,
+        quantity,
+        price: currentPrice,
+        limitPrice: record.limitPrice !== null ? toNumber(record.limitPrice) : undefined,
+        aiRecommendation: {
+          action: record.type,
+          confidence: 100,
+          reasoning: this.describeTrigger(order, currentPrice)
+        }
+      });
+
+      const executedPrice = toNumber(transaction.price);
+      const fee = toNumber(transaction.fees);
+
+      await prisma.order.update({
+        where: { id: record.id },
+        data: {
+          executedPrice: transaction.price,
+          transactionId: transaction.id
+        }
+      });
+      await this.recordEvent(record.id, 'TRIGGERED', this.describeTrigger(order, currentPrice), executedPrice, {
+        transactionId: transaction.id,
+        quantity,
+        requestedQuantity,
+        fee,
+        slippage: toNumber(transaction.slippage)
+      });
+
+      if (side === 'SELL') {
+        await this.cancelOrphanedOrders(record);
+      }
+
+      return {
+        success: true,
+        orderId: record.id,
+        executedPrice,
+        executedQuantity: quantity,
+        executedAt: new Date(),
+        fee
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Order execution error';
+      console.error(`Order execution error for ${record.id}:`, error);
+      await this.recordEvent(record.id, 'REJECTED', reason, currentPrice);
+
+      // Transient failures put the order back for the next tick, up to the attempt limit
+      const attempts = await prisma.orderEvent.count({ where: { orderId: record.id, type: 'REJECTED' } });
+      if (!PERMANENT_ERRORS.test(reason) && attempts < MAX_EXECUTION_ATTEMPTS) {
+        await prisma.order.update({
+          where: { id: record.id },
+          data: { status: 'ACTIVE', triggeredAt: null }
+        });
+        return { success: false, orderId: record.id, reason };
+      }
+
+      await prisma.order.update({ where: { id: record.id }, data: { status: 'CANCELLED' } });
+      await this.recordEvent(
+        record.id,
+        'CANCELLED',
+        attempts >= MAX_EXECUTION_ATTEMPTS ? `Gave up after ${attempts} failed attempts: ${reason}` : reason
+      );
+      return { success: false, orderId: record.id, reason };
+    }
+  }
+
+  /**
+   * How much of an order can actually fill: sells are capped by the position, buys by cash
+   */
+  private async getFillableQuantity(record: OrderRecord, requestedQuantity: number, currentPrice: number): Promise<number> {
+    if (record.side === 'SELL') {
+      const holding = await prisma.holding.findUnique({
+        where: {
+          unique_portfolio_symbol: {
+            portfolioId: record.portfolioId,
+            symbol: record.symbol
+          }
+        }
+      });
+      return Math.min(requestedQuantity, toNumber(holding?.quantity));
+    }
+
+    const portfolio = await prisma.portfolio.findUnique({ where: { id: record.portfolioId } });
+    const cash = toNumber(portfolio?.cashBalance);
+
+    // Costs at the full size are an upper bound for any smaller fill, so this always fits in cash
+    const costs = await executionCostService.estimateFill(
+      record.portfolioId,
+      record.symbol,
+      'BUY',
+      requestedQuantity,
+      currentPrice,
+      record.limitPrice !== null ? toNumber(record.limitPrice) : undefined
+    );
+    const affordable = Math.max(0, Math.floor((cash - costs.commission) / costs.fillPrice));
+    return Math.min(requestedQuantity, affordable);
+  }
+
+  /**
+   * Once a position is fully closed, remaining exit orders for it can never fill
+   */
+  private async cancelOrphanedOrders(record: OrderRecord): Promise<void> {
+    const holding = await prisma.holding.findUnique({
+      where: {
+        unique_portfolio_symbol: {
+          portfolioId: record.portfolioId,
+          symbol: record.symbol
+        }
+      }
+    });
+
+    if (holding && toNumber(holding.quantity) > 0) return;
+
+    const orphaned = await prisma.order.findMany({
+      where: {
+        portfolioId: record.portfolioId,
+        symbol: record.symbol,
+        side: 'SELL',
+        status: 'ACTIVE',
+        id: { not: record.id }
+      }
+    });
+
+    for (const orphan of orphaned) {
+      await this.cancelOrder(record.portfolioId, orphan.id, `Position closed by order ${record.id}`);
+    }
+  }
+
+  private async expireOrder(record: OrderRecord): Promise<void> {
+    const result = await prisma.order.updateMany({
+      where: { id: record.id, status: 'ACTIVE' },
+      data: { status: 'EXPIRED' }
+    });
+
+    if (result.count > 0) {
+      await this.recordEvent(record.id, 'EXPIRED', 'Order expired before triggering');
+    }
+  }
+
+  private describeTrigger(order: AdvancedOrder, currentPrice: number): string {
+    const price = `$${currentPrice.toFixed(2)}`;
+    switch (order.type) {
+      case 'LIMIT':
+        return `${(order as LimitOrder).side} limit filled at ${price} (limit $${(order as LimitOrder).limitPrice.toFixed(2)})`;
+      case 'STOP_LIMIT':
+        return `${(order as StopLimitOrder).side} stop-limit filled at ${price} (stop $${(order as StopLimitOrder).stopPrice.toFixed(2)}, limit $${(order as StopLimitOrder).limitPrice.toFixed(2)})`;
+      case 'STOP_LOSS':
+        return `Stop-loss triggered at ${price} (stop $${(order as StopLossOrder).stopPrice.toFixed(2)})`;
+      case 'TAKE_PROFIT':
+        return `Take-profit triggered at ${price} (target $${(order as TakeProfitOrder).targetPrice.toFixed(2)})`;
+      case 'TRAILING_STOP':
+        return `Trailing stop triggered at ${price} (stop $${(order as TrailingStopOrder).currentStopPrice.toFixed(2)})`;
+      case 'OCO': {
+        const oco = order as OCOOrder;
+        return currentPrice <= oco.stopLossOrder.triggerPrice
+          ? `OCO stop-loss leg triggered at ${price}`
+          : `OCO take-profit leg triggered at ${price}`;
+      }
+      default:
+        return `${(order as MarketOrder).side} market order filled at ${price}`;
+    }
+  }
+
+  private async recordEvent(
+    orderId: string,
+    type: OrderEventType,
+    message: string,
+    price?: number,
+    data?: Prisma.InputJsonValue
+  ): Promise<void> {
+    await prisma.orderEvent.create({
+      data: {
+        orderId,
+        type,
+        message,
+        price: toDecimal(price),
+        data: data ?? Prisma.JsonNull
+      }
+    });
+  }
+}
+
+export const orderEngine = new OrderEngineService();
+export default orderEngine;
@@ -1,21 +1,21 @@
 import { 
   AdvancedOrder, 
-  OrderExecutionResult, 
+  LimitOrder,
+  StopLimitOrder,
+  TimeInForce,
   StopLossOrder, 
   TakeProfitOrder, 
   TrailingStopOrder, 
   OCOOrder,
-  MarketOrder,
   PositionSettings,
   RiskManagement,
   MarketCondition 
 } from '@/types/orders';
-import { usePortfolioStore } from '@/store/portfolio';
-import { finnhubService } from '@/services/finnhub';
 
+// Order construction and trigger semantics shared by the trading UI and the
+// server-side order engine (src/services/orderEngine.ts), which owns persistence
+// and monitoring of active orders.
 class OrderManagerService {
-  private activeOrders: Map<string, AdvancedOrder> = new Map();
-  private orderHistory: AdvancedOrder[] = [];
   private settings: PositionSettings;
   private riskSettings: RiskManagement;
   private marketCondition: MarketCondition;
@@ -58,9 +58,51 @@ class OrderManagerService {
         profitTargetAdjustment: 0,
       },
     };
+  }
 
-    // Start monitoring active orders
-    this.startOrderMonitoring();
+  // Create a limit order that fills only at the limit price or better
+  createLimitOrder(
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    quantity: number,
+    limitPrice: number,
+    timeInForce: TimeInForce = 'DAY'
+  ): LimitOrder {
+    return {
+      id: this.generateOrderId(),
+      symbol,
+      type: 'LIMIT',
+      status: 'ACTIVE',
+      quantity,
+      side,
+      limitPrice,
+      timeInForce,
+      createdAt: new Date(),
+    };
+  }
+
+  // Create a stop-limit order: becomes a limit order once the stop price is crossed
+  createStopLimitOrder(
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    quantity: number,
+    stopPrice: number,
+    limitPrice: number,
+    timeInForce: TimeInForce = 'DAY'
+  ): StopLimitOrder {
+    return {
+      id: this.generateOrderId(),
+      symbol,
+      type: 'STOP_LIMIT',
+      status: 'ACTIVE',
+      quantity,
+      side,
+      stopPrice,
+      limitPrice,
+      stopTriggered: false,
+      timeInForce,
+      createdAt: new Date(),
+    };
   }
 
   // Create a stop-loss order
@@ -254,77 +296,15 @@ class OrderManagerService {
     };
   }
 
-  // Execute an order
-  async executeOrder(order: AdvancedOrder): Promise<OrderExecutionResult> {
-    try {
-      const portfolioStore = usePortfolioStore.getState();
-      
-      if (order.type === 'MARKET') {
-        // Execute market order immediately
-        const marketOrder = order as MarketOrder;
-        const success = await portfolioStore.executeTrade(
-          order.symbol,
-          marketOrder.side,
-          order.quantity,
-          marketOrder.price
-        );
-
-        if (success) {
-          order.status = 'TRIGGERED';
-          order.triggeredAt = new Date();
-          this.orderHistory.push(order);
-          
-          return {
-            success: true,
-            orderId: order.id,
-            executedPrice: marketOrder.price,
-            executedQuantity: order.quantity,
-            executedAt: new Date(),
-          };
-        }
-      }
-
-      return {
-        success: false,
-        orderId: order.id,
-        reason: 'Order execution failed',
-      };
-    } catch (error) {
-      console.error('Order execution error:', error);
-      return {
-        success: false,
-        orderId: order.id,
-        reason: 'Order execution error',
-      };
-    }
-  }
+  // Check whether an order's trigger condition is met at the current price
+  async shouldTriggerOrder(order: AdvancedOrder, currentPrice: number): Promise<boolean> {
+    switch (order.type) {
+      case 'LIMIT':
+        return this.isLimitCrossed(order, currentPrice);
 
-  // Monitor active orders for triggers
-  private async startOrderMonitoring() {
-    setInterval(async () => {
-      await this.checkOrderTriggers();
-    }, 30000); // Check every 30 seconds
-  }
+      case 'STOP_LIMIT':
+        return this.isStopActivated(order, currentPrice) && this.isLimitCrossed(order, currentPrice);
 
-  private async checkOrderTriggers() {
-    for (const [orderId, order] of this.activeOrders) {
-      try {
-        const currentPrice = await this.getCurrentPrice(order.symbol);
-        
-        if (await this.shouldTriggerOrder(order, currentPrice)) {
-          await this.executeOrder(order);
-          this.activeOrders.delete(orderId);
-        } else if (order.type === 'TRAILING_STOP') {
-          this.updateTrailingStop(order as TrailingStopOrder, currentPrice);
-        }
-      } catch (error) {
-        console.error(`Error checking order ${orderId}:`, error);
-      }
-    }
-  }
-
-  private async shouldTriggerOrder(order: AdvancedOrder, currentPrice: number): Promise<boolean> {
-    switch (order.type) {
       case 'STOP_LOSS':
         const stopOrder = order as StopLossOrder;
         return currentPrice <= stopOrder.triggerPrice;
@@ -349,7 +329,23 @@ class OrderManagerService {
     }
   }
 
-  private updateTrailingStop(order: TrailingStopOrder, currentPrice: number) {
+  // A buy limit fills at or below the limit, a sell limit at or above it
+  isLimitCrossed(order: LimitOrder | StopLimitOrder, currentPrice: number): boolean {
+    return order.side === 'BUY'
+      ? currentPrice <= order.limitPrice
+      : currentPrice >= order.limitPrice;
+  }
+
+  // A buy stop activates at or above the stop price, a sell stop at or below it
+  isStopActivated(order: StopLimitOrder, currentPrice: number): boolean {
+    if (order.stopTriggered) return true;
+    return order.side === 'BUY'
+      ? currentPrice >= order.stopPrice
+      : currentPrice <= order.stopPrice;
+  }
+
+  // Ratchet a trailing stop up with new highs; returns true when the stop moved
+  updateTrailingStop(order: TrailingStopOrder, currentPrice: number): boolean {
     if (currentPrice > order.highWaterMark) {
       order.highWaterMark = currentPrice;
       
@@ -358,47 +354,22 @@ class OrderManagerService {
       } else {
         order.currentStopPrice = currentPrice - order.trailAmount;
       }
-    }
-  }
-
-  private async getCurrentPrice(symbol: string): Promise<number> {
-    try {
-      const stockData = await finnhubService.getStockData(symbol);
-      return stockData.currentPrice;
-    } catch (error) {
-      console.error(`Error getting price for ${symbol}:`, error);
-      throw error;
-    }
-  }
-
-  private generateOrderId(): string {
-    return `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
-  // Public methods for order management
-  addOrder(order: AdvancedOrder) {
-    this.activeOrders.set(order.id, order);
-  }
-
-  cancelOrder(orderId: string): boolean {
-    const order = this.activeOrders.get(orderId);
-    if (order) {
-      order.status = 'CANCELLED';
-      this.activeOrders.delete(orderId);
-      this.orderHistory.push(order);
       return true;
     }
     return false;
   }
 
-  getActiveOrders(): AdvancedOrder[] {
-    return Array.from(this.activeOrders.values());
+  // Check whether an order has passed its expiry time
+  isExpired(order: AdvancedOrder, now: Date = new Date()): boolean {
+    const expiry = order.expiresAt || (order.type === 'STOP_LOSS' ? order.timeBasedExpiry : undefined);
+    return !!expiry && new Date(expiry).getTime() <= now.getTime();
   }
 
-  getOrderHistory(): AdvancedOrder[] {
-    return this.orderHistory;
+  private generateOrderId(): string {
+    return `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  // Public methods for settings management
   getSettings(): PositionSettings {
     return this.settings;
   }
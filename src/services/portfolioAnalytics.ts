@@ -1,5 +1,5 @@
 // Advanced Portfolio Analytics Service
-import { Holding, Transaction, PortfolioState } from '@/store/portfolio';
+import { Holding, Transaction, PortfolioState, CashFlow, getNetContributions } from '@/store/portfolio';
 
 export interface PortfolioPerformanceMetrics {
   // Overall Performance
@@ -8,6 +8,10 @@ export interface PortfolioPerformanceMetrics {
   annualizedReturn: number;
   dayChange: number;
   dayChangePercent: number;
+  realizedProfitLoss: number; // From tax-lot disposals
+  unrealizedProfitLoss: number; // Open positions at current prices
+  timeWeightedReturn: number; // Percent, cash flows removed
+  moneyWeightedReturn: number; // Percent IRR, annualized once the history spans a year
   
   // Risk Metrics
   volatility: number;
@@ -51,6 +55,22 @@ export interface PortfolioDiversificationAnalysis {
   recommendations: string[];
 }
 
+export interface ValuationPoint {
+  timestamp: Date; // Trading date of a daily snapshot (valued at that day's close)
+  totalValue: number;
+}
+
+export interface FlowAdjustedReturns {
+  netContributions: number;
+  totalDeposits: number;
+  totalWithdrawals: number;
+  profitLoss: number;
+  timeWeightedReturn: number;
+  moneyWeightedReturn: number;
+  moneyWeightedAnnualized: boolean;
+  periodDays: number;
+}
+
 export interface TimeSeriesData {
   timestamp: Date;
   portfolioValue: number;
@@ -69,9 +89,11 @@ class PortfolioAnalyticsService {
   calculatePerformanceMetrics(
     portfolio: PortfolioState,
     priceHistory: Record<string, number[]>,
-    sectorMappings: Record<string, string>
+    sectorMappings: Record<string, string>,
+    valuations: ValuationPoint[] = []
   ): PortfolioPerformanceMetrics {
     const summary = this.getBasicSummary(portfolio);
+    const returns = this.calculateReturnMetrics(portfolio, valuations, summary.totalValue);
     const holdings = Object.entries(portfolio.holdings);
     
     // Calculate time-based metrics
@@ -100,6 +122,10 @@ class PortfolioAnalyticsService {
       annualizedReturn,
       dayChange: this.calculateDayChange(portfolio),
       dayChangePercent: this.calculateDayChangePercent(portfolio),
+      realizedProfitLoss: this.calculateRealizedProfitLoss(portfolio.transactions),
+      unrealizedProfitLoss: Object.values(portfolio.holdings).reduce((sum, holding) => sum + holding.profitLoss, 0),
+      timeWeightedReturn: returns.timeWeightedReturn,
+      moneyWeightedReturn: returns.moneyWeightedReturn,
       
       volatility,
       sharpeRatio,
@@ -169,6 +195,152 @@ class PortfolioAnalyticsService {
     };
   }
 
+  /**
+   * Contribution-adjusted returns from the cash-flow ledger and daily valuations
+   */
+  calculateReturnMetrics(
+    portfolio: Pick<PortfolioState, 'cashFlows' | 'initialValue'>,
+    valuations: ValuationPoint[],
+    currentValue: number,
+    now: Date = new Date()
+  ): FlowAdjustedReturns {
+    const netContributions = getNetContributions(portfolio);
+    const totalDeposits = portfolio.cashFlows
+      .filter(flow => flow.type === 'DEPOSIT')
+      .reduce((sum, flow) => sum + flow.amount, 0);
+    const totalWithdrawals = portfolio.cashFlows
+      .filter(flow => flow.type === 'WITHDRAWAL')
+      .reduce((sum, flow) => sum + flow.amount, 0);
+
+    const start = portfolio.cashFlows[0]?.timestamp;
+    const periodDays = start ? (now.getTime() - new Date(start).getTime()) / (1000 * 60 * 60 * 24) : 0;
+    const mwr = this.calculateMoneyWeightedReturn(portfolio.cashFlows, currentValue, now);
+
+    return {
+      netContributions,
+      totalDeposits,
+      totalWithdrawals,
+      profitLoss: currentValue - netContributions,
+      timeWeightedReturn: this.calculateTimeWeightedReturn(portfolio.cashFlows, valuations, currentValue, now),
+      moneyWeightedReturn: mwr,
+      moneyWeightedAnnualized: periodDays >= 365,
+      periodDays
+    };
+  }
+
+  /**
+   * Time-weighted return (percent): Modified Dietz for each interval between daily valuations,
+   * geometrically linked. Flows inside an interval are weighted by the time they were invested.
+   */
+  calculateTimeWeightedReturn(
+    cashFlows: CashFlow[],
+    valuations: ValuationPoint[],
+    currentValue: number,
+    now: Date = new Date()
+  ): number {
+    const flows = this.toSignedFlows(cashFlows);
+    if (flows.length === 0) return 0;
+
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const start = flows[0].time - 1; // Opening deposit falls inside the first interval
+
+    // A snapshot values the portfolio at the end of its trading date
+    const points = valuations
+      .map(point => ({ time: new Date(point.timestamp).getTime() + DAY_MS, value: point.totalValue }))
+      .filter(point => point.time > start && point.time < now.getTime())
+      .sort((a, b) => a.time - b.time);
+    points.push({ time: now.getTime(), value: currentValue });
+
+    let linked = 1;
+    let previous = { time: start, value: 0 };
+
+    for (const point of points) {
+      const periodFlows = flows.filter(flow => flow.time > previous.time && flow.time <= point.time);
+      const netFlow = periodFlows.reduce((sum, flow) => sum + flow.amount, 0);
+      const length = point.time - previous.time;
+      const weightedFlow = periodFlows.reduce(
+        (sum, flow) => sum + flow.amount * ((point.time - flow.time) / length),
+        0
+      );
+
+      const averageCapital = previous.value + weightedFlow;
+      if (averageCapital > 0) {
+        linked *= 1 + (point.value - previous.value - netFlow) / averageCapital;
+      }
+      previous = point;
+    }
+
+    return (linked - 1) * 100;
+  }
+
+  /**
+   * Valuation series with deposits and withdrawals taken out: an index that starts at the first
+   * value and moves only by each interval's return, (value - previous - net flow) / previous.
+   * Snapshots are valued at the end of their trading date, as in the time-weighted return;
+   * points that would fall after `now` (today's snapshot, the live value) are valued now.
+   */
+  calculateFlowAdjustedValues(cashFlows: CashFlow[], valuations: ValuationPoint[], now: Date = new Date()): number[] {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const flows = this.toSignedFlows(cashFlows);
+    const times = valuations.map(point => Math.min(new Date(point.timestamp).getTime() + DAY_MS, now.getTime()));
+
+    const adjusted: number[] = [];
+    valuations.forEach((point, index) => {
+      if (index === 0) {
+        adjusted.push(point.totalValue);
+        return;
+      }
+
+      const previous = valuations[index - 1].totalValue;
+      const netFlow = flows
+        .filter(flow => flow.time > times[index - 1] && flow.time <= times[index])
+        .reduce((sum, flow) => sum + flow.amount, 0);
+      const periodReturn = previous > 0 ? (point.totalValue - previous - netFlow) / previous : 0;
+      adjusted.push(adjusted[index - 1] * (1 + periodReturn));
+    });
+
+    return adjusted;
+  }
+
+  /**
+   * Money-weighted return (percent): the XIRR of deposits, withdrawals and the current value.
+   * Periods shorter than a year report the de-annualized rate so early returns are not blown up.
+   */
+  calculateMoneyWeightedReturn(cashFlows: CashFlow[], currentValue: number, now: Date = new Date()): number {
+    const flows = this.toSignedFlows(cashFlows);
+    if (flows.length === 0) return 0;
+
+    const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+    const start = flows[0].time;
+    const years = (now.getTime() - start) / YEAR_MS;
+    if (years <= 0) return 0;
+
+    // Investor's view: deposits are outflows, withdrawals and the ending value are inflows
+    const investorFlows = flows.map(flow => ({ years: (flow.time - start) / YEAR_MS, amount: -flow.amount }));
+    investorFlows.push({ years, amount: currentValue });
+
+    const npv = (rate: number) =>
+      investorFlows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.years), 0);
+
+    // NPV falls as the rate rises, so bisect between a near-total loss and a 1,000,000% gain
+    let low = -0.9999;
+    let high = 10000;
+    if (npv(low) * npv(high) > 0) return 0;
+
+    for (let i = 0; i < 200; i++) {
+      const mid = (low + high) / 2;
+      if (npv(mid) > 0) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    const annualRate = (low + high) / 2;
+    const rate = years >= 1 ? annualRate : Math.pow(1 + annualRate, years) - 1;
+    return rate * 100;
+  }
+
   /**
    * Generate portfolio performance time series
    */
@@ -196,8 +368,9 @@ class PortfolioAnalyticsService {
     const totalHoldingsValue = Object.values(portfolio.holdings)
       .reduce((sum, holding) => sum + holding.totalValue, 0);
     const totalValue = portfolio.cashBalance + totalHoldingsValue;
-    const totalProfitLoss = totalValue - portfolio.initialValue;
-    const totalProfitLossPercent = (totalProfitLoss / portfolio.initialValue) * 100;
+    const netContributions = getNetContributions(portfolio);
+    const totalProfitLoss = totalValue - netContributions;
+    const totalProfitLossPercent = netContributions > 0 ? (totalProfitLoss / netContributions) * 100 : 0;
 
     return {
       totalValue,
@@ -207,6 +380,15 @@ class PortfolioAnalyticsService {
     };
   }
 
+  private toSignedFlows(cashFlows: CashFlow[]): Array<{ time: number; amount: number }> {
+    return cashFlows
+      .map(flow => ({
+        time: new Date(flow.timestamp).getTime(),
+        amount: flow.type === 'DEPOSIT' ? flow.amount : -flow.amount
+      }))
+      .sort((a, b) => a.time - b.time);
+  }
+
   private getDaysSinceStart(portfolio: PortfolioState): number {
     const startDate = portfolio.transactions.length > 0 
       ? new Date(portfolio.transactions[0].timestamp)
@@ -309,6 +491,10 @@ class PortfolioAnalyticsService {
     return totalValue > 0 ? (dayChange / totalValue) * 100 : 0;
   }
 
+  private calculateRealizedProfitLoss(transactions: Transaction[]): number {
+    return transactions.reduce((sum, transaction) => sum + (transaction.realizedPnl ?? 0), 0);
+  }
+
   private calculateTradingMetrics(transactions: Transaction[]) {
     if (transactions.length === 0) {
       return {
@@ -334,7 +520,7 @@ class PortfolioAnalyticsService {
   }
 
   private identifyCompletedTrades(transactions: Transaction[]): Array<{ symbol: string; profit: number; confidence?: number }> {
-    // Simplified - identify buy/sell pairs for the same symbol
+    // Sells carry lot-level realized P&L; older sells fall back to average-cost matching
     const trades: Array<{ symbol: string; profit: number; confidence?: number }> = [];
     const positions: Record<string, { quantity: number; totalCost: number; avgConfidence?: number }> = {};
 
@@ -354,7 +540,7 @@ class PortfolioAnalyticsService {
       } else if (type === 'SELL' && positions[symbol].quantity > 0) {
         const soldRatio = quantity / positions[symbol].quantity;
         const costBasis = positions[symbol].totalCost * soldRatio;
-        const profit = totalAmount - costBasis;
+        const profit = transaction.realizedPnl ?? totalAmount - costBasis;
         
         trades.push({
           symbol,
@@ -0,0 +1,197 @@
+// Portfolio snapshot service - end-of-day (and on-demand) valuation history used for real P&L and risk analytics
+import { Prisma, SnapshotSource } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '@/lib/prisma';
+import { finnhubService } from '@/services/finnhub';
+import { taxLotService } from '@/services/taxLots';
+import { getTradingDate, isAfterMarketClose, isTradingDay } from '@/utils/marketHours';
+
+const DEFAULT_CHECK_INTERVAL_MS = 300000; // Look for the close every 5 minutes
+
+export interface SnapshotPosition {
+  symbol: string;
+  quantity: number;
+  price: number;
+  value: number;
+  costBasis: number;
+  unrealizedPnl: number;
+}
+
+export interface PortfolioSnapshotData {
+  timestamp: Date;
+  totalValue: number;
+  cashBalance: number;
+  holdingsValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  holdings: Record<string, SnapshotPosition>;
+  source: SnapshotSource;
+}
+
+const toNumber = (value: Decimal | null | undefined): number => Number(value ?? 0);
+
+// @db.Date columns store the trading date at UTC midnight
+const toSnapshotDate = (tradingDate: string): Date => new Date(`${tradingDate}T00:00:00.000Z`);
+
+class PortfolioSnapshotService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastScheduledDate: string | null = null;
+  private isRunningSnapshot = false;
+
+  /**
+   * Start the end-of-day scheduler (idempotent)
+   */
+  start(intervalMs: number = Number(process.env.PORTFOLIO_SNAPSHOT_INTERVAL_MS) || DEFAULT_CHECK_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runScheduledSnapshots().catch(error => console.error('Portfolio snapshot tick failed:', error));
+    }, intervalMs);
+
+    console.log(`📸 Portfolio snapshot scheduler started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Snapshot every portfolio once per trading day after the close
+   */
+  async runScheduledSnapshots(now: Date = new Date()): Promise<number> {
+    const tradingDate = getTradingDate(now);
+    if (this.isRunningSnapshot || this.lastScheduledDate === tradingDate) return 0;
+    if (!isTradingDay(now) || !isAfterMarketClose(now)) return 0;
+
+    this.isRunningSnapshot = true;
+    try {
+      const portfolios = await prisma.portfolio.findMany({ where: { isArchived: false }, select: { id: true } });
+      let taken = 0;
+
+      for (const { id } of portfolios) {
+        try {
+          await this.takeSnapshot(id, 'SCHEDULED', now);
+          taken++;
+        } catch (error) {
+          console.error(`Snapshot failed for portfolio ${id}:`, error);
+        }
+      }
+
+      this.lastScheduledDate = tradingDate;
+      console.log(`📸 Took ${taken} end-of-day portfolio snapshot(s) for ${tradingDate}`);
+      return taken;
+    } finally {
+      this.isRunningSnapshot = false;
+    }
+  }
+
+  /**
+   * Value the portfolio at current quotes and upsert the row for the trading date.
+   * Quotes that fail fall back to the holding's last known price.
+   */
+  async takeSnapshot(portfolioId: number, source: SnapshotSource = 'MANUAL', now: Date = new Date()): Promise<PortfolioSnapshotData> {
+    const portfolio = await prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      include: { holdings: true }
+    });
+
+    if (!portfolio) {
+      throw new Error('Portfolio not found');
+    }
+
+    const positions: Record<string, SnapshotPosition> = {};
+
+    for (const holding of portfolio.holdings) {
+      const quantity = toNumber(holding.quantity);
+      if (quantity <= 0) continue;
+
+      let price = toNumber(holding.currentPrice);
+      try {
+        const quote = await finnhubService.getQuote(holding.symbol);
+        price = quote.c;
+      } catch (error) {
+        console.warn(`Snapshot: using last price for ${holding.symbol}:`, error);
+      }
+
+      const costBasis = toNumber(holding.averagePrice);
+      positions[holding.symbol] = {
+        symbol: holding.symbol,
+        quantity,
+        price,
+        value: quantity * price,
+        costBasis,
+        unrealizedPnl: quantity * (price - costBasis)
+      };
+    }
+
+    const holdingsValue = Object.values(positions).reduce((sum, position) => sum + position.value, 0);
+    const unrealizedPnl = Object.values(positions).reduce((sum, position) => sum + position.unrealizedPnl, 0);
+    const cashBalance = toNumber(portfolio.cashBalance);
+    const totalValue = cashBalance + holdingsValue;
+    const { totalRealized } = await taxLotService.getRealizedGains(portfolioId);
+
+    const snapshotDate = toSnapshotDate(getTradingDate(now));
+    const data = {
+      totalValue: new Decimal(totalValue),
+      cashBalance: new Decimal(cashBalance),
+      holdingsValue: new Decimal(holdingsValue),
+      realizedPnl: new Decimal(totalRealized),
+      unrealizedPnl: new Decimal(unrealizedPnl),
+      positions: positions as unknown as Prisma.InputJsonValue,
+      source,
+      takenAt: now
+    };
+
+    await prisma.portfolioSnapshot.upsert({
+      where: {
+        unique_portfolio_snapshot_date: { portfolioId, snapshotDate }
+      },
+      update: data,
+      create: { portfolioId, snapshotDate, ...data }
+    });
+
+    return {
+      timestamp: snapshotDate,
+      totalValue,
+      cashBalance,
+      holdingsValue,
+      realizedPnl: totalRealized,
+      unrealizedPnl,
+      holdings: positions,
+      source
+    };
+  }
+
+  /**
+   * Daily snapshots in date order, optionally from a start date
+   */
+  async getSnapshots(portfolioId: number, from?: Date): Promise<PortfolioSnapshotData[]> {
+    const rows = await prisma.portfolioSnapshot.findMany({
+      where: {
+        portfolioId,
+        ...(from ? { snapshotDate: { gte: toSnapshotDate(getTradingDate(from)) } } : {})
+      },
+      orderBy: { snapshotDate: 'asc' }
+    });
+
+    return rows.map(row => ({
+      timestamp: row.snapshotDate,
+      totalValue: toNumber(row.totalValue),
+      cashBalance: toNumber(row.cashBalance),
+      holdingsValue: toNumber(row.holdingsValue),
+      realizedPnl: toNumber(row.realizedPnl),
+      unrealizedPnl: toNumber(row.unrealizedPnl),
+      holdings: (row.positions ?? {}) as unknown as Record<string, SnapshotPosition>,
+      source: row.source
+    }));
+  }
+}
+
+export const portfolioSnapshotService = new PortfolioSnapshotService();
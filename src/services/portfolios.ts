@@ -0,0 +1,328 @@
+// Portfolio management - create, rename, archive and switch portfolios, plus the consolidated household view
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '@/lib/prisma';
+import { cashFlowService } from '@/services/cashFlows';
+import { orderEngine } from '@/services/orderEngine';
+import { tradingBotWorker } from '@/services/tradingBotWorker';
+
+export interface PortfolioSummary {
+  id: number;
+  name: string;
+  initialValue: number;
+  cashBalance: number;
+  totalValue: number;
+  holdingsCount: number;
+  isActive: boolean;
+  isArchived: boolean;
+  archivedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface HouseholdHolding {
+  symbol: string;
+  quantity: number;
+  averagePrice: number;
+  currentPrice: number;
+  totalValue: number;
+  profitLoss: number;
+  profitLossPercent: number;
+  allocationPercent: number;
+  portfolios: Array<{ id: number; name: string; quantity: number }>;
+}
+
+export interface HouseholdPortfolioBreakdown {
+  id: number;
+  name: string;
+  isActive: boolean;
+  totalValue: number;
+  cashBalance: number;
+  holdingsValue: number;
+  netContributions: number;
+  profitLoss: number;
+  profitLossPercent: number;
+  allocationPercent: number;
+}
+
+export interface HouseholdView {
+  totalValue: number;
+  cashBalance: number;
+  holdingsValue: number;
+  netContributions: number;
+  profitLoss: number;
+  profitLossPercent: number;
+  portfolios: HouseholdPortfolioBreakdown[];
+  holdings: HouseholdHolding[];
+  history: Array<{ date: string; totalValue: number }>; // Summed daily snapshots
+}
+
+const toNumber = (value: Decimal | null | undefined): number => Number(value ?? 0);
+
+class PortfolioService {
+  async listPortfolios(userId: number, includeArchived: boolean = false): Promise<PortfolioSummary[]> {
+    const portfolios = await prisma.portfolio.findMany({
+      where: { userId, ...(includeArchived ? {} : { isArchived: false }) },
+      include: { _count: { select: { holdings: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return portfolios.map(portfolio => ({
+      id: portfolio.id,
+      name: portfolio.name,
+      initialValue: toNumber(portfolio.initialValue),
+      cashBalance: toNumber(portfolio.cashBalance),
+      totalValue: toNumber(portfolio.totalValue),
+      holdingsCount: portfolio._count.holdings,
+      isActive: portfolio.isActive,
+      isArchived: portfolio.isArchived,
+      archivedAt: portfolio.archivedAt,
+      createdAt: portfolio.createdAt
+    }));
+  }
+
+  /**
+   * Create a portfolio funded with its own opening deposit, optionally switching to it
+   */
+  async createPortfolio(userId: number, name: string, initialCash: number, activate: boolean = true): Promise<PortfolioSummary> {
+    const portfolio = await prisma.$transaction(async (tx) => {
+      if (activate) {
+        await tx.portfolio.updateMany({ where: { userId }, data: { isActive: false } });
+      }
+
+      const created = await tx.portfolio.create({
+        data: {
+          userId,
+          name,
+          initialValue: new Decimal(initialCash),
+          cashBalance: new Decimal(initialCash),
+          totalValue: new Decimal(initialCash),
+          isActive: activate
+        }
+      });
+
+      await cashFlowService.resetLedger(tx, created.id, initialCash, created.createdAt);
+      return created;
+    });
+
+    return {
+      id: portfolio.id,
+      name: portfolio.name,
+      initialValue: initialCash,
+      cashBalance: initialCash,
+      totalValue: initialCash,
+      holdingsCount: 0,
+      isActive: portfolio.isActive,
+      isArchived: false,
+      archivedAt: null,
+      createdAt: portfolio.createdAt
+    };
+  }
+
+  async renamePortfolio(userId: number, portfolioId: number, name: string): Promise<void> {
+    await this.getOwnedPortfolio(userId, portfolioId);
+    await prisma.portfolio.update({ where: { id: portfolioId }, data: { name } });
+  }
+
+  /**
+   * Make a portfolio the one every portfolio-scoped route and the store work against
+   */
+  async switchPortfolio(userId: number, portfolioId: number): Promise<void> {
+    const portfolio = await this.getOwnedPortfolio(userId, portfolioId);
+    if (portfolio.isArchived) {
+      throw new Error('Cannot switch to an archived portfolio');
+    }
+
+    await prisma.$transaction([
+      prisma.portfolio.updateMany({ where: { userId, id: { not: portfolioId } }, data: { isActive: false } }),
+      prisma.portfolio.update({ where: { id: portfolioId }, data: { isActive: true } })
+    ]);
+  }
+
+  /**
+   * Archive a portfolio: its open orders are cancelled, its bots stopped and, if it was selected,
+   * the most recently created remaining portfolio takes over.
+   */
+  async archivePortfolio(userId: number, portfolioId: number): Promise<void> {
+    const portfolio = await this.getOwnedPortfolio(userId, portfolioId);
+    if (portfolio.isArchived) return;
+
+    const remaining = await prisma.portfolio.findFirst({
+      where: { userId, isArchived: false, id: { not: portfolioId } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (!remaining) {
+      throw new Error('Cannot archive your only portfolio');
+    }
+
+    const openOrders = await orderEngine.getOrders(portfolioId, 'active');
+    for (const order of openOrders) {
+      await orderEngine.cancelOrder(portfolioId, order.id, 'Portfolio archived');
+    }
+
+    const activeBots = await prisma.tradingBot.findMany({
+      where: { portfolioId, status: { not: 'STOPPED' } },
+      select: { id: true }
+    });
+    for (const bot of activeBots) {
+      await tradingBotWorker.stopBot(portfolioId, bot.id, 'Portfolio archived');
+    }
+
+    await prisma.$transaction([
+      prisma.portfolio.update({
+        where: { id: portfolioId },
+        data: { isArchived: true, archivedAt: new Date(), isActive: false }
+      }),
+      ...(portfolio.isActive
+        ? [prisma.portfolio.update({ where: { id: remaining.id }, data: { isActive: true } })]
+        : [])
+    ]);
+  }
+
+  async restorePortfolio(userId: number, portfolioId: number): Promise<void> {
+    await this.getOwnedPortfolio(userId, portfolioId);
+    await prisma.portfolio.update({
+      where: { id: portfolioId },
+      data: { isArchived: false, archivedAt: null }
+    });
+  }
+
+  /**
+   * Aggregate holdings, contributions and daily value across all non-archived portfolios
+   */
+  async getHouseholdView(userId: number): Promise<HouseholdView> {
+    const portfolios = await prisma.portfolio.findMany({
+      where: { userId, isArchived: false },
+      include: { holdings: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const breakdown: HouseholdPortfolioBreakdown[] = [];
+    const holdingsBySymbol: Record<string, HouseholdHolding & { costBasis: number }> = {};
+
+    for (const portfolio of portfolios) {
+      let holdingsValue = 0;
+
+      for (const holding of portfolio.holdings) {
+        const quantity = toNumber(holding.quantity);
+        if (quantity <= 0) continue;
+
+        const averagePrice = toNumber(holding.averagePrice);
+        const currentPrice = toNumber(holding.currentPrice) || averagePrice;
+        const value = quantity * currentPrice;
+        holdingsValue += value;
+
+        const entry = holdingsBySymbol[holding.symbol] ??= {
+          symbol: holding.symbol,
+          quantity: 0,
+          averagePrice: 0,
+          currentPrice,
+          totalValue: 0,
+          profitLoss: 0,
+          profitLossPercent: 0,
+          allocationPercent: 0,
+          portfolios: [],
+          costBasis: 0
+        };
+        entry.quantity += quantity;
+        entry.costBasis += quantity * averagePrice;
+        entry.totalValue += value;
+        entry.currentPrice = currentPrice;
+        entry.portfolios.push({ id: portfolio.id, name: portfolio.name, quantity });
+      }
+
+      const cashFlows = await cashFlowService.getCashFlows(portfolio.id);
+      const netContributions = cashFlows.reduce(
+        (sum, flow) => sum + (flow.type === 'DEPOSIT' ? flow.amount : -flow.amount),
+        0
+      );
+      const cashBalance = toNumber(portfolio.cashBalance);
+      const totalValue = cashBalance + holdingsValue;
+      const profitLoss = totalValue - netContributions;
+
+      breakdown.push({
+        id: portfolio.id,
+        name: portfolio.name,
+        isActive: portfolio.isActive,
+        totalValue,
+        cashBalance,
+        holdingsValue,
+        netContributions,
+        profitLoss,
+        profitLossPercent: netContributions > 0 ? (profitLoss / netContributions) * 100 : 0,
+        allocationPercent: 0
+      });
+    }
+
+    const totalValue = breakdown.reduce((sum, p) => sum + p.totalValue, 0);
+    const cashBalance = breakdown.reduce((sum, p) => sum + p.cashBalance, 0);
+    const holdingsValue = breakdown.reduce((sum, p) => sum + p.holdingsValue, 0);
+    const netContributions = breakdown.reduce((sum, p) => sum + p.netContributions, 0);
+    const profitLoss = totalValue - netContributions;
+
+    breakdown.forEach(p => {
+      p.allocationPercent = totalValue > 0 ? (p.totalValue / totalValue) * 100 : 0;
+    });
+
+    const holdings = Object.values(holdingsBySymbol)
+      .map(({ costBasis, ...holding }) => ({
+        ...holding,
+        averagePrice: holding.quantity > 0 ? costBasis / holding.quantity : 0,
+        profitLoss: holding.totalValue - costBasis,
+        profitLossPercent: costBasis > 0 ? ((holding.totalValue - costBasis) / costBasis) * 100 : 0,
+        allocationPercent: totalValue > 0 ? (holding.totalValue / totalValue) * 100 : 0
+      }))
+      .sort((a, b) => b.totalValue - a.totalValue);
+
+    return {
+      totalValue,
+      cashBalance,
+      holdingsValue,
+      netContributions,
+      profitLoss,
+      profitLossPercent: netContributions > 0 ? (profitLoss / netContributions) * 100 : 0,
+      portfolios: breakdown,
+      holdings,
+      history: await this.getHouseholdHistory(portfolios.map(p => p.id))
+    };
+  }
+
+  /**
+   * Sum daily snapshots across portfolios, carrying each portfolio's last value over missing days
+   */
+  private async getHouseholdHistory(portfolioIds: number[]): Promise<Array<{ date: string; totalValue: number }>> {
+    if (portfolioIds.length === 0) return [];
+
+    const rows = await prisma.portfolioSnapshot.findMany({
+      where: { portfolioId: { in: portfolioIds } },
+      select: { portfolioId: true, snapshotDate: true, totalValue: true },
+      orderBy: { snapshotDate: 'asc' }
+    });
+
+    const lastValues = new Map<number, number>();
+    const history: Array<{ date: string; totalValue: number }> = [];
+
+    for (const row of rows) {
+      lastValues.set(row.portfolioId, toNumber(row.totalValue));
+      const date = row.snapshotDate.toISOString().slice(0, 10);
+      const totalValue = Array.from(lastValues.values()).reduce((sum, value) => sum + value, 0);
+
+      if (history.length > 0 && history[history.length - 1].date === date) {
+        history[history.length - 1].totalValue = totalValue;
+      } else {
+        history.push({ date, totalValue });
+      }
+    }
+
+    return history;
+  }
+
+  private async getOwnedPortfolio(userId: number, portfolioId: number) {
+    const portfolio = await prisma.portfolio.findFirst({ where: { id: portfolioId, userId } });
+    if (!portfolio) {
+      throw new Error('Portfolio not found');
+    }
+    return portfolio;
+  }
+}
+
+export const portfolioService = new PortfolioService();
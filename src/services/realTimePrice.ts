@@ -103,6 +103,30 @@ class RealTimePriceService {
     return await this.fetchPricesForSymbols(symbols, true);
   }
 
+  /**
+   * Get live prices for extra symbols (e.g. a watchlist) through the shared cache,
+   * without replacing the symbols being polled for the portfolio
+   */
+  async getLivePrices(symbols: string[]): Promise<Record<string, LivePrice>> {
+    await this.fetchPricesForSymbols(symbols);
+
+    const prices: Record<string, LivePrice> = {};
+    symbols.forEach(symbol => {
+      const livePrice = this.priceCache.get(symbol);
+      if (livePrice) {
+        prices[symbol] = livePrice;
+      }
+    });
+    return prices;
+  }
+
+  /**
+   * How often polled prices are refreshed, for widgets that poll getLivePrices themselves
+   */
+  getPollingInterval(): number {
+    return this.POLLING_INTERVAL;
+  }
+
   /**
    * Calculate real-time portfolio data
    */
@@ -0,0 +1,376 @@
+// Rebalancing service - target weights by symbol or sector, drift against them and the trades that restore them
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '@/lib/prisma';
+import { finnhubService } from '@/services/finnhub';
+import { riskManagerService } from '@/services/riskManager';
+import { taxLotService } from '@/services/taxLots';
+import { tradeExecutionService } from '@/services/tradeExecution';
+import { getTradingDate, isMarketOpen } from '@/utils/marketHours';
+import type {
+  AllocationDrift,
+  RebalanceFill,
+  RebalancePreview,
+  RebalanceResult,
+  RebalanceTrade,
+  TargetAllocation
+} from '@/types/rebalancing';
+
+const DEFAULT_INTERVAL_MS = 300000; // Look for scheduled rebalances every 5 minutes
+const BUY_PRICE_BUFFER = 0.01;      // Buys are sized 1% above the quote so spread and slippage still fit in cash
+const QUANTITY_EPSILON = 1e-8;
+
+export const DEFAULT_TARGET_ALLOCATION: TargetAllocation = {
+  groupBy: 'SYMBOL',
+  targets: [],
+  driftBand: 5,
+  cashReservePercent: 5,
+  minTradeAmount: 50,
+  schedule: 'OFF'
+};
+
+interface Position {
+  symbol: string;
+  bucket: string;
+  quantity: number;
+  price: number;
+  value: number;
+}
+
+const toNumber = (value: Decimal | null | undefined): number => Number(value ?? 0);
+
+class RebalanceService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isRunningSchedule = false;
+  private lastCheckedDates = new Map<number, string>(); // Portfolio -> trading date of the last automatic check
+
+  /**
+   * Start the scheduled rebalance loop (idempotent)
+   */
+  start(intervalMs: number = Number(process.env.REBALANCER_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runScheduledRebalances().catch(error => console.error('Rebalancer tick failed:', error));
+    }, intervalMs);
+
+    console.log(`⚖️ Rebalancer started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Stored target allocation merged over the defaults; null when none is set
+   */
+  async getTargetAllocation(portfolioId: number): Promise<TargetAllocation | null> {
+    const portfolio = await prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      select: { targetAllocation: true }
+    });
+
+    const stored = portfolio?.targetAllocation;
+    if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+      return null;
+    }
+
+    return { ...DEFAULT_TARGET_ALLOCATION, ...(stored as Partial<TargetAllocation>) };
+  }
+
+  async updateTargetAllocation(portfolioId: number, updates: Partial<TargetAllocation>): Promise<TargetAllocation> {
+    const allocation = { ...((await this.getTargetAllocation(portfolioId)) ?? DEFAULT_TARGET_ALLOCATION), ...updates };
+    if (allocation.groupBy === 'SYMBOL') {
+      allocation.targets = allocation.targets.map(target => ({ ...target, key: target.key.toUpperCase() }));
+    }
+
+    await prisma.portfolio.update({
+      where: { id: portfolioId },
+      data: { targetAllocation: { ...allocation } as unknown as Prisma.InputJsonValue }
+    });
+
+    return allocation;
+  }
+
+  async clearTargetAllocation(portfolioId: number): Promise<void> {
+    await prisma.portfolio.update({
+      where: { id: portfolioId },
+      data: { targetAllocation: Prisma.DbNull }
+    });
+  }
+
+  /**
+   * Drift per bucket and the smallest set of trades that brings every out-of-band bucket
+   * back to target. Only drifted buckets trade; sells fund buys, the cash reserve is kept,
+   * and sells pick the lots with the smallest tax bill.
+   */
+  async preview(portfolioId: number): Promise<RebalancePreview> {
+    const allocation = await this.getTargetAllocation(portfolioId);
+    if (!allocation || allocation.targets.length === 0) {
+      throw new Error('No target allocation set');
+    }
+
+    const portfolio = await prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      include: { holdings: true }
+    });
+    if (!portfolio) {
+      throw new Error('Portfolio not found');
+    }
+
+    const bucketOf = (symbol: string) =>
+      allocation.groupBy === 'SECTOR' ? riskManagerService.getSector(symbol) : symbol;
+
+    const positions: Position[] = [];
+    const warnings: string[] = [];
+    for (const holding of portfolio.holdings) {
+      const quantity = toNumber(holding.quantity);
+      if (quantity <= QUANTITY_EPSILON) continue;
+      const price = await this.getPrice(holding.symbol, toNumber(holding.currentPrice));
+      if (price <= 0) {
+        warnings.push(`No price available for ${holding.symbol}`);
+        continue;
+      }
+      positions.push({ symbol: holding.symbol, bucket: bucketOf(holding.symbol), quantity, price, value: quantity * price });
+    }
+
+    const cashBalance = toNumber(portfolio.cashBalance);
+    const totalValue = cashBalance + positions.reduce((sum, position) => sum + position.value, 0);
+    const reserve = totalValue * allocation.cashReservePercent / 100;
+    const investableValue = totalValue - reserve;
+
+    // Every target is a bucket; held buckets without a target have a target of zero
+    const targetWeights = new Map(allocation.targets.map(target => [target.key, target.weight]));
+    const bucketKeys = new Set([...targetWeights.keys(), ...positions.map(position => position.bucket)]);
+
+    const drifts: AllocationDrift[] = Array.from(bucketKeys).map(key => {
+      const currentValue = positions.filter(position => position.bucket === key).reduce((sum, position) => sum + position.value, 0);
+      const targetPercent = targetWeights.get(key) ?? 0;
+      const currentPercent = investableValue > 0 ? currentValue / investableValue * 100 : 0;
+      const drift = currentPercent - targetPercent;
+      return {
+        key,
+        targetPercent,
+        currentPercent,
+        drift,
+        currentValue,
+        targetValue: investableValue * targetPercent / 100,
+        outOfBand: Math.abs(drift) > allocation.driftBand
+      };
+    }).sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+
+    const trades: RebalanceTrade[] = [];
+    let cashAfter = cashBalance;
+
+    // Sells first: trim each overweight bucket across its holdings in proportion to their value
+    for (const drift of drifts.filter(candidate => candidate.outOfBand && candidate.drift > 0)) {
+      const holdings = positions.filter(position => position.bucket === drift.key);
+      const excess = drift.currentValue - drift.targetValue;
+
+      for (const position of holdings) {
+        const quantity = drift.targetPercent === 0
+          ? position.quantity // Untargeted buckets are sold out entirely
+          : Math.min(position.quantity, Math.floor(excess * (position.value / drift.currentValue) / position.price));
+        const amount = quantity * position.price;
+        if (quantity <= QUANTITY_EPSILON || amount < allocation.minTradeAmount) continue;
+
+        const relief = await taxLotService.planTaxEfficientRelief(portfolioId, position.symbol, quantity, position.price);
+        trades.push({
+          symbol: position.symbol,
+          bucket: drift.key,
+          side: 'SELL',
+          quantity,
+          price: position.price,
+          amount,
+          lotSelections: relief?.selections,
+          estimatedRealizedPnl: relief?.realizedPnl
+        });
+        cashAfter += amount;
+      }
+    }
+
+    // Then buys, largest shortfall first, with whatever cash sits above the reserve
+    let spendable = Math.max(0, cashAfter - reserve);
+    for (const drift of drifts.filter(candidate => candidate.outOfBand && candidate.drift < 0)) {
+      const shortfall = drift.targetValue - drift.currentValue;
+      const held = positions.filter(position => position.bucket === drift.key);
+      const target = allocation.targets.find(candidate => candidate.key === drift.key);
+
+      // Sector buckets add to what they already hold, or to the target's designated symbol
+      const legs: Array<{ symbol: string; share: number; price: number }> = [];
+      if (held.length > 0) {
+        held.forEach(position => legs.push({
+          symbol: position.symbol,
+          share: drift.currentValue > 0 ? position.value / drift.currentValue : 1 / held.length,
+          price: position.price
+        }));
+      } else {
+        const symbol = allocation.groupBy === 'SECTOR' ? target?.symbol : drift.key;
+        if (!symbol) {
+          warnings.push(`No symbol to buy for ${drift.key}; hold a position in it or set one on the target`);
+          continue;
+        }
+        const price = await this.getPrice(symbol, 0);
+        if (price <= 0) {
+          warnings.push(`No price available for ${symbol}`);
+          continue;
+        }
+        legs.push({ symbol, share: 1, price });
+      }
+
+      for (const leg of legs) {
+        const wanted = shortfall * leg.share;
+        const budget = Math.min(wanted, spendable);
+        const quantity = Math.floor(budget / (leg.price * (1 + BUY_PRICE_BUFFER)));
+        const amount = quantity * leg.price;
+
+        if (budget < wanted - allocation.minTradeAmount) {
+          warnings.push(`Not enough cash to fully restore ${drift.key}`);
+        }
+        if (quantity <= 0 || amount < allocation.minTradeAmount) continue;
+
+        trades.push({ symbol: leg.symbol, bucket: drift.key, side: 'BUY', quantity, price: leg.price, amount });
+        spendable -= amount;
+        cashAfter -= amount;
+      }
+    }
+
+    return {
+      allocation,
+      totalValue,
+      investableValue,
+      cashBalance,
+      cashAfter,
+      drifts,
+      trades,
+      maxDrift: drifts.reduce((max, drift) => Math.max(max, Math.abs(drift.drift)), 0),
+      needsRebalance: trades.length > 0,
+      estimatedRealizedPnl: trades.reduce((sum, trade) => sum + (trade.estimatedRealizedPnl ?? 0), 0),
+      warnings: Array.from(new Set(warnings)),
+      lastRebalancedAt: portfolio.lastRebalancedAt
+    };
+  }
+
+  /**
+   * Preview and execute the rebalance through the normal trade path: sells, then buys.
+   * A failed leg is recorded and the rest still run.
+   */
+  async execute(portfolioId: number, source: 'manual' | 'scheduled' | 'bot' = 'manual'): Promise<RebalanceResult> {
+    const preview = await this.preview(portfolioId);
+    const fills: RebalanceFill[] = [];
+
+    for (const trade of preview.trades) {
+      const drift = preview.drifts.find(candidate => candidate.key === trade.bucket);
+      try {
+        const transaction = await tradeExecutionService.executeTrade(portfolioId, {
+          symbol: trade.symbol,
+          type: trade.side,
+          quantity: trade.quantity,
+          price: trade.price,
+          lotSelections: trade.lotSelections,
+          aiRecommendation: {
+            action: 'REBALANCE',
+            confidence: 100,
+            reasoning: `Rebalance (${source}): ${trade.bucket} ${drift?.currentPercent.toFixed(1)}% toward ${drift?.targetPercent}% target`
+          }
+        });
+        fills.push({ ...trade, price: toNumber(transaction.price), amount: toNumber(transaction.totalAmount), transactionId: transaction.id });
+      } catch (error) {
+        fills.push({ ...trade, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    const executedAt = new Date();
+    if (fills.some(fill => !fill.error)) {
+      await prisma.portfolio.update({ where: { id: portfolioId }, data: { lastRebalancedAt: executedAt } });
+    }
+
+    console.log(`⚖️ Rebalanced portfolio ${portfolioId} (${source}): ${fills.filter(fill => !fill.error).length}/${fills.length} trades filled`);
+    return { preview, fills, executedAt };
+  }
+
+  /**
+   * Rebalance when any bucket has drifted out of its band, checking at most once per trading day
+   */
+  async rebalanceIfDrifted(portfolioId: number, source: 'scheduled' | 'bot', now: Date = new Date()): Promise<RebalanceResult | null> {
+    const tradingDate = getTradingDate(now);
+    if (this.lastCheckedDates.get(portfolioId) === tradingDate) return null;
+    this.lastCheckedDates.set(portfolioId, tradingDate);
+
+    const allocation = await this.getTargetAllocation(portfolioId);
+    if (!allocation || allocation.targets.length === 0) return null;
+
+    const preview = await this.preview(portfolioId);
+    return preview.needsRebalance ? this.execute(portfolioId, source) : null;
+  }
+
+  /**
+   * Check portfolios whose rebalance schedule is due, while the market is open
+   */
+  async runScheduledRebalances(now: Date = new Date()): Promise<number> {
+    if (this.isRunningSchedule || !isMarketOpen(now)) return 0;
+
+    this.isRunningSchedule = true;
+    try {
+      const portfolios = await prisma.portfolio.findMany({
+        where: { isArchived: false, targetAllocation: { not: Prisma.DbNull } },
+        select: { id: true, lastRebalancedAt: true }
+      });
+      let rebalanced = 0;
+
+      for (const { id, lastRebalancedAt } of portfolios) {
+        try {
+          const allocation = await this.getTargetAllocation(id);
+          if (!allocation || !this.isScheduleDue(allocation.schedule, lastRebalancedAt, now)) continue;
+
+          if (await this.rebalanceIfDrifted(id, 'scheduled', now)) {
+            rebalanced++;
+          }
+        } catch (error) {
+          console.error(`Scheduled rebalance failed for portfolio ${id}:`, error);
+        }
+      }
+
+      return rebalanced;
+    } finally {
+      this.isRunningSchedule = false;
+    }
+  }
+
+  private isScheduleDue(schedule: TargetAllocation['schedule'], lastRebalancedAt: Date | null, now: Date): boolean {
+    if (schedule === 'OFF') return false;
+    if (!lastRebalancedAt) return true;
+
+    const last = getTradingDate(lastRebalancedAt);
+    const today = getTradingDate(now);
+    switch (schedule) {
+      case 'DAILY':
+        return last !== today;
+      case 'WEEKLY':
+        return (Date.parse(today) - Date.parse(last)) / (24 * 60 * 60 * 1000) >= 7;
+      case 'MONTHLY':
+        return last.slice(0, 7) !== today.slice(0, 7);
+      default:
+        return false;
+    }
+  }
+
+  private async getPrice(symbol: string, fallback: number): Promise<number> {
+    try {
+      const quote = await finnhubService.getQuote(symbol);
+      return quote.c > 0 ? quote.c : fallback;
+    } catch (error) {
+      console.warn(`Rebalancer: using last price for ${symbol}:`, error);
+      return fallback;
+    }
+  }
+}
+
+export const rebalanceService = new RebalanceService();
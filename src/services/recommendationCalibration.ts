@@ -0,0 +1,229 @@
+// Recommendation calibration - reliability diagrams, Brier scores and provider/sector leaderboards
+// built from scored recommendation outcomes, plus the confidence rescaling the trading bot can opt into
+import { prisma } from '@/lib/prisma';
+import { CALIBRATION_HORIZON } from '@/services/recommendationTracker';
+import type {
+  CalibrationPoint,
+  CalibrationReport,
+  CalibrationSummary,
+  LeaderboardEntry,
+  OutcomeHorizon,
+  RecommendationSource,
+  ReliabilityBin
+} from '@/types/recommendationTracking';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 180;
+const BIN_WIDTH = 10;             // Reliability diagram buckets of 10 confidence points
+const MIN_RANKED_SAMPLES = 20;    // Fewer outcomes than this are listed but not ranked
+const MIN_CURVE_SAMPLES = 50;     // Below this the bot uses raw confidence
+const PRIOR_WEIGHT = 10;          // Pseudo-outcomes pulling sparse bins towards the stated confidence
+const CURVE_TTL_MS = 3600000;     // Outcomes are scored hourly at most
+const MAX_SAMPLES = 20000;
+const PROVIDERS = ['gemini', 'groq', 'openai'];
+
+export interface CalibrationSample {
+  confidence: number;             // 0-100 as stated
+  correct: boolean;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  returnPercent: number;
+  provider: string;
+  sector: string | null;
+}
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Bucket samples by stated confidence. Every bucket is returned so charts keep a fixed axis.
+ */
+export function buildReliabilityBins(samples: CalibrationSample[]): ReliabilityBin[] {
+  const bins: ReliabilityBin[] = [];
+
+  for (let min = 0; min < 100; min += BIN_WIDTH) {
+    const max = min + BIN_WIDTH;
+    // The top bucket is closed so 100% lands in it
+    const inBin = samples.filter(sample => sample.confidence >= min && (sample.confidence < max || (max === 100 && sample.confidence === 100)));
+
+    bins.push({
+      minConfidence: min,
+      maxConfidence: max,
+      count: inBin.length,
+      averageConfidence: inBin.length > 0 ? average(inBin.map(sample => sample.confidence)) : 0,
+      hitRate: inBin.length > 0 ? inBin.filter(sample => sample.correct).length / inBin.length * 100 : 0
+    });
+  }
+
+  return bins;
+}
+
+export function summarize(samples: CalibrationSample[]): CalibrationSummary {
+  if (samples.length === 0) {
+    return { count: 0, hitRate: 0, averageConfidence: 0, brierScore: null, calibrationError: null, averageReturn: null };
+  }
+
+  const bins = buildReliabilityBins(samples);
+  const directional = samples.filter(sample => sample.action !== 'HOLD');
+
+  return {
+    count: samples.length,
+    hitRate: samples.filter(sample => sample.correct).length / samples.length * 100,
+    averageConfidence: average(samples.map(sample => sample.confidence)),
+    brierScore: average(samples.map(sample => (sample.confidence / 100 - (sample.correct ? 1 : 0)) ** 2)),
+    calibrationError: bins.reduce((sum, bin) =>
+      sum + bin.count * Math.abs(bin.averageConfidence - bin.hitRate), 0) / samples.length,
+    averageReturn: directional.length > 0
+      ? average(directional.map(sample => sample.action === 'SELL' ? -sample.returnPercent : sample.returnPercent))
+      : null
+  };
+}
+
+/**
+ * Monotone mapping from stated to realized confidence. Each populated bin is shrunk towards its
+ * stated confidence (so a handful of outcomes cannot swing it), then pool-adjacent-violators makes
+ * the points non-decreasing: a higher stated confidence never calibrates below a lower one.
+ */
+export function fitCalibrationCurve(samples: CalibrationSample[]): CalibrationPoint[] {
+  if (samples.length < MIN_CURVE_SAMPLES) return [];
+
+  const blocks = buildReliabilityBins(samples)
+    .filter(bin => bin.count > 0)
+    .map(bin => ({
+      raw: [bin.averageConfidence],
+      weight: bin.count + PRIOR_WEIGHT,
+      value: (bin.hitRate * bin.count + bin.averageConfidence * PRIOR_WEIGHT) / (bin.count + PRIOR_WEIGHT)
+    }));
+
+  const pooled: typeof blocks = [];
+  for (const block of blocks) {
+    pooled.push(block);
+    while (pooled.length > 1 && pooled[pooled.length - 2].value > pooled[pooled.length - 1].value) {
+      const last = pooled.pop()!;
+      const previous = pooled.pop()!;
+      const weight = previous.weight + last.weight;
+      pooled.push({
+        raw: [...previous.raw, ...last.raw],
+        weight,
+        value: (previous.value * previous.weight + last.value * last.weight) / weight
+      });
+    }
+  }
+
+  return pooled.flatMap(block => block.raw.map(raw => ({ raw, calibrated: block.value })));
+}
+
+/**
+ * Interpolate along the curve; outside it the nearest end point applies. No curve means no change.
+ */
+export function applyCalibration(confidence: number, curve: CalibrationPoint[]): number {
+  if (curve.length === 0) return confidence;
+  if (confidence <= curve[0].raw) return curve[0].calibrated;
+
+  const last = curve[curve.length - 1];
+  if (confidence >= last.raw) return last.calibrated;
+
+  const upperIndex = curve.findIndex(point => point.raw >= confidence);
+  const lower = curve[upperIndex - 1];
+  const upper = curve[upperIndex];
+  const span = upper.raw - lower.raw;
+
+  return span > 0
+    ? lower.calibrated + (upper.calibrated - lower.calibrated) * (confidence - lower.raw) / span
+    : upper.calibrated;
+}
+
+const byBrierScore = (a: LeaderboardEntry, b: LeaderboardEntry): number => {
+  if (a.ranked !== b.ranked) return a.ranked ? -1 : 1;
+  if (a.ranked) return (a.brierScore ?? 0) - (b.brierScore ?? 0);
+  return b.count - a.count;
+};
+
+const buildLeaderboard = (groups: Map<string, CalibrationSample[]>): LeaderboardEntry[] =>
+  Array.from(groups, ([key, samples]) => ({
+    key,
+    ...summarize(samples),
+    ranked: samples.length >= MIN_RANKED_SAMPLES
+  })).sort(byBrierScore);
+
+class RecommendationCalibrationService {
+  private curves = new Map<RecommendationSource, { curve: CalibrationPoint[]; fittedAt: number }>();
+
+  /**
+   * Reliability, Brier score and leaderboards over recommendations made in the last `days` days
+   */
+  async getReport(
+    options: { days?: number; horizonDays?: OutcomeHorizon; source?: RecommendationSource } = {},
+    now: Date = new Date()
+  ): Promise<CalibrationReport> {
+    const horizonDays = options.horizonDays ?? CALIBRATION_HORIZON;
+    const since = new Date(now.getTime() - (options.days ?? DEFAULT_DAYS) * DAY_MS);
+    const samples = await this.loadSamples(since, horizonDays, options.source);
+
+    const providers = new Map<string, CalibrationSample[]>(PROVIDERS.map(provider => [provider, []]));
+    const sectors = new Map<string, CalibrationSample[]>();
+    for (const sample of samples) {
+      providers.set(sample.provider, [...(providers.get(sample.provider) ?? []), sample]);
+      const sector = sample.sector ?? 'Unknown';
+      sectors.set(sector, [...(sectors.get(sector) ?? []), sample]);
+    }
+
+    return {
+      since: since.toISOString(),
+      horizonDays,
+      source: options.source ?? null,
+      overall: summarize(samples),
+      reliability: buildReliabilityBins(samples),
+      providers: buildLeaderboard(providers),
+      sectors: buildLeaderboard(sectors),
+      curve: fitCalibrationCurve(samples)
+    };
+  }
+
+  /**
+   * Rescale a stated confidence using the curve fitted to this source's history.
+   * Returns the input unchanged until enough outcomes have been scored.
+   */
+  async calibrate(confidence: number, source: RecommendationSource = 'ANALYZER'): Promise<number> {
+    const cached = this.curves.get(source);
+    if (cached && Date.now() - cached.fittedAt < CURVE_TTL_MS) {
+      return applyCalibration(confidence, cached.curve);
+    }
+
+    const since = new Date(Date.now() - DEFAULT_DAYS * DAY_MS);
+    const curve = fitCalibrationCurve(await this.loadSamples(since, CALIBRATION_HORIZON, source));
+    this.curves.set(source, { curve, fittedAt: Date.now() });
+
+    return applyCalibration(confidence, curve);
+  }
+
+  private async loadSamples(
+    since: Date,
+    horizonDays: OutcomeHorizon,
+    source?: RecommendationSource
+  ): Promise<CalibrationSample[]> {
+    const outcomes = await prisma.recommendationOutcome.findMany({
+      where: {
+        horizonDays,
+        recommendation: {
+          generatedAt: { gte: since },
+          ...(source ? { source } : {})
+        }
+      },
+      include: {
+        recommendation: { select: { confidence: true, action: true, provider: true, sector: true } }
+      },
+      orderBy: { evaluatedAt: 'desc' },
+      take: MAX_SAMPLES
+    });
+
+    return outcomes.map(outcome => ({
+      confidence: Number(outcome.recommendation.confidence),
+      correct: outcome.correct,
+      action: outcome.recommendation.action,
+      returnPercent: Number(outcome.returnPercent),
+      provider: outcome.recommendation.provider,
+      sector: outcome.recommendation.sector
+    }));
+  }
+}
+
+export const recommendationCalibrationService = new RecommendationCalibrationService();
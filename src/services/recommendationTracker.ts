@@ -0,0 +1,304 @@
+// Recommendation tracker - stores every AI recommendation and scores it against realized prices at 1, 5 and 20 sessions
+import { AIRecommendation as RecommendationRecord, Prisma, RecommendationOutcome as OutcomeRecord } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { indicatorService } from '@/services/indicators';
+import { getTradingDate, isAfterMarketClose } from '@/utils/marketHours';
+import type { PriceBar } from '@/types/strategy';
+import type {
+  ConfidenceBandAccuracy,
+  HorizonAccuracy,
+  OutcomeHorizon,
+  RecommendationOutcome,
+  RecommendationPerformance,
+  RecommendationSource,
+  TrackedRecommendation,
+  TrackedRecommendationInput
+} from '@/types/recommendationTracking';
+
+const DEFAULT_INTERVAL_MS = 3600000; // Outcomes only change once a day; hourly catches the close
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const OUTCOME_HORIZONS: OutcomeHorizon[] = [1, 5, 20];
+export const CALIBRATION_HORIZON: OutcomeHorizon = 5;
+const MAX_TRACKING_DAYS = 40;     // Calendar days; comfortably past 20 sessions
+const HOLD_BAND_PERCENT = 1;      // A HOLD is right if the 1-session move stays inside ±1%, widening with √sessions
+const MAX_ANALYZED = 5000;
+const RECENT_LIMIT = 20;
+
+const CONFIDENCE_BANDS: { band: ConfidenceBandAccuracy['band']; min: number; max: number }[] = [
+  { band: 'HIGH', min: 80, max: 100 },
+  { band: 'MEDIUM', min: 60, max: 79.99 },
+  { band: 'LOW', min: 0, max: 59.99 }
+];
+
+type RecordWithOutcomes = RecommendationRecord & { outcomes: OutcomeRecord[] };
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// @db.Date columns store the trading date at UTC midnight
+const toSnapshotDate = (tradingDate: string): Date => new Date(`${tradingDate}T00:00:00.000Z`);
+
+const toOutcome = (record: OutcomeRecord): RecommendationOutcome => ({
+  horizonDays: record.horizonDays as OutcomeHorizon,
+  evaluationDate: record.evaluationDate.toISOString().slice(0, 10),
+  exitPrice: Number(record.exitPrice),
+  returnPercent: Number(record.returnPercent),
+  correct: record.correct,
+  targetHit: record.targetHit
+});
+
+const toTrackedRecommendation = (record: RecordWithOutcomes): TrackedRecommendation => ({
+  id: record.id,
+  source: record.source,
+  provider: record.provider,
+  model: record.model,
+  symbol: record.symbol,
+  action: record.action,
+  confidence: Number(record.confidence),
+  currentPrice: Number(record.currentPrice ?? 0),
+  targetPrice: record.targetPrice !== null ? Number(record.targetPrice) : null,
+  generatedAt: record.generatedAt.toISOString(),
+  outcomes: record.outcomes.map(toOutcome).sort((a, b) => a.horizonDays - b.horizonDays)
+});
+
+/**
+ * Score one recommendation over the first `horizon` completed sessions after it was made.
+ * `bars` must start with the first session after the recommendation.
+ */
+export function scoreOutcome(
+  action: TrackedRecommendationInput['action'],
+  entryPrice: number,
+  targetPrice: number | null,
+  bars: PriceBar[],
+  horizon: OutcomeHorizon
+): Omit<RecommendationOutcome, 'horizonDays'> {
+  const window = bars.slice(0, horizon);
+  const exit = window[window.length - 1];
+  const returnPercent = (exit.close / entryPrice - 1) * 100;
+
+  const correct = action === 'BUY'
+    ? returnPercent > 0
+    : action === 'SELL'
+      ? returnPercent < 0
+      : Math.abs(returnPercent) <= HOLD_BAND_PERCENT * Math.sqrt(horizon);
+
+  const hasTarget = action !== 'HOLD' && targetPrice !== null && targetPrice > 0 && targetPrice !== entryPrice;
+  const targetHit = !hasTarget
+    ? null
+    : action === 'BUY'
+      ? window.some(bar => bar.high >= targetPrice)
+      : window.some(bar => bar.low <= targetPrice);
+
+  return { evaluationDate: exit.date, exitPrice: exit.close, returnPercent, correct, targetHit };
+}
+
+class RecommendationTracker {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isEvaluating = false;
+
+  /**
+   * Start the outcome evaluation loop (idempotent)
+   */
+  start(intervalMs: number = Number(process.env.RECOMMENDATION_OUTCOMES_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.evaluateOutcomes().catch(error => console.error('Recommendation outcome tick failed:', error));
+    }, intervalMs);
+
+    console.log(`🎯 Recommendation outcome tracker started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Store recommendations as produced. Recommendations without a usable price are skipped
+   * because there is nothing to measure them against.
+   */
+  async record(inputs: TrackedRecommendationInput[], userId?: number): Promise<number> {
+    const data = inputs
+      .filter(input => input.currentPrice > 0)
+      .map(input => ({
+        userId: userId ?? null,
+        source: input.source,
+        provider: input.provider,
+        model: input.model ?? null,
+        promptVersion: input.promptVersion ?? null,
+        symbol: input.symbol.toUpperCase(),
+        name: input.name ?? null,
+        sector: input.sector ?? null,
+        action: input.action,
+        confidence: Math.min(100, Math.max(0, input.confidence)),
+        currentPrice: input.currentPrice,
+        targetPrice: input.targetPrice ?? null,
+        expectedReturn: input.expectedReturn ?? null,
+        reasoning: input.reasoning ?? null,
+        riskLevel: input.riskLevel ?? null,
+        timeframe: input.timeframe ?? null,
+        keyFactors: input.keyFactors ?? Prisma.DbNull,
+        generatedAt: input.generatedAt ? new Date(input.generatedAt) : new Date()
+      }));
+
+    if (data.length === 0) return 0;
+    const result = await prisma.aIRecommendation.createMany({ data });
+    return result.count;
+  }
+
+  /**
+   * Score every horizon that has closed since the last run. Horizons count completed
+   * sessions after the trading date the recommendation was made on.
+   */
+  async evaluateOutcomes(now: Date = new Date()): Promise<number> {
+    if (this.isEvaluating) return 0;
+
+    this.isEvaluating = true;
+    try {
+      const pending = await prisma.aIRecommendation.findMany({
+        where: {
+          generatedAt: { gte: new Date(now.getTime() - MAX_TRACKING_DAYS * DAY_MS), lte: now },
+          currentPrice: { gt: 0 },
+          outcomes: { none: { horizonDays: OUTCOME_HORIZONS[OUTCOME_HORIZONS.length - 1] } }
+        },
+        include: { outcomes: { select: { horizonDays: true } } },
+        orderBy: { generatedAt: 'asc' }
+      });
+
+      const bySymbol = new Map<string, typeof pending>();
+      for (const recommendation of pending) {
+        bySymbol.set(recommendation.symbol, [...(bySymbol.get(recommendation.symbol) ?? []), recommendation]);
+      }
+
+      // Today's bar is still forming until the close
+      const today = getTradingDate(now);
+      const includeToday = isAfterMarketClose(now);
+      let evaluated = 0;
+
+      for (const [symbol, recommendations] of bySymbol) {
+        let bars: PriceBar[];
+        try {
+          bars = (await indicatorService.getBars(symbol))
+            .filter(bar => bar.date < today || (includeToday && bar.date === today));
+        } catch (error) {
+          console.warn(`Recommendation outcomes: no price history for ${symbol}:`, error);
+          continue;
+        }
+
+        const outcomes: Prisma.RecommendationOutcomeCreateManyInput[] = [];
+        for (const recommendation of recommendations) {
+          const entryDate = getTradingDate(recommendation.generatedAt);
+          const sessions = bars.filter(bar => bar.date > entryDate);
+          const scored = new Set(recommendation.outcomes.map(outcome => outcome.horizonDays));
+
+          for (const horizon of OUTCOME_HORIZONS) {
+            if (scored.has(horizon) || sessions.length < horizon) continue;
+
+            const outcome = scoreOutcome(
+              recommendation.action,
+              Number(recommendation.currentPrice),
+              recommendation.targetPrice !== null ? Number(recommendation.targetPrice) : null,
+              sessions,
+              horizon
+            );
+            outcomes.push({
+              recommendationId: recommendation.id,
+              horizonDays: horizon,
+              ...outcome,
+              evaluationDate: toSnapshotDate(outcome.evaluationDate)
+            });
+          }
+        }
+
+        if (outcomes.length > 0) {
+          const result = await prisma.recommendationOutcome.createMany({ data: outcomes, skipDuplicates: true });
+          evaluated += result.count;
+        }
+      }
+
+      if (evaluated > 0) {
+        console.log(`🎯 Scored ${evaluated} recommendation outcome(s)`);
+      }
+      return evaluated;
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+
+  /**
+   * Accuracy per horizon and hit rate per stated-confidence band over the last `days` days
+   */
+  async getPerformance(
+    days: number = 90,
+    filters: { source?: RecommendationSource; provider?: string } = {},
+    now: Date = new Date()
+  ): Promise<RecommendationPerformance> {
+    const since = new Date(now.getTime() - days * DAY_MS);
+    const records = await prisma.aIRecommendation.findMany({
+      where: {
+        generatedAt: { gte: since },
+        ...(filters.source ? { source: filters.source } : {}),
+        ...(filters.provider ? { provider: filters.provider } : {})
+      },
+      include: { outcomes: true },
+      orderBy: { generatedAt: 'desc' },
+      take: MAX_ANALYZED
+    });
+    const recommendations = records.map(toTrackedRecommendation);
+
+    const outcomesAt = (horizon: OutcomeHorizon) => recommendations.flatMap(recommendation =>
+      recommendation.outcomes
+        .filter(outcome => outcome.horizonDays === horizon)
+        .map(outcome => ({ recommendation, outcome })));
+
+    const horizons: HorizonAccuracy[] = OUTCOME_HORIZONS.map(horizon => {
+      const scored = outcomesAt(horizon);
+      const directional = scored.filter(({ recommendation }) => recommendation.action !== 'HOLD');
+      const withTarget = directional.filter(({ outcome }) => outcome.targetHit !== null);
+
+      return {
+        horizonDays: horizon,
+        evaluated: scored.length,
+        hitRate: scored.length > 0 ? scored.filter(({ outcome }) => outcome.correct).length / scored.length * 100 : 0,
+        averageReturn: directional.length > 0
+          ? average(directional.map(({ recommendation, outcome }) =>
+            recommendation.action === 'SELL' ? -outcome.returnPercent : outcome.returnPercent))
+          : null,
+        targetHitRate: withTarget.length > 0
+          ? withTarget.filter(({ outcome }) => outcome.targetHit).length / withTarget.length * 100
+          : null
+      };
+    });
+
+    const calibrationOutcomes = outcomesAt(CALIBRATION_HORIZON);
+    const confidenceBands: ConfidenceBandAccuracy[] = CONFIDENCE_BANDS.map(({ band, min, max }) => {
+      const inBand = calibrationOutcomes.filter(({ recommendation }) =>
+        recommendation.confidence >= min && recommendation.confidence <= max);
+
+      return {
+        band,
+        evaluated: inBand.length,
+        averageConfidence: inBand.length > 0 ? average(inBand.map(({ recommendation }) => recommendation.confidence)) : 0,
+        hitRate: inBand.length > 0 ? inBand.filter(({ outcome }) => outcome.correct).length / inBand.length * 100 : 0
+      };
+    });
+
+    return {
+      since: since.toISOString(),
+      totalRecommendations: recommendations.length,
+      pendingRecommendations: recommendations.filter(recommendation => recommendation.outcomes.length === 0).length,
+      horizons,
+      calibrationHorizon: CALIBRATION_HORIZON,
+      confidenceBands,
+      recent: recommendations.slice(0, RECENT_LIMIT)
+    };
+  }
+}
+
+export const recommendationTracker = new RecommendationTracker();
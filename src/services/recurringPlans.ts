@@ -0,0 +1,388 @@
+// Recurring plan scheduler - persisted dollar-cost averaging plans bought at the market open through the normal trade path
+import { Prisma, RecurringPlan as PlanRecord, RecurringPlanRun as RunRecord } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '@/lib/prisma';
+import { cashFlowService } from '@/services/cashFlows';
+import { executionCostService } from '@/services/executionCosts';
+import { finnhubService } from '@/services/finnhub';
+import { tradeExecutionService } from '@/services/tradeExecution';
+import { getMarketOpenOnOrAfter, getTradingDate, isMarketOpen } from '@/utils/marketHours';
+import { validateInput, recurringPlanSchema } from '@/utils/validation';
+import type {
+  PlanAllocation,
+  PlanFill,
+  PlanFrequency,
+  PlanRunStatus,
+  RecurringPlan,
+  RecurringPlanInput,
+  RecurringPlanRun
+} from '@/types/recurringPlans';
+
+const DEFAULT_INTERVAL_MS = 60000; // Look for due plans every minute
+const QUANTITY_PRECISION = 10000;  // Plans buy fractional shares, rounded down to 4 decimals
+const MIN_RUN_AMOUNT = 1;          // Below this a run is skipped as out of cash
+const SCHEDULE_HORIZON_DAYS = 400;
+
+type PlanSchedule = Pick<RecurringPlan, 'frequency' | 'dayOfWeek' | 'dayOfMonth'>;
+
+const toNumber = (value: Decimal | null | undefined): number => Number(value ?? 0);
+const toNullableNumber = (value: Decimal | null): number | null => value !== null ? Number(value) : null;
+const toDecimal = (value: number | null | undefined): Decimal | null =>
+  typeof value === 'number' && isFinite(value) ? new Decimal(value) : null;
+
+const toPlan = (record: PlanRecord): RecurringPlan => ({
+  id: record.id,
+  name: record.name,
+  amount: toNumber(record.amount),
+  allocations: record.allocations as unknown as PlanAllocation[],
+  frequency: record.frequency as PlanFrequency,
+  dayOfWeek: record.dayOfWeek,
+  dayOfMonth: record.dayOfMonth,
+  depositAmount: toNullableNumber(record.depositAmount),
+  isActive: record.isActive,
+  nextRunAt: record.nextRunAt,
+  lastRunAt: record.lastRunAt,
+  createdAt: record.createdAt
+});
+
+const toRun = (record: RunRecord): RecurringPlanRun => ({
+  id: record.id,
+  planId: record.planId,
+  status: record.status as PlanRunStatus,
+  scheduledFor: record.scheduledFor,
+  depositAmount: toNullableNumber(record.depositAmount),
+  investedAmount: toNumber(record.investedAmount),
+  fills: record.fills as unknown as PlanFill[],
+  message: record.message,
+  executedAt: record.executedAt
+});
+
+// Trading dates are plain YYYY-MM-DD strings; UTC keeps the calendar arithmetic free of DST
+const addDays = (tradingDate: string, days: number): string => {
+  const date = new Date(`${tradingDate}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+const matchesSchedule = (schedule: PlanSchedule, tradingDate: string): boolean => {
+  const date = new Date(`${tradingDate}T00:00:00.000Z`);
+  switch (schedule.frequency) {
+    case 'DAILY': {
+      const day = date.getUTCDay();
+      return day >= 1 && day <= 5;
+    }
+    case 'WEEKLY':
+      return date.getUTCDay() === schedule.dayOfWeek;
+    case 'MONTHLY':
+      return date.getUTCDate() === schedule.dayOfMonth;
+    default:
+      return false;
+  }
+};
+
+class RecurringPlanService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isRunningPlans = false;
+
+  /**
+   * Start the scheduler loop (idempotent)
+   */
+  start(intervalMs: number = Number(process.env.RECURRING_PLANS_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runDuePlans().catch(error => console.error('Recurring plan tick failed:', error));
+    }, intervalMs);
+
+    console.log(`🔁 Recurring plan scheduler started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Market open of the first scheduled date whose session opens after the given instant.
+   * Dates that fall on a weekend roll to the following Monday's open.
+   */
+  getNextRunAt(schedule: PlanSchedule, after: Date = new Date()): Date {
+    let tradingDate = getTradingDate(after);
+
+    for (let i = 0; i < SCHEDULE_HORIZON_DAYS; i++) {
+      if (matchesSchedule(schedule, tradingDate)) {
+        const open = getMarketOpenOnOrAfter(tradingDate);
+        if (open > after) return open;
+      }
+      tradingDate = addDays(tradingDate, 1);
+    }
+
+    throw new Error('Invalid plan: schedule never runs');
+  }
+
+  async listPlans(portfolioId: number): Promise<RecurringPlan[]> {
+    const records = await prisma.recurringPlan.findMany({
+      where: { portfolioId },
+      orderBy: { createdAt: 'asc' }
+    });
+    return records.map(toPlan);
+  }
+
+  async getPlan(portfolioId: number, planId: number): Promise<RecurringPlan> {
+    return toPlan(await this.findPlan(portfolioId, planId));
+  }
+
+  async createPlan(portfolioId: number, input: RecurringPlanInput): Promise<RecurringPlan> {
+    const record = await prisma.recurringPlan.create({
+      data: {
+        portfolioId,
+        ...this.toRecordData(input),
+        nextRunAt: this.getNextRunAt(this.toSchedule(input))
+      }
+    });
+    return toPlan(record);
+  }
+
+  /**
+   * Merge updates onto the stored plan and re-validate. The next run is rescheduled when the
+   * schedule changes or a paused plan is resumed, so missed dates are not bought in a burst.
+   */
+  async updatePlan(portfolioId: number, planId: number, updates: Partial<RecurringPlanInput>): Promise<RecurringPlan> {
+    const existing = toPlan(await this.findPlan(portfolioId, planId));
+    const validation = validateInput(recurringPlanSchema, { ...this.toInput(existing), ...updates });
+
+    if (!validation.success) {
+      throw new Error(`Invalid plan: ${validation.error}`);
+    }
+
+    const merged = validation.data as RecurringPlanInput;
+    const scheduleChanged = merged.frequency !== existing.frequency ||
+      (merged.dayOfWeek ?? null) !== existing.dayOfWeek ||
+      (merged.dayOfMonth ?? null) !== existing.dayOfMonth;
+    const resumed = merged.isActive === true && !existing.isActive;
+
+    const record = await prisma.recurringPlan.update({
+      where: { id: planId },
+      data: {
+        ...this.toRecordData(merged),
+        ...(scheduleChanged || resumed ? { nextRunAt: this.getNextRunAt(this.toSchedule(merged)) } : {})
+      }
+    });
+    return toPlan(record);
+  }
+
+  async deletePlan(portfolioId: number, planId: number): Promise<void> {
+    await this.findPlan(portfolioId, planId);
+    await prisma.recurringPlan.delete({ where: { id: planId } });
+  }
+
+  /**
+   * Run history, newest first, for one plan or every plan in the portfolio
+   */
+  async getRuns(portfolioId: number, planId?: number, limit: number = 20): Promise<RecurringPlanRun[]> {
+    if (planId !== undefined) {
+      await this.findPlan(portfolioId, planId);
+    }
+
+    const records = await prisma.recurringPlanRun.findMany({
+      where: planId !== undefined ? { planId } : { plan: { portfolioId } },
+      orderBy: { executedAt: 'desc' },
+      take: limit
+    });
+    return records.map(toRun);
+  }
+
+  /**
+   * Execute every active plan whose run is due, while the market is open
+   */
+  async runDuePlans(now: Date = new Date()): Promise<number> {
+    if (this.isRunningPlans || !isMarketOpen(now)) return 0;
+
+    this.isRunningPlans = true;
+    try {
+      const duePlans = await prisma.recurringPlan.findMany({
+        where: {
+          isActive: true,
+          nextRunAt: { lte: now },
+          portfolio: { isArchived: false }
+        }
+      });
+      let executed = 0;
+
+      for (const record of duePlans) {
+        // Claim the run by moving nextRunAt on; another process that got here first wins
+        const plan = toPlan(record);
+        const claim = await prisma.recurringPlan.updateMany({
+          where: { id: record.id, nextRunAt: record.nextRunAt },
+          data: { nextRunAt: this.getNextRunAt(plan, now), lastRunAt: now }
+        });
+        if (claim.count === 0) continue;
+
+        try {
+          const run = await this.executePlan(record.portfolioId, plan);
+          console.log(`🔁 Plan "${plan.name}" ${run.status}: invested $${run.investedAmount.toFixed(2)}`);
+          executed++;
+        } catch (error) {
+          console.error(`Recurring plan ${record.id} failed:`, error);
+        }
+      }
+
+      return executed;
+    } finally {
+      this.isRunningPlans = false;
+    }
+  }
+
+  /**
+   * One run: credit the simulated salary, split the amount across the allocations by weight
+   * and buy each leg at the current quote. Runs shrink to the cash available; legs that fail
+   * are recorded with their error and the rest still fill.
+   */
+  private async executePlan(portfolioId: number, plan: RecurringPlan): Promise<RecurringPlanRun> {
+    const fills: PlanFill[] = [];
+    let depositAmount: number | null = null;
+    let investedAmount = 0;
+    let status: PlanRunStatus;
+    let message: string | null = null;
+
+    try {
+      if (plan.depositAmount) {
+        await cashFlowService.recordCashFlow(portfolioId, 'DEPOSIT', plan.depositAmount, `Recurring plan: ${plan.name}`);
+        depositAmount = plan.depositAmount;
+      }
+
+      const portfolio = await prisma.portfolio.findUnique({ where: { id: portfolioId } });
+      if (!portfolio) {
+        throw new Error('Portfolio not found');
+      }
+
+      let cash = toNumber(portfolio.cashBalance);
+      const budget = Math.min(plan.amount, cash);
+
+      if (budget < MIN_RUN_AMOUNT) {
+        status = 'SKIPPED';
+        message = `Insufficient cash. Need $${plan.amount.toFixed(2)}, have $${cash.toFixed(2)}`;
+      } else {
+        const totalWeight = plan.allocations.reduce((sum, allocation) => sum + allocation.weight, 0);
+
+        for (const allocation of plan.allocations) {
+          const targetAmount = Math.min(budget * allocation.weight / totalWeight, cash);
+          const fill = await this.buyAllocation(portfolioId, plan, allocation.symbol, targetAmount);
+          cash -= fill.amount;
+          investedAmount += fill.amount;
+          fills.push(fill);
+        }
+
+        const failed = fills.filter(fill => fill.error).length;
+        status = failed === fills.length ? 'FAILED' : failed > 0 || budget < plan.amount ? 'PARTIAL' : 'COMPLETED';
+        if (budget < plan.amount) {
+          message = `Only $${budget.toFixed(2)} of $${plan.amount.toFixed(2)} cash available`;
+        }
+      }
+    } catch (error) {
+      status = 'FAILED';
+      message = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const run = await prisma.recurringPlanRun.create({
+      data: {
+        planId: plan.id,
+        status,
+        scheduledFor: plan.nextRunAt,
+        depositAmount: toDecimal(depositAmount),
+        investedAmount: new Decimal(investedAmount),
+        fills: fills as unknown as Prisma.InputJsonValue,
+        message
+      }
+    });
+    return toRun(run);
+  }
+
+  private async buyAllocation(portfolioId: number, plan: RecurringPlan, symbol: string, targetAmount: number): Promise<PlanFill> {
+    const fill: PlanFill = { symbol, targetAmount, quantity: 0, price: 0, amount: 0 };
+
+    try {
+      const quote = await finnhubService.getQuote(symbol);
+      if (!(quote.c > 0)) {
+        throw new Error(`Quote unavailable for ${symbol}`);
+      }
+
+      // Size so price, spread, slippage and commission together stay within the target
+      const costs = await executionCostService.estimateFill(portfolioId, symbol, 'BUY', targetAmount / quote.c, quote.c);
+      const quantity = Math.floor(((targetAmount - costs.commission) / costs.fillPrice) * QUANTITY_PRECISION) / QUANTITY_PRECISION;
+      if (quantity <= 0) {
+        throw new Error(`$${targetAmount.toFixed(2)} does not cover fees`);
+      }
+
+      const transaction = await tradeExecutionService.executeTrade(portfolioId, {
+        symbol,
+        type: 'BUY',
+        quantity,
+        price: quote.c,
+        aiRecommendation: {
+          action: 'RECURRING_PLAN',
+          confidence: 100,
+          reasoning: `Recurring plan "${plan.name}"`
+        }
+      });
+
+      return {
+        ...fill,
+        quantity,
+        price: toNumber(transaction.price),
+        amount: toNumber(transaction.totalAmount),
+        transactionId: transaction.id
+      };
+    } catch (error) {
+      return { ...fill, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private async findPlan(portfolioId: number, planId: number): Promise<PlanRecord> {
+    const record = await prisma.recurringPlan.findFirst({ where: { id: planId, portfolioId } });
+    if (!record) {
+      throw new Error('Plan not found');
+    }
+    return record;
+  }
+
+  private toSchedule(input: RecurringPlanInput): PlanSchedule {
+    return {
+      frequency: input.frequency,
+      dayOfWeek: input.frequency === 'WEEKLY' ? input.dayOfWeek ?? null : null,
+      dayOfMonth: input.frequency === 'MONTHLY' ? input.dayOfMonth ?? null : null
+    };
+  }
+
+  private toInput(plan: RecurringPlan): RecurringPlanInput {
+    return {
+      name: plan.name,
+      amount: plan.amount,
+      allocations: plan.allocations,
+      frequency: plan.frequency,
+      dayOfWeek: plan.dayOfWeek,
+      dayOfMonth: plan.dayOfMonth,
+      depositAmount: plan.depositAmount,
+      isActive: plan.isActive
+    };
+  }
+
+  private toRecordData(input: RecurringPlanInput) {
+    return {
+      name: input.name,
+      amount: new Decimal(input.amount),
+      allocations: input.allocations as unknown as Prisma.InputJsonValue,
+      ...this.toSchedule(input),
+      depositAmount: toDecimal(input.depositAmount),
+      isActive: input.isActive ?? true
+    };
+  }
+}
+
+export const recurringPlanService = new RecurringPlanService();
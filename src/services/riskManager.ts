@@ -1,8 +1,19 @@
 // Risk Management Service for Automated Trading Bot
-import { usePortfolioStore, Holding } from '@/store/portfolio';
+import { Holding } from '@/store/portfolio';
 import { AIRecommendation } from './aiAnalyzer';
 import { TradingBotConfig } from './tradingBot';
 
+// The portfolio state risk checks read: the client store, or a database snapshot in the bot worker
+export interface RiskPortfolio {
+  holdings: Record<string, Holding>;
+  getPortfolioSummary(): {
+    totalValue: number;
+    totalProfitLossPercent: number;
+    cashBalance: number;
+    investedAmount: number;
+  };
+}
+
 export interface RiskAssessment {
   approved: boolean;
   reason: string;
@@ -67,15 +78,20 @@ class RiskManagerService {
     'BA': 'Industrial', 'CAT': 'Industrial', 'GE': 'Industrial', 'MMM': 'Industrial',
   };
 
+  // Sector for a symbol; unmapped symbols fall under 'Other'
+  getSector(symbol: string): string {
+    return this.SECTOR_MAPPING[symbol.toUpperCase()] || 'Other';
+  }
+
   assessTradeRisk(
     symbol: string,
     action: 'BUY' | 'SELL',
     quantity: number,
     price: number,
     recommendation: AIRecommendation,
-    config: TradingBotConfig
+    config: TradingBotConfig,
+    portfolio: RiskPortfolio
   ): RiskAssessment {
-    const portfolio = usePortfolioStore.getState();
     const summary = portfolio.getPortfolioSummary();
     const tradeAmount = quantity * price;
 
@@ -193,7 +209,7 @@ class RiskManagerService {
     symbol: string, 
     action: 'BUY' | 'SELL', 
     tradeAmount: number, 
-    portfolio: any
+    portfolio: RiskPortfolio
   ): { risk: boolean; message: string; severity: 'MEDIUM' | 'HIGH'; recommendations: string[] } {
     const sector = this.SECTOR_MAPPING[symbol] || 'Other';
     const summary = portfolio.getPortfolioSummary();
@@ -242,8 +258,7 @@ class RiskManagerService {
     return { risk: false, message: '', severity: 'MEDIUM', recommendations: [] };
   }
 
-  assessPortfolioRisk(): PortfolioRisk {
-    const portfolio = usePortfolioStore.getState();
+  assessPortfolioRisk(portfolio: RiskPortfolio): PortfolioRisk {
     const summary = portfolio.getPortfolioSummary();
     const holdings = Object.entries(portfolio.holdings);
 
@@ -312,8 +327,7 @@ class RiskManagerService {
     };
   }
 
-  checkStopLossTargets(config: TradingBotConfig): StopLossTarget[] {
-    const portfolio = usePortfolioStore.getState();
+  checkStopLossTargets(config: TradingBotConfig, portfolio: RiskPortfolio): StopLossTarget[] {
     const targets: StopLossTarget[] = [];
 
     Object.entries(portfolio.holdings).forEach(([symbol, holding]) => {
@@ -360,9 +374,9 @@ class RiskManagerService {
     price: number,
     confidence: number,
     riskLevel: 'LOW' | 'MEDIUM' | 'HIGH',
-    config: TradingBotConfig
+    config: TradingBotConfig,
+    portfolio: RiskPortfolio
   ): { quantity: number; amount: number; reasoning: string } {
-    const portfolio = usePortfolioStore.getState();
     const summary = portfolio.getPortfolioSummary();
 
     // Base position size from configuration
@@ -400,8 +414,7 @@ class RiskManagerService {
   }
 
   // Emergency risk checks
-  isEmergencyStopRequired(): { required: boolean; reason: string } {
-    const portfolio = usePortfolioStore.getState();
+  isEmergencyStopRequired(portfolio: RiskPortfolio): { required: boolean; reason: string } {
     const summary = portfolio.getPortfolioSummary();
 
     // Extreme drawdown
@@ -413,7 +426,7 @@ class RiskManagerService {
     }
 
     // Portfolio risk assessment
-    const portfolioRisk = this.assessPortfolioRisk();
+    const portfolioRisk = this.assessPortfolioRisk(portfolio);
     if (portfolioRisk.overallRisk === 'CRITICAL') {
       return {
         required: true,
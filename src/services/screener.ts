@@ -0,0 +1,251 @@
+// Stock screener - fundamental and technical filters over the index universe, plus saved screens
+import { Prisma, SavedScreen as ScreenRecord } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { finnhubService } from './finnhub';
+import { indicatorService } from './indicators';
+import { indicesService } from './indices';
+import type {
+  SavedScreen,
+  ScreenCriteria,
+  ScreenerMetric,
+  ScreenerResult,
+  ScreenerRow,
+  ScreenerSortKey
+} from '@/types/screener';
+import type { TechnicalIndicators } from '@/types/recommendations';
+
+const DEFAULT_LIMIT = 100;
+
+interface ScreenerSnapshot {
+  rows: ScreenerRow[];
+  failedSymbols: string[];
+  builtAt: Date;
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Finnhub reports missing metrics as absent or 0/NaN; treat non-finite and absent alike
+const metricOrNull = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+const compareRows = (sortBy: ScreenerSortKey, direction: 1 | -1) => (a: ScreenerRow, b: ScreenerRow): number => {
+  if (sortBy === 'symbol') return a.symbol.localeCompare(b.symbol) * direction;
+
+  const left = a[sortBy];
+  const right = b[sortBy];
+  // Missing values sort last either way
+  if (left === null) return right === null ? 0 : 1;
+  if (right === null) return -1;
+  return (left - right) * direction;
+};
+
+/**
+ * Filter and sort snapshot rows; rows with a null metric fail any filter on that metric
+ */
+export function applyScreen(rows: ScreenerRow[], criteria: ScreenCriteria): { rows: ScreenerRow[]; matched: number } {
+  const filters = Object.entries(criteria.filters) as Array<[ScreenerMetric, { min?: number; max?: number }]>;
+  const sectors = criteria.sectors?.length ? new Set(criteria.sectors) : null;
+
+  const matches = rows.filter(row => {
+    if (sectors && !sectors.has(row.sector)) return false;
+
+    return filters.every(([metric, range]) => {
+      const value = row[metric];
+      if (range.min === undefined && range.max === undefined) return true;
+      if (value === null) return false;
+      return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+    });
+  });
+
+  const sorted = matches.sort(compareRows(criteria.sortBy ?? 'marketCap', criteria.sortDirection === 'asc' ? 1 : -1));
+  return { rows: sorted.slice(0, criteria.limit ?? DEFAULT_LIMIT), matched: matches.length };
+}
+
+const toSavedScreen = (record: ScreenRecord): SavedScreen => {
+  const criteria = record.criteria as unknown as ScreenCriteria;
+  return {
+    id: record.id,
+    name: record.name,
+    filters: criteria.filters ?? {},
+    sectors: criteria.sectors,
+    sortBy: criteria.sortBy,
+    sortDirection: criteria.sortDirection,
+    limit: criteria.limit,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt
+  };
+};
+
+const toCriteriaJson = (criteria: ScreenCriteria): Prisma.InputJsonValue => ({
+  filters: criteria.filters,
+  ...(criteria.sectors && { sectors: criteria.sectors }),
+  ...(criteria.sortBy && { sortBy: criteria.sortBy }),
+  ...(criteria.sortDirection && { sortDirection: criteria.sortDirection }),
+  ...(criteria.limit && { limit: criteria.limit })
+}) as unknown as Prisma.InputJsonValue;
+
+class ScreenerService {
+  private snapshot: ScreenerSnapshot | null = null;
+  private building: Promise<void> | null = null;
+  private readonly SNAPSHOT_TTL = 10 * 60 * 1000; // 10 minutes
+
+  /**
+   * Screen the universe. Returns null while the first snapshot is still being built; after that a
+   * stale snapshot keeps being served while a fresh one builds in the background.
+   */
+  screen(criteria: ScreenCriteria): ScreenerResult | null {
+    if (!this.snapshot || Date.now() - this.snapshot.builtAt.getTime() > this.SNAPSHOT_TTL) {
+      this.refreshSnapshot();
+    }
+    if (!this.snapshot) return null;
+
+    const { rows, matched } = applyScreen(this.snapshot.rows, criteria);
+    return {
+      rows,
+      matched,
+      universeSize: this.snapshot.rows.length,
+      sectors: Array.from(new Set(this.snapshot.rows.map(row => row.sector))).sort(),
+      failedSymbols: this.snapshot.failedSymbols,
+      builtAt: this.snapshot.builtAt
+    };
+  }
+
+  /**
+   * Latest row for a symbol from the current snapshot, if it has one
+   */
+  getRow(symbol: string): ScreenerRow | null {
+    return this.snapshot?.rows.find(row => row.symbol === symbol.toUpperCase()) ?? null;
+  }
+
+  private refreshSnapshot(): void {
+    if (this.building) return;
+
+    this.building = this.buildSnapshot()
+      .then(snapshot => { this.snapshot = snapshot; })
+      .catch(error => console.error('Screener snapshot failed:', error))
+      .finally(() => { this.building = null; });
+  }
+
+  private async buildSnapshot(): Promise<ScreenerSnapshot> {
+    const rows: ScreenerRow[] = [];
+    const failedSymbols: string[] = [];
+
+    // One symbol at a time; the Finnhub client paces requests to its rate limit
+    for (const symbol of indicesService.getUniverse()) {
+      try {
+        rows.push(await this.buildRow(symbol));
+      } catch (error) {
+        console.warn(`Screener skipped ${symbol}:`, error);
+        failedSymbols.push(symbol);
+      }
+    }
+
+    console.log(`🔎 Screener snapshot built: ${rows.length} symbols, ${failedSymbols.length} failed`);
+    return { rows, failedSymbols, builtAt: new Date() };
+  }
+
+  private async buildRow(symbol: string): Promise<ScreenerRow> {
+    const quote = await finnhubService.getQuote(symbol);
+    if (!quote.c) {
+      throw new Error(`No quote for ${symbol}`);
+    }
+
+    // Profile, fundamentals and indicators are optional; a row with gaps still screens on the rest
+    const [profile, financials, indicators] = await Promise.all([
+      finnhubService.getCompanyProfile(symbol).catch(() => null),
+      finnhubService.getBasicFinancials(symbol).catch(() => null),
+      indicatorService.getIndicators(symbol).catch((): TechnicalIndicators | null => null)
+    ]);
+
+    const metric = financials?.metric;
+    const high52 = metricOrNull(metric?.['52WeekHigh']);
+    const low52 = metricOrNull(metric?.['52WeekLow']);
+    const sma50 = indicators?.movingAverages.sma50;
+
+    return {
+      symbol,
+      name: profile?.name || symbol,
+      sector: profile?.finnhubIndustry || 'Unknown',
+      price: quote.c,
+      change: quote.d ?? 0,
+      changePercent: quote.dp ?? 0,
+      volume: indicators?.volume.current ?? null,
+      marketCap: metricOrNull(metric?.marketCapitalization) ?? metricOrNull(profile?.marketCapitalization),
+      peRatio: metricOrNull(metric?.peBasicExclExtraTTM),
+      pbRatio: metricOrNull(metric?.pbAnnual),
+      beta: metricOrNull(metric?.beta),
+      high52,
+      low52,
+      week52Position: high52 !== null && low52 !== null && high52 > low52
+        ? round(Math.min(100, Math.max(0, (quote.c - low52) / (high52 - low52) * 100)))
+        : null,
+      rsi: indicators?.rsi ?? null,
+      volumeRatio: indicators?.volume.volumeRatio ?? null,
+      priceVsSma50: sma50 ? round((quote.c - sma50) / sma50 * 100) : null
+    };
+  }
+
+  async listScreens(userId: number): Promise<SavedScreen[]> {
+    const records = await prisma.savedScreen.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' }
+    });
+    return records.map(toSavedScreen);
+  }
+
+  async createScreen(userId: number, name: string, criteria: ScreenCriteria): Promise<SavedScreen> {
+    const existing = await prisma.savedScreen.findUnique({ where: { userId_name: { userId, name } } });
+    if (existing) {
+      throw new Error('A screen with this name already exists');
+    }
+
+    const record = await prisma.savedScreen.create({
+      data: { userId, name, criteria: toCriteriaJson(criteria) }
+    });
+    return toSavedScreen(record);
+  }
+
+  async updateScreen(
+    userId: number,
+    screenId: number,
+    updates: Partial<ScreenCriteria> & { name?: string }
+  ): Promise<SavedScreen> {
+    const record = await prisma.savedScreen.findFirst({ where: { id: screenId, userId } });
+    if (!record) {
+      throw new Error('Screen not found');
+    }
+
+    const { name, ...criteriaUpdates } = updates;
+    if (name && name !== record.name) {
+      const clash = await prisma.savedScreen.findUnique({ where: { userId_name: { userId, name } } });
+      if (clash) {
+        throw new Error('A screen with this name already exists');
+      }
+    }
+
+    const current = toSavedScreen(record);
+    const updated = await prisma.savedScreen.update({
+      where: { id: screenId },
+      data: {
+        ...(name && { name }),
+        criteria: toCriteriaJson({
+          filters: criteriaUpdates.filters ?? current.filters,
+          sectors: criteriaUpdates.sectors ?? current.sectors,
+          sortBy: criteriaUpdates.sortBy ?? current.sortBy,
+          sortDirection: criteriaUpdates.sortDirection ?? current.sortDirection,
+          limit: criteriaUpdates.limit ?? current.limit
+        })
+      }
+    });
+    return toSavedScreen(updated);
+  }
+
+  async deleteScreen(userId: number, screenId: number): Promise<void> {
+    const result = await prisma.savedScreen.deleteMany({ where: { id: screenId, userId } });
+    if (result.count === 0) {
+      throw new Error('Screen not found');
+    }
+  }
+}
+
+export const screenerService = new ScreenerService();
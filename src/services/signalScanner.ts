@@ -0,0 +1,204 @@
+// Signal scanner - deterministic breakout, reversal, momentum and volume-spike detection over the index universe
+import { computeIndicators, indicatorService } from './indicators';
+import { indicesService } from './indices';
+import { TradingSignal } from '@/types/recommendations';
+import { PriceBar } from '@/types/strategy';
+import { getTradingDate, isMarketOpen } from '@/utils/marketHours';
+
+const DEFAULT_INTERVAL_MS = 15 * 60 * 1000; // 15 minutes
+const MIN_BARS = 51;            // Indicators for the day before need 50 bars of their own
+const BREAKOUT_LOOKBACK = 20;   // Trading days whose range a close must clear
+const MOMENTUM_LOOKBACK = 10;
+const MOMENTUM_MIN_CHANGE = 5;  // Percent over MOMENTUM_LOOKBACK days
+const VOLUME_SPIKE_RATIO = 2;   // Volume against its 20-day average
+
+export interface SignalScanResult {
+  signals: TradingSignal[]; // Strongest first
+  scannedAt: Date;
+  symbolsScanned: number;
+  symbolsFailed: number;
+}
+
+const clampStrength = (value: number): number => Math.round(Math.min(100, Math.max(0, value)));
+
+const percentChange = (from: number, to: number): number => (to - from) / from * 100;
+
+// Above-average volume adds conviction to a price signal, up to 20 points
+const volumeBonus = (volumeRatio: number): number => Math.min(20, Math.max(0, (volumeRatio - 1) * 10));
+
+/**
+ * Signals that fired on the latest bar. Bars are daily and oldest first; fewer than
+ * MIN_BARS yields no signals.
+ */
+export function detectSignals(symbol: string, bars: PriceBar[], detectedAt: Date = new Date()): TradingSignal[] {
+  if (bars.length < MIN_BARS) return [];
+
+  const today = bars[bars.length - 1];
+  const current = computeIndicators(symbol, bars);
+  const previous = computeIndicators(symbol, bars.slice(0, -1));
+  const volumeRatio = current.volume.volumeRatio;
+  const dayChange = percentChange(bars[bars.length - 2].close, today.close);
+  const signals: TradingSignal[] = [];
+
+  const addSignal = (
+    signalType: TradingSignal['signalType'],
+    direction: TradingSignal['direction'],
+    strength: number,
+    description: string
+  ) => {
+    signals.push({
+      symbol,
+      signalType,
+      direction,
+      strength: clampStrength(strength),
+      price: today.close,
+      description,
+      timeDetected: detectedAt.toISOString()
+    });
+  };
+
+  // Breakout: a close beyond the range of the previous BREAKOUT_LOOKBACK sessions
+  const range = bars.slice(-BREAKOUT_LOOKBACK - 1, -1);
+  const rangeHigh = Math.max(...range.map(bar => bar.high));
+  const rangeLow = Math.min(...range.map(bar => bar.low));
+  if (today.close > rangeHigh) {
+    addSignal('BREAKOUT', 'BULLISH', 50 + percentChange(rangeHigh, today.close) * 10 + volumeBonus(volumeRatio),
+      `Closed at $${today.close.toFixed(2)}, above the ${BREAKOUT_LOOKBACK}-day high of $${rangeHigh.toFixed(2)} on ${volumeRatio}x volume`);
+  } else if (today.close < rangeLow) {
+    addSignal('BREAKOUT', 'BEARISH', 50 + percentChange(today.close, rangeLow) * 10 + volumeBonus(volumeRatio),
+      `Closed at $${today.close.toFixed(2)}, below the ${BREAKOUT_LOOKBACK}-day low of $${rangeLow.toFixed(2)} on ${volumeRatio}x volume`);
+  }
+
+  // Reversal: RSI leaving oversold/overbought, or the MACD histogram flipping sign against the prevailing RSI side
+  const rsiTurnedUp = previous.rsi < 30 && current.rsi >= 30;
+  const rsiTurnedDown = previous.rsi > 70 && current.rsi <= 70;
+  const macdTurnedUp = previous.macd.histogram < 0 && current.macd.histogram >= 0 && current.rsi < 50;
+  const macdTurnedDown = previous.macd.histogram > 0 && current.macd.histogram <= 0 && current.rsi > 50;
+  if (rsiTurnedUp || macdTurnedUp) {
+    const reasons = [
+      rsiTurnedUp ? `RSI recovered from oversold to ${current.rsi}` : '',
+      macdTurnedUp ? 'MACD histogram turned positive' : ''
+    ].filter(Boolean);
+    addSignal('REVERSAL', 'BULLISH', 50 + (reasons.length > 1 ? 20 : 0) + volumeBonus(volumeRatio), reasons.join('; '));
+  } else if (rsiTurnedDown || macdTurnedDown) {
+    const reasons = [
+      rsiTurnedDown ? `RSI fell back from overbought to ${current.rsi}` : '',
+      macdTurnedDown ? 'MACD histogram turned negative' : ''
+    ].filter(Boolean);
+    addSignal('REVERSAL', 'BEARISH', 50 + (reasons.length > 1 ? 20 : 0) + volumeBonus(volumeRatio), reasons.join('; '));
+  }
+
+  // Momentum: a strong move over MOMENTUM_LOOKBACK days with price and averages stacked the same way
+  const rateOfChange = percentChange(bars[bars.length - 1 - MOMENTUM_LOOKBACK].close, today.close);
+  const { sma20, sma50 } = current.movingAverages;
+  if (rateOfChange >= MOMENTUM_MIN_CHANGE && today.close > sma20 && sma20 > sma50 && current.macd.histogram > 0) {
+    addSignal('MOMENTUM', 'BULLISH', 40 + rateOfChange * 3 + volumeBonus(volumeRatio),
+      `Up ${rateOfChange.toFixed(1)}% in ${MOMENTUM_LOOKBACK} days, with price above the 20-day average and the 20-day above the 50-day`);
+  } else if (rateOfChange <= -MOMENTUM_MIN_CHANGE && today.close < sma20 && sma20 < sma50 && current.macd.histogram < 0) {
+    addSignal('MOMENTUM', 'BEARISH', 40 - rateOfChange * 3 + volumeBonus(volumeRatio),
+      `Down ${Math.abs(rateOfChange).toFixed(1)}% in ${MOMENTUM_LOOKBACK} days, with price below the 20-day average and the 20-day below the 50-day`);
+  }
+
+  // Volume spike: heavy volume, pointed in the direction of the day's move
+  if (volumeRatio >= VOLUME_SPIKE_RATIO) {
+    addSignal('VOLUME_SPIKE', dayChange >= 0 ? 'BULLISH' : 'BEARISH',
+      40 + (volumeRatio - VOLUME_SPIKE_RATIO) * 15 + Math.abs(dayChange) * 5,
+      `Volume ${volumeRatio}x its 20-day average with the price ${dayChange >= 0 ? 'up' : 'down'} ${Math.abs(dayChange).toFixed(1)}%`);
+  }
+
+  return signals;
+}
+
+class SignalScannerService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isScanning = false;
+  private latest: SignalScanResult | null = null;
+
+  /**
+   * Start the scan loop (idempotent)
+   */
+  start(intervalMs: number = Number(process.env.SIGNAL_SCANNER_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runScheduledScan().catch(error => console.error('Signal scan tick failed:', error));
+    }, intervalMs);
+
+    console.log(`📡 Signal scanner started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Last completed universe scan, if any
+   */
+  getLatestScan(): SignalScanResult | null {
+    return this.latest;
+  }
+
+  /**
+   * Scan while the market is open; outside the session one scan per date is enough,
+   * since daily bars do not change until the next open
+   */
+  async runScheduledScan(now: Date = new Date()): Promise<SignalScanResult | null> {
+    if (!isMarketOpen(now) && this.latest &&
+        !isMarketOpen(this.latest.scannedAt) &&
+        getTradingDate(this.latest.scannedAt) === getTradingDate(now)) {
+      return null;
+    }
+    return this.scanUniverse(now);
+  }
+
+  /**
+   * Detect signals across every index constituent. Returns null if a scan is already running.
+   */
+  async scanUniverse(now: Date = new Date()): Promise<SignalScanResult | null> {
+    if (this.isScanning) return null;
+
+    this.isScanning = true;
+    try {
+      const symbols = indicesService.getUniverse();
+      const signals: TradingSignal[] = [];
+      let symbolsFailed = 0;
+
+      for (const symbol of symbols) {
+        try {
+          signals.push(...await this.scanSymbol(symbol, now));
+        } catch (error) {
+          symbolsFailed++;
+          console.error(`Signal scan failed for ${symbol}:`, error);
+        }
+      }
+
+      this.latest = {
+        signals: signals.sort((a, b) => b.strength - a.strength),
+        scannedAt: now,
+        symbolsScanned: symbols.length - symbolsFailed,
+        symbolsFailed
+      };
+      console.log(`📡 Signal scan found ${signals.length} signal(s) across ${this.latest.symbolsScanned} symbols`);
+      return this.latest;
+    } finally {
+      this.isScanning = false;
+    }
+  }
+
+  /**
+   * Signals for one symbol from its cached daily bars
+   */
+  async scanSymbol(symbol: string, now: Date = new Date()): Promise<TradingSignal[]> {
+    const bars = await indicatorService.getBars(symbol);
+    return detectSignals(symbol.toUpperCase(), bars, now);
+  }
+}
+
+export const signalScanner = new SignalScannerService();
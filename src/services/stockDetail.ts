@@ -0,0 +1,214 @@
+// Stock detail service - chart candles plus everything the per-symbol page shows around them
+import { prisma } from '@/lib/prisma';
+import { aiAnalyzerService, AIRecommendation } from './aiAnalyzer';
+import { finnhubService } from './finnhub';
+import { orderEngine } from './orderEngine';
+import { serverCacheService } from './serverCache';
+import type { AdvancedOrder } from '@/types/orders';
+import type {
+  ChartCandle,
+  ChartExecution,
+  ChartResolution,
+  OrderLevel,
+  StockDetail,
+  StockFundamentals
+} from '@/types/stockDetail';
+
+const DAY_SECONDS = 86400;
+const NEWS_DAYS = 7;
+const MAX_NEWS = 8;
+
+// Calendar days of history requested per resolution; intraday ranges cover a weekend
+export const CHART_LOOKBACK_DAYS: Record<ChartResolution, number> = {
+  '5': 5,
+  '15': 14,
+  '60': 60,
+  'D': 365,
+  'W': 5 * 365,
+  'M': 20 * 365
+};
+
+// Finnhub reports missing metrics as absent or 0/NaN; treat both as unknown
+const metricOrNull = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value !== 0 ? value : null;
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Horizontal chart levels an open order is waiting on. Market orders fill immediately and have none.
+ */
+export function getOrderLevels(order: AdvancedOrder): OrderLevel[] {
+  const level = (kind: OrderLevel['kind'], price: number, side: OrderLevel['side']): OrderLevel => ({
+    orderId: order.id,
+    orderType: order.type,
+    kind,
+    side,
+    price,
+    quantity: order.quantity
+  });
+
+  switch (order.type) {
+    case 'LIMIT':
+      return [level('LIMIT', order.limitPrice, order.side)];
+    case 'STOP_LIMIT':
+      return [level('STOP', order.stopPrice, order.side), level('LIMIT', order.limitPrice, order.side)];
+    case 'STOP_LOSS':
+      return [level('STOP', order.stopPrice, 'SELL')];
+    case 'TAKE_PROFIT':
+      return [level('TARGET', order.targetPrice, 'SELL')];
+    case 'TRAILING_STOP':
+      return [level('TRAILING', order.currentStopPrice, 'SELL')];
+    case 'OCO':
+      return [
+        level('STOP', order.stopLossOrder.stopPrice, 'SELL'),
+        level('TARGET', order.takeProfitOrder.targetPrice, 'SELL')
+      ];
+    default:
+      return [];
+  }
+}
+
+class StockDetailService {
+  async getCandles(symbol: string, resolution: ChartResolution): Promise<ChartCandle[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const from = now - CHART_LOOKBACK_DAYS[resolution] * DAY_SECONDS;
+
+    const candles = await finnhubService.getCandles(symbol, resolution, from, now);
+    if (candles.s !== 'ok' || !candles.t?.length) {
+      throw new Error(`No price history for ${symbol}`);
+    }
+
+    return candles.t
+      .map((time, i) => ({
+        time,
+        open: candles.o[i],
+        high: candles.h[i],
+        low: candles.l[i],
+        close: candles.c[i],
+        volume: candles.v[i] ?? 0
+      }))
+      .filter(candle => candle.close > 0);
+  }
+
+  /**
+   * Profile, quote, fundamentals, recent news and the latest AI recommendation for a symbol,
+   * plus the executions and open order levels of the given portfolio (if any)
+   */
+  async getDetail(symbol: string, portfolioId: number | null): Promise<StockDetail> {
+    const today = new Date();
+    const newsFrom = new Date(today.getTime() - NEWS_DAYS * DAY_SECONDS * 1000);
+
+    const [quote, profile, financials, news] = await Promise.allSettled([
+      finnhubService.getQuote(symbol),
+      finnhubService.getCompanyProfile(symbol),
+      finnhubService.getBasicFinancials(symbol),
+      finnhubService.getCompanyNews(symbol, toDateString(newsFrom), toDateString(today))
+    ]);
+
+    if (quote.status === 'rejected' && profile.status === 'rejected') {
+      throw new Error(`Unknown symbol ${symbol}`);
+    }
+
+    const metric = financials.status === 'fulfilled' ? financials.value.metric : null;
+    const fundamentals: StockFundamentals = {
+      week52High: metricOrNull(metric?.['52WeekHigh']),
+      week52Low: metricOrNull(metric?.['52WeekLow']),
+      peRatio: metricOrNull(metric?.peBasicExclExtraTTM),
+      pbRatio: metricOrNull(metric?.pbAnnual),
+      psRatio: metricOrNull(metric?.psTTM),
+      eps: metricOrNull(metric?.epsBasicExclExtraItemsTTM),
+      beta: metricOrNull(metric?.beta),
+      dividendYield: metricOrNull(metric?.dividendYieldIndicatedAnnual)
+    };
+
+    const companyProfile = profile.status === 'fulfilled' ? profile.value : null;
+    const [recommendation, overlay] = await Promise.all([
+      this.getLatestRecommendation(symbol),
+      portfolioId !== null
+        ? this.getPortfolioOverlay(portfolioId, symbol)
+        : Promise.resolve({ executions: [], orderLevels: [] })
+    ]);
+
+    return {
+      symbol,
+      profile: {
+        name: companyProfile?.name || symbol,
+        industry: companyProfile?.finnhubIndustry || null,
+        exchange: companyProfile?.exchange || null,
+        country: companyProfile?.country || null,
+        currency: companyProfile?.currency || 'USD',
+        logo: companyProfile?.logo || null,
+        website: companyProfile?.weburl || null,
+        marketCap: metricOrNull(companyProfile?.marketCapitalization)
+      },
+      quote: quote.status === 'fulfilled'
+        ? {
+          price: quote.value.c,
+          change: quote.value.d,
+          changePercent: quote.value.dp,
+          dayHigh: quote.value.h,
+          dayLow: quote.value.l,
+          open: quote.value.o,
+          previousClose: quote.value.pc
+        }
+        : null,
+      fundamentals,
+      news: news.status === 'fulfilled'
+        ? news.value
+          .sort((a, b) => b.datetime - a.datetime)
+          .slice(0, MAX_NEWS)
+          .map(item => ({
+            headline: item.headline,
+            summary: item.summary,
+            source: item.source,
+            url: item.url,
+            datetime: item.datetime
+          }))
+        : [],
+      recommendation,
+      ...overlay
+    };
+  }
+
+  /**
+   * Newest recommendation we already hold for the symbol: a fresh on-demand analysis or
+   * today's cached daily run. Never calls an AI provider.
+   */
+  async getLatestRecommendation(symbol: string): Promise<AIRecommendation | null> {
+    const daily = await serverCacheService.getCachedRecommendations();
+    const candidates = [
+      aiAnalyzerService.getCachedAnalysis(symbol),
+      daily?.recommendations.find(recommendation => recommendation.symbol === symbol) ?? null
+    ].filter((candidate): candidate is AIRecommendation => candidate !== null);
+
+    return candidates.sort((a, b) => b.generatedAt.localeCompare(a.generatedAt))[0] ?? null;
+  }
+
+  private async getPortfolioOverlay(
+    portfolioId: number,
+    symbol: string
+  ): Promise<{ executions: ChartExecution[]; orderLevels: OrderLevel[] }> {
+    const [transactions, orders] = await Promise.all([
+      prisma.transaction.findMany({
+        where: { portfolioId, symbol },
+        orderBy: { transactionDate: 'asc' }
+      }),
+      orderEngine.getOrders(portfolioId, 'active')
+    ]);
+
+    return {
+      executions: transactions.map(transaction => ({
+        transactionId: transaction.id,
+        side: transaction.type,
+        quantity: Number(transaction.quantity),
+        price: Number(transaction.price),
+        time: Math.floor(transaction.transactionDate.getTime() / 1000)
+      })),
+      orderLevels: orders
+        .filter(order => order.symbol === symbol)
+        .flatMap(getOrderLevels)
+    };
+  }
+}
+
+export const stockDetailService = new StockDetailService();
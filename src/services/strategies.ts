@@ -0,0 +1,407 @@
+// Strategy registry - named strategies that the backtester and the live trading bot can run
+import { z } from 'zod';
+import {
+  OrderIntent,
+  PriceBar,
+  Strategy,
+  StrategyContext,
+  StrategyMode,
+  StrategyParameter,
+  StrategySummary
+} from '@/types/strategy';
+import { validateInput } from '@/utils/validation';
+import { detectSignals } from './signalScanner';
+
+type Frequency = 'WEEKLY' | 'MONTHLY';
+
+const frequencySchema = z.enum(['WEEKLY', 'MONTHLY']);
+const allocationPercentSchema = z.number().min(1).max(100);
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Simple moving average of the closes ending `offset` bars before the latest one
+const sma = (bars: PriceBar[], period: number, offset: number = 0): number | null => {
+  const end = bars.length - offset;
+  if (end < period) return null;
+  return average(bars.slice(end - period, end).map(bar => bar.close));
+};
+
+// Wilder's RSI over the closes
+const rsi = (bars: PriceBar[], period: number): number | null => {
+  if (bars.length <= period) return null;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i < bars.length; i++) {
+    const change = bars[i].close - bars[i - 1].close;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+  }
+
+  if (avgLoss === 0) return 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+};
+
+// Monday of the bar's week, or its month
+const periodKey = (date: string, frequency: Frequency): string => {
+  if (frequency === 'MONTHLY') return date.slice(0, 7);
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7);
+  return day.toISOString().slice(0, 10);
+};
+
+// True on the first trading day of a week/month, and on the first bar seen
+const isNewPeriod = (bars: PriceBar[], frequency: Frequency): boolean => {
+  if (bars.length < 2) return bars.length === 1;
+  return periodKey(bars[bars.length - 1].date, frequency) !== periodKey(bars[bars.length - 2].date, frequency);
+};
+
+const sellAll = (context: StrategyContext, symbol: string, reason: string): OrderIntent[] => {
+  const position = context.portfolio.positions[symbol];
+  if (!position || position.quantity <= 0) return [];
+  return [{ symbol, side: 'SELL', quantity: position.quantity, orderType: 'MARKET', reason }];
+};
+
+// The original bot policy: act on AI recommendations that passed the bot's confidence and risk-level filters
+const aiSignalsConfigSchema = z.object({
+  actOnSells: z.boolean()
+});
+
+const aiSignalsStrategy: Strategy<z.infer<typeof aiSignalsConfigSchema>> = {
+  id: 'ai-signals',
+  name: 'AI Signals',
+  description: 'Buys AI BUY recommendations sized by confidence and risk limits; sells holdings on SELL recommendations',
+  modes: ['live'],
+  usesSignals: true,
+  configSchema: aiSignalsConfigSchema,
+  defaultConfig: { actOnSells: true },
+  onBar(context, config) {
+    return (context.signals ?? []).flatMap((signal): OrderIntent[] => {
+      if (signal.action === 'BUY') {
+        return [{
+          symbol: signal.symbol,
+          side: 'BUY',
+          confidence: signal.confidence,
+          orderType: 'MARKET',
+          reason: signal.reasoning
+        }];
+      }
+      if (signal.action === 'SELL' && config.actOnSells) {
+        return sellAll(context, signal.symbol, signal.reasoning)
+          .map(intent => ({ ...intent, confidence: signal.confidence }));
+      }
+      return [];
+    });
+  }
+};
+
+// Equal-weight entry on each symbol's first bar, then hold; exits come only from the risk settings
+const buyAndHoldConfigSchema = z.object({});
+
+const buyAndHoldStrategy: Strategy<z.infer<typeof buyAndHoldConfigSchema>> = {
+  id: 'buy-and-hold',
+  name: 'Buy & Hold',
+  description: 'Buys every symbol in equal weight on its first day and holds; stop-loss and take-profit settings still apply',
+  modes: ['backtest'],
+  usesSignals: false,
+  configSchema: buyAndHoldConfigSchema,
+  defaultConfig: {},
+  onBar(context: StrategyContext): OrderIntent[] {
+    const symbols = Object.keys(context.bars);
+
+    return symbols
+      .filter(symbol => context.bars[symbol].length === 1 && !context.portfolio.positions[symbol])
+      .map(symbol => ({
+        symbol,
+        side: 'BUY' as const,
+        notional: context.portfolio.totalValue / symbols.length,
+        orderType: 'MARKET' as const,
+        reason: 'Initial equal-weight allocation'
+      }));
+  }
+};
+
+const maCrossoverConfigSchema = z.object({
+  fastPeriod: z.number().int().min(2).max(200),
+  slowPeriod: z.number().int().min(3).max(400),
+  allocationPercent: allocationPercentSchema
+}).refine(config => config.fastPeriod < config.slowPeriod, {
+  message: 'Fast period must be shorter than slow period',
+  path: ['fastPeriod']
+});
+
+const maCrossoverStrategy: Strategy<z.infer<typeof maCrossoverConfigSchema>> = {
+  id: 'ma-crossover',
+  name: 'Moving Average Crossover',
+  description: 'Buys when the fast moving average crosses above the slow one and sells on the cross back below',
+  modes: ['backtest', 'live'],
+  usesSignals: false,
+  configSchema: maCrossoverConfigSchema,
+  defaultConfig: { fastPeriod: 20, slowPeriod: 50, allocationPercent: 10 },
+  onBar(context, config) {
+    return Object.entries(context.bars).flatMap(([symbol, bars]): OrderIntent[] => {
+      const fast = sma(bars, config.fastPeriod);
+      const slow = sma(bars, config.slowPeriod);
+      const previousFast = sma(bars, config.fastPeriod, 1);
+      const previousSlow = sma(bars, config.slowPeriod, 1);
+      if (fast === null || slow === null || previousFast === null || previousSlow === null) return [];
+
+      const held = (context.portfolio.positions[symbol]?.quantity ?? 0) > 0;
+
+      if (!held && previousFast <= previousSlow && fast > slow) {
+        return [{
+          symbol,
+          side: 'BUY',
+          notional: context.portfolio.totalValue * config.allocationPercent / 100,
+          orderType: 'MARKET',
+          reason: `${config.fastPeriod}-day average crossed above the ${config.slowPeriod}-day average`
+        }];
+      }
+      if (held && previousFast >= previousSlow && fast < slow) {
+        return sellAll(context, symbol, `${config.fastPeriod}-day average crossed below the ${config.slowPeriod}-day average`);
+      }
+      return [];
+    });
+  }
+};
+
+const rsiMeanReversionConfigSchema = z.object({
+  period: z.number().int().min(2).max(100),
+  oversold: z.number().min(1).max(50),
+  overbought: z.number().min(50).max(99),
+  allocationPercent: allocationPercentSchema
+});
+
+const rsiMeanReversionStrategy: Strategy<z.infer<typeof rsiMeanReversionConfigSchema>> = {
+  id: 'rsi-mean-reversion',
+  name: 'RSI Mean Reversion',
+  description: 'Buys oversold symbols (RSI below the lower band) and sells them once RSI is overbought',
+  modes: ['backtest', 'live'],
+  usesSignals: false,
+  configSchema: rsiMeanReversionConfigSchema,
+  defaultConfig: { period: 14, oversold: 30, overbought: 70, allocationPercent: 10 },
+  onBar(context, config) {
+    return Object.entries(context.bars).flatMap(([symbol, bars]): OrderIntent[] => {
+      const value = rsi(bars, config.period);
+      if (value === null) return [];
+
+      const held = (context.portfolio.positions[symbol]?.quantity ?? 0) > 0;
+
+      if (!held && value < config.oversold) {
+        return [{
+          symbol,
+          side: 'BUY',
+          notional: context.portfolio.totalValue * config.allocationPercent / 100,
+          orderType: 'MARKET',
+          reason: `RSI(${config.period}) ${value.toFixed(1)} below ${config.oversold}`
+        }];
+      }
+      if (held && value > config.overbought) {
+        return sellAll(context, symbol, `RSI(${config.period}) ${value.toFixed(1)} above ${config.overbought}`);
+      }
+      return [];
+    });
+  }
+};
+
+const momentumRotationConfigSchema = z.object({
+  lookbackDays: z.number().int().min(5).max(252),
+  topN: z.number().int().min(1).max(20),
+  frequency: frequencySchema,
+  requirePositiveMomentum: z.boolean()
+});
+
+const momentumRotationStrategy: Strategy<z.infer<typeof momentumRotationConfigSchema>> = {
+  id: 'momentum-rotation',
+  name: 'Momentum Rotation',
+  description: 'Each week or month holds the top symbols by trailing return in equal weight and rotates out of the rest',
+  modes: ['backtest', 'live'],
+  usesSignals: false,
+  configSchema: momentumRotationConfigSchema,
+  defaultConfig: { lookbackDays: 63, topN: 3, frequency: 'MONTHLY', requirePositiveMomentum: true },
+  onBar(context, config) {
+    const symbols = Object.keys(context.bars);
+    if (!symbols.some(symbol => isNewPeriod(context.bars[symbol], config.frequency))) return [];
+
+    const ranked = symbols
+      .filter(symbol => context.bars[symbol].length > config.lookbackDays)
+      .map(symbol => {
+        const bars = context.bars[symbol];
+        const start = bars[bars.length - 1 - config.lookbackDays].close;
+        return { symbol, momentum: (bars[bars.length - 1].close - start) / start * 100 };
+      })
+      .filter(({ momentum }) => !config.requirePositiveMomentum || momentum > 0)
+      .sort((a, b) => b.momentum - a.momentum)
+      .slice(0, config.topN);
+
+    // Without enough history to rank anything, keep current holdings
+    if (ranked.length === 0 && symbols.every(symbol => context.bars[symbol].length <= config.lookbackDays)) return [];
+
+    const leaders = new Set(ranked.map(({ symbol }) => symbol));
+    const exits = Object.keys(context.portfolio.positions)
+      .filter(symbol => symbols.includes(symbol) && !leaders.has(symbol))
+      .flatMap(symbol => sellAll(context, symbol, `Dropped out of the top ${config.topN} by ${config.lookbackDays}-day momentum`));
+
+    const entries = ranked
+      .filter(({ symbol }) => !context.portfolio.positions[symbol])
+      .map(({ symbol, momentum }): OrderIntent => ({
+        symbol,
+        side: 'BUY',
+        notional: context.portfolio.totalValue / config.topN,
+        orderType: 'MARKET',
+        reason: `Top ${config.topN} by ${config.lookbackDays}-day momentum (${momentum.toFixed(1)}%)`
+      }));
+
+    return [...exits, ...entries];
+  }
+};
+
+const dollarCostAveragingConfigSchema = z.object({
+  amount: z.number().positive().max(1000000),
+  frequency: frequencySchema
+});
+
+const dollarCostAveragingStrategy: Strategy<z.infer<typeof dollarCostAveragingConfigSchema>> = {
+  id: 'dca',
+  name: 'Dollar-Cost Averaging',
+  description: 'Invests a fixed amount on the first trading day of each week or month, split equally across the symbols',
+  modes: ['backtest', 'live'],
+  usesSignals: false,
+  configSchema: dollarCostAveragingConfigSchema,
+  defaultConfig: { amount: 500, frequency: 'MONTHLY' },
+  onBar(context, config) {
+    const symbols = Object.keys(context.bars);
+
+    return symbols
+      .filter(symbol => isNewPeriod(context.bars[symbol], config.frequency))
+      .map(symbol => ({
+        symbol,
+        side: 'BUY' as const,
+        notional: config.amount / symbols.length,
+        orderType: 'MARKET' as const,
+        reason: `${config.frequency === 'WEEKLY' ? 'Weekly' : 'Monthly'} $${config.amount} investment`
+      }));
+  }
+};
+
+// The live indicator cache keeps about a year of bars; backtests see the same window so signals match
+const SIGNAL_HISTORY_BARS = 260;
+
+const technicalSignalsConfigSchema = z.object({
+  signalType: z.enum(['ANY', 'BREAKOUT', 'REVERSAL', 'MOMENTUM', 'VOLUME_SPIKE']),
+  minStrength: z.number().min(0).max(100),
+  allocationPercent: allocationPercentSchema,
+  sellOnBearish: z.boolean()
+});
+
+const technicalSignalsStrategy: Strategy<z.infer<typeof technicalSignalsConfigSchema>> = {
+  id: 'technical-signals',
+  name: 'Technical Signals',
+  description: 'Buys on bullish breakout, reversal, momentum or volume-spike signals from the signal scanner and sells on bearish ones; needs no AI',
+  modes: ['backtest', 'live'],
+  usesSignals: false,
+  configSchema: technicalSignalsConfigSchema,
+  defaultConfig: { signalType: 'ANY', minStrength: 60, allocationPercent: 10, sellOnBearish: true },
+  onBar(context, config) {
+    return Object.entries(context.bars).flatMap(([symbol, bars]): OrderIntent[] => {
+      const signals = detectSignals(symbol, bars.slice(-SIGNAL_HISTORY_BARS))
+        .filter(signal => config.signalType === 'ANY' || signal.signalType === config.signalType)
+        .filter(signal => signal.strength >= config.minStrength)
+        .sort((a, b) => b.strength - a.strength);
+
+      const held = (context.portfolio.positions[symbol]?.quantity ?? 0) > 0;
+      const bullish = signals.find(signal => signal.direction === 'BULLISH');
+      const bearish = signals.find(signal => signal.direction === 'BEARISH');
+
+      if (!held && bullish && !bearish) {
+        return [{
+          symbol,
+          side: 'BUY',
+          notional: context.portfolio.totalValue * config.allocationPercent / 100,
+          confidence: bullish.strength,
+          orderType: 'MARKET',
+          reason: `${bullish.signalType} (${bullish.strength}): ${bullish.description}`
+        }];
+      }
+      if (held && bearish && config.sellOnBearish) {
+        return sellAll(context, symbol, `${bearish.signalType} (${bearish.strength}): ${bearish.description}`)
+          .map(intent => ({ ...intent, confidence: bearish.strength }));
+      }
+      return [];
+    });
+  }
+};
+
+class StrategyRegistry {
+  private strategies = new Map<string, Strategy>([
+    [aiSignalsStrategy.id, aiSignalsStrategy],
+    [buyAndHoldStrategy.id, buyAndHoldStrategy],
+    [maCrossoverStrategy.id, maCrossoverStrategy],
+    [rsiMeanReversionStrategy.id, rsiMeanReversionStrategy],
+    [momentumRotationStrategy.id, momentumRotationStrategy],
+    [dollarCostAveragingStrategy.id, dollarCostAveragingStrategy],
+    [technicalSignalsStrategy.id, technicalSignalsStrategy]
+  ]);
+
+  register(strategy: Strategy): void {
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  get(id: string): Strategy | undefined {
+    return this.strategies.get(id);
+  }
+
+  list(mode?: StrategyMode): StrategySummary[] {
+    return Array.from(this.strategies.values())
+      .filter(strategy => !mode || strategy.modes.includes(mode))
+      .map(strategy => ({
+        id: strategy.id,
+        name: strategy.name,
+        description: strategy.description,
+        modes: strategy.modes,
+        usesSignals: strategy.usesSignals,
+        defaultConfig: strategy.defaultConfig,
+        parameters: this.describeParameters(strategy)
+      }));
+  }
+
+  /**
+   * Validate a strategy's parameters; missing fields fall back to the strategy's defaults
+   */
+  resolveConfig(
+    id: string,
+    config: Record<string, unknown> = {}
+  ): { success: true; data: unknown } | { success: false; error: string } {
+    const strategy = this.strategies.get(id);
+    if (!strategy) {
+      return { success: false, error: `Unknown strategy: ${id}` };
+    }
+
+    return validateInput(strategy.configSchema, { ...(strategy.defaultConfig as object), ...config });
+  }
+
+  // Field types for config forms, read off the (possibly refined) object schema
+  private describeParameters(strategy: Strategy): StrategyParameter[] {
+    let schema = strategy.configSchema as z.ZodTypeAny;
+    while (schema instanceof z.ZodEffects) {
+      schema = schema.innerType();
+    }
+    if (!(schema instanceof z.ZodObject)) return [];
+
+    return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([key, field]): StrategyParameter => {
+      if (field instanceof z.ZodEnum) return { key, type: 'select', options: field.options };
+      if (field instanceof z.ZodBoolean) return { key, type: 'boolean' };
+      return { key, type: 'number' };
+    });
+  }
+}
+
+export const strategyRegistry = new StrategyRegistry();
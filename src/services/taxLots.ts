@@ -0,0 +1,337 @@
+// Tax-lot accounting - lots opened on every buy and relieved on sells by FIFO/LIFO/HIFO or specific selection
+import { LotReliefMethod, Prisma, TaxLot } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '@/lib/prisma';
+
+const LONG_TERM_DAYS = 365;
+const QUANTITY_EPSILON = 1e-8;
+
+export interface LotSelection {
+  lotId: number;
+  quantity: number;
+}
+
+export interface OpenLotInput {
+  portfolioId: number;
+  symbol: string;
+  transactionId: string;
+  quantity: number;
+  costBasis: number; // Per share, including fees
+  acquiredAt: Date;
+}
+
+export interface RelieveLotsInput {
+  portfolioId: number;
+  symbol: string;
+  transactionId: string;
+  quantity: number;
+  proceeds: number; // Per share, net of fees
+  holdingQuantity: number;
+  holdingAveragePrice: number;
+  holdingCreatedAt: Date;
+  method: LotReliefMethod;
+  selections?: LotSelection[];
+  disposedAt: Date;
+}
+
+export interface LotRelief {
+  realizedPnl: number;
+  remainingQuantity: number;
+  remainingAverageCost: number;
+  disposals: Array<{
+    lotId: number;
+    quantity: number;
+    costBasis: number;
+    realizedPnl: number;
+    holdingDays: number;
+    isLongTerm: boolean;
+  }>;
+}
+
+export interface RealizedGainsSummary {
+  totalRealized: number;
+  shortTerm: number;
+  longTerm: number;
+  bySymbol: Record<string, number>;
+  byTransaction: Record<string, number>;
+}
+
+const toNumber = (value: Decimal | null | undefined): number => Number(value ?? 0);
+
+class TaxLotService {
+  /**
+   * Record a new lot for a buy. Must run inside the trade's database transaction.
+   */
+  async openLot(tx: Prisma.TransactionClient, input: OpenLotInput): Promise<TaxLot> {
+    return tx.taxLot.create({
+      data: {
+        portfolioId: input.portfolioId,
+        symbol: input.symbol,
+        buyTransactionId: input.transactionId,
+        quantity: new Decimal(input.quantity),
+        remainingQuantity: new Decimal(input.quantity),
+        costBasis: new Decimal(input.costBasis),
+        acquiredAt: input.acquiredAt
+      }
+    });
+  }
+
+  /**
+   * Consume open lots for a sell and record a disposal per lot touched.
+   * Specific selections are used when given, otherwise the portfolio's relief method.
+   * Shares bought before lot tracking existed are backfilled as a single lot at the holding's average price.
+   */
+  async relieveLots(tx: Prisma.TransactionClient, input: RelieveLotsInput): Promise<LotRelief> {
+    const lots = await this.getOpenLotsForUpdate(tx, input);
+    const plan = input.selections && input.selections.length > 0
+      ? this.planSpecificRelief(lots, input.selections, input.quantity)
+      : this.planMethodRelief(lots, input.method, input.quantity);
+
+    const disposals: LotRelief['disposals'] = [];
+
+    for (const { lot, quantity } of plan) {
+      const costBasis = toNumber(lot.costBasis);
+      const realizedPnl = quantity * (input.proceeds - costBasis);
+      const holdingDays = Math.floor((input.disposedAt.getTime() - lot.acquiredAt.getTime()) / (1000 * 60 * 60 * 24));
+      const isLongTerm = holdingDays > LONG_TERM_DAYS;
+      const remaining = toNumber(lot.remainingQuantity) - quantity;
+
+      await tx.taxLot.update({
+        where: { id: lot.id },
+        data: {
+          remainingQuantity: new Decimal(remaining > QUANTITY_EPSILON ? remaining : 0),
+          closedAt: remaining > QUANTITY_EPSILON ? null : input.disposedAt
+        }
+      });
+
+      await tx.lotDisposal.create({
+        data: {
+          lotId: lot.id,
+          sellTransactionId: input.transactionId,
+          quantity: new Decimal(quantity),
+          costBasis: lot.costBasis,
+          proceeds: new Decimal(input.proceeds),
+          realizedPnl: new Decimal(realizedPnl),
+          holdingDays,
+          isLongTerm,
+          disposedAt: input.disposedAt
+        }
+      });
+
+      disposals.push({ lotId: lot.id, quantity, costBasis, realizedPnl, holdingDays, isLongTerm });
+    }
+
+    // Remaining cost basis drives the holding's average price after the sale
+    const relieved = new Map(plan.map(({ lot, quantity }) => [lot.id, quantity]));
+    let remainingQuantity = 0;
+    let remainingCost = 0;
+    for (const lot of lots) {
+      const quantity = toNumber(lot.remainingQuantity) - (relieved.get(lot.id) ?? 0);
+      if (quantity > QUANTITY_EPSILON) {
+        remainingQuantity += quantity;
+        remainingCost += quantity * toNumber(lot.costBasis);
+      }
+    }
+
+    return {
+      realizedPnl: disposals.reduce((sum, d) => sum + d.realizedPnl, 0),
+      remainingQuantity,
+      remainingAverageCost: remainingQuantity > 0 ? remainingCost / remainingQuantity : 0,
+      disposals
+    };
+  }
+
+  async getLots(portfolioId: number, symbol?: string, includeClosed: boolean = false) {
+    return prisma.taxLot.findMany({
+      where: {
+        portfolioId,
+        ...(symbol ? { symbol: symbol.toUpperCase() } : {}),
+        ...(includeClosed ? {} : { closedAt: null })
+      },
+      include: { disposals: { orderBy: { disposedAt: 'desc' } } },
+      orderBy: { acquiredAt: 'asc' }
+    });
+  }
+
+  async getReliefMethod(portfolioId: number): Promise<LotReliefMethod> {
+    const portfolio = await prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      select: { lotReliefMethod: true }
+    });
+    return portfolio?.lotReliefMethod ?? 'FIFO';
+  }
+
+  async setReliefMethod(portfolioId: number, method: LotReliefMethod): Promise<void> {
+    await prisma.portfolio.update({
+      where: { id: portfolioId },
+      data: { lotReliefMethod: method }
+    });
+  }
+
+  /**
+   * Realized P&L from lot disposals, split by holding period
+   */
+  async getRealizedGains(portfolioId: number, since?: Date): Promise<RealizedGainsSummary> {
+    const disposals = await prisma.lotDisposal.findMany({
+      where: {
+        lot: { portfolioId },
+        ...(since ? { disposedAt: { gte: since } } : {})
+      },
+      include: { lot: { select: { symbol: true } } }
+    });
+
+    const summary: RealizedGainsSummary = {
+      totalRealized: 0,
+      shortTerm: 0,
+      longTerm: 0,
+      bySymbol: {},
+      byTransaction: {}
+    };
+
+    disposals.forEach(disposal => {
+      const pnl = toNumber(disposal.realizedPnl);
+      summary.totalRealized += pnl;
+      if (disposal.isLongTerm) {
+        summary.longTerm += pnl;
+      } else {
+        summary.shortTerm += pnl;
+      }
+      summary.bySymbol[disposal.lot.symbol] = (summary.bySymbol[disposal.lot.symbol] ?? 0) + pnl;
+      summary.byTransaction[disposal.sellTransactionId] = (summary.byTransaction[disposal.sellTransactionId] ?? 0) + pnl;
+    });
+
+    return summary;
+  }
+
+  /**
+   * Lots to sell for the smallest tax bill at a price: losses first (largest first), then
+   * long-term gains, then short-term gains, smallest gain per share first. Returns null when
+   * open lots do not cover the quantity (untracked legacy shares), so the relief method applies.
+   */
+  async planTaxEfficientRelief(
+    portfolioId: number,
+    symbol: string,
+    quantity: number,
+    price: number,
+    now: Date = new Date()
+  ): Promise<{ selections: LotSelection[]; realizedPnl: number } | null> {
+    const lots = await prisma.taxLot.findMany({
+      where: { portfolioId, symbol: symbol.toUpperCase(), closedAt: null }
+    });
+
+    const rank = (lot: TaxLot) => {
+      const gain = price - toNumber(lot.costBasis);
+      const holdingDays = (now.getTime() - lot.acquiredAt.getTime()) / (1000 * 60 * 60 * 24);
+      const tier = gain < 0 ? 0 : holdingDays > LONG_TERM_DAYS ? 1 : 2;
+      return { tier, gain };
+    };
+    const ordered = [...lots].sort((a, b) => {
+      const rankA = rank(a);
+      const rankB = rank(b);
+      return rankA.tier - rankB.tier || rankA.gain - rankB.gain;
+    });
+
+    const selections: LotSelection[] = [];
+    let realizedPnl = 0;
+    let outstanding = quantity;
+
+    for (const lot of ordered) {
+      if (outstanding <= QUANTITY_EPSILON) break;
+      const take = Math.min(outstanding, toNumber(lot.remainingQuantity));
+      if (take > 0) {
+        selections.push({ lotId: lot.id, quantity: take });
+        realizedPnl += take * (price - toNumber(lot.costBasis));
+        outstanding -= take;
+      }
+    }
+
+    return outstanding > QUANTITY_EPSILON ? null : { selections, realizedPnl };
+  }
+
+  private async getOpenLotsForUpdate(tx: Prisma.TransactionClient, input: RelieveLotsInput): Promise<TaxLot[]> {
+    const lots = await tx.taxLot.findMany({
+      where: { portfolioId: input.portfolioId, symbol: input.symbol, closedAt: null },
+      orderBy: { acquiredAt: 'asc' }
+    });
+
+    const tracked = lots.reduce((sum, lot) => sum + toNumber(lot.remainingQuantity), 0);
+    const untracked = input.holdingQuantity - tracked;
+
+    if (untracked > QUANTITY_EPSILON) {
+      // Back out the tracked lots' cost so the legacy lot keeps the holding's overall average
+      const trackedCost = lots.reduce((sum, lot) => sum + toNumber(lot.remainingQuantity) * toNumber(lot.costBasis), 0);
+      const legacyCost = (input.holdingQuantity * input.holdingAveragePrice - trackedCost) / untracked;
+
+      const legacyLot = await tx.taxLot.create({
+        data: {
+          portfolioId: input.portfolioId,
+          symbol: input.symbol,
+          quantity: new Decimal(untracked),
+          remainingQuantity: new Decimal(untracked),
+          costBasis: new Decimal(Math.max(0, legacyCost)),
+          acquiredAt: input.holdingCreatedAt
+        }
+      });
+      lots.unshift(legacyLot);
+    }
+
+    return lots;
+  }
+
+  private planMethodRelief(lots: TaxLot[], method: LotReliefMethod, quantity: number) {
+    const ordered = [...lots].sort((a, b) => {
+      switch (method) {
+        case 'LIFO':
+          return b.acquiredAt.getTime() - a.acquiredAt.getTime();
+        case 'HIFO':
+          return toNumber(b.costBasis) - toNumber(a.costBasis);
+        default:
+          return a.acquiredAt.getTime() - b.acquiredAt.getTime();
+      }
+    });
+
+    const plan: Array<{ lot: TaxLot; quantity: number }> = [];
+    let outstanding = quantity;
+
+    for (const lot of ordered) {
+      if (outstanding <= QUANTITY_EPSILON) break;
+      const take = Math.min(outstanding, toNumber(lot.remainingQuantity));
+      if (take > 0) {
+        plan.push({ lot, quantity: take });
+        outstanding -= take;
+      }
+    }
+
+    if (outstanding > QUANTITY_EPSILON) {
+      throw new Error(`Insufficient shares. Open lots cover ${quantity - outstanding} of ${quantity}`);
+    }
+
+    return plan;
+  }
+
+  private planSpecificRelief(lots: TaxLot[], selections: LotSelection[], quantity: number) {
+    const byId = new Map(lots.map(lot => [lot.id, lot]));
+    const requested = new Map<number, number>();
+    selections.forEach(selection => {
+      requested.set(selection.lotId, (requested.get(selection.lotId) ?? 0) + selection.quantity);
+    });
+
+    const total = Array.from(requested.values()).reduce((sum, lotQuantity) => sum + lotQuantity, 0);
+    if (Math.abs(total - quantity) > QUANTITY_EPSILON) {
+      throw new Error(`Invalid lot selection. Selected ${total} shares for a sale of ${quantity}`);
+    }
+
+    return Array.from(requested.entries()).map(([lotId, lotQuantity]) => {
+      const lot = byId.get(lotId);
+      if (!lot) {
+        throw new Error(`Invalid lot selection. Lot ${lotId} is not open for this symbol`);
+      }
+      if (lotQuantity > toNumber(lot.remainingQuantity) + QUANTITY_EPSILON) {
+        throw new Error(`Invalid lot selection. Lot ${lotId} has only ${toNumber(lot.remainingQuantity)} shares`);
+      }
+      return { lot, quantity: lotQuantity };
+    });
+  }
+}
+
+export const taxLotService = new TaxLotService();
@@ -0,0 +1,268 @@
+// Server-side trade execution - the single atomic path for filling trades against a portfolio
+import { Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { v4 as uuidv4 } from 'uuid';
+import { lockPortfolio, prisma } from '@/lib/prisma';
+import { executionCostService } from './executionCosts';
+import { finnhubService } from './finnhub';
+import { LotSelection, taxLotService } from './taxLots';
+
+export interface TradeRequest {
+  symbol: string;
+  type: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  limitPrice?: number; // Fill never moves past this price once costs are applied
+  requestedPrice?: number; // Price the client asked for, when it differs from the verified price
+  lotSelections?: LotSelection[]; // Specific lots to sell; otherwise the portfolio's relief method applies
+  aiRecommendation?: Prisma.InputJsonValue | null;
+}
+
+export type PricePolicy = 'reject' | 'reprice';
+
+export interface PriceVerification {
+  price: number; // Price the trade should execute at: always the quote
+  requestedPrice: number;
+  quotePrice: number;
+  deviationPercent: number;
+  repriced: boolean;
+}
+
+class TradeExecutionService {
+  private priceTolerancePercent = Number(process.env.TRADE_PRICE_TOLERANCE_PERCENT) || 2;
+  private pricePolicy: PricePolicy = process.env.TRADE_PRICE_POLICY === 'reprice' ? 'reprice' : 'reject';
+
+  /**
+   * Current quote for a symbol, for fills that have no client price to check (queued bot trades).
+   * Throws "Unknown symbol" when there is no tradable quote and "Quote unavailable" when
+   * the quote service cannot be reached.
+   */
+  async getTradablePrice(symbol: string): Promise<number> {
+    const upperSymbol = symbol.toUpperCase();
+    let quotePrice: number;
+    try {
+      const quote = await finnhubService.getQuote(upperSymbol);
+      quotePrice = quote.c;
+    } catch (error) {
+      // Finnhub answers unknown and halted symbols with an all-zero quote, which getQuote rejects
+      if (error instanceof Error && /^Invalid (stock symbol|quote data)/.test(error.message)) {
+        throw new Error(`Unknown symbol ${upperSymbol}: no tradable quote`);
+      }
+      console.error(`Quote lookup failed for ${symbol}:`, error);
+      throw new Error(`Quote unavailable for ${upperSymbol}, cannot verify price`);
+    }
+
+    if (!(quotePrice > 0)) {
+      throw new Error(`Unknown symbol ${upperSymbol}: no tradable quote`);
+    }
+    return quotePrice;
+  }
+
+  /**
+   * Check a client-supplied price against the current quote. Trades always execute at
+   * the quote; the tolerance only decides whether a stale client price is accepted or,
+   * depending on TRADE_PRICE_POLICY, rejected ("Price deviation") or flagged as re-priced.
+   * Quote failures throw as in getTradablePrice.
+   */
+  async verifyPrice(symbol: string, requestedPrice: number): Promise<PriceVerification> {
+    const quotePrice = await this.getTradablePrice(symbol);
+
+    const deviationPercent = Math.abs(requestedPrice - quotePrice) / quotePrice * 100;
+
+    if (deviationPercent <= this.priceTolerancePercent) {
+      return { price: quotePrice, requestedPrice, quotePrice, deviationPercent, repriced: false };
+    }
+
+    if (this.pricePolicy === 'reject') {
+      throw new Error(
+        `Price deviation too large. Requested $${requestedPrice.toFixed(2)}, market $${quotePrice.toFixed(2)} ` +
+        `(${deviationPercent.toFixed(2)}% > ${this.priceTolerancePercent}%)`
+      );
+    }
+
+    return { price: quotePrice, requestedPrice, quotePrice, deviationPercent, repriced: true };
+  }
+
+  /**
+   * Execute a trade atomically: update cash, holdings and record the transaction.
+   * The portfolio's execution cost model sets the fill price and commission; fees are
+   * charged to cash and included in the cost basis of buys. Buys open a tax lot; sells
+   * relieve lots and record the realized P&L on the transaction.
+   * Throws "Insufficient funds" / "Insufficient shares" errors when the trade cannot be filled,
+   * and "Sale proceeds" when a sell would not cover its own commission.
+   */
+  async executeTrade(portfolioId: number, trade: TradeRequest) {
+    const symbol = trade.symbol.toUpperCase();
+    const { type, quantity } = trade;
+
+    const costs = await executionCostService.estimateFill(portfolioId, symbol, type, quantity, trade.price, trade.limitPrice);
+    const price = costs.fillPrice;
+    const fees = costs.commission;
+    const grossAmount = quantity * price;
+    // Net cash moved by the trade: buys pay fees on top, sells receive proceeds less fees
+    const totalCost = type === 'BUY' ? grossAmount + fees : grossAmount - fees;
+    // A minimum commission can exceed a small sale; the "credit" would then take cash out
+    if (type === 'SELL' && !(totalCost > 0)) {
+      throw new Error(`Sale proceeds of $${grossAmount.toFixed(2)} do not cover the $${fees.toFixed(2)} commission`);
+    }
+
+    const transactionId = uuidv4();
+    const executedAt = new Date();
+    let realizedPnl: number | null = null;
+
+    return prisma.$transaction(async (tx) => {
+      // Fills from the API, order engine, bot, recurring plans and rebalancer can race;
+      // the row lock serializes them per portfolio so cash and holdings are never stale
+      await lockPortfolio(tx, portfolioId);
+      const portfolio = await tx.portfolio.findUnique({
+        where: { id: portfolioId }
+      });
+
+      if (!portfolio) {
+        throw new Error('Portfolio not found');
+      }
+
+      const existingHolding = await tx.holding.findUnique({
+        where: {
+          unique_portfolio_symbol: {
+            portfolioId,
+            symbol
+          }
+        }
+      });
+
+      if (type === 'BUY') {
+        // Debit only if the cash is still there, in the same statement
+        const debit = await tx.portfolio.updateMany({
+          where: { id: portfolioId, cashBalance: { gte: new Decimal(totalCost) } },
+          data: {
+            cashBalance: { decrement: new Decimal(totalCost) },
+            updatedAt: new Date()
+          }
+        });
+        if (debit.count === 0) {
+          throw new Error(`Insufficient funds. Need $${totalCost.toFixed(2)}, have $${Number(portfolio.cashBalance).toFixed(2)}`);
+        }
+
+        if (existingHolding) {
+          // Update existing holding with weighted average price
+          const oldQuantity = Number(existingHolding.quantity);
+          const oldPrice = Number(existingHolding.averagePrice);
+          const newQuantity = oldQuantity + quantity;
+          const newAveragePrice = ((oldQuantity * oldPrice) + totalCost) / newQuantity;
+
+          await tx.holding.update({
+            where: { id: existingHolding.id },
+            data: {
+              quantity: new Decimal(newQuantity),
+              averagePrice: new Decimal(newAveragePrice),
+              currentPrice: new Decimal(price),
+              totalValue: new Decimal(newQuantity * price),
+              profitLoss: new Decimal(newQuantity * (price - newAveragePrice)),
+              profitLossPercent: new Decimal(newAveragePrice > 0 ? ((price - newAveragePrice) / newAveragePrice) * 100 : 0),
+              lastUpdated: new Date()
+            }
+          });
+        } else {
+          // Create new holding
+          await tx.holding.create({
+            data: {
+              portfolioId,
+              symbol,
+              quantity: new Decimal(quantity),
+              averagePrice: new Decimal(totalCost / quantity),
+              currentPrice: new Decimal(price),
+              totalValue: new Decimal(grossAmount),
+              profitLoss: new Decimal(grossAmount - totalCost),
+              profitLossPercent: new Decimal(totalCost > 0 ? ((grossAmount - totalCost) / totalCost) * 100 : 0),
+              lastUpdated: new Date()
+            }
+          });
+        }
+
+        await taxLotService.openLot(tx, {
+          portfolioId,
+          symbol,
+          transactionId,
+          quantity,
+          costBasis: totalCost / quantity,
+          acquiredAt: executedAt
+        });
+
+      } else { // SELL
+        if (!existingHolding || Number(existingHolding.quantity) < quantity) {
+          throw new Error(`Insufficient shares. Need ${quantity}, have ${Number(existingHolding?.quantity) || 0}`);
+        }
+
+        // Credit the proceeds
+        await tx.portfolio.update({
+          where: { id: portfolioId },
+          data: {
+            cashBalance: { increment: new Decimal(totalCost) },
+            updatedAt: new Date()
+          }
+        });
+
+        const relief = await taxLotService.relieveLots(tx, {
+          portfolioId,
+          symbol,
+          transactionId,
+          quantity,
+          proceeds: totalCost / quantity,
+          holdingQuantity: Number(existingHolding.quantity),
+          holdingAveragePrice: Number(existingHolding.averagePrice),
+          holdingCreatedAt: existingHolding.createdAt,
+          method: portfolio.lotReliefMethod,
+          selections: trade.lotSelections,
+          disposedAt: executedAt
+        });
+        realizedPnl = relief.realizedPnl;
+
+        const newQuantity = Number(existingHolding.quantity) - quantity;
+
+        if (newQuantity === 0) {
+          // Remove holding if quantity becomes zero
+          await tx.holding.delete({
+            where: { id: existingHolding.id }
+          });
+        } else {
+          // Update holding; the average now reflects only the lots left open
+          const averagePrice = relief.remainingAverageCost || Number(existingHolding.averagePrice);
+          await tx.holding.update({
+            where: { id: existingHolding.id },
+            data: {
+              quantity: new Decimal(newQuantity),
+              averagePrice: new Decimal(averagePrice),
+              currentPrice: new Decimal(price),
+              totalValue: new Decimal(newQuantity * price),
+              profitLoss: new Decimal(newQuantity * (price - averagePrice)),
+              profitLossPercent: new Decimal(averagePrice > 0 ? ((price - averagePrice) / averagePrice) * 100 : 0),
+              lastUpdated: new Date()
+            }
+          });
+        }
+      }
+
+      // Create transaction record
+      return tx.transaction.create({
+        data: {
+          id: transactionId,
+          portfolioId,
+          symbol,
+          type,
+          quantity: new Decimal(quantity),
+          price: new Decimal(price),
+          requestedPrice: new Decimal(trade.requestedPrice ?? trade.price),
+          totalAmount: new Decimal(totalCost),
+          fees: new Decimal(fees),
+          slippage: new Decimal(costs.spreadCost + costs.slippageCost),
+          realizedPnl: realizedPnl !== null ? new Decimal(realizedPnl) : null,
+          aiRecommendation: trade.aiRecommendation ?? Prisma.JsonNull,
+          transactionDate: executedAt
+        }
+      });
+    });
+  }
+}
+
+export const tradeExecutionService = new TradeExecutionService();
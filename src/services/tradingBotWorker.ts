@@ -0,0 +1,1117 @@
+// Server-side trading bot worker - owns the scan and execution loops and persists bot state in the database
+import { Prisma, BotTrade as BotTradeRecord, BotDecision as BotDecisionRecord, TradingBot as TradingBotRecord } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '@/lib/prisma';
+import { aiAnalyzerService, AIRecommendation } from '@/services/aiAnalyzer';
+import { backtestService } from '@/services/backtester';
+import { cashFlowService } from '@/services/cashFlows';
+import { finnhubService } from '@/services/finnhub';
+import { indicesService } from '@/services/indices';
+import { rebalanceService } from '@/services/rebalancer';
+import { recommendationCalibrationService } from '@/services/recommendationCalibration';
+import { riskManagerService, RiskPortfolio, StopLossTarget } from '@/services/riskManager';
+import { strategyRegistry } from '@/services/strategies';
+import { tradeExecutionService } from '@/services/tradeExecution';
+import {
+  BotAllocation,
+  BotDashboard,
+  BotDecision,
+  BotOverview,
+  BotPerformance,
+  BotStatus,
+  DEFAULT_TRADING_BOT_CONFIG,
+  QueuedTrade,
+  TradingBotConfig,
+  TradingBotInput,
+  TradingBotSummary
+} from '@/services/tradingBot';
+import { Holding } from '@/store/portfolio';
+import { OrderIntent, PriceBar } from '@/types/strategy';
+import { getTradingDateStart, isMarketOpen } from '@/utils/marketHours';
+
+const DEFAULT_INTERVAL_MS = 30000; // Check every 30 seconds
+const HISTORY_RETENTION_DAYS = 30;
+const BAR_HISTORY_DAYS = 400; // Calendar days of daily bars handed to strategies
+const MAX_CONSECUTIVE_FAILURES = 5; // Transient quote/AI/network failures retried before the bot is marked ERROR
+const MAX_EXECUTION_ATTEMPTS = 5; // Quote outages a queued trade is requeued for before it fails
+
+const PRIORITY_ORDER: Record<QueuedTrade['priority'], number> = { URGENT: 4, HIGH: 3, MEDIUM: 2, LOW: 1 };
+
+const toNumber = (value: Decimal | null | undefined): number => Number(value ?? 0);
+const toJson = (value: unknown): Prisma.InputJsonValue => value as Prisma.InputJsonValue;
+
+class TradingBotWorker {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private isTicking = false;
+  private scanningBots = new Set<number>();
+  private consecutiveFailures = new Map<number, number>();
+  private executionAttempts = new Map<string, number>();
+
+  /**
+   * Start the worker loop (idempotent). Bots keep running whether or not anyone has /bot open.
+   */
+  start(intervalMs: number = Number(process.env.TRADING_BOT_INTERVAL_MS) || DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Trading bot tick failed:', error));
+    }, intervalMs);
+
+    console.log(`🤖 Trading bot worker started (every ${Math.round(intervalMs / 1000)}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Scan running bots whose interval has elapsed and execute their due trades
+   */
+  async tick(): Promise<void> {
+    if (this.isTicking) return; // Previous tick still running
+    this.isTicking = true;
+
+    try {
+      const bots = await prisma.tradingBot.findMany({
+        where: { status: 'RUNNING', portfolio: { isArchived: false } }
+      });
+
+      for (const bot of bots) {
+        try {
+          const config = this.toConfig(bot);
+          const scanDue = !bot.lastScanAt ||
+            bot.lastScanAt.getTime() + config.intervals.scanning * 60 * 1000 <= Date.now();
+
+          if (scanDue) {
+            await this.performScan(bot, config);
+            // The scan may have paused or stopped the bot
+            const current = await prisma.tradingBot.findUnique({ where: { id: bot.id } });
+            if (current?.status !== 'RUNNING') continue;
+          }
+
+          await this.executeQueuedTrades(bot.id, bot.portfolioId, config);
+
+          // Recovered from a transient failure
+          if (this.consecutiveFailures.delete(bot.id)) {
+            await prisma.tradingBot.update({ where: { id: bot.id }, data: { errorMessage: null } });
+          }
+        } catch (error) {
+          await this.logError(bot.id, 'Market scan failed', error);
+        }
+      }
+
+      await this.cleanupOldData();
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  // ---- Control API (used by /api/bot/*) ----
+
+  async listBots(portfolioId: number): Promise<TradingBotSummary[]> {
+    const bots = await prisma.tradingBot.findMany({
+      where: { portfolioId },
+      orderBy: { createdAt: 'asc' }
+    });
+    if (bots.length === 0) return [];
+
+    const portfolio = await this.loadPortfolio(portfolioId);
+    return Promise.all(bots.map(bot => this.toSummary(bot, portfolio)));
+  }
+
+  /**
+   * Every bot in the portfolio with performance and activity summed across them
+   */
+  async getOverview(portfolioId: number): Promise<BotOverview> {
+    const bots = await this.listBots(portfolioId);
+
+    const totalAutomatedTrades = bots.reduce((sum, bot) => sum + bot.performance.totalAutomatedTrades, 0);
+    const successfulTrades = bots.reduce((sum, bot) => sum + bot.performance.successfulTrades, 0);
+
+    return {
+      bots,
+      combined: {
+        totalAutomatedTrades,
+        successfulTrades,
+        failedTrades: totalAutomatedTrades - successfulTrades,
+        successRate: totalAutomatedTrades > 0 ? (successfulTrades / totalAutomatedTrades) * 100 : 0,
+        totalProfitLoss: bots.reduce((sum, bot) => sum + bot.performance.totalProfitLoss, 0),
+        averageHoldingPeriod: 0,
+        runningBots: bots.filter(bot => bot.status.status === 'RUNNING').length,
+        pendingTrades: bots.reduce((sum, bot) => sum + bot.status.currentActivity.pendingTrades, 0),
+        todayTradesCount: bots.reduce((sum, bot) => sum + bot.status.currentActivity.todayTradesCount, 0),
+        todayTradeAmount: bots.reduce((sum, bot) => sum + bot.status.currentActivity.todayTradeAmount, 0)
+      }
+    };
+  }
+
+  async createBot(portfolioId: number, input: TradingBotInput): Promise<TradingBotSummary> {
+    const bot = await prisma.tradingBot.create({
+      data: {
+        portfolioId,
+        name: input.name,
+        budget: input.budget ? new Decimal(input.budget) : null,
+        config: toJson({ ...DEFAULT_TRADING_BOT_CONFIG, ...input.config })
+      }
+    });
+
+    console.log(`🤖 Trading bot "${bot.name}" created for portfolio ${portfolioId}`);
+    return this.toSummary(bot, await this.loadPortfolio(portfolioId));
+  }
+
+  async updateBot(
+    portfolioId: number,
+    botId: number,
+    updates: Partial<Omit<TradingBotInput, 'config'>>
+  ): Promise<TradingBotSummary> {
+    await this.findBot(portfolioId, botId);
+
+    const bot = await prisma.tradingBot.update({
+      where: { id: botId },
+      data: {
+        ...(updates.name !== undefined && { name: updates.name }),
+        ...(updates.budget !== undefined && { budget: updates.budget ? new Decimal(updates.budget) : null })
+      }
+    });
+
+    return this.toSummary(bot, await this.loadPortfolio(portfolioId));
+  }
+
+  /**
+   * Delete a bot with its queue and decision log; positions it bought stay in the portfolio
+   */
+  async deleteBot(portfolioId: number, botId: number): Promise<void> {
+    await this.findBot(portfolioId, botId);
+    await prisma.tradingBot.delete({ where: { id: botId } });
+    console.log(`🤖 Trading bot ${botId} deleted from portfolio ${portfolioId}`);
+  }
+
+  async getConfig(portfolioId: number, botId: number): Promise<TradingBotConfig> {
+    return this.toConfig(await this.findBot(portfolioId, botId));
+  }
+
+  /**
+   * Merge configuration sections; disabling the bot also stops it
+   */
+  async updateConfig(portfolioId: number, botId: number, updates: Partial<TradingBotConfig>): Promise<TradingBotConfig> {
+    const bot = await this.findBot(portfolioId, botId);
+    const config = { ...this.toConfig(bot), ...updates };
+
+    await prisma.tradingBot.update({
+      where: { id: bot.id },
+      data: { config: toJson(config) }
+    });
+
+    if (!config.enabled && bot.status !== 'STOPPED') {
+      await this.stopBot(portfolioId, botId, 'Bot disabled in configuration');
+    }
+
+    return config;
+  }
+
+  async startBot(portfolioId: number, botId: number): Promise<void> {
+    const bot = await this.findBot(portfolioId, botId);
+    if (!this.toConfig(bot).enabled) {
+      throw new Error('Bot is disabled in configuration');
+    }
+    if (bot.status === 'RUNNING') return;
+
+    this.consecutiveFailures.delete(bot.id);
+    await prisma.tradingBot.update({
+      where: { id: bot.id },
+      data: {
+        status: 'RUNNING',
+        errorMessage: null,
+        startedAt: bot.status === 'PAUSED' && bot.startedAt ? bot.startedAt : new Date(),
+        lastScanAt: null // Scan on the next tick
+      }
+    });
+
+    console.log(`🤖 Trading bot "${bot.name}" started for portfolio ${portfolioId}`);
+  }
+
+  async stopBot(portfolioId: number, botId: number, reason: string = 'Bot stopped by user'): Promise<void> {
+    const bot = await this.findBot(portfolioId, botId);
+
+    await prisma.$transaction([
+      prisma.tradingBot.update({
+        where: { id: bot.id },
+        data: { status: 'STOPPED', startedAt: null }
+      }),
+      prisma.botTrade.updateMany({
+        where: { botId: bot.id, status: 'PENDING' },
+        data: { status: 'CANCELLED', reason }
+      })
+    ]);
+
+    console.log(`🤖 Trading bot "${bot.name}" stopped for portfolio ${portfolioId}`);
+  }
+
+  async pauseBot(portfolioId: number, botId: number): Promise<void> {
+    const bot = await this.findBot(portfolioId, botId);
+    await prisma.tradingBot.update({ where: { id: bot.id }, data: { status: 'PAUSED' } });
+    console.log(`🤖 Trading bot "${bot.name}" paused for portfolio ${portfolioId}`);
+  }
+
+  /**
+   * Stop every bot in the portfolio and cancel all of their pending trades
+   */
+  async emergencyStop(portfolioId: number): Promise<void> {
+    const bots = await prisma.tradingBot.findMany({ where: { portfolioId } });
+    for (const bot of bots) {
+      await this.stopBot(portfolioId, bot.id, 'Emergency stop activated');
+    }
+    console.log(`🚨 EMERGENCY STOP - All trading halted for portfolio ${portfolioId}`);
+  }
+
+  // Summary plus the latest queued trades and decisions for one bot
+  async getDashboard(portfolioId: number, botId: number, limit: number = 50): Promise<BotDashboard> {
+    const bot = await this.findBot(portfolioId, botId);
+
+    const [summary, trades, decisions] = await Promise.all([
+      this.loadPortfolio(portfolioId).then(portfolio => this.toSummary(bot, portfolio)),
+      prisma.botTrade.findMany({
+        where: { botId: bot.id },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      }),
+      prisma.botDecision.findMany({
+        where: { botId: bot.id },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      })
+    ]);
+
+    return {
+      bot: summary,
+      queue: trades.map(trade => this.toQueuedTrade(trade)),
+      decisions: decisions.map(decision => this.toBotDecision(decision))
+    };
+  }
+
+  /**
+   * Check a strategy selection for the live bot and fill in the strategy's default parameters
+   */
+  resolveStrategy(
+    selection: TradingBotConfig['strategy']
+  ): { success: true; data: TradingBotConfig['strategy'] } | { success: false; error: string } {
+    const strategy = strategyRegistry.get(selection.id);
+    if (!strategy?.modes.includes('live')) {
+      return { success: false, error: `Unknown strategy: ${selection.id}` };
+    }
+    if (!strategy.usesSignals && selection.symbols.length === 0) {
+      return { success: false, error: `${strategy.name} needs at least one symbol` };
+    }
+
+    const strategyConfig = strategyRegistry.resolveConfig(strategy.id, selection.config);
+    if (!strategyConfig.success) {
+      return strategyConfig;
+    }
+
+    return {
+      success: true,
+      data: {
+        ...selection,
+        symbols: Array.from(new Set(selection.symbols)),
+        config: strategyConfig.data as Record<string, unknown>
+      }
+    };
+  }
+
+  private async findBot(portfolioId: number, botId: number): Promise<TradingBotRecord> {
+    const bot = await prisma.tradingBot.findFirst({ where: { id: botId, portfolioId } });
+    if (!bot) {
+      throw new Error('Bot not found');
+    }
+    return bot;
+  }
+
+  private async toSummary(bot: TradingBotRecord, portfolio: RiskPortfolio): Promise<TradingBotSummary> {
+    const config = this.toConfig(bot);
+    const [status, performance, allocation] = await Promise.all([
+      this.getStatus(bot, config),
+      this.getPerformance(bot.id),
+      this.getAllocation(bot, portfolio)
+    ]);
+
+    return {
+      id: bot.id,
+      name: bot.name,
+      budget: bot.budget ? toNumber(bot.budget) : null,
+      strategyId: config.strategy.id,
+      enabled: config.enabled,
+      status,
+      performance,
+      allocation
+    };
+  }
+
+  private async getStatus(bot: TradingBotRecord, config: TradingBotConfig): Promise<BotStatus> {
+    const isMonitoring = bot.status === 'RUNNING';
+
+    const [pendingTrades, executing, todayTradesCount, todayTradeAmount] = await Promise.all([
+      prisma.botTrade.count({ where: { botId: bot.id, status: 'PENDING' } }),
+      prisma.botTrade.count({ where: { botId: bot.id, status: 'EXECUTING' } }),
+      this.getTodayTradesCount(bot.id),
+      this.getTodayTradeAmount(bot.id)
+    ]);
+
+    return {
+      status: bot.status,
+      isMonitoring,
+      lastScan: bot.lastScanAt,
+      nextScan: isMonitoring
+        ? new Date((bot.lastScanAt?.getTime() ?? Date.now()) + config.intervals.scanning * 60 * 1000)
+        : null,
+      uptime: bot.startedAt ? (Date.now() - bot.startedAt.getTime()) / 1000 : 0,
+      errorMessage: bot.errorMessage ?? undefined,
+      currentActivity: {
+        scanning: this.scanningBots.has(bot.id),
+        executing: executing > 0,
+        pendingTrades,
+        todayTradesCount,
+        todayTradeAmount
+      }
+    };
+  }
+
+  private async getPerformance(botId: number): Promise<BotPerformance> {
+    const trades = await prisma.botTrade.findMany({
+      where: { botId, status: { in: ['COMPLETED', 'FAILED'] } }
+    });
+
+    const successfulTrades = trades.filter(trade => trade.status === 'COMPLETED');
+    const transactionIds = successfulTrades
+      .map(trade => trade.transactionId)
+      .filter((id): id is string => !!id);
+    const realized = await prisma.transaction.aggregate({
+      where: { id: { in: transactionIds } },
+      _sum: { realizedPnl: true }
+    });
+
+    return {
+      totalAutomatedTrades: trades.length,
+      successfulTrades: successfulTrades.length,
+      failedTrades: trades.length - successfulTrades.length,
+      successRate: trades.length > 0 ? (successfulTrades.length / trades.length) * 100 : 0,
+      totalProfitLoss: toNumber(realized._sum.realizedPnl),
+      averageHoldingPeriod: 0
+    };
+  }
+
+  /**
+   * A budgeted bot's slice: its own positions (from its completed trades, never more than the
+   * portfolio holds) and whatever budget is left after pending buys. Unbudgeted bots get null.
+   */
+  private async getAllocation(bot: TradingBotRecord, portfolio: RiskPortfolio): Promise<BotAllocation | null> {
+    if (!bot.budget) return null;
+
+    const budget = toNumber(bot.budget);
+    const trades = await prisma.botTrade.findMany({
+      where: { botId: bot.id, status: { in: ['PENDING', 'EXECUTING', 'COMPLETED'] } },
+      orderBy: { updatedAt: 'asc' }
+    });
+
+    let cash = budget;
+    const lots: Record<string, { quantity: number; costBasis: number }> = {};
+    for (const trade of trades) {
+      const quantity = toNumber(trade.quantity);
+
+      if (trade.status !== 'COMPLETED') {
+        if (trade.action === 'BUY') cash -= quantity * toNumber(trade.targetPrice); // Committed, not yet spent
+        continue;
+      }
+
+      const price = toNumber(trade.executedPrice ?? trade.targetPrice);
+      const lot = lots[trade.symbol] ?? { quantity: 0, costBasis: 0 };
+      if (trade.action === 'BUY') {
+        lot.quantity += quantity;
+        lot.costBasis += quantity * price;
+        cash -= quantity * price;
+      } else {
+        const sold = Math.min(quantity, lot.quantity);
+        lot.costBasis -= lot.quantity > 0 ? lot.costBasis * (sold / lot.quantity) : 0;
+        lot.quantity -= sold;
+        cash += quantity * price;
+      }
+      lots[trade.symbol] = lot;
+    }
+
+    const positions: BotAllocation['positions'] = {};
+    let investedValue = 0;
+    for (const [symbol, lot] of Object.entries(lots)) {
+      const quantity = Math.min(lot.quantity, portfolio.holdings[symbol]?.quantity ?? 0);
+      if (quantity <= 0) continue;
+
+      const averagePrice = lot.costBasis / lot.quantity;
+      positions[symbol] = { quantity, averagePrice };
+      investedValue += quantity * (portfolio.holdings[symbol]?.currentPrice ?? averagePrice);
+    }
+
+    cash = Math.max(0, Math.min(cash, portfolio.getPortfolioSummary().cashBalance));
+    const totalValue = cash + investedValue;
+
+    return {
+      budget,
+      cash,
+      investedValue,
+      totalValue,
+      profitLoss: totalValue - budget,
+      positions
+    };
+  }
+
+  /**
+   * What a bot's risk checks and strategy see: its allocation if it has a budget, else the whole portfolio
+   */
+  private toBotPortfolio(portfolio: RiskPortfolio, allocation: BotAllocation | null): RiskPortfolio {
+    if (!allocation) return portfolio;
+
+    const holdings: Record<string, Holding> = {};
+    for (const [symbol, { quantity, averagePrice }] of Object.entries(allocation.positions)) {
+      const currentPrice = portfolio.holdings[symbol]?.currentPrice ?? averagePrice;
+      const totalValue = quantity * currentPrice;
+      const costBasis = quantity * averagePrice;
+      holdings[symbol] = {
+        quantity,
+        averagePrice,
+        currentPrice,
+        totalValue,
+        profitLoss: totalValue - costBasis,
+        profitLossPercent: costBasis > 0 ? ((totalValue - costBasis) / costBasis) * 100 : 0,
+        lastUpdated: new Date()
+      };
+    }
+
+    const summary = {
+      totalValue: allocation.totalValue,
+      totalProfitLoss: allocation.profitLoss,
+      totalProfitLossPercent: allocation.budget > 0 ? (allocation.profitLoss / allocation.budget) * 100 : 0,
+      cashBalance: allocation.cash,
+      investedAmount: allocation.investedValue
+    };
+
+    return { holdings, getPortfolioSummary: () => summary };
+  }
+
+  // ---- Scan loop ----
+
+  private async performScan(bot: TradingBotRecord, config: TradingBotConfig): Promise<void> {
+    this.scanningBots.add(bot.id);
+
+    try {
+      await prisma.tradingBot.update({ where: { id: bot.id }, data: { lastScanAt: new Date() } });
+      console.log(`🤖 Starting market scan for "${bot.name}" (portfolio ${bot.portfolioId})...`);
+
+      const portfolio = await this.loadPortfolio(bot.portfolioId);
+
+      // The emergency check looks at the whole portfolio and halts every bot in it
+      const emergencyCheck = riskManagerService.isEmergencyStopRequired(portfolio);
+      if (emergencyCheck.required) {
+        console.log(`🚨 Emergency stop triggered: ${emergencyCheck.reason}`);
+        await this.emergencyStop(bot.portfolioId);
+        return;
+      }
+
+      // Everything below only sees the bot's own slice when it has a budget
+      const botPortfolio = this.toBotPortfolio(portfolio, await this.getAllocation(bot, portfolio));
+
+      if (config.marketConditions.tradingHoursOnly && !isMarketOpen()) {
+        console.log('🤖 Outside market hours - skipping scan');
+        return;
+      }
+
+      // Drawdown protection pauses the bot; gains never count as drawdown
+      const drawdownPercent = -botPortfolio.getPortfolioSummary().totalProfitLossPercent;
+      if (drawdownPercent > config.riskManagement.maxPortfolioDrawdown) {
+        console.log('🤖 Portfolio drawdown limit exceeded - pausing trading');
+        await this.pauseBot(bot.portfolioId, bot.id);
+        return;
+      }
+
+      if (await this.getTodayTradesCount(bot.id) >= config.riskManagement.maxDailyTrades) {
+        console.log('🤖 Daily trade limit reached - skipping scan');
+        return;
+      }
+
+      if (await this.getTodayTradeAmount(bot.id) >= config.riskManagement.maxDailyAmount) {
+        console.log('🤖 Daily amount limit reached - skipping scan');
+        return;
+      }
+
+      for (const target of riskManagerService.checkStopLossTargets(config, botPortfolio)) {
+        if (target.shouldExecute) {
+          await this.queueStopLossTarget(bot.id, target);
+        }
+      }
+
+      // Whole-portfolio bots also keep the portfolio on its target allocation, checked once a day
+      if (config.preferences.rebalancingEnabled && bot.budget === null) {
+        await rebalanceService.rebalanceIfDrifted(bot.portfolioId, 'bot')
+          .catch(error => console.error(`Bot rebalance failed for portfolio ${bot.portfolioId}:`, error));
+      }
+
+      const strategy = strategyRegistry.get(config.strategy.id);
+      if (!strategy || !strategy.modes.includes('live')) {
+        throw new Error(`Strategy ${config.strategy.id} cannot run on the live bot`);
+      }
+      const strategyConfig = strategyRegistry.resolveConfig(strategy.id, config.strategy.config);
+      if (!strategyConfig.success) {
+        throw new Error(`Invalid ${strategy.name} settings: ${strategyConfig.error}`);
+      }
+
+      const signals = strategy.usesSignals ? await this.getSignals(bot.id, config) : [];
+      const bars = await this.loadBars(config.strategy.symbols);
+      const summary = botPortfolio.getPortfolioSummary();
+
+      const intents = strategy.onBar({
+        date: new Date().toISOString().slice(0, 10),
+        bars,
+        portfolio: {
+          cash: summary.cashBalance,
+          totalValue: summary.totalValue,
+          positions: Object.fromEntries(
+            Object.entries(botPortfolio.holdings).map(([symbol, { quantity, averagePrice }]) => [symbol, { symbol, quantity, averagePrice }])
+          )
+        },
+        signals: strategy.usesSignals ? signals : undefined
+      }, strategyConfig.data);
+
+      console.log(`🤖 ${strategy.name} produced ${intents.length} order intents`);
+
+      for (const intent of intents) {
+        const signal = signals.find(candidate => candidate.symbol === intent.symbol);
+        const bar = bars[intent.symbol]?.[bars[intent.symbol].length - 1];
+        const price = signal?.currentPrice ?? bar?.close ?? botPortfolio.holdings[intent.symbol]?.currentPrice;
+        const recommendation = signal ?? this.toRecommendation(intent, price ?? 0, strategy.name);
+
+        if (!price) {
+          await this.logDecision(bot.id, recommendation, 'SKIP_MARKET_CONDITIONS',
+            `No current price for ${intent.symbol}`);
+          continue;
+        }
+
+        await this.processIntent(bot.id, intent, price, recommendation, config, botPortfolio);
+      }
+    } finally {
+      this.scanningBots.delete(bot.id);
+    }
+  }
+
+  /**
+   * AI recommendations that pass the bot's confidence and risk-level thresholds; the rest are logged as skipped
+   */
+  private async getSignals(botId: number, config: TradingBotConfig): Promise<AIRecommendation[]> {
+    const topStocks = await indicesService.getTopPerformersAcrossIndices(30);
+    const marketAnalysis = await aiAnalyzerService.generateDailyRecommendations(topStocks);
+
+    console.log(`🤖 Analyzing ${marketAnalysis.recommendations.length} recommendations`);
+
+    const signals: AIRecommendation[] = [];
+    for (const recommendation of marketAnalysis.recommendations) {
+      // Stated confidence is rescaled to the hit rate it has historically earned
+      const confidence = config.aiThresholds.calibrateConfidence
+        ? Math.round(await recommendationCalibrationService.calibrate(recommendation.confidence))
+        : recommendation.confidence;
+
+      if (confidence < config.aiThresholds.minimumConfidence) {
+        const stated = confidence !== recommendation.confidence ? ` (calibrated from ${recommendation.confidence}%)` : '';
+        await this.logDecision(botId, recommendation, 'SKIP_CONFIDENCE',
+          `Confidence ${confidence}%${stated} below threshold ${config.aiThresholds.minimumConfidence}%`);
+      } else if (!config.aiThresholds.riskLevelsEnabled.includes(recommendation.riskLevel)) {
+        await this.logDecision(botId, recommendation, 'SKIP_RISK',
+          `Risk level ${recommendation.riskLevel} not enabled`);
+      } else {
+        signals.push(recommendation);
+      }
+    }
+    return signals;
+  }
+
+  /**
+   * Daily bars for the strategy universe, long enough for a 200-day average
+   */
+  private async loadBars(symbols: string[]): Promise<Record<string, PriceBar[]>> {
+    const today = new Date().toISOString().slice(0, 10);
+    const startDate = new Date(Date.now() - BAR_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    const bars: Record<string, PriceBar[]> = {};
+    for (const symbol of symbols) {
+      try {
+        bars[symbol] = await backtestService.loadBars(symbol, startDate, today, 'finnhub');
+      } catch (error) {
+        console.warn(`Trading bot: price history unavailable for ${symbol}:`, error);
+      }
+    }
+    return bars;
+  }
+
+  /**
+   * Size an order intent, run it through the risk checks and queue it
+   */
+  private async processIntent(
+    botId: number,
+    intent: OrderIntent,
+    price: number,
+    recommendation: AIRecommendation,
+    config: TradingBotConfig,
+    portfolio: RiskPortfolio
+  ): Promise<void> {
+    // Strategies decide on daily bars, so one order per symbol and side per day is enough
+    const alreadyQueued = await prisma.botTrade.count({
+      where: {
+        botId,
+        symbol: intent.symbol,
+        action: intent.side,
+        status: { in: ['PENDING', 'EXECUTING', 'COMPLETED'] },
+        createdAt: { gte: getTradingDateStart() }
+      }
+    });
+    if (alreadyQueued > 0) {
+      console.log(`🤖 ${intent.side} ${intent.symbol} already queued today - skipping`);
+      return;
+    }
+
+    const priority = intent.confidence !== undefined ? this.getTradePriority(intent.confidence) : 'MEDIUM';
+
+    if (intent.side === 'BUY') {
+      let quantity: number;
+      let sizing: string;
+      if (intent.quantity !== undefined || intent.notional !== undefined) {
+        quantity = Math.floor(intent.quantity ?? (intent.notional ?? 0) / price);
+        sizing = intent.reason;
+      } else {
+        const positionSizing = riskManagerService.getPositionSizingRecommendation(
+          intent.symbol,
+          price,
+          recommendation.confidence,
+          recommendation.riskLevel,
+          config,
+          portfolio
+        );
+        quantity = positionSizing.quantity;
+        sizing = positionSizing.reasoning;
+      }
+
+      const riskAssessment = riskManagerService.assessTradeRisk(
+        intent.symbol,
+        'BUY',
+        quantity,
+        price,
+        recommendation,
+        config,
+        portfolio
+      );
+
+      if (!riskAssessment.approved) {
+        await this.logDecision(botId, recommendation, 'SKIP_RISK',
+          `Risk assessment failed: ${riskAssessment.reason}`);
+        return;
+      }
+
+      if (quantity <= 0) {
+        await this.logDecision(botId, recommendation, 'SKIP_LIMITS',
+          `Position sizing resulted in 0 shares: ${sizing}`);
+        return;
+      }
+
+      const tradeId = await this.queueTrade(botId, recommendation, 'BUY', quantity, price, priority, config);
+      await this.logDecision(botId, recommendation, 'EXECUTE_TRADE',
+        `Queued BUY ${quantity} shares at $${price} (${sizing})`,
+        tradeId);
+      return;
+    }
+
+    const holding = portfolio.holdings[intent.symbol];
+    if (!holding || holding.quantity === 0) {
+      await this.logDecision(botId, recommendation, 'SKIP_LIMITS',
+        `No shares to sell for ${intent.symbol}`);
+      return;
+    }
+    const quantity = Math.min(intent.quantity ?? holding.quantity, holding.quantity);
+
+    // Sells are queued even when the risk assessment has warnings
+    const riskAssessment = riskManagerService.assessTradeRisk(
+      intent.symbol,
+      'SELL',
+      quantity,
+      price,
+      recommendation,
+      config,
+      portfolio
+    );
+
+    const tradeId = await this.queueTrade(botId, recommendation, 'SELL', quantity, price, priority, config);
+    await this.logDecision(botId, recommendation, 'EXECUTE_TRADE',
+      `Queued SELL ${quantity} shares at $${price} (${intent.reason})${
+        riskAssessment.severity !== 'LOW' ? ` (Warning: ${riskAssessment.reason})` : ''
+      }`,
+      tradeId);
+  }
+
+  private async queueStopLossTarget(botId: number, target: StopLossTarget): Promise<void> {
+    console.log(`🎯 Queueing ${target.type} for ${target.symbol} at $${target.currentPrice}`);
+
+    const recommendation: AIRecommendation = {
+      symbol: target.symbol,
+      name: target.symbol,
+      action: 'SELL',
+      confidence: 100, // High confidence for stop loss/take profit
+      reasoning: `Automated ${target.type.replace('_', ' ')} execution`,
+      riskLevel: 'LOW',
+      currentPrice: target.currentPrice,
+      targetPrice: target.currentPrice,
+      expectedReturn: 0,
+      timeframe: 'SHORT',
+      keyFactors: [`${target.type.replace('_', ' ')} threshold reached`],
+      marketData: { volume: 0, changePercent: 0, volatility: 0, sector: 'Unknown' },
+      generatedAt: new Date().toISOString()
+    };
+
+    const tradeId = this.generateTradeId();
+    await prisma.botTrade.create({
+      data: {
+        id: tradeId,
+        botId,
+        symbol: target.symbol,
+        action: 'SELL',
+        quantity: new Decimal(target.quantity),
+        targetPrice: new Decimal(target.currentPrice),
+        recommendation: toJson(recommendation),
+        priority: 'URGENT',
+        scheduledFor: new Date() // Execute immediately
+      }
+    });
+
+    await this.logDecision(botId, recommendation, 'EXECUTE_TRADE',
+      `Automatic ${target.type} triggered for ${target.symbol}`, tradeId);
+  }
+
+  private async queueTrade(
+    botId: number,
+    recommendation: AIRecommendation,
+    action: 'BUY' | 'SELL',
+    quantity: number,
+    price: number,
+    priority: QueuedTrade['priority'],
+    config: TradingBotConfig
+  ): Promise<string> {
+    const tradeId = this.generateTradeId();
+
+    await prisma.botTrade.create({
+      data: {
+        id: tradeId,
+        botId,
+        symbol: recommendation.symbol,
+        action,
+        quantity: new Decimal(quantity),
+        targetPrice: new Decimal(price),
+        recommendation: toJson(recommendation),
+        priority,
+        scheduledFor: new Date(Date.now() + config.intervals.execution * 1000)
+      }
+    });
+
+    return tradeId;
+  }
+
+  private getTradePriority(confidence: number): QueuedTrade['priority'] {
+    if (confidence >= 95) return 'URGENT';
+    if (confidence >= 90) return 'HIGH';
+    if (confidence >= 85) return 'MEDIUM';
+    return 'LOW';
+  }
+
+  // ---- Execution loop ----
+
+  /**
+   * Execute the highest-priority due trade at the live quote while the market is open, keeping
+   * the configured spacing between executions. The price at scan time is not re-checked: a
+   * stop-loss has to fill however far the price has moved. Quote outages requeue the trade.
+   */
+  private async executeQueuedTrades(botId: number, portfolioId: number, config: TradingBotConfig): Promise<void> {
+    if (!isMarketOpen()) return;
+
+    const lastExecuted = await prisma.botTrade.findFirst({
+      where: { botId, status: { in: ['COMPLETED', 'FAILED'] } },
+      orderBy: { updatedAt: 'desc' }
+    });
+    if (lastExecuted && lastExecuted.updatedAt.getTime() + config.intervals.execution * 1000 > Date.now()) {
+      return;
+    }
+
+    const dueTrades = await prisma.botTrade.findMany({
+      where: { botId, status: 'PENDING', scheduledFor: { lte: new Date() } }
+    });
+    if (dueTrades.length === 0) return;
+
+    const [trade] = dueTrades.sort((a, b) =>
+      PRIORITY_ORDER[b.priority] - PRIORITY_ORDER[a.priority] ||
+      a.scheduledFor.getTime() - b.scheduledFor.getTime()
+    );
+
+    // Claim the trade first so an overlapping worker cannot execute it twice
+    const claim = await prisma.botTrade.updateMany({
+      where: { id: trade.id, status: 'PENDING' },
+      data: { status: 'EXECUTING' }
+    });
+    if (claim.count === 0) return;
+
+    const queued = this.toQueuedTrade(trade);
+    console.log(`🤖 Executing ${queued.action} ${queued.quantity} ${queued.symbol} (queued at $${queued.targetPrice})`);
+
+    try {
+      const price = await tradeExecutionService.getTradablePrice(queued.symbol);
+      const transaction = await tradeExecutionService.executeTrade(portfolioId, {
+        symbol: queued.symbol,
+        type: queued.action,
+        quantity: queued.quantity,
+        price,
+        aiRecommendation: {
+          action: queued.recommendation.action,
+          confidence: queued.recommendation.confidence,
+          reasoning: `Automated trade: ${queued.recommendation.reasoning}`
+        }
+      });
+
+      await prisma.botTrade.update({
+        where: { id: trade.id },
+        data: {
+          status: 'COMPLETED',
+          executedPrice: transaction.price,
+          transactionId: transaction.id
+        }
+      });
+      this.executionAttempts.delete(trade.id);
+      console.log(`🤖 ✅ Trade completed successfully: ${queued.action} ${queued.quantity} ${queued.symbol}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const attempts = (this.executionAttempts.get(trade.id) ?? 0) + 1;
+
+      if (message.startsWith('Quote unavailable') && attempts < MAX_EXECUTION_ATTEMPTS) {
+        this.executionAttempts.set(trade.id, attempts);
+        await prisma.botTrade.update({
+          where: { id: trade.id },
+          data: { status: 'PENDING', reason: `Retrying (${attempts}/${MAX_EXECUTION_ATTEMPTS}): ${message}` }
+        });
+        console.warn(`🤖 Requeued ${queued.symbol} trade after a quote outage (${attempts}/${MAX_EXECUTION_ATTEMPTS})`);
+        return;
+      }
+
+      this.executionAttempts.delete(trade.id);
+      await prisma.botTrade.update({
+        where: { id: trade.id },
+        data: { status: 'FAILED', reason: `Execution error: ${message}` }
+      });
+      console.error(`🤖 Trade execution error for ${queued.symbol}:`, error);
+    }
+  }
+
+  // ---- Helpers ----
+
+  /**
+   * Holdings marked to live quotes plus a summary shaped like the client store's, for the risk checks
+   */
+  private async loadPortfolio(portfolioId: number): Promise<RiskPortfolio> {
+    const portfolio = await prisma.portfolio.findUnique({
+      where: { id: portfolioId },
+      include: { holdings: true }
+    });
+    if (!portfolio) {
+      throw new Error('Portfolio not found');
+    }
+
+    const holdings: Record<string, Holding> = {};
+    for (const record of portfolio.holdings) {
+      const quantity = toNumber(record.quantity);
+      if (quantity <= 0) continue;
+
+      const averagePrice = toNumber(record.averagePrice);
+      let currentPrice = toNumber(record.currentPrice) || averagePrice;
+      try {
+        const quote = await finnhubService.getQuote(record.symbol);
+        if (quote.c > 0) currentPrice = quote.c;
+      } catch (error) {
+        console.warn(`Trading bot: quote unavailable for ${record.symbol}, using last price:`, error);
+      }
+
+      const totalValue = quantity * currentPrice;
+      const costBasis = quantity * averagePrice;
+      holdings[record.symbol] = {
+        quantity,
+        averagePrice,
+        currentPrice,
+        totalValue,
+        profitLoss: totalValue - costBasis,
+        profitLossPercent: costBasis > 0 ? ((totalValue - costBasis) / costBasis) * 100 : 0,
+        lastUpdated: new Date()
+      };
+    }
+
+    const cashFlows = await cashFlowService.getCashFlows(portfolioId);
+    const netContributions = cashFlows.reduce(
+      (sum, flow) => sum + (flow.type === 'DEPOSIT' ? flow.amount : -flow.amount),
+      0
+    );
+    const cashBalance = toNumber(portfolio.cashBalance);
+    const investedAmount = Object.values(holdings).reduce((sum, holding) => sum + holding.totalValue, 0);
+    const totalValue = cashBalance + investedAmount;
+    const totalProfitLoss = totalValue - netContributions;
+    const summary = {
+      totalValue,
+      totalProfitLoss,
+      totalProfitLossPercent: netContributions > 0 ? (totalProfitLoss / netContributions) * 100 : 0,
+      cashBalance,
+      investedAmount,
+      netContributions
+    };
+
+    return { holdings, getPortfolioSummary: () => summary };
+  }
+
+  private async getTodayTradesCount(botId: number): Promise<number> {
+    return prisma.botDecision.count({
+      where: { botId, tradeExecuted: true, createdAt: { gte: getTradingDateStart() } }
+    });
+  }
+
+  private async getTodayTradeAmount(botId: number): Promise<number> {
+    const trades = await prisma.botTrade.findMany({
+      where: { botId, status: 'COMPLETED', createdAt: { gte: getTradingDateStart() } }
+    });
+    return trades.reduce((sum, trade) => sum + toNumber(trade.quantity) * toNumber(trade.targetPrice), 0);
+  }
+
+  private async logDecision(
+    botId: number,
+    recommendation: AIRecommendation,
+    decision: BotDecision['decision'],
+    reason: string,
+    tradeId?: string
+  ): Promise<void> {
+    await prisma.botDecision.create({
+      data: {
+        id: this.generateDecisionId(),
+        botId,
+        symbol: recommendation.symbol,
+        recommendation: toJson(recommendation),
+        decision,
+        reason,
+        tradeExecuted: decision === 'EXECUTE_TRADE',
+        tradeId: tradeId ?? null
+      }
+    });
+  }
+
+  /**
+   * Provider outages, quota errors and network blips are retried on the next tick; the bot is only
+   * marked ERROR for invalid data or once failures keep repeating.
+   */
+  private async logError(botId: number, message: string, error: unknown): Promise<void> {
+    const errorMessage = `${message}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    const failures = (this.consecutiveFailures.get(botId) ?? 0) + 1;
+    const recoverable = !(error instanceof Prisma.PrismaClientValidationError);
+
+    if (recoverable && failures < MAX_CONSECUTIVE_FAILURES) {
+      this.consecutiveFailures.set(botId, failures);
+      console.warn(`🤖 Bot ${botId} failure ${failures}/${MAX_CONSECUTIVE_FAILURES}, retrying next tick: ${errorMessage}`);
+      await prisma.tradingBot.update({
+        where: { id: botId },
+        data: { errorMessage, lastScanAt: null }
+      });
+      return;
+    }
+
+    this.consecutiveFailures.delete(botId);
+    console.error(`🤖 Bot Error: ${errorMessage}`);
+    await prisma.tradingBot.update({
+      where: { id: botId },
+      data: { status: 'ERROR', errorMessage }
+    });
+  }
+
+  /**
+   * Drop failed/cancelled trades and decisions older than the retention window. Completed
+   * trades are kept: they are each bot's ledger for its allocation and performance.
+   */
+  private async cleanupOldData(): Promise<void> {
+    const cutoff = new Date(Date.now() - HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    await prisma.botTrade.deleteMany({
+      where: { createdAt: { lt: cutoff }, status: { in: ['FAILED', 'CANCELLED'] } }
+    });
+    await prisma.botDecision.deleteMany({ where: { createdAt: { lt: cutoff } } });
+  }
+
+  private toConfig(bot: TradingBotRecord): TradingBotConfig {
+    const stored = bot.config;
+    if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+      return { ...DEFAULT_TRADING_BOT_CONFIG };
+    }
+    return { ...DEFAULT_TRADING_BOT_CONFIG, ...(stored as Partial<TradingBotConfig>) };
+  }
+
+  private toQueuedTrade(record: BotTradeRecord): QueuedTrade {
+    return {
+      id: record.id,
+      symbol: record.symbol,
+      action: record.action,
+      quantity: toNumber(record.quantity),
+      targetPrice: toNumber(record.targetPrice),
+      recommendation: record.recommendation as unknown as AIRecommendation,
+      priority: record.priority,
+      createdAt: record.createdAt,
+      scheduledFor: record.scheduledFor,
+      status: record.status,
+      reason: record.reason ?? undefined
+    };
+  }
+
+  private toBotDecision(record: BotDecisionRecord): BotDecision {
+    return {
+      id: record.id,
+      timestamp: record.createdAt,
+      symbol: record.symbol,
+      recommendation: record.recommendation as unknown as AIRecommendation,
+      decision: record.decision,
+      reason: record.reason,
+      tradeExecuted: record.tradeExecuted,
+      tradeId: record.tradeId ?? undefined
+    };
+  }
+
+  // Rule-based intents are logged in the same shape as AI recommendations
+  private toRecommendation(intent: OrderIntent, price: number, strategyName: string): AIRecommendation {
+    return {
+      symbol: intent.symbol,
+      name: intent.symbol,
+      action: intent.side,
+      confidence: intent.confidence ?? 100,
+      reasoning: `${strategyName}: ${intent.reason}`,
+      riskLevel: 'LOW',
+      currentPrice: price,
+      targetPrice: intent.limitPrice ?? price,
+      expectedReturn: 0,
+      timeframe: 'SHORT',
+      keyFactors: [intent.reason],
+      marketData: { volume: 0, changePercent: 0, volatility: 0, sector: 'Unknown' },
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  private generateTradeId(): string {
+    return `bot_trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private generateDecisionId(): string {
+    return `bot_decision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+export const tradingBotWorker = new TradingBotWorker();
@@ -154,7 +154,7 @@ class UnifiedRecommendationService {
         console.log(`✅ Got ${symbol} data: $${stockData.currentPrice} (${stockData.changePercent?.toFixed(2)}%)`);
         
         // Get AI recommendation
-        const aiRecommendation = await aiService.getTradeRecommendation(stockData, mockPortfolio);
+        const aiRecommendation = await aiService.getTradeRecommendation(stockData, mockPortfolio, 'UNIFIED');
         
         if (aiRecommendation) {
           console.log(`🤖 ${symbol} AI rec: ${aiRecommendation.recommendation} (${aiRecommendation.confidence}%)`);
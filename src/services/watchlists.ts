@@ -0,0 +1,198 @@
+// Watchlist service - per-user symbol lists with notes, tags and one-shot price alert levels
+import { Watchlist as WatchlistRecord, WatchlistItem as ItemRecord } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '@/lib/prisma';
+import { finnhubService } from './finnhub';
+import type {
+  Watchlist,
+  WatchlistItem,
+  WatchlistItemInput,
+  WatchlistItemUpdate,
+  WatchlistSymbolInfo
+} from '@/types/watchlists';
+
+const toNullableNumber = (value: Decimal | null): number | null => value !== null ? Number(value) : null;
+const toDecimal = (value: number | null | undefined): Decimal | null =>
+  typeof value === 'number' && isFinite(value) ? new Decimal(value) : null;
+
+const toItem = (record: ItemRecord): WatchlistItem => ({
+  id: record.id,
+  watchlistId: record.watchlistId,
+  symbol: record.symbol,
+  notes: record.notes,
+  tags: Array.isArray(record.tags) ? record.tags as string[] : [],
+  alertAbove: toNullableNumber(record.alertAbove),
+  alertBelow: toNullableNumber(record.alertBelow),
+  addedAt: record.addedAt
+});
+
+const toWatchlist = (record: WatchlistRecord & { items: ItemRecord[] }): Watchlist => ({
+  id: record.id,
+  name: record.name,
+  items: record.items.map(toItem),
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt
+});
+
+// Tags are compared case-insensitively; the first spelling wins
+const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.filter(tag => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const itemsInOrder = { items: { orderBy: { addedAt: 'asc' as const } } };
+
+class WatchlistService {
+  async listWatchlists(userId: number): Promise<Watchlist[]> {
+    const records = await prisma.watchlist.findMany({
+      where: { userId },
+      include: itemsInOrder,
+      orderBy: { createdAt: 'asc' }
+    });
+    return records.map(toWatchlist);
+  }
+
+  async getWatchlist(userId: number, watchlistId: number): Promise<Watchlist> {
+    const record = await prisma.watchlist.findFirst({
+      where: { id: watchlistId, userId },
+      include: itemsInOrder
+    });
+    if (!record) {
+      throw new Error('Watchlist not found');
+    }
+    return toWatchlist(record);
+  }
+
+  async createWatchlist(userId: number, name: string): Promise<Watchlist> {
+    const existing = await prisma.watchlist.findUnique({ where: { userId_name: { userId, name } } });
+    if (existing) {
+      throw new Error('A watchlist with this name already exists');
+    }
+
+    const record = await prisma.watchlist.create({
+      data: { userId, name },
+      include: itemsInOrder
+    });
+    return toWatchlist(record);
+  }
+
+  async renameWatchlist(userId: number, watchlistId: number, name: string): Promise<Watchlist> {
+    const watchlist = await this.getWatchlist(userId, watchlistId);
+    if (name === watchlist.name) return watchlist;
+
+    const clash = await prisma.watchlist.findUnique({ where: { userId_name: { userId, name } } });
+    if (clash) {
+      throw new Error('A watchlist with this name already exists');
+    }
+
+    const record = await prisma.watchlist.update({
+      where: { id: watchlistId },
+      data: { name },
+      include: itemsInOrder
+    });
+    return toWatchlist(record);
+  }
+
+  async deleteWatchlist(userId: number, watchlistId: number): Promise<void> {
+    const result = await prisma.watchlist.deleteMany({ where: { id: watchlistId, userId } });
+    if (result.count === 0) {
+      throw new Error('Watchlist not found');
+    }
+  }
+
+  async addItem(userId: number, watchlistId: number, input: WatchlistItemInput): Promise<WatchlistItem> {
+    await this.getWatchlist(userId, watchlistId);
+
+    const existing = await prisma.watchlistItem.findUnique({
+      where: { watchlistId_symbol: { watchlistId, symbol: input.symbol } }
+    });
+    if (existing) {
+      throw new Error('Symbol is already on this watchlist');
+    }
+
+    const record = await prisma.watchlistItem.create({
+      data: {
+        watchlistId,
+        symbol: input.symbol,
+        notes: input.notes || null,
+        tags: normalizeTags(input.tags ?? []),
+        alertAbove: toDecimal(input.alertAbove),
+        alertBelow: toDecimal(input.alertBelow)
+      }
+    });
+    return toItem(record);
+  }
+
+  /**
+   * Update notes, tags or alert levels; null clears a field. The merged alert levels are
+   * re-checked because either side may come from the stored item.
+   */
+  async updateItem(
+    userId: number,
+    watchlistId: number,
+    itemId: number,
+    updates: WatchlistItemUpdate
+  ): Promise<WatchlistItem> {
+    const current = await this.findItem(userId, watchlistId, itemId);
+
+    const alertAbove = updates.alertAbove !== undefined ? updates.alertAbove : current.alertAbove;
+    const alertBelow = updates.alertBelow !== undefined ? updates.alertBelow : current.alertBelow;
+    if (alertAbove !== null && alertBelow !== null && alertBelow >= alertAbove) {
+      throw new Error('The lower alert price must be below the upper one');
+    }
+
+    const record = await prisma.watchlistItem.update({
+      where: { id: itemId },
+      data: {
+        ...(updates.notes !== undefined && { notes: updates.notes || null }),
+        ...(updates.tags !== undefined && { tags: normalizeTags(updates.tags) }),
+        ...(updates.alertAbove !== undefined && { alertAbove: toDecimal(updates.alertAbove) }),
+        ...(updates.alertBelow !== undefined && { alertBelow: toDecimal(updates.alertBelow) })
+      }
+    });
+    return toItem(record);
+  }
+
+  async removeItem(userId: number, watchlistId: number, itemId: number): Promise<void> {
+    await this.findItem(userId, watchlistId, itemId);
+    await prisma.watchlistItem.delete({ where: { id: itemId } });
+  }
+
+  /**
+   * Company name and 52-week range per symbol. Both come from hour-cached Finnhub endpoints, so
+   * this is cheap to call on every watchlist load; symbols that fail keep nulls.
+   */
+  async getSymbolInfo(symbols: string[]): Promise<WatchlistSymbolInfo[]> {
+    return Promise.all([...new Set(symbols)].map(async symbol => {
+      const [profile, financials] = await Promise.allSettled([
+        finnhubService.getCompanyProfile(symbol),
+        finnhubService.getBasicFinancials(symbol)
+      ]);
+      const metric = financials.status === 'fulfilled' ? financials.value.metric : null;
+
+      return {
+        symbol,
+        name: profile.status === 'fulfilled' ? profile.value.name : symbol,
+        week52High: metric?.['52WeekHigh'] || null,
+        week52Low: metric?.['52WeekLow'] || null
+      };
+    }));
+  }
+
+  private async findItem(userId: number, watchlistId: number, itemId: number): Promise<WatchlistItem> {
+    const record = await prisma.watchlistItem.findFirst({
+      where: { id: itemId, watchlistId, watchlist: { userId } }
+    });
+    if (!record) {
+      throw new Error('Watchlist item not found');
+    }
+    return toItem(record);
+  }
+}
+
+export const watchlistService = new WatchlistService();
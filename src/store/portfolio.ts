@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import type { RecurringPlan, RecurringPlanInput, RecurringPlanRun } from '@/types/recurringPlans';
 
 export interface Holding {
   quantity: number;
@@ -16,7 +17,11 @@ export interface Transaction {
   type: 'BUY' | 'SELL';
   quantity: number;
   price: number;
+  requestedPrice?: number | null;
   totalAmount: number;
+  fees?: number;
+  slippage?: number;
+  realizedPnl?: number | null; // Lot-level realized P&L for sells
   timestamp: Date;
   aiRecommendation?: {
     action: string;
@@ -25,19 +30,60 @@ export interface Transaction {
   };
 }
 
+export interface CashFlow {
+  id: number;
+  type: 'DEPOSIT' | 'WITHDRAWAL';
+  amount: number;
+  note?: string | null;
+  timestamp: Date;
+}
+
 export interface PortfolioState {
   cashBalance: number;
   totalValue: number;
   initialValue: number;
   holdings: Record<string, Holding>;
   transactions: Transaction[];
+  cashFlows: CashFlow[]; // Deposit/withdrawal ledger, including the opening balance
   lastUpdated: Date;
   isLoading: boolean;
   error: string | null;
 }
 
+export interface PortfolioSummary {
+  id: number;
+  name: string;
+  initialValue: number;
+  cashBalance: number;
+  totalValue: number;
+  holdingsCount: number;
+  isActive: boolean;
+  isArchived: boolean;
+  archivedAt: Date | null;
+  createdAt: Date;
+}
+
+// Which portfolio the store holds, and the others the user can switch to
+export interface PortfolioSelectionState {
+  portfolioId: number | null;
+  portfolioName: string;
+  portfolios: PortfolioSummary[];
+}
+
+// Scheduled buys for the loaded portfolio and their latest runs, kept server-side
+export interface RecurringPlanState {
+  recurringPlans: RecurringPlan[];
+  recurringPlanRuns: RecurringPlanRun[];
+}
+
 export interface PortfolioActions {
   loadPortfolio: () => Promise<void>;
+  loadPortfolios: (includeArchived?: boolean) => Promise<void>;
+  createPortfolio: (name: string, initialCash?: number) => Promise<boolean>;
+  renamePortfolio: (portfolioId: number, name: string) => Promise<boolean>;
+  archivePortfolio: (portfolioId: number) => Promise<boolean>;
+  restorePortfolio: (portfolioId: number) => Promise<boolean>;
+  switchPortfolio: (portfolioId: number) => Promise<boolean>;
   executeTrade: (
     symbol: string,
     type: 'BUY' | 'SELL',
@@ -47,7 +93,8 @@ export interface PortfolioActions {
       action: string;
       confidence: number;
       reasoning: string;
-    }
+    },
+    lotSelections?: Array<{ lotId: number; quantity: number }>
   ) => Promise<boolean>;
   updateHoldingPrice: (symbol: string, currentPrice: number) => Promise<void>;
   updateAllHoldings: (priceUpdates: Record<string, number>) => Promise<void>;
@@ -57,22 +104,105 @@ export interface PortfolioActions {
     totalProfitLossPercent: number;
     cashBalance: number;
     investedAmount: number;
+    netContributions: number;
   };
   resetPortfolio: () => Promise<void>;
   topUpCash: (amount: number) => Promise<void>;
+  withdrawCash: (amount: number) => Promise<void>;
+  loadRecurringPlans: () => Promise<void>;
+  saveRecurringPlan: (input: Partial<RecurringPlanInput>, planId?: number) => Promise<boolean>;
+  deleteRecurringPlan: (planId: number) => Promise<boolean>;
   getTransactionHistory: () => Transaction[];
   getHoldingsByValue: () => Array<{ symbol: string; holding: Holding }>;
 }
 
 const INITIAL_CASH = 10000;
 
-export const usePortfolioStore = create<PortfolioState & PortfolioActions>()((set, get) => ({
+type PortfolioStore = PortfolioState & PortfolioSelectionState & RecurringPlanState & PortfolioActions;
+
+/**
+ * Call a portfolio-management endpoint, then refresh the list (and the loaded portfolio if the selection changed)
+ */
+const updatePortfolios = async (
+  get: () => PortfolioStore,
+  set: (partial: Partial<PortfolioStore>) => void,
+  url: string,
+  method: string,
+  body: Record<string, unknown> | undefined,
+  reloadPortfolio: boolean
+): Promise<boolean> => {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const result = await response.json();
+      throw new Error(result.error || 'Portfolio update failed');
+    }
+
+    await get().loadPortfolios();
+    if (reloadPortfolio) {
+      await get().loadPortfolio();
+    }
+    return true;
+  } catch (error) {
+    console.error('Portfolio management error:', error);
+    set({ error: error instanceof Error ? error.message : 'Portfolio update failed' });
+    return false;
+  }
+};
+
+/**
+ * Money put in minus money taken out. Falls back to the initial value until the ledger loads.
+ */
+export const getNetContributions = (state: Pick<PortfolioState, 'cashFlows' | 'initialValue'>): number => {
+  if (state.cashFlows.length === 0) return state.initialValue;
+  return state.cashFlows.reduce(
+    (sum, flow) => sum + (flow.type === 'DEPOSIT' ? flow.amount : -flow.amount),
+    0
+  );
+};
+
+type RecurringPlanResponse = Omit<RecurringPlan, 'nextRunAt' | 'lastRunAt' | 'createdAt'> & {
+  nextRunAt: string;
+  lastRunAt: string | null;
+  createdAt: string;
+};
+
+type RecurringPlanRunResponse = Omit<RecurringPlanRun, 'scheduledFor' | 'executedAt'> & {
+  scheduledFor: string;
+  executedAt: string;
+};
+
+const toRecurringPlan = (plan: RecurringPlanResponse): RecurringPlan => ({
+  ...plan,
+  nextRunAt: new Date(plan.nextRunAt),
+  lastRunAt: plan.lastRunAt ? new Date(plan.lastRunAt) : null,
+  createdAt: new Date(plan.createdAt)
+});
+
+const toRecurringPlanRun = (run: RecurringPlanRunResponse): RecurringPlanRun => ({
+  ...run,
+  scheduledFor: new Date(run.scheduledFor),
+  executedAt: new Date(run.executedAt)
+});
+
+export const usePortfolioStore = create<PortfolioStore>()((set, get) => ({
   // Initial state
+  portfolioId: null,
+  portfolioName: '',
+  portfolios: [],
   cashBalance: INITIAL_CASH,
   totalValue: INITIAL_CASH,
   initialValue: INITIAL_CASH,
   holdings: {},
   transactions: [],
+  cashFlows: [],
+  recurringPlans: [],
+  recurringPlanRuns: [],
   lastUpdated: new Date(),
   isLoading: false,
   error: null,
@@ -115,6 +245,8 @@ export const usePortfolioStore = create<PortfolioState & PortfolioActions>()((se
       });
 
       set({
+        portfolioId: portfolio.id,
+        portfolioName: portfolio.name,
         cashBalance: portfolio.cashBalance,
         totalValue: portfolio.totalValue,
         initialValue: portfolio.initialValue,
@@ -125,7 +257,11 @@ export const usePortfolioStore = create<PortfolioState & PortfolioActions>()((se
           type: string;
           quantity: number;
           price: number;
+          requestedPrice?: number | null;
           totalAmount: number;
+          fees?: number;
+          slippage?: number;
+          realizedPnl?: number | null;
           transactionDate?: string;
           createdAt?: string;
           aiRecommendation?: {
@@ -139,10 +275,27 @@ export const usePortfolioStore = create<PortfolioState & PortfolioActions>()((se
           type: tx.type,
           quantity: tx.quantity,
           price: tx.price,
+          requestedPrice: tx.requestedPrice,
           totalAmount: tx.totalAmount,
+          fees: tx.fees,
+          slippage: tx.slippage,
+          realizedPnl: tx.realizedPnl,
           timestamp: new Date(tx.transactionDate || tx.createdAt),
           aiRecommendation: tx.aiRecommendation
         })),
+        cashFlows: (portfolio.cashFlows || []).map((flow: {
+          id: number;
+          type: 'DEPOSIT' | 'WITHDRAWAL';
+          amount: number;
+          note?: string | null;
+          occurredAt: string;
+        }) => ({
+          id: flow.id,
+          type: flow.type,
+          amount: flow.amount,
+          note: flow.note,
+          timestamp: new Date(flow.occurredAt)
+        })),
         lastUpdated: new Date(portfolio.updatedAt),
         isLoading: false,
         error: null
@@ -156,8 +309,52 @@ export const usePortfolioStore = create<PortfolioState & PortfolioActions>()((se
     }
   },
 
+  loadPortfolios: async (includeArchived = true) => {
+    try {
+      const response = await fetch(`/api/portfolios?includeArchived=${includeArchived}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load portfolios');
+      }
+
+      set({
+        portfolios: result.data.map((portfolio: PortfolioSummary & { archivedAt: string | null; createdAt: string }) => ({
+          ...portfolio,
+          archivedAt: portfolio.archivedAt ? new Date(portfolio.archivedAt) : null,
+          createdAt: new Date(portfolio.createdAt)
+        }))
+      });
+    } catch (error) {
+      console.error('Failed to load portfolios:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to load portfolios' });
+    }
+  },
+
+  createPortfolio: async (name, initialCash = INITIAL_CASH) => {
+    return updatePortfolios(get, set, '/api/portfolios', 'POST', { name, initialCash, activate: true }, true);
+  },
+
+  renamePortfolio: async (portfolioId, name) => {
+    return updatePortfolios(get, set, `/api/portfolios/${portfolioId}`, 'PATCH', { name }, false);
+  },
+
+  archivePortfolio: async (portfolioId) => {
+    // Archiving the selected portfolio moves the selection, so reload it as well
+    return updatePortfolios(get, set, `/api/portfolios/${portfolioId}`, 'PATCH', { isArchived: true }, get().portfolioId === portfolioId);
+  },
+
+  restorePortfolio: async (portfolioId) => {
+    return updatePortfolios(get, set, `/api/portfolios/${portfolioId}`, 'PATCH', { isArchived: false }, false);
+  },
+
+  switchPortfolio: async (portfolioId) => {
+    if (get().portfolioId === portfolioId) return true;
+    return updatePortfolios(get, set, `/api/portfolios/${portfolioId}/activate`, 'POST', undefined, true);
+  },
+
   // Execute trade with strict validation
-  executeTrade: async (symbol, type, quantity, price, aiRecommendation) => {
+  executeTrade: async (symbol, type, quantity, price, aiRecommendation, lotSelections) => {
     const state = get();
     const totalCost = quantity * price;
 
@@ -194,7 +391,8 @@ export const usePortfolioStore = create<PortfolioState & PortfolioActions>()((se
           type,
           quantity,
           price,
-          aiRecommendation
+          aiRecommendation,
+          lots: lotSelections
         })
       });
 
@@ -315,8 +513,10 @@ export const usePortfolioStore = create<PortfolioState & PortfolioActions>()((se
     const totalHoldingsValue = Object.values(state.holdings)
       .reduce((sum, holding) => sum + holding.totalValue, 0);
     const totalValue = state.cashBalance + totalHoldingsValue;
-    const totalProfitLoss = totalValue - state.initialValue;
-    const totalProfitLossPercent = state.initialValue > 0 ? (totalProfitLoss / state.initialValue) * 100 : 0;
+    // Deposits and withdrawals are not gains or losses
+    const netContributions = getNetContributions(state);
+    const totalProfitLoss = totalValue - netContributions;
+    const totalProfitLossPercent = netContributions > 0 ? (totalProfitLoss / netContributions) * 100 : 0;
 
     return {
       totalValue,
@@ -324,6 +524,7 @@ export const usePortfolioStore = create<PortfolioState & PortfolioActions>()((se
       totalProfitLossPercent,
       cashBalance: state.cashBalance,
       investedAmount: totalHoldingsValue,
+      netContributions,
     };
   },
 
@@ -386,6 +587,98 @@ export const usePortfolioStore = create<PortfolioState & PortfolioActions>()((se
     }
   },
 
+  withdrawCash: async (amount) => {
+    if (amount <= 0) {
+      set({ error: 'Withdrawal amount must be positive' });
+      return;
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const response = await fetch('/api/portfolio/withdraw', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ amount })
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to withdraw cash');
+      }
+
+      // Reload portfolio after withdrawal
+      await get().loadPortfolio();
+      
+      console.log('✅ Cash withdrawn successfully');
+    } catch (error) {
+      console.error('Withdrawal error:', error);
+      set({ 
+        error: error instanceof Error ? error.message : 'Failed to withdraw cash',
+        isLoading: false 
+      });
+    }
+  },
+
+  loadRecurringPlans: async () => {
+    try {
+      const response = await fetch('/api/recurring-plans');
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load recurring plans');
+      }
+
+      set({
+        recurringPlans: result.data.plans.map(toRecurringPlan),
+        recurringPlanRuns: result.data.runs.map(toRecurringPlanRun)
+      });
+    } catch (error) {
+      console.error('Failed to load recurring plans:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to load recurring plans' });
+    }
+  },
+
+  // Create a plan, or update (including pause/resume) an existing one
+  saveRecurringPlan: async (input, planId) => {
+    try {
+      const response = await fetch(planId ? `/api/recurring-plans/${planId}` : '/api/recurring-plans', {
+        method: planId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input)
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to save recurring plan');
+      }
+
+      await get().loadRecurringPlans();
+      return true;
+    } catch (error) {
+      console.error('Recurring plan save error:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to save recurring plan' });
+      return false;
+    }
+  },
+
+  deleteRecurringPlan: async (planId) => {
+    try {
+      const response = await fetch(`/api/recurring-plans/${planId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to delete recurring plan');
+      }
+
+      await get().loadRecurringPlans();
+      return true;
+    } catch (error) {
+      console.error('Recurring plan delete error:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to delete recurring plan' });
+      return false;
+    }
+  },
+
   getTransactionHistory: () => {
     return get().transactions.sort((a, b) => 
       new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
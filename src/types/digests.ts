@@ -0,0 +1,82 @@
+// Digest report types - daily and weekly after-close summaries, archived and sent through the notification channels
+import type { DispatchResult } from '@/types/notifications';
+import type { TriggeredAlert, UserPreferences } from '@/types/recommendations';
+
+export type DigestPeriod = 'DAILY' | 'WEEKLY';
+
+export interface DigestMover {
+  symbol: string;
+  changePercent: number;
+  changeValue: number; // Dollar change on the shares held at the end of the period
+  price: number;
+}
+
+export interface DigestTrade {
+  symbol: string;
+  type: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  totalAmount: number;
+  realizedPnl: number | null;
+  executedAt: string;
+}
+
+export interface DigestBotActivity {
+  decisions: number;
+  executed: number;
+  skipped: Record<string, number>; // BotDecisionType -> count
+}
+
+export interface DigestPortfolioSummary {
+  portfolioId: number;
+  name: string;
+  startValue: number | null; // Prior close; null for a portfolio without history
+  endValue: number;
+  netCashFlow: number;       // Deposits minus withdrawals in the period
+  valueChange: number;       // Excluding net cash flow
+  valueChangePercent: number | null;
+  topGainers: DigestMover[];
+  topLosers: DigestMover[];
+  trades: DigestTrade[];
+  botActivity: DigestBotActivity;
+}
+
+export interface DigestIdea {
+  symbol: string;
+  name: string;
+  action: 'BUY' | 'SELL';
+  confidence: number;
+  currentPrice: number;
+  targetPrice: number;
+  reasoning: string;
+}
+
+export interface DigestReport {
+  period: DigestPeriod;
+  periodStart: string; // YYYY-MM-DD trading dates
+  periodEnd: string;
+  since: string;       // Activity after this instant is included
+  generatedAt: string;
+  portfolios: DigestPortfolioSummary[];
+  alerts: Pick<TriggeredAlert, 'symbol' | 'type' | 'message' | 'triggeredAt'>[];
+  ideas: DigestIdea[];
+}
+
+export interface DigestSummary {
+  id: number;
+  period: DigestPeriod;
+  periodStart: string;
+  periodEnd: string;
+  subject: string;
+  deliveredTo: number; // Channels that accepted it
+  createdAt: string;
+}
+
+export interface DigestDetail extends DigestSummary {
+  report: DigestReport;
+  html: string;
+  deliveries: DispatchResult[] | null;
+}
+
+// dailyDigest sends the daily digest; performanceReports the weekly report on the last trading day of the week
+export type DigestPreferences = UserPreferences['notificationSettings'];
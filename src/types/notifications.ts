@@ -0,0 +1,74 @@
+// Outbound notification types - channels that deliver alerts when no browser tab is open
+
+export type NotificationChannelType = 'EMAIL' | 'WEBHOOK' | 'TELEGRAM' | 'NTFY' | 'GOTIFY';
+
+export type NotificationPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+
+export interface EmailChannelConfig {
+  to: string;
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  secret: string; // HMAC-SHA256 key for the X-Webhook-Signature header
+}
+
+export interface TelegramChannelConfig {
+  botToken: string;
+  chatId: string;
+}
+
+export interface NtfyChannelConfig {
+  serverUrl: string;
+  topic: string;
+  token?: string;
+}
+
+export interface GotifyChannelConfig {
+  serverUrl: string;
+  appToken: string;
+}
+
+export type NotificationChannelConfig =
+  | EmailChannelConfig
+  | WebhookChannelConfig
+  | TelegramChannelConfig
+  | NtfyChannelConfig
+  | GotifyChannelConfig;
+
+export interface NotificationChannel {
+  id: number;
+  type: NotificationChannelType;
+  name: string;
+  config: NotificationChannelConfig; // Secrets are masked in API responses
+  minPriority: NotificationPriority;
+  quietHoursStart: string | null; // "22:00", in timeZone
+  quietHoursEnd: string | null;
+  timeZone: string;
+  isActive: boolean;
+  lastSentAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export type NotificationChannelInput = Pick<NotificationChannel, 'type' | 'name'> & {
+  config: Record<string, string>;
+} & Partial<Pick<NotificationChannel, 'minPriority' | 'quietHoursStart' | 'quietHoursEnd' | 'timeZone' | 'isActive'>>;
+
+export interface OutboundNotification {
+  title: string;
+  message: string;
+  priority: NotificationPriority;
+  symbol?: string;
+  url?: string; // Absolute link back into the app
+  html?: string; // Rich body for channels that can show it (email, webhook)
+  dedupeKey?: string; // Notifications with the same key are delivered once per user per day
+}
+
+export interface DispatchResult {
+  channelId: number;
+  name: string;
+  type: NotificationChannelType;
+  status: 'SENT' | 'SKIPPED' | 'FAILED';
+  reason?: string;
+}
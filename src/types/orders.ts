@@ -1,8 +1,12 @@
 // Advanced Order Types for Phase 14
-export type OrderType = 'MARKET' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'TRAILING_STOP' | 'OCO';
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP_LIMIT' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'TRAILING_STOP' | 'OCO';
 
 export type OrderStatus = 'PENDING' | 'ACTIVE' | 'TRIGGERED' | 'CANCELLED' | 'EXPIRED';
 
+// Time in force: DAY expires at market close, GTC persists until filled or cancelled,
+// IOC fills what it can immediately and cancels the rest, FOK fills in full immediately or cancels
+export type TimeInForce = 'DAY' | 'GTC' | 'IOC' | 'FOK';
+
 export interface BaseOrder {
   id: string;
   symbol: string;
@@ -12,6 +16,7 @@ export interface BaseOrder {
   createdAt: Date;
   triggeredAt?: Date;
   expiresAt?: Date;
+  timeInForce?: TimeInForce; // Defaults to GTC
   parentOrderId?: string; // For OCO orders
 }
 
@@ -21,6 +26,20 @@ export interface MarketOrder extends BaseOrder {
   price: number;
 }
 
+export interface LimitOrder extends BaseOrder {
+  type: 'LIMIT';
+  side: 'BUY' | 'SELL';
+  limitPrice: number; // Buy at or below, sell at or above
+}
+
+export interface StopLimitOrder extends BaseOrder {
+  type: 'STOP_LIMIT';
+  side: 'BUY' | 'SELL';
+  stopPrice: number; // Activates the limit order once crossed
+  limitPrice: number;
+  stopTriggered?: boolean; // Set once the stop price has been reached
+}
+
 export interface StopLossOrder extends BaseOrder {
   type: 'STOP_LOSS';
   side: 'SELL';
@@ -58,7 +77,22 @@ export interface OCOOrder extends BaseOrder {
   takeProfitOrder: TakeProfitOrder;
 }
 
-export type AdvancedOrder = MarketOrder | StopLossOrder | TakeProfitOrder | TrailingStopOrder | OCOOrder;
+export type AdvancedOrder = MarketOrder | LimitOrder | StopLimitOrder | StopLossOrder | TakeProfitOrder | TrailingStopOrder | OCOOrder;
+
+// Order payload accepted when creating orders (the server assigns id, status and timestamps)
+type NewOrderFields<T extends BaseOrder> = Omit<T, 'id' | 'status' | 'createdAt' | 'triggeredAt'>;
+
+export type NewAdvancedOrder =
+  | NewOrderFields<MarketOrder>
+  | NewOrderFields<LimitOrder>
+  | NewOrderFields<StopLimitOrder>
+  | NewOrderFields<StopLossOrder>
+  | NewOrderFields<TakeProfitOrder>
+  | NewOrderFields<TrailingStopOrder>
+  | (Omit<NewOrderFields<OCOOrder>, 'stopLossOrder' | 'takeProfitOrder'> & {
+      stopLossOrder: NewOrderFields<StopLossOrder>;
+      takeProfitOrder: NewOrderFields<TakeProfitOrder>;
+    });
 
 // Order execution result
 export interface OrderExecutionResult {
@@ -91,6 +125,35 @@ export interface RiskManagement {
   portfolioStopLoss: number; // Emergency portfolio stop %
 }
 
+// Execution cost models applied to simulated fills
+export type CommissionModelType = 'NONE' | 'PER_SHARE' | 'PERCENTAGE';
+export type SpreadModelType = 'NONE' | 'QUOTE_RANGE';
+export type SlippageModelType = 'NONE' | 'VOLUME';
+
+// Per-portfolio execution cost settings
+export interface ExecutionCostSettings {
+  commissionModel: CommissionModelType;
+  commissionPerShare: number; // $ per share (PER_SHARE)
+  commissionPercent: number; // % of trade value (PERCENTAGE)
+  minimumCommission: number; // $ floor per trade, 0 = none
+  spreadModel: SpreadModelType;
+  spreadFactor: number; // Fraction of the day's high-low range used as the full bid/ask spread
+  maxSpreadBps: number; // Cap on the full spread in basis points
+  slippageModel: SlippageModelType;
+  baseSlippageBps: number; // Slippage applied to every fill
+  volumeImpactBps: number; // Extra slippage scaled by participation in daily volume
+  maxSlippageBps: number; // Cap on slippage in basis points
+}
+
+// Costs applied to a single fill
+export interface FillCosts {
+  referencePrice: number; // Price before spread and slippage
+  fillPrice: number; // Per-share price actually paid or received
+  spreadCost: number; // $ lost to crossing the bid/ask spread
+  slippageCost: number; // $ lost to market impact
+  commission: number; // $ commission charged
+}
+
 // Market condition awareness
 export interface MarketCondition {
   volatilityRegime: 'LOW' | 'MEDIUM' | 'HIGH' | 'EXTREME';
@@ -0,0 +1,66 @@
+// Target allocation and rebalancing types - target weights, drift and the trades that restore them
+export type AllocationGroupBy = 'SYMBOL' | 'SECTOR';
+
+export type RebalanceSchedule = 'OFF' | 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface AllocationTarget {
+  key: string;     // Symbol, or sector name when grouping by sector
+  weight: number;  // Percent of the investable value (total less the cash reserve)
+  symbol?: string; // Sector targets: what to buy while the sector holds nothing
+}
+
+export interface TargetAllocation {
+  groupBy: AllocationGroupBy;
+  targets: AllocationTarget[];
+  driftBand: number;          // Percentage points a bucket may drift before it is traded
+  cashReservePercent: number; // Share of total value held back as cash
+  minTradeAmount: number;     // Smaller trades are dropped from the plan
+  schedule: RebalanceSchedule;
+}
+
+export interface AllocationDrift {
+  key: string;
+  targetPercent: number;
+  currentPercent: number;
+  drift: number; // currentPercent - targetPercent
+  currentValue: number;
+  targetValue: number;
+  outOfBand: boolean;
+}
+
+export interface RebalanceTrade {
+  symbol: string;
+  bucket: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  amount: number;
+  lotSelections?: Array<{ lotId: number; quantity: number }>;
+  estimatedRealizedPnl?: number; // Sells only, from the lots selected
+}
+
+export interface RebalancePreview {
+  allocation: TargetAllocation;
+  totalValue: number;
+  investableValue: number;
+  cashBalance: number;
+  cashAfter: number;
+  drifts: AllocationDrift[];
+  trades: RebalanceTrade[];
+  maxDrift: number;
+  needsRebalance: boolean;
+  estimatedRealizedPnl: number;
+  warnings: string[];
+  lastRebalancedAt: Date | null;
+}
+
+export interface RebalanceFill extends RebalanceTrade {
+  transactionId?: string;
+  error?: string;
+}
+
+export interface RebalanceResult {
+  preview: RebalancePreview;
+  fills: RebalanceFill[];
+  executedAt: Date;
+}
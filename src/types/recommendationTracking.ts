@@ -0,0 +1,111 @@
+// Recommendation tracking types - every stored AI call and how the price actually moved afterwards
+
+export type RecommendationSource = 'ANALYZER' | 'UNIFIED' | 'TRADING_INTERFACE';
+
+export type OutcomeHorizon = 1 | 5 | 20; // Trading sessions after the recommendation
+
+export interface TrackedRecommendationInput {
+  source: RecommendationSource;
+  provider: string;             // gemini, groq, openai or fallback
+  model?: string | null;
+  promptVersion?: string | null;
+  symbol: string;
+  name?: string;
+  sector?: string | null;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  confidence: number;           // 0-100 as stated by the model
+  currentPrice: number;
+  targetPrice?: number | null;
+  expectedReturn?: number | null;
+  reasoning?: string;
+  riskLevel?: 'LOW' | 'MEDIUM' | 'HIGH';
+  timeframe?: 'SHORT' | 'MEDIUM' | 'LONG';
+  keyFactors?: string[];
+  generatedAt?: string;
+}
+
+export interface RecommendationOutcome {
+  horizonDays: OutcomeHorizon;
+  evaluationDate: string;
+  exitPrice: number;
+  returnPercent: number;
+  correct: boolean;
+  targetHit: boolean | null;
+}
+
+export interface TrackedRecommendation {
+  id: number;
+  source: RecommendationSource;
+  provider: string;
+  model: string | null;
+  symbol: string;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  confidence: number;
+  currentPrice: number;
+  targetPrice: number | null;
+  generatedAt: string;
+  outcomes: RecommendationOutcome[];
+}
+
+export interface HorizonAccuracy {
+  horizonDays: OutcomeHorizon;
+  evaluated: number;
+  hitRate: number;              // % of calls that moved the right way
+  averageReturn: number | null; // Mean BUY/SELL return in the recommended direction
+  targetHitRate: number | null; // % of BUY/SELL calls whose target traded within the horizon
+}
+
+export interface ConfidenceBandAccuracy {
+  band: 'HIGH' | 'MEDIUM' | 'LOW'; // 80-100, 60-79, 0-59
+  evaluated: number;
+  averageConfidence: number;
+  hitRate: number;
+}
+
+export interface RecommendationPerformance {
+  since: string;
+  totalRecommendations: number;
+  pendingRecommendations: number;      // Too recent for the shortest horizon
+  horizons: HorizonAccuracy[];
+  calibrationHorizon: OutcomeHorizon;  // Horizon used for the confidence bands
+  confidenceBands: ConfidenceBandAccuracy[];
+  recent: TrackedRecommendation[];
+}
+
+export interface ReliabilityBin {
+  minConfidence: number;        // Stated confidence range [min, max)
+  maxConfidence: number;
+  count: number;
+  averageConfidence: number;
+  hitRate: number;
+}
+
+export interface CalibrationSummary {
+  count: number;
+  hitRate: number;
+  averageConfidence: number;
+  brierScore: number | null;       // Mean (confidence/100 - outcome)²: 0 is perfect, 0.25 is always saying 50%
+  calibrationError: number | null; // Count-weighted |stated - actual| across bins, in percentage points
+  averageReturn: number | null;    // Mean BUY/SELL return in the recommended direction
+}
+
+export interface LeaderboardEntry extends CalibrationSummary {
+  key: string;                     // Provider or sector
+  ranked: boolean;                 // Enough outcomes to be ranked by Brier score
+}
+
+export interface CalibrationPoint {
+  raw: number;
+  calibrated: number;
+}
+
+export interface CalibrationReport {
+  since: string;
+  horizonDays: OutcomeHorizon;
+  source: RecommendationSource | null;
+  overall: CalibrationSummary;
+  reliability: ReliabilityBin[];
+  providers: LeaderboardEntry[];
+  sectors: LeaderboardEntry[];
+  curve: CalibrationPoint[];       // Rescaling the bot applies when calibration is on; empty until there is enough history
+}
@@ -54,7 +54,9 @@ export interface DailyInsight {
 export interface TradingSignal {
   symbol: string;
   signalType: 'BREAKOUT' | 'REVERSAL' | 'MOMENTUM' | 'VOLUME_SPIKE';
+  direction: 'BULLISH' | 'BEARISH';
   strength: number; // 0-100
+  price: number; // Close of the bar the signal fired on
   description: string;
   timeDetected: string;
 }
@@ -136,17 +138,49 @@ export interface TechnicalIndicators {
   resistance: number[];
 }
 
+/**
+ * User-defined alert rule, evaluated server-side. Supported type/condition pairs:
+ * - PRICE ABOVE/BELOW: last price crosses the threshold
+ * - PRICE CHANGE_PERCENT: day change reaches the threshold (negative thresholds watch for drops)
+ * - VOLUME ABOVE: session volume exceeds the threshold in shares
+ * - VOLUME VOLUME_SPIKE: volume reaches threshold times its 20-day average
+ * - NEWS ABOVE: at least threshold new articles since the rule last fired
+ * - RECOMMENDATION ABOVE/BELOW: a BUY/SELL recommendation with at least threshold confidence
+ * - SIGNAL ABOVE/BELOW: a bullish/bearish scanner signal with at least threshold strength
+ */
 export interface AlertConfig {
-  id: string;
-  type: 'PRICE' | 'VOLUME' | 'NEWS' | 'RECOMMENDATION';
-  symbol?: string;
+  id: number;
+  type: 'PRICE' | 'VOLUME' | 'NEWS' | 'RECOMMENDATION' | 'SIGNAL';
+  symbol?: string; // Optional for RECOMMENDATION and SIGNAL rules only
   condition: 'ABOVE' | 'BELOW' | 'CHANGE_PERCENT' | 'VOLUME_SPIKE';
   threshold: number;
   isActive: boolean;
   notificationMethod: 'PUSH' | 'EMAIL' | 'SMS';
+  recurring: boolean; // One-shot rules are deactivated once they fire
+  cooldownMinutes: number;
+  expiresAt: string | null;
+  lastTriggeredAt: string | null;
+  triggerCount: number;
   createdAt: string;
 }
 
+export type AlertConfigInput = Pick<AlertConfig, 'type' | 'condition' | 'threshold'> &
+  Partial<Pick<AlertConfig, 'symbol' | 'isActive' | 'notificationMethod' | 'recurring' | 'cooldownMinutes' | 'expiresAt'>>;
+
+// A rule firing, kept as history for the /alerts page
+export interface TriggeredAlert {
+  id: number;
+  ruleId: number | null;
+  symbol: string;
+  type: AlertConfig['type'];
+  condition: AlertConfig['condition'];
+  threshold: number;
+  value: number;
+  message: string;
+  isRead: boolean;
+  triggeredAt: string;
+}
+
 export interface UserPreferences {
   riskTolerance: 'CONSERVATIVE' | 'MODERATE' | 'AGGRESSIVE';
   investmentStyle: 'VALUE' | 'GROWTH' | 'MOMENTUM' | 'MIXED';
@@ -0,0 +1,58 @@
+// Recurring investment plan types - scheduled buys ("$200 into VOO every Monday") and their run history
+export type PlanFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type PlanRunStatus = 'COMPLETED' | 'PARTIAL' | 'SKIPPED' | 'FAILED';
+
+// Share of each run's amount that goes to a symbol; weights are relative, not percentages
+export interface PlanAllocation {
+  symbol: string;
+  weight: number;
+}
+
+export interface RecurringPlan {
+  id: number;
+  name: string;
+  amount: number;
+  allocations: PlanAllocation[];
+  frequency: PlanFrequency;
+  dayOfWeek: number | null;  // 0 = Sunday, for WEEKLY
+  dayOfMonth: number | null; // 1-28, for MONTHLY
+  depositAmount: number | null; // Simulated salary credited before each run
+  isActive: boolean;
+  nextRunAt: Date;
+  lastRunAt: Date | null;
+  createdAt: Date;
+}
+
+export interface PlanFill {
+  symbol: string;
+  targetAmount: number;
+  quantity: number;
+  price: number;
+  amount: number; // Cash spent, fees included
+  transactionId?: string;
+  error?: string;
+}
+
+export interface RecurringPlanRun {
+  id: number;
+  planId: number;
+  status: PlanRunStatus;
+  scheduledFor: Date;
+  depositAmount: number | null;
+  investedAmount: number;
+  fills: PlanFill[];
+  message: string | null;
+  executedAt: Date;
+}
+
+export interface RecurringPlanInput {
+  name: string;
+  amount: number;
+  allocations: PlanAllocation[];
+  frequency: PlanFrequency;
+  dayOfWeek?: number | null;
+  dayOfMonth?: number | null;
+  depositAmount?: number | null;
+  isActive?: boolean;
+}
@@ -0,0 +1,69 @@
+// Stock screener types - filterable snapshot rows for the index universe and saved screens
+export type ScreenerMetric =
+  | 'price'
+  | 'changePercent'
+  | 'volume'
+  | 'marketCap'
+  | 'peRatio'
+  | 'pbRatio'
+  | 'beta'
+  | 'week52Position'
+  | 'rsi'
+  | 'volumeRatio'
+  | 'priceVsSma50';
+
+export type ScreenerSortKey = ScreenerMetric | 'symbol';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export type ScreenerFilters = Partial<Record<ScreenerMetric, NumericRange>>;
+
+export interface ScreenCriteria {
+  filters: ScreenerFilters;
+  sectors?: string[]; // Empty or missing = every sector
+  sortBy?: ScreenerSortKey;
+  sortDirection?: SortDirection;
+  limit?: number;
+}
+
+// One symbol's metrics; null where the data source had nothing, and such rows fail any filter on that metric
+export interface ScreenerRow {
+  symbol: string;
+  name: string;
+  sector: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number | null;         // Latest session, from daily candles
+  marketCap: number | null;      // Millions, as Finnhub reports it
+  peRatio: number | null;
+  pbRatio: number | null;
+  beta: number | null;
+  high52: number | null;
+  low52: number | null;
+  week52Position: number | null; // 0 = at the 52-week low, 100 = at the high
+  rsi: number | null;
+  volumeRatio: number | null;    // Latest volume against its 20-day average
+  priceVsSma50: number | null;   // Percent above (+) or below (-) the 50-day average
+}
+
+export interface ScreenerResult {
+  rows: ScreenerRow[];
+  matched: number;        // Before the limit is applied
+  universeSize: number;
+  sectors: string[];      // Every sector in the universe, for filter pickers
+  failedSymbols: string[];
+  builtAt: Date;
+}
+
+export interface SavedScreen extends ScreenCriteria {
+  id: number;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,83 @@
+// Stock detail page types - chart candles, our own executions and order levels, and company data
+import type { AIRecommendation } from '@/services/aiAnalyzer';
+
+// Finnhub candle resolutions offered on the chart: minutes, then day, week and month
+export type ChartResolution = '5' | '15' | '60' | 'D' | 'W' | 'M';
+
+// One candle; time is the bar's start in UNIX seconds
+export interface ChartCandle {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// A fill from the active portfolio's transaction history
+export interface ChartExecution {
+  transactionId: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  price: number;
+  time: number; // UNIX seconds
+}
+
+export type OrderLevelKind = 'STOP' | 'TARGET' | 'TRAILING' | 'LIMIT';
+
+// A price an open order is waiting on, drawn as a horizontal line
+export interface OrderLevel {
+  orderId: string;
+  orderType: string;
+  kind: OrderLevelKind;
+  side: 'BUY' | 'SELL';
+  price: number;
+  quantity: number;
+}
+
+export interface StockFundamentals {
+  week52High: number | null;
+  week52Low: number | null;
+  peRatio: number | null;
+  pbRatio: number | null;
+  psRatio: number | null;
+  eps: number | null;
+  beta: number | null;
+  dividendYield: number | null;
+}
+
+export interface StockNewsItem {
+  headline: string;
+  summary: string;
+  source: string;
+  url: string;
+  datetime: number; // UNIX seconds
+}
+
+export interface StockDetail {
+  symbol: string;
+  profile: {
+    name: string;
+    industry: string | null;
+    exchange: string | null;
+    country: string | null;
+    currency: string;
+    logo: string | null;
+    website: string | null;
+    marketCap: number | null; // Millions
+  };
+  quote: {
+    price: number;
+    change: number;
+    changePercent: number;
+    dayHigh: number;
+    dayLow: number;
+    open: number;
+    previousClose: number;
+  } | null;
+  fundamentals: StockFundamentals;
+  news: StockNewsItem[];
+  recommendation: AIRecommendation | null; // Latest one we already have; fetching this never calls an AI provider
+  executions: ChartExecution[];
+  orderLevels: OrderLevel[];
+}
@@ -0,0 +1,80 @@
+// Strategy types - the contract between trading strategies and whatever replays or runs them
+import type { z } from 'zod';
+
+// One daily candle; dates are trading days as YYYY-MM-DD
+export interface PriceBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface StrategyPosition {
+  symbol: string;
+  quantity: number;
+  averagePrice: number;
+}
+
+export interface StrategyPortfolio {
+  cash: number;
+  totalValue: number;
+  positions: Record<string, StrategyPosition>;
+}
+
+// An outside opinion on a symbol, e.g. an AI recommendation; AIRecommendation satisfies this shape
+export interface StrategySignal {
+  symbol: string;
+  action: 'BUY' | 'SELL' | 'HOLD';
+  confidence: number; // 0-100
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+  currentPrice: number;
+  reasoning: string;
+}
+
+// What a strategy sees after the close of a trading day (or at a live bot scan)
+export interface StrategyContext {
+  date: string;
+  bars: Record<string, PriceBar[]>; // Per-symbol history up to and including date, oldest first
+  portfolio: StrategyPortfolio;
+  signals?: StrategySignal[]; // Only supplied to strategies that use signals
+}
+
+// A strategy's request to trade; sized in shares or in dollars, or left to the runner's position sizing
+export interface OrderIntent {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity?: number;
+  notional?: number;
+  confidence?: number; // 0-100; the live bot sizes and prioritizes unsized intents by it
+  orderType: 'MARKET' | 'LIMIT';
+  limitPrice?: number;
+  reason: string;
+}
+
+// Where a strategy can run: replayed by the backtester and/or by the live bot worker
+export type StrategyMode = 'backtest' | 'live';
+
+export interface Strategy<TConfig = unknown> {
+  id: string;
+  name: string;
+  description: string;
+  modes: StrategyMode[];
+  usesSignals: boolean;
+  configSchema: z.ZodType<TConfig>;
+  defaultConfig: TConfig;
+  onBar(context: StrategyContext, config: TConfig): OrderIntent[];
+}
+
+// One editable config field, derived from the strategy's config schema
+export interface StrategyParameter {
+  key: string;
+  type: 'number' | 'boolean' | 'select';
+  options?: string[];
+}
+
+// What clients need to pick a strategy and edit its parameters
+export interface StrategySummary extends Pick<Strategy, 'id' | 'name' | 'description' | 'modes' | 'usesSignals' | 'defaultConfig'> {
+  parameters: StrategyParameter[];
+}
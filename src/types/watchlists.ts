@@ -0,0 +1,37 @@
+// Watchlist types - named symbol lists with per-symbol notes, tags and price alert levels
+export interface WatchlistItem {
+  id: number;
+  watchlistId: number;
+  symbol: string;
+  notes: string | null;
+  tags: string[];
+  alertAbove: number | null; // PRICE_TARGET_HIT alert when the price rises to this level; cleared once it fires
+  alertBelow: number | null; // ...or falls to this one
+  addedAt: Date;
+}
+
+export interface Watchlist {
+  id: number;
+  name: string;
+  items: WatchlistItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Slow-moving reference data for a watched symbol; live prices come from realTimePriceService
+export interface WatchlistSymbolInfo {
+  symbol: string;
+  name: string;
+  week52High: number | null;
+  week52Low: number | null;
+}
+
+export interface WatchlistItemInput {
+  symbol: string;
+  notes?: string | null;
+  tags?: string[];
+  alertAbove?: number | null;
+  alertBelow?: number | null;
+}
+
+export type WatchlistItemUpdate = Partial<Omit<WatchlistItemInput, 'symbol'>>;
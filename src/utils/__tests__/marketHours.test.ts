@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getMarketClose,
+  getMarketOpenOnOrAfter,
+  getNextMarketOpen,
+  getTradingDate,
+  getTradingDateStart,
+  isAfterMarketClose,
+  isMarketOpen,
+  isTradingDay
+} from '@/utils/marketHours';
+
+// 2026-10-19 is a Monday in EDT (UTC-4); 2026-01-15 is a Thursday in EST (UTC-5)
+const at = (iso: string) => new Date(iso);
+
+describe('isMarketOpen', () => {
+  it('opens at 9:30 ET and closes at 16:00 ET', () => {
+    expect(isMarketOpen(at('2026-10-19T13:29:00Z'))).toBe(false);
+    expect(isMarketOpen(at('2026-10-19T13:30:00Z'))).toBe(true);
+    expect(isMarketOpen(at('2026-10-19T19:59:00Z'))).toBe(true);
+    expect(isMarketOpen(at('2026-10-19T20:00:00Z'))).toBe(false);
+  });
+
+  it('follows the winter offset', () => {
+    expect(isMarketOpen(at('2026-01-15T14:29:00Z'))).toBe(false);
+    expect(isMarketOpen(at('2026-01-15T14:30:00Z'))).toBe(true);
+    expect(isMarketOpen(at('2026-01-15T21:00:00Z'))).toBe(false);
+  });
+
+  it('is closed at weekends', () => {
+    expect(isMarketOpen(at('2026-10-17T15:00:00Z'))).toBe(false);
+    expect(isTradingDay(at('2026-10-18T15:00:00Z'))).toBe(false);
+  });
+});
+
+describe('isAfterMarketClose', () => {
+  it('is true from the close until midnight ET on trading days only', () => {
+    expect(isAfterMarketClose(at('2026-10-19T19:59:00Z'))).toBe(false);
+    expect(isAfterMarketClose(at('2026-10-19T20:00:00Z'))).toBe(true);
+    expect(isAfterMarketClose(at('2026-10-17T22:00:00Z'))).toBe(false);
+  });
+});
+
+describe('getTradingDate and getTradingDateStart', () => {
+  it('uses the Eastern calendar date, not UTC', () => {
+    expect(getTradingDate(at('2026-10-20T03:30:00Z'))).toBe('2026-10-19');
+    expect(getTradingDate(at('2026-10-20T04:00:00Z'))).toBe('2026-10-20');
+  });
+
+  it('starts the trading date at midnight ET', () => {
+    expect(getTradingDateStart(at('2026-10-20T03:30:00Z')).toISOString()).toBe('2026-10-19T04:00:00.000Z');
+    expect(getTradingDateStart(at('2026-01-15T16:00:00Z')).toISOString()).toBe('2026-01-15T05:00:00.000Z');
+  });
+});
+
+describe('session boundaries', () => {
+  it('returns the current close during the session and the next one after it', () => {
+    expect(getMarketClose(at('2026-10-19T15:00:00Z')).toISOString()).toBe('2026-10-19T20:00:00.000Z');
+    expect(getMarketClose(at('2026-10-19T21:00:00Z')).toISOString()).toBe('2026-10-20T20:00:00.000Z');
+  });
+
+  it('skips the weekend for the next open', () => {
+    expect(getNextMarketOpen(at('2026-10-16T21:00:00Z')).toISOString()).toBe('2026-10-19T13:30:00.000Z');
+    expect(getMarketOpenOnOrAfter('2026-10-17').toISOString()).toBe('2026-10-19T13:30:00.000Z');
+  });
+});
@@ -0,0 +1,121 @@
+// US equity market session helpers (NYSE/NASDAQ regular hours, 9:30 AM - 4:00 PM ET, weekdays)
+// Exchange holidays are not modelled.
+
+const MARKET_TIMEZONE = 'America/New_York';
+const MARKET_OPEN_MINUTES = 9 * 60 + 30;
+const MARKET_CLOSE_MINUTES = 16 * 60;
+
+/**
+ * Wall-clock Eastern time for an instant (fields read with getHours() etc.)
+ */
+export function toEasternTime(date: Date = new Date()): Date {
+  return new Date(date.toLocaleString('en-US', { timeZone: MARKET_TIMEZONE }));
+}
+
+/**
+ * Convert an Eastern wall-clock time back to a real instant
+ */
+function fromEasternTime(easternWallTime: Date, reference: Date): Date {
+  const offset = toEasternTime(reference).getTime() - Math.floor(reference.getTime() / 1000) * 1000;
+  return new Date(easternWallTime.getTime() - offset);
+}
+
+function isWeekday(easternTime: Date): boolean {
+  const day = easternTime.getDay();
+  return day >= 1 && day <= 5;
+}
+
+function minutesOfDay(easternTime: Date): number {
+  return easternTime.getHours() * 60 + easternTime.getMinutes();
+}
+
+function atMinutes(easternTime: Date, minutes: number): Date {
+  const result = new Date(easternTime);
+  result.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return result;
+}
+
+/**
+ * Trading date (YYYY-MM-DD) in Eastern time
+ */
+export function getTradingDate(date: Date = new Date()): string {
+  const et = toEasternTime(date);
+  const month = String(et.getMonth() + 1).padStart(2, '0');
+  const day = String(et.getDate()).padStart(2, '0');
+  return `${et.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Midnight Eastern time starting the instant's trading date, for "today" queries
+ */
+export function getTradingDateStart(date: Date = new Date()): Date {
+  return fromEasternTime(atMinutes(toEasternTime(date), 0), date);
+}
+
+export function isTradingDay(date: Date = new Date()): boolean {
+  return isWeekday(toEasternTime(date));
+}
+
+/**
+ * Whether the regular session is open at the given instant
+ */
+export function isMarketOpen(date: Date = new Date()): boolean {
+  const et = toEasternTime(date);
+  const minutes = minutesOfDay(et);
+  return isWeekday(et) && minutes >= MARKET_OPEN_MINUTES && minutes < MARKET_CLOSE_MINUTES;
+}
+
+/**
+ * Whether today's regular session has already closed (false on non-trading days)
+ */
+export function isAfterMarketClose(date: Date = new Date()): boolean {
+  const et = toEasternTime(date);
+  return isWeekday(et) && minutesOfDay(et) >= MARKET_CLOSE_MINUTES;
+}
+
+/**
+ * Close of the current session, or of the next session when the market has already closed
+ */
+export function getMarketClose(date: Date = new Date()): Date {
+  let et = toEasternTime(date);
+
+  if (!isWeekday(et) || minutesOfDay(et) >= MARKET_CLOSE_MINUTES) {
+    et = atMinutes(et, 0);
+    do {
+      et.setDate(et.getDate() + 1);
+    } while (!isWeekday(et));
+  }
+
+  return fromEasternTime(atMinutes(et, MARKET_CLOSE_MINUTES), date);
+}
+
+/**
+ * Next session open strictly after the given instant
+ */
+export function getNextMarketOpen(date: Date = new Date()): Date {
+  let et = toEasternTime(date);
+
+  if (!isWeekday(et) || minutesOfDay(et) >= MARKET_OPEN_MINUTES) {
+    et = atMinutes(et, 0);
+    do {
+      et.setDate(et.getDate() + 1);
+    } while (!isWeekday(et));
+  }
+
+  return fromEasternTime(atMinutes(et, MARKET_OPEN_MINUTES), date);
+}
+
+/**
+ * Open of the first session on or after a trading date (YYYY-MM-DD)
+ */
+export function getMarketOpenOnOrAfter(tradingDate: string): Date {
+  const [year, month, day] = tradingDate.split('-').map(Number);
+  const et = new Date(year, month - 1, day);
+
+  while (!isWeekday(et)) {
+    et.setDate(et.getDate() + 1);
+  }
+
+  const open = atMinutes(et, MARKET_OPEN_MINUTES);
+  return fromEasternTime(open, open);
+}
@@ -23,6 +23,496 @@ export const tradeSchema = z.object({
     .max(100000, 'Price too high'),
 });
 
+// Advanced order validation (mirrors AdvancedOrder in src/types/orders.ts)
+const positivePrice = z.number().positive('Price must be positive').max(100000, 'Price too high');
+
+const baseOrderSchema = z.object({
+  symbol: stockSymbolSchema,
+  quantity: z.number()
+    .positive('Quantity must be positive')
+    .max(10000, 'Quantity too large'),
+  expiresAt: z.coerce.date().optional(),
+  timeInForce: z.enum(['DAY', 'GTC', 'IOC', 'FOK']).optional(),
+  parentOrderId: z.string().max(100).optional(),
+});
+
+export const stopLossOrderSchema = baseOrderSchema.extend({
+  type: z.literal('STOP_LOSS'),
+  side: z.literal('SELL'),
+  stopPrice: positivePrice,
+  triggerPrice: positivePrice,
+  percentage: z.number().min(0).max(100).optional(),
+  timeBasedExpiry: z.coerce.date().optional(),
+});
+
+export const takeProfitOrderSchema = baseOrderSchema.extend({
+  type: z.literal('TAKE_PROFIT'),
+  side: z.literal('SELL'),
+  targetPrice: positivePrice,
+  profitPercentage: z.number().min(0).max(1000),
+});
+
+export const advancedOrderSchema = z.discriminatedUnion('type', [
+  baseOrderSchema.extend({
+    type: z.literal('MARKET'),
+    side: z.enum(['BUY', 'SELL']),
+    price: positivePrice,
+  }),
+  baseOrderSchema.extend({
+    type: z.literal('LIMIT'),
+    side: z.enum(['BUY', 'SELL']),
+    limitPrice: positivePrice,
+  }),
+  baseOrderSchema.extend({
+    type: z.literal('STOP_LIMIT'),
+    side: z.enum(['BUY', 'SELL']),
+    stopPrice: positivePrice,
+    limitPrice: positivePrice,
+  }),
+  stopLossOrderSchema,
+  takeProfitOrderSchema,
+  baseOrderSchema.extend({
+    type: z.literal('TRAILING_STOP'),
+    side: z.literal('SELL'),
+    trailAmount: z.number().positive('Trail amount must be positive'),
+    trailType: z.enum(['AMOUNT', 'PERCENTAGE']),
+    highWaterMark: positivePrice,
+    currentStopPrice: positivePrice,
+  }),
+  baseOrderSchema.extend({
+    type: z.literal('OCO'),
+    stopLossOrder: stopLossOrderSchema,
+    takeProfitOrder: takeProfitOrderSchema,
+  }),
+]);
+
+export const createOrdersSchema = z.object({
+  orders: z.array(advancedOrderSchema)
+    .min(1, 'At least one order is required')
+    .max(20, 'Too many orders at once'),
+});
+
+// Tax-lot validation
+export const lotReliefMethodSchema = z.enum(['FIFO', 'LIFO', 'HIFO']);
+
+export const lotSelectionsSchema = z.array(z.object({
+  lotId: z.number().int().positive(),
+  quantity: z.number().positive('Lot quantity must be positive'),
+})).max(100, 'Too many lots selected');
+
+// Execution cost settings validation (partial updates)
+export const executionCostSettingsSchema = z.object({
+  commissionModel: z.enum(['NONE', 'PER_SHARE', 'PERCENTAGE']),
+  commissionPerShare: z.number().min(0).max(1, 'Per-share commission too high'),
+  commissionPercent: z.number().min(0).max(5, 'Commission percent too high'),
+  minimumCommission: z.number().min(0).max(100, 'Minimum commission too high'),
+  spreadModel: z.enum(['NONE', 'QUOTE_RANGE']),
+  spreadFactor: z.number().min(0).max(1),
+  maxSpreadBps: z.number().min(0).max(1000),
+  slippageModel: z.enum(['NONE', 'VOLUME']),
+  baseSlippageBps: z.number().min(0).max(1000),
+  volumeImpactBps: z.number().min(0).max(1000),
+  maxSlippageBps: z.number().min(0).max(1000),
+}).partial();
+
+// Portfolio management validation
+export const portfolioNameSchema = z.string()
+  .trim()
+  .min(1, 'Portfolio name is required')
+  .max(100, 'Portfolio name too long')
+  .transform(sanitizeString);
+
+export const createPortfolioSchema = z.object({
+  name: portfolioNameSchema,
+  initialCash: z.number()
+    .positive('Starting cash must be positive')
+    .max(10000000, 'Starting cash too high')
+    .optional(),
+  activate: z.boolean().optional(),
+});
+
+export const updatePortfolioSchema = z.object({
+  name: portfolioNameSchema.optional(),
+  isArchived: z.boolean().optional(),
+}).refine(data => data.name !== undefined || data.isArchived !== undefined, {
+  message: 'Nothing to update',
+});
+
+// Trading bot configuration validation (whole sections are replaced on update)
+export const tradingBotConfigSchema = z.object({
+  enabled: z.boolean(),
+  intervals: z.object({
+    scanning: z.number().int().min(1).max(1440),
+    execution: z.number().int().min(30, 'Execution spacing must be at least 30 seconds').max(3600),
+  }),
+  aiThresholds: z.object({
+    minimumConfidence: z.number().min(0).max(100),
+    riskLevelsEnabled: z.array(z.enum(['LOW', 'MEDIUM', 'HIGH'])),
+    calibrateConfidence: z.boolean().optional(),
+  }),
+  riskManagement: z.object({
+    maxPositionSize: z.number().min(0).max(100),
+    maxDailyTrades: z.number().int().min(0).max(100),
+    maxDailyAmount: z.number().min(0).max(10000000),
+    stopLossPercent: z.number().min(0).max(100),
+    takeProfitPercent: z.number().min(0).max(1000),
+    maxPortfolioDrawdown: z.number().min(0).max(100),
+  }),
+  marketConditions: z.object({
+    tradingHoursOnly: z.boolean(),
+    avoidHighVolatility: z.boolean(),
+    minimumLiquidity: z.number().min(0),
+  }),
+  preferences: z.object({
+    diversificationTarget: z.number().int().min(1).max(100),
+    cashReservePercent: z.number().min(0).max(100),
+    rebalancingEnabled: z.boolean(),
+  }),
+  strategy: z.object({
+    id: z.string().min(1).max(50),
+    symbols: z.array(stockSymbolSchema).max(20, 'Too many symbols'),
+    config: z.record(z.unknown()),
+  }),
+}).partial();
+
+const botNameSchema = z.string()
+  .trim()
+  .min(1, 'Bot name is required')
+  .max(100, 'Bot name too long')
+  .transform(sanitizeString);
+
+const botBudgetSchema = z.number()
+  .positive('Budget must be positive')
+  .max(10000000, 'Budget too high')
+  .nullable();
+
+export const createTradingBotSchema = z.object({
+  name: botNameSchema,
+  budget: botBudgetSchema.optional(),
+  config: tradingBotConfigSchema.optional(),
+});
+
+export const updateTradingBotSchema = z.object({
+  name: botNameSchema.optional(),
+  budget: botBudgetSchema.optional(),
+}).refine(data => data.name !== undefined || data.budget !== undefined, {
+  message: 'Nothing to update',
+});
+
+// Target allocation validation (mirrors TargetAllocation in src/types/rebalancing.ts)
+export const targetAllocationSchema = z.object({
+  groupBy: z.enum(['SYMBOL', 'SECTOR']),
+  targets: z.array(z.object({
+    key: z.string().min(1).max(50).transform(sanitizeString),
+    weight: z.number().min(0).max(100),
+    symbol: stockSymbolSchema.optional(),
+  })).max(50, 'Too many targets'),
+  driftBand: z.number().min(0.5).max(50),
+  cashReservePercent: z.number().min(0).max(90),
+  minTradeAmount: z.number().min(0).max(100000),
+  schedule: z.enum(['OFF', 'DAILY', 'WEEKLY', 'MONTHLY']),
+}).partial()
+  .refine(data => !data.targets || data.targets.reduce((sum, target) => sum + target.weight, 0) <= 100.0001, {
+    message: 'Target weights cannot add up to more than 100%',
+    path: ['targets'],
+  })
+  .refine(data => !data.targets || new Set(data.targets.map(target => target.key)).size === data.targets.length, {
+    message: 'Each target can only appear once',
+    path: ['targets'],
+  });
+
+// Recurring plan validation
+const recurringPlanFields = z.object({
+  name: z.string()
+    .min(1, 'Plan name is required')
+    .max(100, 'Plan name too long')
+    .transform(sanitizeString),
+  amount: z.number()
+    .positive('Amount must be positive')
+    .max(1000000, 'Amount too high'),
+  allocations: z.array(z.object({
+    symbol: stockSymbolSchema,
+    weight: z.number().positive('Weight must be positive').max(100),
+  }))
+    .min(1, 'At least one symbol is required')
+    .max(20, 'Too many symbols'),
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']),
+  dayOfWeek: z.number().int().min(0).max(6).nullable().optional(),
+  dayOfMonth: z.number().int().min(1).max(28, 'Day of month must be 1-28').nullable().optional(),
+  depositAmount: z.number()
+    .positive('Deposit must be positive')
+    .max(1000000, 'Deposit too high')
+    .nullable()
+    .optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const recurringPlanSchema = recurringPlanFields
+  .refine(data => data.frequency !== 'WEEKLY' || typeof data.dayOfWeek === 'number', {
+    message: 'Weekly plans need a day of the week',
+    path: ['dayOfWeek'],
+  })
+  .refine(data => data.frequency !== 'MONTHLY' || typeof data.dayOfMonth === 'number', {
+    message: 'Monthly plans need a day of the month',
+    path: ['dayOfMonth'],
+  })
+  .refine(data => new Set(data.allocations.map(allocation => allocation.symbol)).size === data.allocations.length, {
+    message: 'Each symbol can only appear once',
+    path: ['allocations'],
+  });
+
+// Partial updates are merged onto the stored plan and checked against recurringPlanSchema
+export const updateRecurringPlanSchema = recurringPlanFields.partial();
+
+// Backtest validation
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+export const backtestRiskSettingsSchema = z.object({
+  maxPositionSize: z.number().min(1).max(100),
+  maxDailyTrades: z.number().int().min(1).max(100),
+  stopLossPercent: z.number().min(0).max(90),
+  takeProfitPercent: z.number().min(0).max(1000),
+  trailingStopPercent: z.number().min(0).max(90),
+  cashReservePercent: z.number().min(0).max(90),
+}).partial();
+
+export const backtestRequestSchema = z.object({
+  strategy: z.string().min(1).max(50),
+  strategyConfig: z.record(z.unknown()).optional(),
+  symbols: z.array(stockSymbolSchema)
+    .min(1, 'At least one symbol is required')
+    .max(10, 'Too many symbols'),
+  startDate: isoDateSchema,
+  endDate: isoDateSchema,
+  initialCash: z.number()
+    .positive('Starting cash must be positive')
+    .max(10000000, 'Starting cash too high')
+    .optional(),
+  benchmarkSymbol: stockSymbolSchema.optional(),
+  dataSource: z.enum(['finnhub', 'fixtures']).optional(),
+  risk: backtestRiskSettingsSchema.optional(),
+  executionCosts: executionCostSettingsSchema.optional(),
+}).refine(data => data.startDate < data.endDate, {
+  message: 'Start date must be before end date',
+});
+
+// Screener validation
+const numericRangeSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+}).refine(range => range.min === undefined || range.max === undefined || range.min <= range.max, {
+  message: 'Minimum must not exceed maximum',
+});
+
+const screenerMetricSchema = z.enum([
+  'price', 'changePercent', 'volume', 'marketCap', 'peRatio', 'pbRatio',
+  'beta', 'week52Position', 'rsi', 'volumeRatio', 'priceVsSma50',
+]);
+
+export const screenCriteriaSchema = z.object({
+  filters: z.record(screenerMetricSchema, numericRangeSchema),
+  sectors: z.array(z.string().min(1).max(100)).max(50).optional(),
+  sortBy: z.union([screenerMetricSchema, z.literal('symbol')]).optional(),
+  sortDirection: z.enum(['asc', 'desc']).optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+});
+
+export const savedScreenSchema = screenCriteriaSchema.extend({
+  name: z.string().trim().min(1, 'Screen name is required').max(100, 'Screen name too long'),
+});
+
+export const updateSavedScreenSchema = savedScreenSchema.partial();
+
+export const screenerAnalysisSchema = z.object({
+  symbols: z.array(stockSymbolSchema)
+    .min(1, 'Select at least one symbol')
+    .max(10, 'Analyze at most 10 symbols at a time'),
+});
+
+// Watchlist validation
+export const watchlistSchema = z.object({
+  name: z.string().trim().min(1, 'Watchlist name is required').max(100, 'Watchlist name too long').transform(sanitizeString),
+});
+
+const priceLevelSchema = z.number().positive('Alert price must be positive').nullable();
+
+const watchlistItemFields = z.object({
+  symbol: stockSymbolSchema,
+  notes: z.string().max(1000, 'Notes too long').transform(sanitizeString).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(30, 'Tag too long').transform(sanitizeString))
+    .max(10, 'Too many tags')
+    .optional(),
+  alertAbove: priceLevelSchema.optional(),
+  alertBelow: priceLevelSchema.optional(),
+});
+
+const alertLevelsInOrder = (item: { alertAbove?: number | null; alertBelow?: number | null }) =>
+  typeof item.alertAbove !== 'number' || typeof item.alertBelow !== 'number' || item.alertBelow < item.alertAbove;
+
+export const watchlistItemSchema = watchlistItemFields.refine(alertLevelsInOrder, {
+  message: 'The lower alert price must be below the upper one',
+  path: ['alertBelow'],
+});
+
+// The symbol identifies the item, so it cannot be changed
+export const updateWatchlistItemSchema = watchlistItemFields.omit({ symbol: true }).partial().refine(alertLevelsInOrder, {
+  message: 'The lower alert price must be below the upper one',
+  path: ['alertBelow'],
+});
+
+export const watchlistAnalysisSchema = z.object({
+  symbol: stockSymbolSchema,
+});
+
+// Alert rule validation
+const ALERT_CONDITIONS: Record<string, string[]> = {
+  PRICE: ['ABOVE', 'BELOW', 'CHANGE_PERCENT'],
+  VOLUME: ['ABOVE', 'VOLUME_SPIKE'],
+  NEWS: ['ABOVE'],
+  RECOMMENDATION: ['ABOVE', 'BELOW'],
+  SIGNAL: ['ABOVE', 'BELOW'],
+};
+
+const alertRuleFields = z.object({
+  type: z.enum(['PRICE', 'VOLUME', 'NEWS', 'RECOMMENDATION', 'SIGNAL']),
+  symbol: stockSymbolSchema.nullable().optional(),
+  condition: z.enum(['ABOVE', 'BELOW', 'CHANGE_PERCENT', 'VOLUME_SPIKE']),
+  threshold: z.number().finite('Threshold must be a number'),
+  isActive: z.boolean().optional(),
+  notificationMethod: z.enum(['PUSH', 'EMAIL', 'SMS']).optional(),
+  recurring: z.boolean().optional(),
+  cooldownMinutes: z.number().int().min(0, 'Cooldown cannot be negative').max(10080, 'Cooldown must be at most a week').optional(),
+  expiresAt: z.string().datetime({ offset: true, message: 'Invalid expiry date' }).nullable().optional(),
+});
+
+export const alertRuleSchema = alertRuleFields
+  .refine(data => ALERT_CONDITIONS[data.type].includes(data.condition), {
+    message: 'This condition is not available for this alert type',
+    path: ['condition'],
+  })
+  .refine(data => data.type === 'RECOMMENDATION' || data.type === 'SIGNAL' || !!data.symbol, {
+    message: 'Symbol is required',
+    path: ['symbol'],
+  })
+  .refine(data => data.condition === 'CHANGE_PERCENT' ? data.threshold !== 0 : data.threshold > 0, {
+    message: 'Threshold must be positive (or non-zero for percent changes)',
+    path: ['threshold'],
+  })
+  .refine(data => data.type !== 'RECOMMENDATION' || data.threshold <= 100, {
+    message: 'Confidence threshold must be at most 100',
+    path: ['threshold'],
+  })
+  .refine(data => data.type !== 'SIGNAL' || data.threshold <= 100, {
+    message: 'Strength threshold must be at most 100',
+    path: ['threshold'],
+  });
+
+// Partial updates are merged onto the stored rule and checked against alertRuleSchema
+export const updateAlertRuleSchema = alertRuleFields.partial();
+
+export const markAlertsReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).max(500).optional(),
+});
+
+// Notification channel validation
+const httpUrlSchema = z.string().url('Invalid URL').max(500).refine(url => /^https?:\/\//.test(url), 'URL must start with http:// or https://');
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const timeOfDaySchema = z.string().regex(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format');
+
+const CHANNEL_CONFIG_SCHEMAS = {
+  EMAIL: z.object({ to: z.string().email('Invalid email address') }),
+  WEBHOOK: z.object({ url: httpUrlSchema, secret: z.string().min(16, 'Secret must be at least 16 characters').max(200) }),
+  TELEGRAM: z.object({
+    botToken: z.string().regex(/^\d+:[\w-]+$/, 'Invalid bot token'),
+    chatId: z.string().regex(/^-?\d+$|^@\w+$/, 'Chat id must be numeric or @channel'),
+  }),
+  NTFY: z.object({
+    serverUrl: httpUrlSchema,
+    topic: z.string().regex(/^[\w-]{1,64}$/, 'Topic may only contain letters, numbers, _ and -'),
+    token: z.string().max(200).optional(),
+  }),
+  GOTIFY: z.object({ serverUrl: httpUrlSchema, appToken: z.string().min(1, 'App token is required').max(200) }),
+};
+
+const notificationChannelFields = z.object({
+  type: z.enum(['EMAIL', 'WEBHOOK', 'TELEGRAM', 'NTFY', 'GOTIFY']),
+  name: z.string().trim().min(1, 'Channel name is required').max(100, 'Channel name too long').transform(sanitizeString),
+  config: z.record(z.string(), z.string().max(500)),
+  minPriority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']).optional(),
+  quietHoursStart: timeOfDaySchema.nullable().optional(),
+  quietHoursEnd: timeOfDaySchema.nullable().optional(),
+  timeZone: z.string().max(64).refine(isValidTimeZone, 'Unknown time zone').optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const notificationChannelSchema = notificationChannelFields
+  .superRefine((data, ctx) => {
+    const result = CHANNEL_CONFIG_SCHEMAS[data.type].strict().safeParse(data.config);
+    if (!result.success) {
+      result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ['config', ...issue.path] }));
+    }
+  })
+  .refine(data => !data.quietHoursStart === !data.quietHoursEnd, {
+    message: 'Quiet hours need both a start and an end',
+    path: ['quietHoursEnd'],
+  });
+
+// Partial updates are merged onto the stored channel and checked against notificationChannelSchema
+export const updateNotificationChannelSchema = notificationChannelFields.partial();
+
+export const outboundNotificationSchema = z.object({
+  title: z.string().trim().min(1).max(200).transform(sanitizeString),
+  message: z.string().trim().min(1).max(2000),
+  priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT']),
+  symbol: stockSymbolSchema.optional(),
+  dedupeKey: z.string().trim().min(1).max(200).optional(),
+});
+
+// Digest validation
+export const generateDigestSchema = z.object({
+  period: z.enum(['DAILY', 'WEEKLY']),
+  deliver: z.boolean().optional(),
+});
+
+export const digestPreferencesSchema = z.object({
+  dailyDigest: z.boolean(),
+  tradeAlerts: z.boolean(),
+  marketNews: z.boolean(),
+  performanceReports: z.boolean(),
+}).partial();
+
+// Recommendation tracking validation
+export const trackedRecommendationSchema = z.object({
+  source: z.enum(['UNIFIED', 'TRADING_INTERFACE']), // ANALYZER recommendations are only recorded server-side
+  provider: z.enum(['gemini', 'groq', 'openai']),
+  model: z.string().max(50).nullable().optional(),
+  promptVersion: z.string().max(20).nullable().optional(),
+  symbol: stockSymbolSchema,
+  name: z.string().max(255).optional(),
+  sector: z.string().max(100).nullable().optional(),
+  action: z.enum(['BUY', 'SELL', 'HOLD']),
+  confidence: z.number().min(0).max(100),
+  currentPrice: z.number().positive().max(1000000),
+  targetPrice: z.number().positive().max(1000000).nullable().optional(),
+  expectedReturn: z.number().min(-1000).max(1000).nullable().optional(),
+  reasoning: z.string().max(5000).optional(),
+  riskLevel: z.enum(['LOW', 'MEDIUM', 'HIGH']).optional(),
+  timeframe: z.enum(['SHORT', 'MEDIUM', 'LONG']).optional(),
+  keyFactors: z.array(z.string().max(500)).max(20).optional(),
+});
+
+export const trackRecommendationsSchema = z.object({
+  recommendations: z.array(trackedRecommendationSchema).min(1).max(20),
+});
+
 // Alert settings validation
 export const alertSettingsSchema = z.object({
   enabled: z.boolean(),
@@ -36,11 +526,12 @@ export const alertSettingsSchema = z.object({
     priceTargetHit: z.boolean(),
     volatilitySpike: z.boolean(),
     portfolioRebalance: z.boolean(),
+    technicalSignals: z.boolean(),
   }),
   notificationSettings: z.object({
     browser: z.boolean(),
     sound: z.boolean(),
-    email: z.boolean(),
+    serverChannels: z.boolean(),
   }),
   monitoringInterval: z.number()
     .min(5, 'Monitoring interval must be at least 5 minutes')